@@ -0,0 +1,257 @@
+import React from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Select } from '@/components/ui/primitives';
+import type { FullProposal, BudgetItem, CostCategory } from '../types/proposal';
+import type { ActualCostRules } from '../types/funding-scheme';
+import { COST_CATEGORIES, UNASSIGNED_PARTNER, actualCostSummary, fundingRateFor, itemCost } from '../utils/actual-cost';
+
+interface ActualCostBudgetEditorProps {
+    proposal: FullProposal;
+    rules: ActualCostRules;
+    formatCurrency: (amount: number) => string;
+    onChange: (fields: Partial<FullProposal>) => void;
+}
+
+const FUNDING_RATES = [100, 70];
+
+const parseNumber = (value: string) => {
+    const parsed = parseFloat(value.replace(/[^0-9.,-]/g, '').replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/** Horizon Europe budget: cost lines per partner and category, summarised in the Part A layout */
+export function ActualCostBudgetEditor({ proposal, rules, formatCurrency, onChange }: ActualCostBudgetEditorProps) {
+    const budget = proposal.budget || [];
+    const partners = (proposal.partners || []).map(p => p.name).filter(Boolean);
+    const { rows, total } = actualCostSummary(proposal, rules);
+    const rates = Array.from(new Set([...FUNDING_RATES, rules.fundingRate, ...(rules.forProfitFundingRate ? [rules.forProfitFundingRate] : [])]));
+
+    const updateItem = (index: number, patch: Partial<BudgetItem>) => {
+        const newBudget = budget.map((item, i) => {
+            if (i !== index) return item;
+            const updated = { ...item, ...patch };
+            return { ...updated, cost: itemCost(updated) };
+        });
+        onChange({ budget: newBudget });
+    };
+
+    const addItem = (partner: string) => {
+        const newItem: BudgetItem = {
+            item: 'Researcher',
+            description: '',
+            cost: 0,
+            partner: partner || undefined,
+            category: 'personnel',
+            personMonths: 0,
+            monthlyRate: 0,
+        };
+        onChange({ budget: [...budget, newItem] });
+    };
+
+    const removeItem = (index: number) => {
+        onChange({ budget: budget.filter((_, i) => i !== index) });
+    };
+
+    const setFundingRate = (partner: string, rate: number) => {
+        onChange({ fundingRates: { ...proposal.fundingRates, [partner]: rate } });
+    };
+
+    const setCategory = (index: number, category: CostCategory) => {
+        const item = budget[index];
+        // Personnel lines start from the current cost as one person-month
+        updateItem(index, category === 'personnel'
+            ? { category, personMonths: item.personMonths ?? 1, monthlyRate: item.monthlyRate ?? item.cost ?? 0 }
+            : { category, personMonths: undefined, monthlyRate: undefined });
+    };
+
+    const partnerLabel = (name: string) => name === UNASSIGNED_PARTNER ? 'Unassigned' : proposal.partners?.find(p => p.name === name)?.acronym || name;
+
+    return (
+        <div className="space-y-6">
+            {/* Part A summary */}
+            <Card className="bg-card/30 border-border/40 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead className="bg-secondary/50">
+                            <tr>
+                                <th className="text-left py-3 px-3 font-medium text-muted-foreground">Participant</th>
+                                {COST_CATEGORIES.map(c => (
+                                    <th key={c.key} className="text-right py-3 px-3 font-medium text-muted-foreground" title={c.label}>{c.code}</th>
+                                ))}
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground" title={`Indirect costs (${rules.indirectRate}% flat rate)`}>E</th>
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground" title="Total eligible costs">F</th>
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">Rate</th>
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">Max. EU contribution</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border/20">
+                            {rows.map(row => (
+                                <tr key={row.partner} className={row.partner === UNASSIGNED_PARTNER ? 'text-amber-400' : ''}>
+                                    <td className="py-2 px-3 font-medium">{partnerLabel(row.partner)}</td>
+                                    {COST_CATEGORIES.map(c => (
+                                        <td key={c.key} className="py-2 px-3 text-right font-mono">{formatCurrency(row.categories[c.key])}</td>
+                                    ))}
+                                    <td className="py-2 px-3 text-right font-mono">{formatCurrency(row.indirect)}</td>
+                                    <td className="py-2 px-3 text-right font-mono font-medium">{formatCurrency(row.total)}</td>
+                                    <td className="py-2 px-3 text-right font-mono">{row.fundingRate}%</td>
+                                    <td className="py-2 px-3 text-right font-mono">{formatCurrency(row.euContribution)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="bg-primary/5 font-bold border-t-2 border-primary/20">
+                            <tr>
+                                <td className="py-3 px-3 text-primary">Total</td>
+                                {COST_CATEGORIES.map(c => (
+                                    <td key={c.key} className="py-3 px-3 text-right font-mono">{formatCurrency(total.categories[c.key])}</td>
+                                ))}
+                                <td className="py-3 px-3 text-right font-mono">{formatCurrency(total.indirect)}</td>
+                                <td className="py-3 px-3 text-right font-mono text-primary">{formatCurrency(total.total)}</td>
+                                <td></td>
+                                <td className="py-3 px-3 text-right font-mono text-primary">{formatCurrency(total.euContribution)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+                <p className="px-4 py-2 text-[11px] text-muted-foreground border-t border-border/40">
+                    E = {rules.indirectRate}% of the direct costs excluding subcontracting (B) and financial support to third parties (D.1). F = A + B + C + D + E.
+                </p>
+            </Card>
+
+            {rows.length === 0 && (
+                <Card className="bg-card/30 border-border/40 border-dashed p-6 text-center space-y-3">
+                    <p className="text-sm text-muted-foreground">No costs yet. Add partners to the consortium to declare costs per partner.</p>
+                    <Button variant="outline" className="h-8 px-3 text-xs gap-1" onClick={() => addItem(UNASSIGNED_PARTNER)}>
+                        <Plus className="h-3.5 w-3.5" />
+                        Add cost
+                    </Button>
+                </Card>
+            )}
+
+            {/* Cost lines per partner */}
+            {rows.map(row => {
+                const lines = budget
+                    .map((item, index) => ({ item, index }))
+                    .filter(({ item }) => row.partner === UNASSIGNED_PARTNER ? !item.partner || !partners.includes(item.partner) : item.partner === row.partner);
+
+                return (
+                    <Card key={row.partner} className="bg-card/30 border-border/40 overflow-hidden">
+                        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 bg-secondary/30 border-b border-border/40">
+                            <div className="flex items-center gap-2 text-sm font-semibold">
+                                <Users className="h-4 w-4 text-primary" />
+                                {row.partner === UNASSIGNED_PARTNER ? 'Cost lines without a partner' : row.partner}
+                                <span className="font-mono font-normal text-muted-foreground">{formatCurrency(row.total)}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                {row.partner !== UNASSIGNED_PARTNER && (
+                                    <>
+                                        <span className="text-xs text-muted-foreground">Funding rate</span>
+                                        <Select
+                                            value={String(fundingRateFor(proposal, row.partner, rules))}
+                                            onChange={(e) => setFundingRate(row.partner, Number(e.target.value))}
+                                            className="h-7 w-20 text-xs"
+                                        >
+                                            {rates.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+                                        </Select>
+                                    </>
+                                )}
+                                <Button variant="outline" className="h-7 px-2 text-xs gap-1" onClick={() => addItem(row.partner)}>
+                                    <Plus className="h-3.5 w-3.5" />
+                                    Add cost
+                                </Button>
+                            </div>
+                        </div>
+                        {lines.length === 0 ? (
+                            <p className="px-4 py-3 text-xs text-muted-foreground">No costs declared yet.</p>
+                        ) : (
+                            <table className="w-full text-xs">
+                                <tbody className="divide-y divide-border/20">
+                                    {lines.map(({ item, index }) => (
+                                        <tr key={index} className="hover:bg-white/5 group">
+                                            <td className="py-1.5 px-3 w-48">
+                                                <Select
+                                                    value={item.category || 'other'}
+                                                    onChange={(e) => setCategory(index, e.target.value as CostCategory)}
+                                                    className="h-7 text-xs"
+                                                >
+                                                    {COST_CATEGORIES.map(c => <option key={c.key} value={c.key}>{c.code} {c.label}</option>)}
+                                                </Select>
+                                            </td>
+                                            <td className="py-1.5 px-3">
+                                                <Input
+                                                    value={item.item}
+                                                    onChange={(e) => updateItem(index, { item: e.target.value })}
+                                                    className="h-7 text-xs bg-transparent border-transparent hover:border-border/40 focus:border-primary"
+                                                    placeholder={item.category === 'personnel' ? 'Role, e.g. Senior researcher' : 'Item'}
+                                                />
+                                            </td>
+                                            <td className="py-1.5 px-3 w-64">
+                                                {item.category === 'personnel' ? (
+                                                    <div className="flex items-center gap-1">
+                                                        <Input
+                                                            type="number"
+                                                            min={0}
+                                                            step={0.5}
+                                                            value={item.personMonths ?? 0}
+                                                            onChange={(e) => updateItem(index, { personMonths: parseNumber(e.target.value) })}
+                                                            className="h-7 w-20 text-xs text-right"
+                                                            title="Person-months"
+                                                        />
+                                                        <span className="text-muted-foreground">PM ×</span>
+                                                        <Input
+                                                            type="number"
+                                                            min={0}
+                                                            value={item.monthlyRate ?? 0}
+                                                            onChange={(e) => updateItem(index, { monthlyRate: parseNumber(e.target.value) })}
+                                                            className="h-7 w-24 text-xs text-right"
+                                                            title="Monthly personnel rate"
+                                                        />
+                                                    </div>
+                                                ) : (
+                                                    <Input
+                                                        type="number"
+                                                        min={0}
+                                                        value={item.cost || 0}
+                                                        disabled={!!item.breakdown?.length}
+                                                        onChange={(e) => updateItem(index, { cost: parseNumber(e.target.value) })}
+                                                        className="h-7 w-32 text-xs text-right"
+                                                        title={item.breakdown?.length ? 'Sum of the sub-items' : 'Cost'}
+                                                    />
+                                                )}
+                                            </td>
+                                            <td className="py-1.5 px-3 w-40">
+                                                <Select
+                                                    value={item.partner && partners.includes(item.partner) ? item.partner : UNASSIGNED_PARTNER}
+                                                    onChange={(e) => updateItem(index, { partner: e.target.value || undefined })}
+                                                    className="h-7 text-xs"
+                                                    title="Declared by"
+                                                >
+                                                    <option value={UNASSIGNED_PARTNER}>Unassigned</option>
+                                                    {partners.map(name => <option key={name} value={name}>{partnerLabel(name)}</option>)}
+                                                </Select>
+                                            </td>
+                                            <td className="py-1.5 px-3 text-right font-mono w-28">{formatCurrency(itemCost(item))}</td>
+                                            <td className="py-1.5 px-2 w-10 text-right">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-6 w-6 rounded-lg hover:bg-red-500 hover:text-white text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                    onClick={() => removeItem(index)}
+                                                    title="Remove cost"
+                                                >
+                                                    <Trash2 className="h-3 w-3" />
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </Card>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { AiEditChangeSet } from '../types/proposal';
+import { diffWords, diffRows, applyTextHunks, applyRowHunks, hunkIds, type TextHunk, type RowHunk } from '../utils/diff';
+
+interface AiChangeReviewProps {
+    changeSet: AiEditChangeSet;
+    applying?: boolean;
+    onApply: (changes: { section: string; content: any }[]) => void;
+    onDiscard: () => void;
+}
+
+type SectionDiff =
+    | { section: string; kind: 'text'; hunks: TextHunk[] }
+    | { section: string; kind: 'rows'; hunks: RowHunk[] }
+    | { section: string; kind: 'value'; before: any; after: any };
+
+// Rebalancing derives the budget from the whole work package edit (and the reverse), so these go together
+const COUPLED_SECTIONS = ['workPackages', 'budget'];
+
+const SECTION_LABELS: Record<string, string> = { workPackages: 'Work Packages', budget: 'Budget', risks: 'Risks', partners: 'Partners', timeline: 'Timeline' };
+
+const sectionLabel = (section: string) =>
+    SECTION_LABELS[section] || section.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+// Readable text for a piece of HTML: block ends become line breaks, other tags are dropped
+const htmlToText = (html: string) =>
+    html.replace(/<\/(p|li|h[1-6]|tr|div)>|<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ');
+
+const rowLabel = (row: any) =>
+    row?.item || row?.name || row?.title || row?.risk || row?.category || row?.phase || htmlToText(String(row?.description || '')).slice(0, 80) || 'Row';
+
+const formatField = (value: any) => {
+    const text = typeof value === 'string' ? htmlToText(value) : JSON.stringify(value);
+    return text && text.length > 160 ? `${text.slice(0, 160)}…` : text ?? '—';
+};
+
+const changedFields = (before: any, after: any) =>
+    Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]))
+        .filter(key => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]));
+
+const buildDiff = ({ section, before, after }: AiEditChangeSet['changes'][number]): SectionDiff => {
+    if (typeof after === 'string' && (typeof before === 'string' || before == null)) {
+        return { section, kind: 'text', hunks: diffWords(before || '', after) };
+    }
+    if (Array.isArray(after) && (Array.isArray(before) || before == null)) {
+        return { section, kind: 'rows', hunks: diffRows(before || [], after) };
+    }
+    return { section, kind: 'value', before, after };
+};
+
+function HunkToggle({ accepted, onToggle }: { accepted: boolean; onToggle: () => void }) {
+    return (
+        <button
+            type="button"
+            onClick={onToggle}
+            title={accepted ? 'Accepted - click to reject' : 'Rejected - click to accept'}
+            className={`inline-flex items-center justify-center h-4 w-4 rounded-sm align-middle mx-0.5 ${accepted ? 'bg-emerald-600 text-white' : 'bg-white/10 text-muted-foreground'}`}
+        >
+            {accepted ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+        </button>
+    );
+}
+
+/** Shows an AI edit as a diff and lets the user accept or reject each change before saving */
+export function AiChangeReview({ changeSet, applying, onApply, onDiscard }: AiChangeReviewProps) {
+    const diffs = useMemo(() => changeSet.changes.map(buildDiff), [changeSet]);
+    const [accepted, setAccepted] = useState<Record<string, Set<number>>>(() =>
+        Object.fromEntries(diffs.map(d => [d.section, new Set(d.kind === 'value' ? [0] : hunkIds(d.hunks))]))
+    );
+
+    const coupled = useMemo(() => {
+        const sections = diffs.filter(d => COUPLED_SECTIONS.includes(d.section)).map(d => d.section);
+        return new Set(sections.length > 1 ? sections : []);
+    }, [diffs]);
+
+    const allIds = (diff: SectionDiff) => (diff.kind === 'value' ? [0] : hunkIds(diff.hunks));
+
+    const toggle = (section: string, id: number) => {
+        if (coupled.has(section)) {
+            const value = !accepted[section]?.has(id);
+            setAccepted(prev => ({
+                ...prev,
+                ...Object.fromEntries(diffs.filter(d => coupled.has(d.section)).map(d => [d.section, new Set(value ? allIds(d) : [])])),
+            }));
+            return;
+        }
+        setAccepted(prev => {
+            const next = new Set(prev[section]);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return { ...prev, [section]: next };
+        });
+    };
+
+    const setAll = (value: boolean) => {
+        setAccepted(Object.fromEntries(diffs.map(d => [d.section, new Set(value ? allIds(d) : [])])));
+    };
+
+    const handleApply = () => {
+        const changes = diffs
+            .filter(d => accepted[d.section]?.size)
+            .map(d => ({
+                section: d.section,
+                content: d.kind === 'text'
+                    ? applyTextHunks(d.hunks, accepted[d.section])
+                    : d.kind === 'rows'
+                        ? applyRowHunks(d.hunks, accepted[d.section])
+                        : d.after,
+            }));
+        if (changes.length === 0) onDiscard();
+        else onApply(changes);
+    };
+
+    const totalAccepted = diffs.reduce((sum, d) => sum + (accepted[d.section]?.size || 0), 0);
+
+    return (
+        <div className="flex flex-col gap-4 min-h-0">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                    Review the proposed changes. Click a marker to accept or reject that change.
+                </p>
+                <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" className="h-7 px-2 text-xs" onClick={() => setAll(true)}>Accept all</Button>
+                    <Button variant="ghost" className="h-7 px-2 text-xs" onClick={() => setAll(false)}>Reject all</Button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+                {diffs.length === 0 && (
+                    <p className="text-sm text-muted-foreground">The AI returned the same content - nothing to change.</p>
+                )}
+                {diffs.map(diff => (
+                    <div key={diff.section} className="border rounded-md p-3 bg-card/50">
+                        <div className="flex items-center gap-2 mb-2">
+                            <span className="text-sm font-medium">{sectionLabel(diff.section)}</span>
+                            {diff.section !== changeSet.editedSection && (
+                                <Badge variant="secondary" className="text-[10px] px-1.5 py-0 h-4">Rebalanced</Badge>
+                            )}
+                            {coupled.has(diff.section) && (
+                                <span className="text-[10px] text-muted-foreground">
+                                    Accepted or rejected together with {Array.from(coupled).filter(s => s !== diff.section).map(sectionLabel).join(', ')}
+                                </span>
+                            )}
+                        </div>
+
+                        {diff.kind === 'text' && (
+                            <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                                {diff.hunks.map((hunk, index) => hunk.type === 'equal' ? (
+                                    <span key={index}>{htmlToText(hunk.text)}</span>
+                                ) : (
+                                    <span key={index} className={accepted[diff.section]?.has(hunk.id) ? '' : 'opacity-60'}>
+                                        <HunkToggle accepted={accepted[diff.section]?.has(hunk.id)} onToggle={() => toggle(diff.section, hunk.id)} />
+                                        {hunk.before && <del className="bg-red-500/20 text-red-300">{htmlToText(hunk.before)}</del>}
+                                        {hunk.after && <ins className="bg-emerald-500/20 text-emerald-300 no-underline">{htmlToText(hunk.after)}</ins>}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+
+                        {diff.kind === 'rows' && (
+                            <div className="space-y-1 text-xs">
+                                {diff.hunks.map((hunk, index) => {
+                                    if (hunk.type === 'equal') {
+                                        return <div key={index} className="px-2 py-1 text-muted-foreground">{rowLabel(hunk.row)}</div>;
+                                    }
+                                    const isAccepted = accepted[diff.section]?.has(hunk.id);
+                                    const tone = hunk.type === 'added' ? 'border-emerald-500/40 bg-emerald-500/10'
+                                        : hunk.type === 'removed' ? 'border-red-500/40 bg-red-500/10'
+                                            : 'border-amber-500/40 bg-amber-500/10';
+                                    return (
+                                        <div key={index} className={`px-2 py-1.5 rounded border ${tone} ${isAccepted ? '' : 'opacity-60'}`}>
+                                            <div className="flex items-center gap-2">
+                                                <HunkToggle accepted={isAccepted} onToggle={() => toggle(diff.section, hunk.id)} />
+                                                <span className="uppercase text-[10px] tracking-wider text-muted-foreground">{hunk.type}</span>
+                                                <span className="font-medium">{rowLabel(hunk.type === 'removed' ? hunk.before : hunk.after)}</span>
+                                            </div>
+                                            {hunk.type === 'modified' && (
+                                                <div className="mt-1 pl-6 space-y-0.5">
+                                                    {changedFields(hunk.before, hunk.after).map(field => (
+                                                        <div key={field}>
+                                                            <span className="text-muted-foreground">{field}: </span>
+                                                            <del className="text-red-300">{formatField(hunk.before?.[field])}</del>
+                                                            {' → '}
+                                                            <ins className="text-emerald-300 no-underline">{formatField(hunk.after?.[field])}</ins>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {diff.kind === 'value' && (
+                            <div className="text-xs space-y-1">
+                                <HunkToggle accepted={accepted[diff.section]?.has(0)} onToggle={() => toggle(diff.section, 0)} />
+                                <div><del className="text-red-300">{formatField(diff.before)}</del></div>
+                                <div><ins className="text-emerald-300 no-underline">{formatField(diff.after)}</ins></div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={onDiscard} disabled={applying}>Discard</Button>
+                <Button onClick={handleApply} disabled={applying || totalAccepted === 0}>
+                    {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Apply {totalAccepted} change{totalAccepted === 1 ? '' : 's'}
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, FileSpreadsheet, Loader2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { BudgetItem, FullProposal, PartnerAllocation } from '../types/proposal';
+import { readBudgetWorkbook, type BudgetWorkbookImport } from '../utils/budget-workbook';
+import { applyRowHunks, diffRows, hunkIds, type RowHunk } from '../utils/diff';
+
+interface BudgetWorkbookDialogProps {
+    proposal: FullProposal;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    formatCurrency: (amount: number) => string;
+    onApply: (budget: BudgetItem[]) => void;
+}
+
+// One line per changed field of a budget item, in words a financial officer reads
+function describeChanges(before: BudgetItem, after: BudgetItem, formatCurrency: (amount: number) => string): string[] {
+    const lines: string[] = [];
+    if (before.item !== after.item) lines.push(`Name: ${before.item} → ${after.item}`);
+    if ((before.description || '') !== (after.description || '')) lines.push(`Description: ${before.description || '—'} → ${after.description || '—'}`);
+    if (before.cost !== after.cost) lines.push(`Cost: ${formatCurrency(before.cost || 0)} → ${formatCurrency(after.cost || 0)}`);
+
+    const subs = (item: BudgetItem) => new Map((item.breakdown || []).map(s => [s.subItem, s]));
+    const oldSubs = subs(before);
+    const newSubs = subs(after);
+    newSubs.forEach((sub, name) => {
+        const old = oldSubs.get(name);
+        const text = `${sub.quantity} × ${formatCurrency(sub.unitCost)}`;
+        if (!old) lines.push(`Sub-item added: ${name} (${text})`);
+        else if (old.quantity !== sub.quantity || old.unitCost !== sub.unitCost) lines.push(`${name}: ${old.quantity} × ${formatCurrency(old.unitCost)} → ${text}`);
+    });
+    oldSubs.forEach((_, name) => {
+        if (!newSubs.has(name)) lines.push(`Sub-item removed: ${name}`);
+    });
+
+    const allocations = (list: PartnerAllocation[] = []) =>
+        list.reduce((map, a) => map.set(a.partner, (map.get(a.partner) || 0) + (a.amount || 0)), new Map<string, number>());
+    const oldAllocations = allocations(before.partnerAllocations);
+    const newAllocations = allocations(after.partnerAllocations);
+    new Set([...oldAllocations.keys(), ...newAllocations.keys()]).forEach(partner => {
+        const from = oldAllocations.get(partner) || 0;
+        const to = newAllocations.get(partner) || 0;
+        if (from !== to) lines.push(`${partner}: ${formatCurrency(from)} → ${formatCurrency(to)}`);
+    });
+    return lines.length ? lines : ['Sub-item order or details changed'];
+}
+
+/** Import of an edited budget workbook: validation errors, then the changes per budget item to accept or reject */
+export function BudgetWorkbookDialog({ proposal, open, onOpenChange, formatCurrency, onApply }: BudgetWorkbookDialogProps) {
+    const [reading, setReading] = useState(false);
+    const [fileName, setFileName] = useState('');
+    const [result, setResult] = useState<BudgetWorkbookImport | null>(null);
+    const [hunks, setHunks] = useState<RowHunk<BudgetItem>[]>([]);
+    const [accepted, setAccepted] = useState<Set<number>>(new Set());
+
+    const reset = () => {
+        setFileName('');
+        setResult(null);
+        setHunks([]);
+        setAccepted(new Set());
+    };
+
+    const handleOpenChange = (value: boolean) => {
+        if (!value) reset();
+        onOpenChange(value);
+    };
+
+    const handleFile = async (file?: File) => {
+        if (!file) return;
+        setReading(true);
+        try {
+            const imported = await readBudgetWorkbook(file, proposal);
+            const rows = diffRows<BudgetItem>(proposal.budget || [], imported.budget);
+            setFileName(file.name);
+            setResult(imported);
+            setHunks(rows);
+            setAccepted(new Set(hunkIds(rows)));
+        } catch (error: any) {
+            console.error('Workbook import error:', error);
+            toast.error(error.message || 'Could not read the workbook');
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const toggle = (id: number) => {
+        const next = new Set(accepted);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setAccepted(next);
+    };
+
+    const handleApply = () => {
+        onApply(applyRowHunks(hunks, accepted));
+        toast.success(`Applied ${accepted.size} budget change${accepted.size === 1 ? '' : 's'} from ${fileName}`);
+        handleOpenChange(false);
+    };
+
+    const changes = hunks.filter(h => h.type !== 'equal');
+    const hasErrors = !!result?.errors.length;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="space-y-4">
+                <DialogHeader>
+                    <DialogTitle>Import Budget Workbook</DialogTitle>
+                    <DialogDescription>
+                        Upload the workbook exported with "Export XLSX" after editing it. Totals are recalculated from quantities and unit costs.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <label className="flex items-center gap-3 rounded-md border border-dashed border-border/60 p-3 cursor-pointer hover:bg-muted/30">
+                    <input type="file" accept=".xlsx" className="hidden" disabled={reading} onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+                    {reading ? <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /> : fileName ? <FileSpreadsheet className="h-5 w-5 text-muted-foreground" /> : <Upload className="h-5 w-5 text-muted-foreground" />}
+                    <span className="text-sm">{fileName || 'Choose a .xlsx file'}</span>
+                </label>
+
+                {result && (
+                    <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+                        {hasErrors && (
+                            <div className="rounded-md border border-red-500/40 bg-red-500/10 p-2 text-xs space-y-1">
+                                <p className="font-medium text-red-300">The workbook cannot be imported:</p>
+                                <ul className="list-disc pl-4 space-y-0.5">
+                                    {result.errors.map((error, i) => <li key={i}>{error}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        {result.warnings.map((warning, i) => (
+                            <div key={i} className="flex items-start gap-2 text-xs text-amber-400">
+                                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                <span>{warning}</span>
+                            </div>
+                        ))}
+                        {!hasErrors && changes.length === 0 && (
+                            <p className="text-sm text-muted-foreground">The workbook matches the current budget - nothing to change.</p>
+                        )}
+                        {!hasErrors && changes.map(hunk => {
+                            if (hunk.type === 'equal') return null;
+                            const isAccepted = accepted.has(hunk.id);
+                            const tone = hunk.type === 'added' ? 'border-emerald-500/40 bg-emerald-500/10'
+                                : hunk.type === 'removed' ? 'border-red-500/40 bg-red-500/10'
+                                    : 'border-amber-500/40 bg-amber-500/10';
+                            const item = hunk.type === 'removed' ? hunk.before : hunk.after;
+                            return (
+                                <div key={hunk.id} className={`px-2 py-1.5 rounded border text-xs ${tone} ${isAccepted ? '' : 'opacity-60'}`}>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => toggle(hunk.id)}
+                                            title={isAccepted ? 'Accepted - click to reject' : 'Rejected - click to accept'}
+                                            className={`inline-flex items-center justify-center h-4 w-4 rounded-sm ${isAccepted ? 'bg-emerald-600 text-white' : 'bg-white/10 text-muted-foreground'}`}
+                                        >
+                                            {isAccepted ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                                        </button>
+                                        <span className="uppercase text-[10px] tracking-wider text-muted-foreground">{hunk.type}</span>
+                                        <span className="font-medium">{item.item}</span>
+                                        <span className="ml-auto font-mono">{formatCurrency(item.cost || 0)}</span>
+                                    </div>
+                                    {hunk.type === 'modified' && (
+                                        <ul className="mt-1 pl-6 space-y-0.5 text-muted-foreground">
+                                            {describeChanges(hunk.before, hunk.after, formatCurrency).map((line, i) => <li key={i}>{line}</li>)}
+                                        </ul>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleApply} disabled={!result || hasErrors || accepted.size === 0}>
+                        Apply {accepted.size} change{accepted.size === 1 ? '' : 's'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle, ArrowRight, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { hasBlockingIssues, type CompletenessIssue } from '../utils/completeness';
+
+interface CompletenessDialogProps {
+    issues: CompletenessIssue[] | null; // Open while set
+    onClose: () => void;
+    onJump: (issue: CompletenessIssue) => void;
+    onExport: () => void;
+}
+
+/** Completeness report shown before export: errors block it, warnings can be exported anyway */
+export function CompletenessDialog({ issues, onClose, onJump, onExport }: CompletenessDialogProps) {
+    const blocked = !!issues && hasBlockingIssues(issues);
+    const sorted = [...(issues || [])].sort((a, b) => (a.level === b.level ? 0 : a.level === 'error' ? -1 : 1));
+
+    return (
+        <Dialog open={!!issues} onOpenChange={(open: boolean) => !open && onClose()}>
+            <DialogContent className="max-w-xl">
+                <DialogHeader>
+                    <DialogTitle>{blocked ? 'The proposal is not complete' : 'Check the proposal before exporting'}</DialogTitle>
+                    <DialogDescription>
+                        {blocked
+                            ? 'Mandatory sections of the funding scheme are missing. Complete them before exporting.'
+                            : 'Some data evaluators expect is missing. You can still export the proposal.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <ul className="space-y-1 max-h-[50vh] overflow-y-auto">
+                    {sorted.map((issue, i) => (
+                        <li key={i}>
+                            <button
+                                type="button"
+                                onClick={() => onJump(issue)}
+                                className={`w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-secondary/50 ${issue.level === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+                            >
+                                {issue.level === 'error' ? <XCircle className="h-4 w-4 mt-0.5 shrink-0" /> : <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />}
+                                <span className="flex-1">{issue.message}</span>
+                                <ArrowRight className="h-4 w-4 mt-0.5 shrink-0 opacity-60" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>{blocked ? 'Close' : 'Cancel'}</Button>
+                    {!blocked && <Button variant="destructive" onClick={onExport}>Export anyway</Button>}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,113 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Ruler, Sparkles, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { formatCount, formatLimitCheck, type ComplianceReport, type LimitCheck, type LimitKind, type LimitStatus, type SectionCompliance } from '../utils/compliance';
+
+interface CompliancePanelProps {
+    report: ComplianceReport;
+    onShorten: (section: SectionCompliance) => void;
+    disabled?: boolean;
+}
+
+const STATUS_COLOR: Record<LimitStatus, string> = {
+    ok: 'text-muted-foreground',
+    near: 'text-amber-400',
+    over: 'text-red-400',
+};
+
+function CountCell({ kind, count, check }: { kind: LimitKind; count: number; check?: LimitCheck }) {
+    return (
+        <td className={`py-1.5 px-3 text-right font-mono ${check ? STATUS_COLOR[check.status] : 'text-muted-foreground/60'}`}>
+            {formatCount(kind, count)}{check && ` / ${check.limit.toLocaleString('en-US')}`}
+        </td>
+    );
+}
+
+/** Character, word and estimated page counts per section against the funding scheme's limits */
+export function CompliancePanel({ report, onShorten, disabled }: CompliancePanelProps) {
+    if (report.sections.length === 0) return null;
+    const limited = report.sections.filter(s => s.status);
+    const offending = limited.filter(s => s.status === 'over');
+    const totalsOver = report.totals.some(t => t.status === 'over');
+
+    return (
+        <Card className="p-4 space-y-3 bg-card/30 border-border/40">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className={`flex items-center gap-2 text-sm font-semibold ${offending.length > 0 || totalsOver ? 'text-red-400' : 'text-foreground'}`}>
+                    <Ruler className="h-4 w-4" />
+                    Length limits
+                    <span className="font-normal text-muted-foreground">
+                        {limited.length === 0
+                            ? 'no section limits in this funding scheme'
+                            : offending.length > 0
+                                ? `${offending.length} of ${limited.length} limited sections over the limit`
+                                : `all ${limited.length} limited sections within the limits`}
+                    </span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                    {report.chars.toLocaleString('en-US')} characters · {report.words.toLocaleString('en-US')} words · ~{report.pages.toFixed(1)} pages in the DOCX
+                </div>
+            </div>
+
+            {report.totals.map(total => (
+                <div key={total.kind} className={`flex items-center gap-2 text-xs ${STATUS_COLOR[total.status]}`}>
+                    {total.status === 'over' ? <XCircle className="h-3.5 w-3.5" /> : total.status === 'near' ? <AlertTriangle className="h-3.5 w-3.5" /> : <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />}
+                    Whole proposal: {formatLimitCheck(total)}
+                </div>
+            ))}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead className="bg-secondary/50">
+                        <tr>
+                            <th className="text-left py-2 px-3 font-medium text-muted-foreground">Section</th>
+                            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Characters</th>
+                            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Words</th>
+                            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Pages (est.)</th>
+                            <th className="py-2 px-3" />
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border/20">
+                        {report.sections.map(section => {
+                            const check = (kind: LimitKind) => section.checks.find(c => c.kind === kind);
+                            // One AI edit rewrites one field, so sections assembled from several are shortened field by field
+                            const merged = (section.sourceKeys?.length || 0) > 1;
+                            return (
+                                <tr key={section.id} className="hover:bg-white/5">
+                                    <td className="py-1.5 px-3">
+                                        <a href={`#${section.id}`} className={`hover:underline ${section.status && section.status !== 'ok' ? STATUS_COLOR[section.status] : 'text-foreground/80'}`}>
+                                            {section.title}
+                                        </a>
+                                    </td>
+                                    <CountCell kind="chars" count={section.chars} check={check('chars')} />
+                                    <CountCell kind="words" count={section.words} check={check('words')} />
+                                    <CountCell kind="pages" count={section.pages} check={check('pages')} />
+                                    <td className="py-1.5 px-3 text-right">
+                                        {section.status === 'over' && merged && (
+                                            <span className="text-muted-foreground" title={`Assembled from ${section.sourceKeys!.join(', ')}`}>
+                                                merged from {section.sourceKeys!.length} fields - shorten each one
+                                            </span>
+                                        )}
+                                        {section.status === 'over' && !merged && (
+                                            <Button
+                                                variant="outline"
+                                                className="h-7 px-2 text-xs gap-1"
+                                                disabled={disabled}
+                                                onClick={() => onShorten(section)}
+                                            >
+                                                <Sparkles className="h-3 w-3" />
+                                                AI shorten to limit
+                                            </Button>
+                                        )}
+                                        {section.status === 'near' && <span className="text-amber-400">close to the limit</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+}
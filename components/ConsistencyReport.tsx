@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, GitCompare } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import type { ConsistencyIssue, ConsistencyKind } from '../utils/consistency';
+
+interface ConsistencyReportProps {
+    issues: ConsistencyIssue[];
+    onJump: (sectionId: string) => void;
+}
+
+const KIND_LABELS: Record<ConsistencyKind, string> = {
+    partner: 'Partner',
+    'work-package': 'Work package',
+    budget: 'Budget',
+    duration: 'Duration',
+    consortium: 'Consortium',
+    acronym: 'Acronym',
+};
+
+/** Contradictions between the narrative and the structured data, each linked to where it occurs */
+export function ConsistencyReport({ issues, onJump }: ConsistencyReportProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    if (issues.length === 0) {
+        return (
+            <Card className="p-4 bg-green-500/5 border-green-500/20">
+                <div className="flex items-center gap-2 text-sm font-semibold text-green-400">
+                    <CheckCircle2 className="h-4 w-4" />
+                    The narrative is consistent with the partners, work packages, budget and duration
+                </div>
+            </Card>
+        );
+    }
+
+    return (
+        <Card className="p-4 space-y-3 bg-amber-500/5 border-amber-500/20">
+            <button type="button" onClick={() => setExpanded(!expanded)} className="w-full flex items-center gap-2 text-sm font-semibold text-amber-400">
+                <GitCompare className="h-4 w-4" />
+                {issues.length} inconsistenc{issues.length === 1 ? 'y' : 'ies'} between the narrative and the structured data
+                <span className="ml-auto">{expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}</span>
+            </button>
+            {expanded && (
+                <ul className="space-y-3">
+                    {issues.map((issue, i) => (
+                        <li key={i} className="space-y-1">
+                            <div className="flex items-start gap-2 text-xs text-amber-400">
+                                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                <span>
+                                    <span className="font-semibold uppercase text-[10px] mr-1.5 opacity-70">{KIND_LABELS[issue.kind]}</span>
+                                    {issue.message}
+                                </span>
+                            </div>
+                            <ul className="ml-5 space-y-0.5">
+                                {issue.occurrences.map((occurrence, j) => (
+                                    <li key={j}>
+                                        <button
+                                            type="button"
+                                            onClick={() => onJump(occurrence.sectionId)}
+                                            className="text-left text-xs text-muted-foreground hover:text-foreground"
+                                        >
+                                            <span className="font-medium text-primary/80 hover:underline">{occurrence.sectionTitle}</span>
+                                            <span className="italic">: "{occurrence.excerpt}"</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,263 @@
+import React from 'react';
+import { Flag, Package, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Select } from '@/components/ui/primitives';
+import type { Deliverable, DeliverableType, DisseminationLevel, FullProposal, Milestone } from '../types/proposal';
+import { DELIVERABLE_TYPES, DISSEMINATION_LEVELS, getDeliverables, milestoneDueMonth, updateDeliverables, updateMilestones } from '../utils/deliverables';
+import { projectDuration, workPackageIndexOf, workPackageRange } from '../utils/gantt';
+
+interface DeliverablesEditorProps {
+    proposal: FullProposal;
+    onChange: (fields: Partial<FullProposal>) => void;
+}
+
+const parseMonthInput = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+/** Deliverable and milestone tables; IDs follow from work package and due month and are renumbered on every edit */
+export function DeliverablesEditor({ proposal, onChange }: DeliverablesEditorProps) {
+    const workPackages = proposal.workPackages || [];
+    const partners = (proposal.partners || []).map(p => p.name).filter(Boolean);
+    const deliverables = getDeliverables(proposal);
+    const milestones = proposal.milestones || [];
+    const duration = projectDuration(proposal);
+
+    if (workPackages.length === 0) return null;
+
+    const setDeliverables = (list: Deliverable[]) => onChange(updateDeliverables(proposal, list));
+    const setMilestones = (list: Milestone[]) => onChange(updateMilestones(list));
+
+    const updateDeliverable = (index: number, patch: Partial<Deliverable>) =>
+        setDeliverables(deliverables.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+    const addDeliverable = () => {
+        const wp = workPackages[0];
+        setDeliverables([...deliverables, {
+            id: '',
+            title: '',
+            workPackage: 1,
+            type: 'R',
+            dissemination: 'PU',
+            leadPartner: wp.activities?.[0]?.leadPartner || partners[0] || '',
+            dueMonth: workPackageRange(wp, duration).end,
+        }]);
+    };
+
+    const updateMilestone = (index: number, patch: Partial<Milestone>) =>
+        setMilestones(milestones.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+
+    const addMilestone = () => {
+        setMilestones([...milestones, { milestone: '', workPackage: 'WP1', dueDate: `M${duration}`, dueMonth: duration, leadPartner: partners[0] || '' }]);
+    };
+
+    const partnerOptions = (selected?: string) => (
+        <>
+            <option value="">-</option>
+            {(selected && !partners.includes(selected) ? [selected, ...partners] : partners).map(name => (
+                <option key={name} value={name}>{proposal.partners?.find(p => p.name === name)?.acronym || name}</option>
+            ))}
+        </>
+    );
+
+    const workPackageOptions = workPackages.map((wp, i) => <option key={i} value={i + 1}>WP{i + 1}</option>);
+    // Rows are renumbered and re-sorted by due month, so the month is committed on blur rather than per keystroke
+    const monthInput = (value: number, onMonth: (month: number) => void) => (
+        <Input
+            key={value}
+            type="number"
+            min={1}
+            max={duration}
+            defaultValue={value || ''}
+            onBlur={(e) => {
+                const month = parseMonthInput(e.target.value);
+                if (month !== value) onMonth(month);
+            }}
+            className="h-7 w-16 text-xs text-right"
+            placeholder="M"
+        />
+    );
+
+    return (
+        <div className="mt-6 space-y-6">
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-base font-semibold flex items-center gap-2">
+                        <Package className="h-4 w-4 text-primary" />
+                        Deliverables
+                    </h4>
+                    <Button variant="outline" className="h-7 px-2 text-xs gap-1" onClick={addDeliverable}>
+                        <Plus className="h-3.5 w-3.5" />
+                        Add deliverable
+                    </Button>
+                </div>
+                <Card className="bg-card/30 border-border/40 overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead className="bg-secondary/50">
+                                <tr>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground w-16">No.</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Name</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">WP</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Lead</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Type</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Dissemination</th>
+                                    <th className="text-right py-3 px-3 font-medium text-muted-foreground">Due month</th>
+                                    <th className="w-10"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border/20">
+                                {deliverables.length === 0 && (
+                                    <tr><td colSpan={8} className="py-4 px-3 text-center text-muted-foreground">No deliverables yet.</td></tr>
+                                )}
+                                {deliverables.map((d, i) => (
+                                    <tr key={i} className="hover:bg-white/5 group">
+                                        <td className="py-1.5 px-3 font-mono font-medium">{d.id}</td>
+                                        <td className="py-1.5 px-3 min-w-[200px]">
+                                            <Input
+                                                value={d.title}
+                                                onChange={(e) => updateDeliverable(i, { title: e.target.value })}
+                                                className="h-7 text-xs bg-transparent border-transparent hover:border-border/40 focus:border-primary"
+                                                placeholder="Deliverable name"
+                                            />
+                                        </td>
+                                        <td className="py-1.5 px-3">
+                                            <Select value={String(d.workPackage)} onChange={(e) => updateDeliverable(i, { workPackage: Number(e.target.value) })} className="h-7 w-20 text-xs">
+                                                {workPackageOptions}
+                                            </Select>
+                                        </td>
+                                        <td className="py-1.5 px-3">
+                                            <Select value={d.leadPartner} onChange={(e) => updateDeliverable(i, { leadPartner: e.target.value })} className="h-7 w-32 text-xs">
+                                                {partnerOptions(d.leadPartner)}
+                                            </Select>
+                                        </td>
+                                        <td className="py-1.5 px-3">
+                                            <Select value={d.type} onChange={(e) => updateDeliverable(i, { type: e.target.value as DeliverableType })} className="h-7 w-24 text-xs">
+                                                {DELIVERABLE_TYPES.map(t => <option key={t.key} value={t.key} title={t.label}>{t.key}</option>)}
+                                            </Select>
+                                        </td>
+                                        <td className="py-1.5 px-3">
+                                            <Select value={d.dissemination} onChange={(e) => updateDeliverable(i, { dissemination: e.target.value as DisseminationLevel })} className="h-7 w-20 text-xs">
+                                                {DISSEMINATION_LEVELS.map(l => <option key={l.key} value={l.key} title={l.label}>{l.key}</option>)}
+                                            </Select>
+                                        </td>
+                                        <td className="py-1.5 px-3">
+                                            <div className="flex justify-end">{monthInput(d.dueMonth, dueMonth => updateDeliverable(i, { dueMonth }))}</div>
+                                        </td>
+                                        <td className="py-1.5 px-2 text-right">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-6 w-6 rounded-lg hover:bg-red-500 hover:text-white text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                onClick={() => setDeliverables(deliverables.filter((_, j) => j !== i))}
+                                                title="Remove deliverable"
+                                            >
+                                                <Trash2 className="h-3 w-3" />
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="px-4 py-2 text-[11px] text-muted-foreground border-t border-border/40">
+                        Type: {DELIVERABLE_TYPES.map(t => `${t.key} = ${t.label}`).join('; ')}. Dissemination: PU = Public, SEN = Sensitive.
+                    </p>
+                </Card>
+            </div>
+
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-base font-semibold flex items-center gap-2">
+                        <Flag className="h-4 w-4 text-primary" />
+                        Milestones
+                    </h4>
+                    <Button variant="outline" className="h-7 px-2 text-xs gap-1" onClick={addMilestone}>
+                        <Plus className="h-3.5 w-3.5" />
+                        Add milestone
+                    </Button>
+                </div>
+                <Card className="bg-card/30 border-border/40 overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead className="bg-secondary/50">
+                                <tr>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground w-16">No.</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Name</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">WP</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Lead</th>
+                                    <th className="text-left py-3 px-3 font-medium text-muted-foreground">Means of verification</th>
+                                    <th className="text-right py-3 px-3 font-medium text-muted-foreground">Due month</th>
+                                    <th className="w-10"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border/20">
+                                {milestones.length === 0 && (
+                                    <tr><td colSpan={7} className="py-4 px-3 text-center text-muted-foreground">No milestones yet.</td></tr>
+                                )}
+                                {milestones.map((m, i) => {
+                                    const wpIndex = workPackageIndexOf(proposal, m.workPackage);
+                                    return (
+                                        <tr key={i} className="hover:bg-white/5 group">
+                                            <td className="py-1.5 px-3 font-mono font-medium">{m.id || `MS${i + 1}`}</td>
+                                            <td className="py-1.5 px-3 min-w-[200px]">
+                                                <Input
+                                                    value={m.milestone}
+                                                    onChange={(e) => updateMilestone(i, { milestone: e.target.value })}
+                                                    className="h-7 text-xs bg-transparent border-transparent hover:border-border/40 focus:border-primary"
+                                                    placeholder="Milestone name"
+                                                />
+                                            </td>
+                                            <td className="py-1.5 px-3">
+                                                <Select
+                                                    value={wpIndex >= 0 ? String(wpIndex + 1) : ''}
+                                                    onChange={(e) => updateMilestone(i, { workPackage: e.target.value ? `WP${e.target.value}` : '' })}
+                                                    className="h-7 w-20 text-xs"
+                                                >
+                                                    <option value="">-</option>
+                                                    {workPackageOptions}
+                                                </Select>
+                                            </td>
+                                            <td className="py-1.5 px-3">
+                                                <Select value={m.leadPartner || ''} onChange={(e) => updateMilestone(i, { leadPartner: e.target.value })} className="h-7 w-32 text-xs">
+                                                    {partnerOptions(m.leadPartner)}
+                                                </Select>
+                                            </td>
+                                            <td className="py-1.5 px-3 min-w-[180px]">
+                                                <Input
+                                                    value={m.verification || ''}
+                                                    onChange={(e) => updateMilestone(i, { verification: e.target.value })}
+                                                    className="h-7 text-xs bg-transparent border-transparent hover:border-border/40 focus:border-primary"
+                                                    placeholder="e.g. Report approved by the steering committee"
+                                                />
+                                            </td>
+                                            <td className="py-1.5 px-3">
+                                                <div className="flex justify-end">
+                                                    {monthInput(milestoneDueMonth(m), dueMonth => updateMilestone(i, { dueMonth, dueDate: dueMonth ? `M${dueMonth}` : '' }))}
+                                                </div>
+                                            </td>
+                                            <td className="py-1.5 px-2 text-right">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-6 w-6 rounded-lg hover:bg-red-500 hover:text-white text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                    onClick={() => setMilestones(milestones.filter((_, j) => j !== i))}
+                                                    title="Remove milestone"
+                                                >
+                                                    <Trash2 className="h-3 w-3" />
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, ShieldCheck, ShieldX, XCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { isEligible, type EligibilityCheck } from '../utils/eligibility';
+
+interface EligibilityChecklistProps {
+    checks: EligibilityCheck[];
+    schemeName?: string;
+}
+
+/** Pass/fail list of a scheme's consortium eligibility rules */
+export function EligibilityChecklist({ checks, schemeName }: EligibilityChecklistProps) {
+    if (checks.length === 0) return null;
+    const eligible = isEligible(checks);
+
+    return (
+        <Card className={`p-4 space-y-2 ${eligible ? 'bg-green-500/5 border-green-500/20' : 'bg-red-500/5 border-red-500/30'}`}>
+            <div className={`flex items-center gap-2 text-sm font-semibold ${eligible ? 'text-green-400' : 'text-red-400'}`}>
+                {eligible ? <ShieldCheck className="h-4 w-4" /> : <ShieldX className="h-4 w-4" />}
+                {eligible ? 'Consortium meets the eligibility rules' : 'Consortium does not meet the eligibility rules'}
+                {schemeName && <span className="font-normal text-muted-foreground">of {schemeName}</span>}
+            </div>
+            <ul className="space-y-1.5">
+                {checks.map((check, i) => (
+                    <li
+                        key={i}
+                        className={`flex items-start gap-2 text-xs ${check.status === 'fail' ? 'text-red-400' : check.status === 'warning' ? 'text-amber-400' : 'text-muted-foreground'}`}
+                    >
+                        {check.status === 'pass' && <CheckCircle2 className="h-3.5 w-3.5 mt-0.5 shrink-0 text-green-500" />}
+                        {check.status === 'fail' && <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />}
+                        {check.status === 'warning' && <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />}
+                        <span>{check.message}</span>
+                    </li>
+                ))}
+            </ul>
+        </Card>
+    );
+}
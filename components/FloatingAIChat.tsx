@@ -35,8 +35,27 @@ export function FloatingAIChat({ proposalId, onProposalUpdate }: FloatingAIChatP
       });
 
       if(!response.ok) throw new Error("AI edit failed");
-      
-      const data = await response.json();
+
+      // The chat has no review step, so every proposed change is applied as is
+      const changeSet = await response.json();
+      if (changeSet.changes.length === 0) {
+        setMessages(prev => [...prev, { role: 'assistant', content: `No changes were needed in ${changeSet.editedSection}.` }]);
+        return;
+      }
+      const applyResponse = await fetch(`${serverUrl}/proposals/${proposalId}/ai-edit/apply`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${publicAnonKey}`,
+        },
+        body: JSON.stringify({
+          instruction: userMsg,
+          changes: changeSet.changes.map((c: any) => ({ section: c.section, content: c.after })),
+        }),
+      });
+      if(!applyResponse.ok) throw new Error("AI edit failed");
+
+      const data = { ...(await applyResponse.json()), editedSection: changeSet.editedSection };
       onProposalUpdate(data.proposal);
       setMessages(prev => [...prev, { role: 'assistant', content: `✅ Updated ${data.editedSection} section based on your feedback.` }]);
       toast.success(`Updated ${data.editedSection}`);
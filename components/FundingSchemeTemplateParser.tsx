@@ -3,6 +3,7 @@ import { supabase } from '../utils/supabase'
 import { Upload, Loader2, Sparkles, Check, X, Pencil, Trash2, Plus, Info } from 'lucide-react'
 import { toast } from 'sonner'
 import type { ParsedTemplate, FundingSchemeSection } from '../types/funding-scheme'
+import { startJob, waitForJob } from '../utils/jobs'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card'
@@ -15,6 +16,7 @@ export function FundingSchemeTemplateParser() {
     const [file, setFile] = useState<File | null>(null)
     const [uploading, setUploading] = useState(false)
     const [parsing, setParsing] = useState(false)
+    const [parseStatus, setParseStatus] = useState<string | null>(null)
     const [extractedTemplate, setExtractedTemplate] = useState<ParsedTemplate | null>(null)
     const [editingSections, setEditingSections] = useState<FundingSchemeSection[]>([])
     const [fundingSchemeName, setFundingSchemeName] = useState('')
@@ -61,19 +63,14 @@ export function FundingSchemeTemplateParser() {
             toast.success('File uploaded! AI is analyzing...')
             setUploading(false)
 
-            // 2. Call AI parser Edge Function
-            const { data: parseResult, error: parseError } = await supabase.functions.invoke(
-                'parse-funding-template',
-                {
-                    body: {
-                        fileUrl: uploadData.path,
-                        fundingSchemeName: fundingSchemeName
-                    }
-                }
-            )
-
-            if (parseError) throw parseError
-            if (!parseResult.success) throw new Error(parseResult.error)
+            // 2. Queue the AI parser as a background job and follow its progress
+            const job = await startJob('parse-funding-template', {
+                fileUrl: uploadData.path,
+                fundingSchemeName: fundingSchemeName
+            })
+            const parseResult = await waitForJob<{ template: ParsedTemplate }>(job.id, {
+                onUpdate: (update) => setParseStatus(update.progressMessage || (update.status === 'queued' ? 'Waiting for a worker...' : null))
+            })
 
             setExtractedTemplate(parseResult.template)
             setEditingSections(parseResult.template.sections)
@@ -81,12 +78,14 @@ export function FundingSchemeTemplateParser() {
 
             toast.success('Template extracted! Please review and edit.')
             setParsing(false)
+            setParseStatus(null)
 
         } catch (error: any) {
             console.error('Error:', error)
             toast.error(`Failed to parse template: ${error.message}`)
             setUploading(false)
             setParsing(false)
+            setParseStatus(null)
         }
     }
 
@@ -232,7 +231,7 @@ export function FundingSchemeTemplateParser() {
                                     {parsing ? (
                                         <>
                                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                            Parsing Template...
+                                            {parseStatus || 'Parsing Template...'}
                                         </>
                                     ) : uploading ? (
                                         <>
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { CalendarRange, Diamond, FileText } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import type { FullProposal } from '../types/proposal';
+import { ganttRows, projectDuration, scheduleActivity, type GanttRow, type MonthRange } from '../utils/gantt';
+
+interface GanttChartProps {
+    proposal: FullProposal;
+    onChange: (fields: Partial<FullProposal>) => void;
+}
+
+interface DragState {
+    wpIndex: number;
+    activityIndex: number;
+    edge: 'start' | 'end';
+    range: MonthRange;
+}
+
+/** Work packages and activities on a month axis; activity bars are resized by dragging their ends */
+export function GanttChart({ proposal, onChange }: GanttChartProps) {
+    const axisRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const duration = projectDuration(proposal);
+    const rows = ganttRows(proposal);
+
+    if (rows.length === 0) return null;
+
+    const months = Array.from({ length: duration }, (_, i) => i + 1);
+    const position = (range: MonthRange) => ({
+        left: `${((range.start - 1) / duration) * 100}%`,
+        width: `${((range.end - range.start + 1) / duration) * 100}%`,
+    });
+
+    // Month under the pointer, from the axis row (all rows share its width)
+    const monthAt = (clientX: number) => {
+        const rect = axisRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return 1;
+        return Math.min(duration, Math.max(1, Math.floor(((clientX - rect.left) / rect.width) * duration) + 1));
+    };
+
+    const startDrag = (row: GanttRow, edge: 'start' | 'end') => (e: React.PointerEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const state: DragState = { wpIndex: row.wpIndex, activityIndex: row.activityIndex!, edge, range: row.range };
+        setDrag(state);
+
+        let current = state.range;
+        const onMove = (event: PointerEvent) => {
+            const month = monthAt(event.clientX);
+            current = edge === 'start'
+                ? { start: Math.min(month, state.range.end), end: state.range.end }
+                : { start: state.range.start, end: Math.max(month, state.range.start) };
+            setDrag({ ...state, range: current });
+        };
+        const onUp = () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+            setDrag(null);
+            if (current.start !== row.range.start || current.end !== row.range.end) {
+                onChange({ workPackages: scheduleActivity(proposal, state.wpIndex, state.activityIndex, current) });
+            }
+        };
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerup', onUp);
+    };
+
+    const rangeOf = (row: GanttRow) =>
+        drag && row.kind === 'activity' && drag.wpIndex === row.wpIndex && drag.activityIndex === row.activityIndex ? drag.range : row.range;
+
+    return (
+        <div className="mt-6 space-y-3">
+            <h4 className="text-base font-semibold flex items-center gap-2">
+                <CalendarRange className="h-4 w-4 text-primary" />
+                Gantt Chart
+            </h4>
+            <Card className="bg-card/30 border-border/40 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <div className="min-w-[720px] text-xs select-none">
+                        {/* Month axis */}
+                        <div className="flex bg-secondary/50 border-b border-border/40">
+                            <div className="w-56 shrink-0 py-2 px-3 font-medium text-muted-foreground">Work package / activity</div>
+                            <div ref={axisRef} className="flex-1 flex">
+                                {months.map(month => (
+                                    <div key={month} className="flex-1 py-2 text-center text-[10px] text-muted-foreground border-l border-border/20">
+                                        {month}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {rows.map(row => {
+                            const range = rangeOf(row);
+                            const isActivity = row.kind === 'activity';
+                            return (
+                                <div
+                                    key={`${row.wpIndex}-${row.activityIndex ?? 'wp'}`}
+                                    className={`flex border-b border-border/20 ${isActivity ? '' : 'bg-secondary/20'}`}
+                                >
+                                    <div className={`w-56 shrink-0 py-2 px-3 truncate ${isActivity ? 'pl-6 text-muted-foreground' : 'font-semibold'}`} title={row.label}>
+                                        {row.label}
+                                    </div>
+                                    <div className="flex-1 relative h-8">
+                                        {months.map(month => (
+                                            <div
+                                                key={month}
+                                                className="absolute top-0 bottom-0 border-l border-border/10"
+                                                style={{ left: `${((month - 1) / duration) * 100}%` }}
+                                            />
+                                        ))}
+                                        <div
+                                            className={`absolute top-1.5 bottom-1.5 rounded ${isActivity ? 'bg-primary/40 border border-primary/60' : 'bg-primary/80'} group`}
+                                            style={position(range)}
+                                            title={`M${range.start}-M${range.end}`}
+                                        >
+                                            {isActivity && (
+                                                <>
+                                                    <div
+                                                        className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-l bg-primary/0 group-hover:bg-primary"
+                                                        onPointerDown={startDrag(row, 'start')}
+                                                    />
+                                                    <div
+                                                        className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-r bg-primary/0 group-hover:bg-primary"
+                                                        onPointerDown={startDrag(row, 'end')}
+                                                    />
+                                                </>
+                                            )}
+                                        </div>
+                                        {row.markers.map((marker, i) => (
+                                            <div
+                                                key={i}
+                                                className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 ${marker.kind === 'milestone' ? 'text-amber-400' : 'text-green-400'}`}
+                                                style={{ left: `${((marker.month - 0.5) / duration) * 100}%` }}
+                                                title={`${marker.label} (M${marker.month})`}
+                                            >
+                                                {marker.kind === 'milestone' ? <Diamond className="h-3.5 w-3.5 fill-current" /> : <FileText className="h-3.5 w-3.5" />}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                <div className="flex items-center gap-4 px-4 py-2 text-[11px] text-muted-foreground border-t border-border/40">
+                    <span className="flex items-center gap-1"><Diamond className="h-3 w-3 text-amber-400 fill-current" /> Milestone</span>
+                    <span className="flex items-center gap-1"><FileText className="h-3 w-3 text-green-400" /> Deliverable</span>
+                    <span>Drag the ends of an activity bar to change its months.</span>
+                </div>
+            </Card>
+        </div>
+    );
+}
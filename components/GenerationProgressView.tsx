@@ -0,0 +1,117 @@
+import React from 'react';
+import { Loader2, CheckCircle2, AlertTriangle, Users, Search, Layers, Wallet, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { Job, JobEvent } from '../types/job';
+
+interface GenerationProgressViewProps {
+    job: Job | null;
+    events: JobEvent[];
+    onCancel: () => void;
+}
+
+// One line of the phase log for each event the generate-proposal job emits
+const describeEvent = (event: JobEvent): { icon: React.ReactNode; text: string } | null => {
+    const { data } = event;
+    switch (event.type) {
+        case 'partners_loaded':
+            return {
+                icon: <Users className="h-3.5 w-3.5 text-[#4472C4]" />,
+                text: `Loaded ${data.count} partner${data.count === 1 ? '' : 's'}${data.partners?.length ? `: ${data.partners.map((p: any) => p.name).join(', ')}` : ''}`,
+            };
+        case 'rag_keywords':
+            return {
+                icon: <Search className="h-3.5 w-3.5 text-[#4472C4]" />,
+                text: data.found
+                    ? `Found expert knowledge for: ${data.keywords.join(', ')}`
+                    : `No expert knowledge found for: ${data.keywords.join(', ')}`,
+            };
+        case 'skeleton_ready':
+            return {
+                icon: <Layers className="h-3.5 w-3.5 text-[#4472C4]" />,
+                text: `Project plan ready: ${data.workPackages?.length || 0} work packages`,
+            };
+        case 'section_generated':
+        case 'work_package_generated':
+            return { icon: <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />, text: `${data.label} written` };
+        case 'step_failed':
+            return { icon: <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />, text: `${data.label} failed: ${data.error}` };
+        case 'budget_rebalanced':
+            return {
+                icon: <Wallet className="h-3.5 w-3.5 text-[#4472C4]" />,
+                text: `Budget rebalanced to €${Number(data.total || 0).toLocaleString('en-US')}`,
+            };
+        case 'saved':
+            return { icon: <Save className="h-3.5 w-3.5 text-green-500" />, text: 'Proposal saved' };
+        default:
+            return null;
+    }
+};
+
+/** Live view of a running generation: progress, phase log and each section as soon as it is written */
+export function GenerationProgressView({ job, events, onCancel }: GenerationProgressViewProps) {
+    const skeleton = [...events].reverse().find(e => e.type === 'skeleton_ready')?.data;
+    const sections = events.filter(e => e.type === 'section_generated' || e.type === 'work_package_generated');
+    const running = events
+        .filter(e => e.type === 'step_started')
+        .filter(started => !events.some(e => e.id > started.id && e.data?.stepId === started.data.stepId))
+        .map(e => e.data.label);
+    const log = events.map(e => ({ id: e.id, line: describeEvent(e) })).filter(e => e.line);
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-6">
+            <div className="flex flex-col items-center space-y-4">
+                <Loader2 className="h-10 w-10 animate-spin text-[#4472C4]" />
+                <div className="text-center">
+                    <h3 className="text-lg font-medium">{skeleton?.title || 'Generating Your Proposal'}</h3>
+                    <p className="text-sm text-muted-foreground mt-2">
+                        {running.length
+                            ? `Writing: ${running.join(', ')}`
+                            : job?.progressMessage || 'AI is drafting the project plan, then writing each section and work package...'}
+                    </p>
+                </div>
+                {job && (
+                    <div className="w-full max-w-md space-y-3">
+                        <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                            <div
+                                className="h-full bg-[#4472C4] transition-all duration-500"
+                                style={{ width: `${job.progress}%` }}
+                            />
+                        </div>
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>{job.status === 'queued' ? 'Waiting for a worker...' : `${job.progress}%`}</span>
+                            <Button variant="ghost" className="h-7 px-2 text-xs" onClick={onCancel} disabled={job.cancelRequested}>
+                                {job.cancelRequested ? 'Cancelling...' : 'Cancel'}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {log.length > 0 && (
+                <div className="space-y-1.5 text-xs text-muted-foreground">
+                    {log.map(({ id, line }) => (
+                        <div key={id} className="flex items-center gap-2">
+                            {line!.icon}
+                            <span>{line!.text}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {sections.map(section => (
+                <Card key={section.id}>
+                    <CardHeader>
+                        <CardTitle className="text-base">{section.data.label}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <div
+                            className="prose prose-invert prose-sm max-w-none text-muted-foreground"
+                            dangerouslySetInnerHTML={{ __html: section.data.content || '' }}
+                        />
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -16,7 +16,7 @@ import { Input } from './ui/input';
 import { ScrollArea } from './ui/scroll-area';
 import { toast } from 'sonner';
 import { supabase } from '../utils/supabase';
-import { functionsUrl, publicAnonKey } from '../utils/supabase/info';
+import { startJob, waitForJob } from '../utils/jobs';
 
 export function GlobalLibraryPage() {
     const [knowledge, setKnowledge] = useState<any[]>([]);
@@ -60,35 +60,36 @@ export function GlobalLibraryPage() {
                 return;
             }
 
-            toast.info(`Found ${files.length} files. Starting deep analysis with Gemini 2.0...`);
+            // 2. Queue one indexing job per file; the server works through them in the background
+            const indexable = files.filter(file => file.name !== '.emptyFolderPlaceholder');
+            const jobs = await Promise.all(indexable.map(file => startJob('index-knowledge', {
+                fileUrl: file.name,
+                sourceName: file.name.replace('.pdf', '')
+            })));
 
-            // 2. Index each file
-            let totalChunks = 0;
-            for (const file of files) {
-                if (file.name === '.emptyFolderPlaceholder') continue;
-
-                toast.loading(`Analyzing ${file.name}...`, { id: 'sync-progress' });
-
-                const response = await fetch(`${functionsUrl}/index-knowledge`, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${publicAnonKey}`,
-                        'apikey': publicAnonKey
-                    },
-                    body: JSON.stringify({
-                        fileUrl: file.name,
-                        sourceName: file.name.replace('.pdf', '')
-                    })
-                });
+            toast.loading(`Queued ${jobs.length} files for deep analysis...`, { id: 'sync-progress' });
 
-                const result = await response.json();
-                if (result.success) {
+            // 3. Follow the jobs until every file is analyzed
+            let totalChunks = 0;
+            let finished = 0;
+            let failed = 0;
+            await Promise.all(jobs.map(async (job) => {
+                try {
+                    const result = await waitForJob<{ count: number }>(job.id);
                     totalChunks += result.count;
+                } catch (error) {
+                    console.error(`Indexing ${job.payload.fileUrl} failed:`, error);
+                    failed++;
                 }
+                finished++;
+                toast.loading(`Analyzed ${finished}/${jobs.length} files...`, { id: 'sync-progress' });
+            }));
+
+            if (failed > 0) {
+                toast.warning(`Sync finished with ${failed} failed file(s). Extracted ${totalChunks} intelligence chunks.`, { id: 'sync-progress' });
+            } else {
+                toast.success(`Sync complete! Extracted ${totalChunks} intelligence chunks.`, { id: 'sync-progress' });
             }
-
-            toast.success(`Sync complete! Extracted ${totalChunks} intelligence chunks.`, { id: 'sync-progress' });
             await loadKnowledge();
         } catch (error: any) {
             console.error('Sync failed:', error);
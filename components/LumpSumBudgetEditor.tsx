@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, Loader2, RotateCcw, Save, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Select } from '@/components/ui/primitives';
+import type { FullProposal, LumpSumBudget } from '../types/proposal';
+import type { LumpSumRules } from '../types/funding-scheme';
+import { checkLumpSum, createLumpSum, lumpSumMatrix, managementWorkPackageIndex, syncLumpSum } from '../utils/lump-sum';
+
+interface LumpSumBudgetEditorProps {
+    proposal: FullProposal;
+    rules: LumpSumRules;
+    formatCurrency: (amount: number) => string;
+    onSave: (lumpSum: LumpSumBudget) => Promise<void>;
+}
+
+const parseShare = (value: string) => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/** Work package x partner allocation of a lump sum, in the layout of the Erasmus+ application form */
+export function LumpSumBudgetEditor({ proposal, rules, formatCurrency, onSave }: LumpSumBudgetEditorProps) {
+    const initial = () => (proposal.lumpSum ? syncLumpSum(proposal.lumpSum, proposal) : createLumpSum(proposal, rules));
+    const [draft, setDraft] = useState<LumpSumBudget>(initial);
+    const [saving, setSaving] = useState(false);
+
+    // Work packages or partners added elsewhere in the viewer show up here with a 0% share
+    useEffect(() => {
+        setDraft(current => syncLumpSum(current, proposal));
+    }, [proposal.workPackages?.length, proposal.partners?.length]);
+
+    const partners = proposal.partners || [];
+    const matrix = useMemo(() => lumpSumMatrix(draft, proposal), [draft, proposal]);
+    const issues = useMemo(() => checkLumpSum(draft, proposal, rules), [draft, proposal, rules]);
+    const errors = issues.filter(issue => issue.level === 'error');
+    const management = managementWorkPackageIndex(proposal);
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(proposal.lumpSum ? syncLumpSum(proposal.lumpSum, proposal) : null);
+    const amounts = rules.amounts.includes(draft.amount) ? rules.amounts : [...rules.amounts, draft.amount];
+
+    const setWorkPackageShare = (index: number, share: number) => {
+        setDraft(current => ({
+            ...current,
+            workPackages: current.workPackages.map((wp, i) => (i === index ? { ...wp, share } : wp)),
+        }));
+    };
+
+    const setPartnerShare = (index: number, partner: string, share: number) => {
+        setDraft(current => ({
+            ...current,
+            workPackages: current.workPackages.map((wp, i) => (i === index ? { ...wp, partnerShares: { ...wp.partnerShares, [partner]: share } } : wp)),
+        }));
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await onSave(draft);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const wpShareTotal = draft.workPackages.reduce((sum, wp) => sum + (wp.share || 0), 0);
+
+    return (
+        <Card className="bg-card/30 border-border/40 overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-border/40">
+                <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Lump sum:</span>
+                    <Select
+                        value={String(draft.amount)}
+                        onChange={(e) => setDraft(current => ({ ...current, amount: Number(e.target.value) }))}
+                        className="h-8 w-40"
+                    >
+                        {amounts.map(amount => (
+                            <option key={amount} value={amount}>{formatCurrency(amount)}</option>
+                        ))}
+                    </Select>
+                    {rules.managementMaxShare ? (
+                        <span className="text-xs text-muted-foreground">Project management max. {rules.managementMaxShare}%</span>
+                    ) : null}
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="ghost" className="h-8 px-3 text-xs gap-1" onClick={() => setDraft(createLumpSum(proposal, rules))} title="Split again from the activity budgets">
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Reset split
+                    </Button>
+                    <Button className="h-8 px-3 text-xs gap-1" onClick={handleSave} disabled={saving || errors.length > 0 || !isDirty}>
+                        {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+                        Save allocation
+                    </Button>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead className="bg-secondary/50">
+                        <tr>
+                            <th className="text-left py-3 px-4 font-medium text-muted-foreground min-w-[200px]">Work package</th>
+                            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Share</th>
+                            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Amount</th>
+                            {partners.map(partner => (
+                                <th key={partner.name} className="text-right py-3 px-4 font-medium text-muted-foreground min-w-[120px]" title={partner.name}>
+                                    {partner.acronym || partner.name}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border/20">
+                        {(proposal.workPackages || []).map((wp, i) => {
+                            const allocation = draft.workPackages[i];
+                            if (!allocation) return null;
+                            const overCap = i === management && !!rules.managementMaxShare && allocation.share > rules.managementMaxShare;
+                            return (
+                                <tr key={i} className="hover:bg-white/5">
+                                    <td className="py-2 px-4 font-medium">
+                                        WP{i + 1}: {wp.name}
+                                        {i === management && <span className="ml-2 text-[10px] uppercase tracking-wider text-muted-foreground">Management</span>}
+                                    </td>
+                                    <td className="py-2 px-4">
+                                        <div className="flex items-center justify-end gap-1">
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={100}
+                                                step={0.5}
+                                                value={allocation.share}
+                                                onChange={(e) => setWorkPackageShare(i, parseShare(e.target.value))}
+                                                className={`h-7 w-20 text-right text-xs ${overCap ? 'border-red-500/60 text-red-400' : ''}`}
+                                            />
+                                            <span className="text-xs text-muted-foreground">%</span>
+                                        </div>
+                                    </td>
+                                    <td className="py-2 px-4 text-right font-mono">{formatCurrency(matrix.workPackages[i]?.amount || 0)}</td>
+                                    {partners.map((partner, p) => (
+                                        <td key={partner.name} className="py-2 px-4">
+                                            <div className="flex items-center justify-end gap-1">
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    max={100}
+                                                    step={0.5}
+                                                    value={allocation.partnerShares[partner.name] ?? 0}
+                                                    onChange={(e) => setPartnerShare(i, partner.name, parseShare(e.target.value))}
+                                                    className="h-7 w-16 text-right text-xs"
+                                                />
+                                                <span className="text-xs text-muted-foreground">%</span>
+                                            </div>
+                                            <div className="text-right font-mono text-[11px] text-muted-foreground mt-0.5">
+                                                {formatCurrency(matrix.workPackages[i]?.partners[p] || 0)}
+                                            </div>
+                                        </td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                    <tfoot className="bg-primary/5 font-bold border-t-2 border-primary/20">
+                        <tr>
+                            <td className="py-3 px-4 text-primary">Total</td>
+                            <td className={`py-3 px-4 text-right font-mono ${Math.abs(wpShareTotal - 100) < 0.01 ? '' : 'text-red-400'}`}>
+                                {Math.round(wpShareTotal * 100) / 100}%
+                            </td>
+                            <td className="py-3 px-4 text-right font-mono text-primary">{formatCurrency(draft.amount)}</td>
+                            {partners.map((partner, p) => (
+                                <td key={partner.name} className="py-3 px-4 text-right font-mono">
+                                    {formatCurrency(matrix.partnerTotals[p] || 0)}
+                                </td>
+                            ))}
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+
+            {issues.length > 0 && (
+                <div className="p-4 border-t border-border/40 space-y-1.5">
+                    {issues.map((issue, i) => (
+                        <div key={i} className={`flex items-start gap-2 text-xs ${issue.level === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                            {issue.level === 'error' ? <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" /> : <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />}
+                            <span>{issue.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Card>
+    );
+}
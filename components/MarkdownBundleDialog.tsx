@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileArchive, FileCode, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { FullProposal } from '../types/proposal';
+import { exportToHtml } from '../utils/export-html';
+import { exportMarkdownBundle, readMarkdownBundle, type MarkdownBundleImport } from '../utils/markdown-bundle';
+
+interface MarkdownBundleDialogProps {
+    proposal: FullProposal;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onApply: (fields: Partial<FullProposal>) => void;
+}
+
+/** Markdown bundle and HTML exports, and the re-import of an edited bundle with a summary of what it changes */
+export function MarkdownBundleDialog({ proposal, open, onOpenChange, onApply }: MarkdownBundleDialogProps) {
+    const [exporting, setExporting] = useState(false);
+    const [reading, setReading] = useState(false);
+    const [fileName, setFileName] = useState('');
+    const [result, setResult] = useState<MarkdownBundleImport | null>(null);
+
+    const handleOpenChange = (value: boolean) => {
+        if (!value) {
+            setFileName('');
+            setResult(null);
+        }
+        onOpenChange(value);
+    };
+
+    const handleExportBundle = async () => {
+        setExporting(true);
+        try {
+            await exportMarkdownBundle(proposal);
+        } catch (error: any) {
+            console.error('Markdown export error:', error);
+            toast.error('Failed to export the Markdown bundle');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const handleExportHtml = () => {
+        try {
+            exportToHtml(proposal);
+        } catch (error: any) {
+            console.error('HTML export error:', error);
+            toast.error('Failed to export HTML');
+        }
+    };
+
+    const handleFile = async (file?: File) => {
+        if (!file) return;
+        setReading(true);
+        try {
+            setResult(await readMarkdownBundle(file, proposal));
+            setFileName(file.name);
+        } catch (error: any) {
+            console.error('Markdown import error:', error);
+            toast.error(error.message || 'Could not read the bundle');
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const handleApply = () => {
+        if (!result) return;
+        onApply(result.fields);
+        toast.success(`Imported ${fileName}`);
+        handleOpenChange(false);
+    };
+
+    const hasErrors = !!result?.errors.length;
+    const changeCount = result ? result.sections.length + result.data.length : 0;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="space-y-4">
+                <DialogHeader>
+                    <DialogTitle>Markdown & HTML</DialogTitle>
+                    <DialogDescription>
+                        The Markdown bundle has one file per section and the structured data as YAML front matter, for review in git. The HTML file is a single page to read or paste from.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={handleExportBundle} disabled={exporting} className="gap-2">
+                        {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileArchive className="h-4 w-4" />}
+                        Markdown bundle (.zip)
+                    </Button>
+                    <Button variant="outline" onClick={handleExportHtml} className="gap-2">
+                        <FileCode className="h-4 w-4" />
+                        HTML
+                    </Button>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Import an edited bundle</p>
+                    <label className="flex items-center gap-3 rounded-md border border-dashed border-border/60 p-3 cursor-pointer hover:bg-muted/30">
+                        <input type="file" accept=".zip" className="hidden" disabled={reading} onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+                        {reading ? <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /> : <Upload className="h-5 w-5 text-muted-foreground" />}
+                        <span className="text-sm">{fileName || 'Choose a .zip file'}</span>
+                    </label>
+                </div>
+
+                {result && (
+                    <div className="space-y-3 max-h-[40vh] overflow-y-auto pr-1">
+                        {hasErrors && (
+                            <div className="rounded-md border border-red-500/40 bg-red-500/10 p-2 text-xs space-y-1">
+                                <p className="font-medium text-red-300">The bundle cannot be imported:</p>
+                                <ul className="list-disc pl-4 space-y-0.5">
+                                    {result.errors.map((error, i) => <li key={i}>{error}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        {result.warnings.map((warning, i) => (
+                            <div key={i} className="flex items-start gap-2 text-xs text-amber-400">
+                                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                <span>{warning}</span>
+                            </div>
+                        ))}
+                        {!hasErrors && changeCount === 0 && (
+                            <p className="text-sm text-muted-foreground">The bundle matches the proposal - nothing to change.</p>
+                        )}
+                        {!hasErrors && result.sections.length > 0 && (
+                            <div className="space-y-1">
+                                <p className="text-xs font-medium">Sections</p>
+                                {result.sections.map(section => (
+                                    <div key={section.key} className="flex items-center gap-2 text-xs">
+                                        <span>{section.title}</span>
+                                        <span className="font-mono text-[10px] text-muted-foreground">{section.key}</span>
+                                        {section.added && <Badge variant="secondary" className="text-[10px]">new</Badge>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {!hasErrors && result.data.length > 0 && (
+                            <div className="space-y-1">
+                                <p className="text-xs font-medium">Structured data</p>
+                                <p className="text-xs text-muted-foreground">{result.data.join(', ')}</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleOpenChange(false)}>Close</Button>
+                    <Button onClick={handleApply} disabled={!result || hasErrors || changeCount === 0}>
+                        Apply {changeCount} change{changeCount === 1 ? '' : 's'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { AlertTriangle, FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import type { FundingSchemeTemplate, InstructionRules, OfficialDocxTemplate } from '../types/funding-scheme';
+import { supabase } from '../utils/supabase';
+import { STRUCTURED_TARGETS, extractTemplateAnchors, flattenSections } from '../utils/docx-template';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label, Select } from './ui/primitives';
+import { Checkbox } from './ui/checkbox';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+
+interface OfficialTemplateEditorProps {
+    template: FundingSchemeTemplate;
+    onChange: (template: FundingSchemeTemplate) => void;
+}
+
+/** Upload of the scheme's official Part B DOCX and the mapping of its headings and placeholders to sections */
+export function OfficialTemplateEditor({ template, onChange }: OfficialTemplateEditorProps) {
+    const official = template.officialDocx;
+    const [uploading, setUploading] = useState(false);
+    // Kept as typed, so a new line can be started before the next pattern
+    const [patternsText, setPatternsText] = useState(official?.instructions?.patterns?.join('\n') || '');
+    const [stylesText, setStylesText] = useState(official?.instructions?.styles?.join(', ') || '');
+
+    const sections = flattenSections(template.sections);
+    const updateOfficial = (updates: Partial<OfficialDocxTemplate>) => {
+        if (official) onChange({ ...template, officialDocx: { ...official, ...updates } });
+    };
+    const updateInstructions = (updates: Partial<InstructionRules>) => {
+        updateOfficial({ instructions: { ...official?.instructions, ...updates } });
+    };
+
+    const handleUpload = async (file?: File) => {
+        if (!file) return;
+        if (!file.name.toLowerCase().endsWith('.docx')) {
+            toast.error('Please upload the template as a .docx file');
+            return;
+        }
+        setUploading(true);
+        try {
+            const anchors = await extractTemplateAnchors(file, template.sections);
+            const { data, error } = await supabase.storage
+                .from('funding-templates')
+                .upload(`official/${Date.now()}_${file.name}`, file, { cacheControl: '3600', upsert: false });
+            if (error) throw error;
+
+            onChange({
+                ...template,
+                officialDocx: { path: data.path, fileName: file.name, anchors, instructions: official?.instructions || { italic: true } },
+            });
+            toast.success(`Found ${anchors.length} headings and placeholders, ${anchors.filter(a => a.sectionKey).length} matched to sections`);
+        } catch (error: any) {
+            console.error('Template upload failed:', error);
+            toast.error(`Could not read the template: ${error.message}`);
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const mappedKeys = new Set(official?.anchors.map(a => a.sectionKey).filter(Boolean));
+    // Sections whose content has no place in the filled template: neither they nor an ancestor are mapped
+    const unplaced = sections.filter(section =>
+        !mappedKeys.has(section.key) && !sections.some(parent => mappedKeys.has(parent.key) && parent.descendants.includes(section.key)));
+
+    return (
+        <Card className="bg-muted/30">
+            <CardContent className="p-4 space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h4 className="text-sm font-semibold text-foreground">Official Part B Template</h4>
+                        <p className="text-xs text-muted-foreground">
+                            DOCX exports fill this file instead of the generated layout. Content goes below mapped headings or replaces mapped placeholders.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                        <label>
+                            <input type="file" accept=".docx" className="hidden" disabled={uploading} onChange={(e) => { handleUpload(e.target.files?.[0]); e.target.value = ''; }} />
+                            <span className="inline-flex items-center gap-1 h-7 px-2 text-xs rounded-md border border-border/60 bg-background cursor-pointer hover:bg-muted">
+                                {uploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+                                {official ? 'Replace' : 'Upload DOCX'}
+                            </span>
+                        </label>
+                        {official && (
+                            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs gap-1 text-muted-foreground hover:text-destructive" onClick={() => onChange({ ...template, officialDocx: undefined })}>
+                                <Trash2 className="h-3.5 w-3.5" />
+                                Remove
+                            </Button>
+                        )}
+                    </div>
+                </div>
+
+                {official && (
+                    <>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <FileText className="h-4 w-4" />
+                            <span className="font-medium text-foreground">{official.fileName}</span>
+                            <span>• {official.anchors.filter(a => a.sectionKey).length} of {official.anchors.length} anchors mapped</span>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label className="text-xs">Instructions to remove on export</Label>
+                            <div className="flex items-center gap-2">
+                                <Checkbox
+                                    id="official-remove-italic"
+                                    checked={!!official.instructions?.italic}
+                                    onCheckedChange={(checked) => updateInstructions({ italic: !!checked })}
+                                />
+                                <Label htmlFor="official-remove-italic" className="text-xs cursor-pointer">
+                                    Paragraphs and tables whose text is all italic
+                                </Label>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <Input
+                                    value={stylesText}
+                                    onChange={(e) => {
+                                        setStylesText(e.target.value);
+                                        updateInstructions({ styles: e.target.value.split(',').map(s => s.trim()).filter(Boolean) });
+                                    }}
+                                    placeholder="Paragraph style ids, e.g. Instructions, Guidance"
+                                    className="h-9 text-xs"
+                                />
+                                <Textarea
+                                    value={patternsText}
+                                    onChange={(e) => {
+                                        setPatternsText(e.target.value);
+                                        updateInstructions({ patterns: e.target.value.split('\n').map(s => s.trim()).filter(Boolean) });
+                                    }}
+                                    rows={2}
+                                    placeholder={'Text patterns (regular expressions), one per line\ne.g. ^Please (describe|explain)'}
+                                    className="resize-none font-mono text-xs"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-1 max-h-96 overflow-y-auto rounded-md border border-border/40 p-2">
+                            {official.anchors.length === 0 && (
+                                <p className="text-xs text-muted-foreground p-2">No headings or placeholders found. Use Word heading styles or "[...]" placeholders in the template.</p>
+                            )}
+                            {official.anchors.map((anchor, i) => (
+                                <div key={anchor.index} className="flex items-center gap-3">
+                                    <span className="w-8 shrink-0 text-[10px] font-mono text-muted-foreground">
+                                        {anchor.kind === 'heading' ? `H${anchor.level}` : '[ ]'}
+                                    </span>
+                                    <span
+                                        className={`flex-1 truncate text-xs ${anchor.kind === 'placeholder' ? 'italic text-muted-foreground' : ''}`}
+                                        style={{ paddingLeft: `${Math.max(0, (anchor.level || 1) - 1) * 12}px` }}
+                                        title={anchor.text}
+                                    >
+                                        {anchor.text}
+                                    </span>
+                                    <div className="w-64 shrink-0">
+                                        <Select
+                                            value={anchor.sectionKey || ''}
+                                            onChange={(e) => updateOfficial({
+                                                anchors: official.anchors.map((a, j) => (j === i ? { ...a, sectionKey: e.target.value || null } : a)),
+                                            })}
+                                            className="h-8 text-xs"
+                                        >
+                                            <option value="">Not filled</option>
+                                            <optgroup label="Sections">
+                                                {sections.map(section => (
+                                                    <option key={section.key} value={section.key}>{'\u00a0'.repeat(section.depth * 3)}{section.label}</option>
+                                                ))}
+                                            </optgroup>
+                                            <optgroup label="Structured data">
+                                                {STRUCTURED_TARGETS.map(target => <option key={target.key} value={target.key}>{target.label}</option>)}
+                                            </optgroup>
+                                        </Select>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {unplaced.length > 0 && (
+                            <div className="flex items-start gap-2 text-xs text-amber-400">
+                                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                <span>Not in the exported template: {unplaced.map(s => s.label).join(', ')}</span>
+                            </div>
+                        )}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { AlertTriangle, Crown, Users } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import type { FullProposal } from '../types/proposal';
+import { checkPartnerShares, getCoFinancingRate, partnerBudgetMatrix } from '../utils/partner-budget';
+import { getBudgetModel } from '../utils/lump-sum';
+
+interface PartnerBudgetTableProps {
+    proposal: FullProposal;
+    formatCurrency: (amount: number) => string;
+    onChange: (fields: Partial<FullProposal>) => void;
+}
+
+/** Partners x cost categories, with each partner's EU and own contribution and share warnings */
+export function PartnerBudgetTable({ proposal, formatCurrency, onChange }: PartnerBudgetTableProps) {
+    const matrix = partnerBudgetMatrix(proposal);
+    const warnings = checkPartnerShares(proposal, matrix);
+    const warned = new Set(warnings.map(w => w.partner));
+    const hasUnallocated = matrix.unallocated.some(amount => Math.abs(amount) >= 1);
+    const isActualCost = getBudgetModel(proposal) === 'actual-cost';
+
+    if (matrix.rows.length === 0 || matrix.categories.length === 0) return null;
+
+    const setAllocation = (itemIndex: number, partner: string, amount: number) => {
+        const budget = (proposal.budget || []).map((item, i) => {
+            if (i !== itemIndex) return item;
+            const others = (item.partnerAllocations || []).filter(a => a.partner !== partner);
+            return { ...item, partnerAllocations: [...others, { partner, amount }] };
+        });
+        onChange({ budget });
+    };
+
+    return (
+        <div className="mt-6 space-y-3">
+            <div className="flex items-center justify-between">
+                <h4 className="text-base font-semibold flex items-center gap-2">
+                    <Users className="h-4 w-4 text-primary" />
+                    Budget per Partner
+                </h4>
+                {!isActualCost && (
+                    <span className="text-xs text-muted-foreground">EU co-financing rate: {getCoFinancingRate(proposal)}%</span>
+                )}
+            </div>
+            <Card className="bg-card/30 border-border/40 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead className="bg-secondary/50">
+                            <tr>
+                                <th className="text-left py-3 px-3 font-medium text-muted-foreground min-w-[160px]">Partner</th>
+                                {matrix.categories.map((category, i) => (
+                                    <th key={i} className="text-right py-3 px-3 font-medium text-muted-foreground min-w-[110px]">{category}</th>
+                                ))}
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">Total</th>
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">Share</th>
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">EU contribution</th>
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">Own contribution</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border/20">
+                            {matrix.rows.map(row => (
+                                <tr key={row.partner} className="hover:bg-white/5">
+                                    <td className="py-2 px-3 font-medium">
+                                        <span className="inline-flex items-center gap-1.5">
+                                            {row.isCoordinator && <Crown className="h-3 w-3 text-amber-400" />}
+                                            {row.partner}
+                                        </span>
+                                    </td>
+                                    {row.amounts.map((amount, i) => (
+                                        <td key={i} className="py-1.5 px-3 text-right font-mono">
+                                            {matrix.editable ? (
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    value={amount || ''}
+                                                    onChange={(e) => setAllocation(i, row.partner, Math.max(0, Math.round(parseFloat(e.target.value) || 0)))}
+                                                    className="h-7 w-28 ml-auto text-right text-xs bg-transparent border-transparent hover:border-border/40 focus:border-primary"
+                                                    placeholder="0"
+                                                />
+                                            ) : formatCurrency(amount)}
+                                        </td>
+                                    ))}
+                                    <td className="py-2 px-3 text-right font-mono font-medium">{formatCurrency(row.total)}</td>
+                                    <td className={`py-2 px-3 text-right font-mono ${warned.has(row.partner) ? 'text-amber-400' : ''}`}>{row.share}%</td>
+                                    <td className="py-2 px-3 text-right font-mono">{formatCurrency(row.euContribution)}</td>
+                                    <td className="py-2 px-3 text-right font-mono text-muted-foreground">{formatCurrency(row.ownContribution)}</td>
+                                </tr>
+                            ))}
+                            {hasUnallocated && (
+                                <tr className="text-amber-400">
+                                    <td className="py-2 px-3 font-medium">Not allocated</td>
+                                    {matrix.unallocated.map((amount, i) => (
+                                        <td key={i} className="py-2 px-3 text-right font-mono">{Math.abs(amount) >= 1 ? formatCurrency(amount) : ''}</td>
+                                    ))}
+                                    <td className="py-2 px-3 text-right font-mono">{formatCurrency(matrix.unallocated.reduce((sum, amount) => sum + amount, 0))}</td>
+                                    <td colSpan={3}></td>
+                                </tr>
+                            )}
+                        </tbody>
+                        <tfoot className="bg-primary/5 font-bold border-t-2 border-primary/20">
+                            <tr>
+                                <td className="py-3 px-3 text-primary">Total</td>
+                                {matrix.categories.map((_, i) => (
+                                    <td key={i} className="py-3 px-3 text-right font-mono">
+                                        {formatCurrency(matrix.rows.reduce((sum, row) => sum + row.amounts[i], 0) + matrix.unallocated[i])}
+                                    </td>
+                                ))}
+                                <td className="py-3 px-3 text-right font-mono text-primary">{formatCurrency(matrix.total)}</td>
+                                <td></td>
+                                <td className="py-3 px-3 text-right font-mono">{formatCurrency(matrix.rows.reduce((sum, row) => sum + row.euContribution, 0))}</td>
+                                <td className="py-3 px-3 text-right font-mono">{formatCurrency(matrix.rows.reduce((sum, row) => sum + row.ownContribution, 0))}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </Card>
+
+            {warnings.length > 0 && (
+                <div className="space-y-1.5">
+                    {warnings.map((warning, i) => (
+                        <div key={i} className="flex items-start gap-2 text-xs text-amber-400">
+                            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                            <span>{warning.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
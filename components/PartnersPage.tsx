@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { serverUrl, publicAnonKey } from '../utils/supabase/info';
+import { startPartnerImportJob, waitForJob } from '../utils/jobs';
 import type { Partner } from '../types/partner';
 import { DeleteConfirmDialog } from '@/components/ui/delete-confirm-dialog';
 
@@ -159,40 +160,14 @@ export function PartnersPage({ onEditPartner }: PartnersPageProps) {
                                 const toastId = toast.loading('Starting upload...');
 
                                 try {
-                                    const formData = new FormData();
-                                    formData.append('file', file);
+                                    // The extraction runs as a background job; poll it until the partner exists
+                                    const job = await startPartnerImportJob(file);
+                                    console.log('Import job queued:', job.id);
 
-                                    console.log('Sending request to:', `${serverUrl}/import-partner-pdf`);
-
-                                    // Add timeout to fetch
-                                    const controller = new AbortController();
-                                    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60s timeout
-
-                                    const startTime = Date.now();
-                                    const response = await fetch(`${serverUrl}/import-partner-pdf`, {
-                                        method: 'POST',
-                                        headers: {
-                                            'Authorization': `Bearer ${publicAnonKey}`,
-                                        },
-                                        body: formData,
-                                        signal: controller.signal
+                                    const { partnerId } = await waitForJob<{ partnerId: string }>(job.id, {
+                                        onUpdate: (update) => toast.loading(update.progressMessage || 'Waiting for the import to start...', { id: toastId })
                                     });
-                                    clearTimeout(timeoutId);
-
-                                    const duration = Date.now() - startTime;
-                                    console.log('Response received after', duration, 'ms');
-                                    console.log('Response status:', response.status, response.statusText);
-
-                                    const responseText = await response.text();
-                                    console.log('Response body:', responseText);
-
-                                    if (!response.ok) {
-                                        throw new Error(`Server returned ${response.status}: ${responseText}`);
-                                    }
-
-                                    const data = JSON.parse(responseText);
-                                    console.log('Extraction success! Partner ID:', data.partnerId);
-                                    const { partnerId } = data;
+                                    console.log('Extraction success! Partner ID:', partnerId);
 
                                     toast.dismiss(toastId);
                                     toast.success('Partner imported successfully!');
@@ -209,11 +184,7 @@ export function PartnersPage({ onEditPartner }: PartnersPageProps) {
                                     console.error('=== PDF IMPORT ERROR ===', error);
                                     toast.dismiss(toastId);
 
-                                    if (error.name === 'AbortError') {
-                                        toast.error('Request timed out. The server took too long to respond.');
-                                    } else {
-                                        toast.error(`Failed to import PDF: ${error.message}`);
-                                    }
+                                    toast.error(`Failed to import PDF: ${error.message}`);
                                 } finally {
                                     // Reset input
                                     e.target.value = '';
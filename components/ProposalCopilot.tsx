@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, X, Sparkles, Loader2, User } from 'lucide-react';
+import { Send, Bot, X, Sparkles, Loader2, User, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -14,6 +14,13 @@ interface Message {
     role: 'user' | 'assistant';
     content: string;
     timestamp: number;
+    // Tool calls applied by this reply, undoable from the chat as one change
+    action?: {
+        id?: string;
+        sections: string[];
+        applied: { tool: string; summary: string }[];
+        undone?: boolean;
+    };
 }
 
 interface ProposalCopilotProps {
@@ -34,6 +41,7 @@ export function ProposalCopilot({ proposalId, isOpen, onClose, onProposalUpdate
     ]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [undoingId, setUndoingId] = useState<string | null>(null);
     const scrollRef = useRef<HTMLDivElement>(null);
 
     // Auto-scroll to bottom
@@ -43,6 +51,50 @@ export function ProposalCopilot({ proposalId, isOpen, onClose, onProposalUpdate
         }
     }, [messages, isOpen]);
 
+    const callCopilot = async (body: Record<string, any>) => {
+        const response = await fetch(`${functionsUrl}/proposal-copilot`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${publicAnonKey}`,
+            },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            console.error('Copilot error response:', errorData);
+            throw new Error(errorData.error || `Server error: ${response.status}`);
+        }
+
+        return response.json();
+    };
+
+    // Reverts only the sections this message changed; the server refuses if one was edited since
+    const handleUndo = async (msg: Message) => {
+        if (!msg.action?.id || undoingId) return;
+
+        setUndoingId(msg.action.id);
+        try {
+            const data = await callCopilot({ proposalId, undoActionId: msg.action.id });
+            setMessages(prev => [
+                ...prev.map(m => m.id === msg.id && m.action ? { ...m, action: { ...m.action, undone: true } } : m),
+                { id: Date.now().toString(), role: 'assistant', content: data.response, timestamp: Date.now() }
+            ]);
+            onProposalUpdate?.();
+        } catch (error: any) {
+            console.error('Copilot undo error:', error);
+            setMessages(prev => [...prev, {
+                id: Date.now().toString(),
+                role: 'assistant',
+                content: `Could not undo: ${error.message}`,
+                timestamp: Date.now()
+            }]);
+        } finally {
+            setUndoingId(null);
+        }
+    };
+
     const handleSend = async () => {
         if (!input.trim() || isLoading) return;
 
@@ -64,38 +116,26 @@ export function ProposalCopilot({ proposalId, isOpen, onClose, onProposalUpdate
                 content: m.content
             }));
 
-            const response = await fetch(`${functionsUrl}/proposal-copilot`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${publicAnonKey}`,
-                },
-                body: JSON.stringify({
-                    proposalId,
-                    message: userMsg.content,
-                    history
-                }),
+            const data = await callCopilot({
+                proposalId,
+                message: userMsg.content,
+                history
             });
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({}));
-                console.error('Copilot error response:', errorData);
-                throw new Error(errorData.error || `Server error: ${response.status}`);
-            }
-
-            const data = await response.json();
-
             const aiMsg: Message = {
                 id: (Date.now() + 1).toString(),
                 role: 'assistant',
                 content: data.response,
-                timestamp: Date.now()
+                timestamp: Date.now(),
+                action: data.action?.type === 'tool_calls'
+                    ? { id: data.action.id, sections: data.action.sections || [], applied: data.action.applied || [] }
+                    : undefined
             };
 
             setMessages(prev => [...prev, aiMsg]);
 
             // Check if the backend performed an action (e.g., updated a section)
-            if (data.action && data.action.type === 'update_section') {
+            if (data.action && data.action.type === 'tool_calls') {
                 if (onProposalUpdate) {
                     onProposalUpdate();
                 }
@@ -165,6 +205,31 @@ export function ProposalCopilot({ proposalId, isOpen, onClose, onProposalUpdate
                                     : "bg-muted/50 border border-border"
                             )}>
                                 <p className="whitespace-pre-wrap">{msg.content}</p>
+                                {msg.action && (
+                                    <div className="mt-2 pt-2 border-t border-border space-y-1 text-xs text-muted-foreground">
+                                        {msg.action.applied.length > 0 && (
+                                            <ul className="list-disc pl-4 space-y-0.5">
+                                                {msg.action.applied.map((call, index) => <li key={index}>{call.summary}</li>)}
+                                            </ul>
+                                        )}
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span>Updated {msg.action.sections.join(', ')}</span>
+                                            {msg.action.undone ? (
+                                                <span>Undone</span>
+                                            ) : msg.action.id && (
+                                                <Button
+                                                    variant="ghost"
+                                                    className="h-6 px-2 text-xs gap-1"
+                                                    onClick={() => handleUndo(msg)}
+                                                    disabled={!!undoingId}
+                                                >
+                                                    {undoingId === msg.action.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Undo2 className="h-3 w-3" />}
+                                                    Undo
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     ))}
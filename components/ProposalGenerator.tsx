@@ -1,8 +1,13 @@
 import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { URLInputStep } from './URLInputStep';
 import { IdeasStep } from './IdeasStep';
 import { PartnerSelectionModal } from './PartnerSelectionModal';
 import { ProposalStep } from './ProposalStep';
+import { EligibilityChecklist } from './EligibilityChecklist';
+import { supabase } from '../utils/supabase';
+import { checkEligibility, getEligibilityRules, hasEligibilityRules, isEligible, type EligibilityCheck } from '../utils/eligibility';
 import type { AnalysisResult, Idea, FullProposal } from '../types/proposal';
 
 type Step = 'url-input' | 'ideas' | 'partners' | 'proposal';
@@ -34,11 +39,34 @@ export function ProposalGenerator({ onViewProposal }: ProposalGeneratorProps) {
     setCurrentStep('partners');
   };
 
-  const handlePartnersConfirmed = (partners: any[]) => {
+  const [ineligible, setIneligible] = useState<{ partners: any[]; checks: EligibilityCheck[]; schemeName: string } | null>(null);
+
+  const startGeneration = (partners: any[]) => {
+    setIneligible(null);
     setSelectedPartners(partners);
     setCurrentStep('proposal');
   };
 
+  // The consortium is checked against the scheme's eligibility rules before any generation cost is spent
+  const handlePartnersConfirmed = async (partners: any[]) => {
+    if (selectedSchemeId) {
+      try {
+        const { data: scheme } = await supabase.from('funding_schemes').select('*').eq('id', selectedSchemeId).single();
+        const rules = getEligibilityRules(scheme);
+        if (hasEligibilityRules(rules)) {
+          const checks = checkEligibility(partners, rules!);
+          if (!isEligible(checks)) {
+            setIneligible({ partners, checks, schemeName: scheme.name });
+            return;
+          }
+        }
+      } catch (error) {
+        console.warn('Could not check the consortium eligibility', error);
+      }
+    }
+    startGeneration(partners);
+  };
+
   const handleProposalGenerated = (generatedProposal: FullProposal) => {
     setProposal(generatedProposal);
   };
@@ -103,6 +131,22 @@ export function ProposalGenerator({ onViewProposal }: ProposalGeneratorProps) {
         </div>
       )}
 
+      <Dialog open={!!ineligible} onOpenChange={(open: boolean) => !open && setIneligible(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Check the consortium before generating</DialogTitle>
+            <DialogDescription>
+              The selected partners do not meet the eligibility rules of the funding scheme. A proposal from this consortium would be ineligible.
+            </DialogDescription>
+          </DialogHeader>
+          {ineligible && <EligibilityChecklist checks={ineligible.checks} schemeName={ineligible.schemeName} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIneligible(null)}>Change partners</Button>
+            <Button variant="destructive" onClick={() => ineligible && startGeneration(ineligible.partners)}>Generate anyway</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {currentStep === 'proposal' && selectedIdea && analysisResult && (
         <ProposalStep
           selectedIdea={selectedIdea}
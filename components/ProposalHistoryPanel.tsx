@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { History, Loader2, RotateCcw, User, Wand2, Sparkles, FileText, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { toast } from 'sonner';
+import { serverUrl, publicAnonKey } from '../utils/supabase/info';
+import type { FullProposal, ProposalVersion, ProposalVersionSource } from '../types/proposal';
+
+interface ProposalHistoryPanelProps {
+    proposal: FullProposal;
+    isOpen: boolean;
+    onClose: () => void;
+    onRestored: () => void;
+}
+
+const SOURCE_LABELS: Record<ProposalVersionSource, { label: string; icon: React.ReactNode }> = {
+    initial: { label: 'Before history', icon: <FileText className="h-3.5 w-3.5" /> },
+    generation: { label: 'Generated', icon: <Sparkles className="h-3.5 w-3.5" /> },
+    manual: { label: 'Manual edit', icon: <User className="h-3.5 w-3.5" /> },
+    'ai-edit': { label: 'AI edit', icon: <Wand2 className="h-3.5 w-3.5" /> },
+    copilot: { label: 'Copilot', icon: <Sparkles className="h-3.5 w-3.5" /> },
+    restore: { label: 'Restore', icon: <Undo2 className="h-3.5 w-3.5" /> },
+};
+
+const STRUCTURED_SECTIONS: { key: string; label: string }[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'summary', label: 'Summary' },
+    { key: 'partners', label: 'Partners' },
+    { key: 'workPackages', label: 'Work Packages' },
+    { key: 'budget', label: 'Budget' },
+    { key: 'risks', label: 'Risks' },
+];
+
+const sectionsOf = (p: any) => p?.dynamic_sections || p?.dynamicSections || {};
+
+// Sections whose content in the snapshot differs from the current proposal
+const changedSections = (snapshot: any, current: any) => {
+    const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+    const structured = STRUCTURED_SECTIONS.filter(s => s.key in snapshot && !same(snapshot[s.key], current[s.key]));
+    const dynamic = Object.keys(sectionsOf(snapshot))
+        .filter(key => !same(sectionsOf(snapshot)[key], sectionsOf(current)[key]))
+        .map(key => ({ key, label: key.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()) }));
+    return [...structured, ...dynamic];
+};
+
+/** Lists the proposal's saved versions and restores a whole version or one of its sections */
+export function ProposalHistoryPanel({ proposal, isOpen, onClose, onRestored }: ProposalHistoryPanelProps) {
+    const [versions, setVersions] = useState<ProposalVersion[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [selected, setSelected] = useState<ProposalVersion | null>(null);
+    const [loadingVersion, setLoadingVersion] = useState<number | null>(null);
+    const [restoring, setRestoring] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen && proposal.id) loadVersions();
+        if (!isOpen) setSelected(null);
+    }, [isOpen, proposal.id]);
+
+    const loadVersions = async () => {
+        setLoading(true);
+        try {
+            const response = await fetch(`${serverUrl}/proposals/${proposal.id}/versions`, {
+                headers: { 'Authorization': `Bearer ${publicAnonKey}` },
+            });
+            if (!response.ok) throw new Error('Failed to load version history');
+            const data = await response.json();
+            setVersions(data.versions || []);
+        } catch (error: any) {
+            console.error('History error:', error);
+            toast.error(error.message || 'Failed to load version history');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const selectVersion = async (version: ProposalVersion) => {
+        if (selected?.version === version.version) {
+            setSelected(null);
+            return;
+        }
+        setLoadingVersion(version.version);
+        try {
+            const response = await fetch(`${serverUrl}/proposals/${proposal.id}/versions/${version.version}`, {
+                headers: { 'Authorization': `Bearer ${publicAnonKey}` },
+            });
+            if (!response.ok) throw new Error('Failed to load version');
+            setSelected(await response.json());
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to load version');
+        } finally {
+            setLoadingVersion(null);
+        }
+    };
+
+    const restore = async (version: number, section?: string) => {
+        setRestoring(section || 'all');
+        try {
+            const response = await fetch(`${serverUrl}/proposals/${proposal.id}/versions/${version}/restore`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${publicAnonKey}`,
+                },
+                body: JSON.stringify(section ? { section } : {}),
+            });
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new Error(data.error || 'Failed to restore version');
+
+            toast.success(section ? `Restored ${section} from version ${version}` : `Restored version ${version}`);
+            setSelected(null);
+            onRestored();
+            loadVersions();
+        } catch (error: any) {
+            console.error('Restore error:', error);
+            toast.error(error.message || 'Failed to restore version');
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    const latest = versions[0]?.version;
+    const changes = selected?.snapshot ? changedSections(selected.snapshot, proposal) : [];
+
+    return (
+        <Sheet open={isOpen} onOpenChange={open => !open && onClose()}>
+            <SheetContent side="right" className="sm:max-w-md w-full flex flex-col">
+                <SheetHeader>
+                    <SheetTitle className="flex items-center gap-2">
+                        <History className="h-5 w-5 text-primary" />
+                        Version History
+                    </SheetTitle>
+                    <SheetDescription>Every save is kept. Restoring creates a new version, so it can be undone too.</SheetDescription>
+                </SheetHeader>
+
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : versions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-12 text-center">No versions recorded yet. The first save creates one.</p>
+                ) : (
+                    <ScrollArea className="flex-1 mt-4 -mx-2 px-2">
+                        <div className="space-y-2">
+                            {versions.map(version => {
+                                const source = SOURCE_LABELS[version.source] || SOURCE_LABELS.manual;
+                                const isSelected = selected?.version === version.version;
+                                return (
+                                    <div
+                                        key={version.id}
+                                        className={`rounded-lg border p-3 cursor-pointer transition-colors ${isSelected ? 'border-primary/50 bg-primary/5' : 'border-border hover:bg-muted/30'}`}
+                                        onClick={() => selectVersion(version)}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <div className="flex items-center gap-2 text-sm font-medium">
+                                                v{version.version}
+                                                <Badge variant="secondary" className="gap-1 text-[10px] px-1.5 py-0 h-5">
+                                                    {source.icon}
+                                                    {source.label}
+                                                </Badge>
+                                                {version.version === latest && <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-5">Current</Badge>}
+                                            </div>
+                                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                                {new Date(version.createdAt).toLocaleString()}
+                                            </span>
+                                        </div>
+                                        {version.description && (
+                                            <p className="text-xs text-muted-foreground mt-1.5 line-clamp-2">{version.description}</p>
+                                        )}
+                                        {loadingVersion === version.version && <Loader2 className="h-4 w-4 animate-spin mt-2 text-muted-foreground" />}
+
+                                        {isSelected && selected?.snapshot && (
+                                            <div className="mt-3 pt-3 border-t border-border space-y-2" onClick={e => e.stopPropagation()}>
+                                                {changes.length === 0 ? (
+                                                    <p className="text-xs text-muted-foreground">Identical to the current proposal.</p>
+                                                ) : (
+                                                    <>
+                                                        <p className="text-xs text-muted-foreground">Differs from the current proposal in:</p>
+                                                        {changes.map(section => (
+                                                            <div key={section.key} className="flex items-center justify-between text-xs">
+                                                                <span>{section.label}</span>
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    className="h-7 px-2 text-xs gap-1"
+                                                                    disabled={!!restoring}
+                                                                    onClick={() => restore(version.version, section.key)}
+                                                                >
+                                                                    {restoring === section.key ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                                                                    Restore section
+                                                                </Button>
+                                                            </div>
+                                                        ))}
+                                                        <Button
+                                                            variant="outline"
+                                                            className="w-full h-8 text-xs gap-1 mt-2"
+                                                            disabled={!!restoring}
+                                                            onClick={() => restore(version.version)}
+                                                        >
+                                                            {restoring === 'all' ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                                                            Restore entire version {version.version}
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </ScrollArea>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, FileText, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import type { FundingScheme } from '../types/funding-scheme';
+import type { ImportedProposal, ImportedSection } from '../types/proposal-import';
+import { supabase } from '../utils/supabase';
+import { flattenSections } from '../utils/docx-template';
+import { buildImportedProposal, createImportedProposal, readProposalDocx } from '../utils/proposal-import';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label, Select } from './ui/primitives';
+import { Button } from './ui/button';
+
+interface ProposalImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onImported: (id: string) => void;
+}
+
+const excerpt = (html: string) => {
+    const text = html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+    return text.length > 140 ? `${text.slice(0, 140)}…` : text;
+};
+
+/** Upload of an existing Word proposal and review of where each of its headings goes before the proposal is created */
+export function ProposalImportDialog({ open, onOpenChange, onImported }: ProposalImportDialogProps) {
+    const [schemes, setSchemes] = useState<FundingScheme[]>([]);
+    const [schemeId, setSchemeId] = useState('');
+    const [file, setFile] = useState<File | null>(null);
+    const [reading, setReading] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [imported, setImported] = useState<ImportedProposal | null>(null);
+    const [sections, setSections] = useState<ImportedSection[]>([]);
+    const [title, setTitle] = useState('');
+
+    useEffect(() => {
+        if (!open || schemes.length > 0) return;
+        supabase
+            .from('funding_schemes')
+            .select('*')
+            .eq('is_active', true)
+            .order('is_default', { ascending: false })
+            .then(({ data, error }) => {
+                if (error) {
+                    console.error('Failed to load funding schemes:', error);
+                    return;
+                }
+                setSchemes(data || []);
+                if (data?.length && !schemeId) setSchemeId(data[0].id);
+            });
+    }, [open]);
+
+    const scheme = schemes.find(s => s.id === schemeId) || null;
+    const schemeSections = flattenSections(scheme?.template_json?.sections);
+
+    const reset = () => {
+        setFile(null);
+        setImported(null);
+        setSections([]);
+        setTitle('');
+    };
+
+    const handleOpenChange = (value: boolean) => {
+        if (!value) reset();
+        onOpenChange(value);
+    };
+
+    const handleRead = async () => {
+        if (!file) return;
+        if (!file.name.toLowerCase().endsWith('.docx')) {
+            toast.error('Please choose a .docx file');
+            return;
+        }
+        setReading(true);
+        try {
+            const result = await readProposalDocx(file, schemeId || undefined);
+            setImported(result);
+            setSections(result.sections);
+            setTitle(result.title);
+        } catch (error: any) {
+            console.error('Import error:', error);
+            toast.error(error.message || 'Could not read the document');
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (!imported) return;
+        setCreating(true);
+        try {
+            const saved = await createImportedProposal(buildImportedProposal(imported, sections, title, scheme));
+            toast.success('Proposal imported');
+            handleOpenChange(false);
+            onImported(saved.id!);
+        } catch (error: any) {
+            console.error('Import error:', error);
+            toast.error(error.message || 'Failed to create the proposal');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const setTarget = (id: string, target: string) => {
+        setSections(sections.map(s => (s.id === id ? { ...s, target: target || null } : s)));
+    };
+
+    const unmatched = sections.filter(s => !s.target).length;
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="space-y-4">
+                <DialogHeader>
+                    <DialogTitle>Import Word Proposal</DialogTitle>
+                    <DialogDescription>
+                        {imported
+                            ? 'Check where each heading of the document goes. Unmatched headings are skipped unless you choose a target.'
+                            : 'Headings are matched to the funding scheme\'s sections; work package, budget and risk tables become structured data.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!imported ? (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label className="text-xs">Funding scheme</Label>
+                            <Select value={schemeId} onChange={(e) => setSchemeId(e.target.value)} className="h-9 text-sm">
+                                <option value="">No scheme (keep the document's headings)</option>
+                                {schemes.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </Select>
+                        </div>
+                        <label className="flex items-center gap-3 rounded-md border border-dashed border-border/60 p-4 cursor-pointer hover:bg-muted/30">
+                            <input type="file" accept=".docx" className="hidden" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+                            {file ? <FileText className="h-5 w-5 text-muted-foreground" /> : <Upload className="h-5 w-5 text-muted-foreground" />}
+                            <span className="text-sm">{file ? file.name : 'Choose a .docx file'}</span>
+                        </label>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="space-y-2">
+                            <Label className="text-xs">Title</Label>
+                            <Input value={title} onChange={(e) => setTitle(e.target.value)} className="h-9 text-sm" />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Found {imported.workPackages.length} work package{imported.workPackages.length !== 1 ? 's' : ''}, {imported.budget.length} budget item{imported.budget.length !== 1 ? 's' : ''} and {imported.risks.length} risk{imported.risks.length !== 1 ? 's' : ''}
+                        </p>
+                        {unmatched > 0 && (
+                            <div className="flex items-center gap-2 text-xs text-amber-400">
+                                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                                <span>{unmatched} heading{unmatched !== 1 ? 's' : ''} not matched</span>
+                            </div>
+                        )}
+                        <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+                            {sections.map(section => (
+                                <div
+                                    key={section.id}
+                                    className={`rounded-md border p-2 space-y-1 ${section.target ? 'border-border/40' : 'border-amber-500/50 bg-amber-500/5'}`}
+                                    style={{ marginLeft: `${Math.max(0, section.level - 1) * 12}px` }}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <span className="flex-1 truncate text-xs font-medium" title={section.heading}>{section.heading}</span>
+                                        <div className="w-48 shrink-0">
+                                            <Select value={section.target || ''} onChange={(e) => setTarget(section.id, e.target.value)} className="h-7 text-xs">
+                                                <option value="">Skip</option>
+                                                <option value="@custom">New section (keep heading)</option>
+                                                <option value="@summary">Executive summary</option>
+                                                {schemeSections.length > 0 && (
+                                                    <optgroup label="Sections">
+                                                        {schemeSections.map(s => (
+                                                            <option key={s.key} value={s.key}>{'\u00a0'.repeat(s.depth * 3)}{s.label}</option>
+                                                        ))}
+                                                    </optgroup>
+                                                )}
+                                                {imported.workPackages.length > 0 && (
+                                                    <optgroup label="Work package descriptions">
+                                                        {imported.workPackages.map((wp, i) => (
+                                                            <option key={i} value={`@wp:${i}`}>WP{i + 1}: {wp.name}</option>
+                                                        ))}
+                                                    </optgroup>
+                                                )}
+                                            </Select>
+                                        </div>
+                                    </div>
+                                    {section.content && <p className="text-[11px] text-muted-foreground line-clamp-2">{excerpt(section.content)}</p>}
+                                </div>
+                            ))}
+                        </div>
+                        {imported.warnings.length > 0 && (
+                            <details className="text-xs text-muted-foreground">
+                                <summary className="cursor-pointer">{imported.warnings.length} conversion warning{imported.warnings.length !== 1 ? 's' : ''}</summary>
+                                <ul className="mt-1 list-disc pl-4 space-y-0.5">
+                                    {imported.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                                </ul>
+                            </details>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {imported ? (
+                        <>
+                            <Button variant="ghost" onClick={reset} disabled={creating}>Back</Button>
+                            <Button onClick={handleCreate} disabled={creating}>
+                                {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Create proposal
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            <Button variant="ghost" onClick={() => handleOpenChange(false)}>Cancel</Button>
+                            <Button onClick={handleRead} disabled={!file || reading}>
+                                {reading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Read document
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
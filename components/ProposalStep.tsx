@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Loader2, Save, Download, Eye, ArrowLeft, Terminal } from 'lucide-react';
+import { Loader2, Save, Download, Eye, ArrowLeft, Terminal, RefreshCw, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { serverUrl, publicAnonKey } from '../utils/supabase/info';
+import { startJob, waitForJob, cancelJob, streamJobEvents } from '../utils/jobs';
+import { GenerationProgressView } from './GenerationProgressView';
 import type { AnalysisResult, Idea, FullProposal } from '../types/proposal';
+import type { Job, JobEvent } from '../types/job';
 
 interface ProposalStepProps {
     selectedIdea: Idea;
@@ -32,52 +35,46 @@ export function ProposalStep({
     const [generating, setGenerating] = useState(false);
     const [saving, setSaving] = useState(false);
     const [showPrompt, setShowPrompt] = useState(false);
+    const [retrying, setRetrying] = useState(false);
+    const [generationJob, setGenerationJob] = useState<Job | null>(null);
+    const [generationEvents, setGenerationEvents] = useState<JobEvent[]>([]);
     const hasStartedGeneration = React.useRef(false);
+    const pollController = React.useRef(new AbortController());
 
     useEffect(() => {
         if (!hasStartedGeneration.current) {
             hasStartedGeneration.current = true;
             generateProposal();
         }
+        return () => pollController.current.abort();
     }, []);
 
     const generateProposal = async () => {
         setGenerating(true);
         try {
-            const response = await fetch(`${serverUrl}/generate-proposal`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${publicAnonKey}`,
-                },
-                body: JSON.stringify({
-                    idea: selectedIdea,
-                    summary: analysisResult.summary,
-                    constraints: analysisResult.constraints,
-                    selectedPartners: selectedPartners.map(p => p.id),
-                    userPrompt: userPrompt || undefined,
-                    fundingSchemeId: selectedSchemeId || undefined,
-                }),
+            // Generation runs as a background job; the server keeps going even if this tab is closed
+            const job = await startJob('generate-proposal', {
+                idea: selectedIdea,
+                summary: analysisResult.summary,
+                constraints: analysisResult.constraints,
+                selectedPartners: selectedPartners.map(p => p.id),
+                userPrompt: userPrompt || undefined,
+                fundingSchemeId: selectedSchemeId || undefined,
             });
+            setGenerationJob(job);
 
-            if (!response.ok) {
-                let errorMessage = 'Failed to generate proposal';
-                try {
-                    const errorData = await response.json();
-                    errorMessage = errorData.message || errorData.error || errorMessage;
-                } catch (e) {
-                    // Fallback to text if not JSON
-                    const errorText = await response.text().catch(() => '');
-                    if (errorText) errorMessage = errorText.substring(0, 100);
-                }
-                throw new Error(errorMessage);
-            }
+            const result = await followGeneration(job.id);
 
-            const data: FullProposal = await response.json();
+            const data = result.proposal;
             setProposal(data);
             onProposalGenerated(data);
-            toast.success('Proposal generated and auto-saved!');
+            if (data.generationReport && !data.generationReport.valid) {
+                toast.warning(`Proposal generated, but some parts are incomplete: ${data.generationReport.failed.join(', ')}`);
+            } else {
+                toast.success('Proposal generated and auto-saved!');
+            }
         } catch (error: any) {
+            if (error.name === 'AbortError') return;
             console.error('Generation error:', error);
             toast.error(error.message || 'Failed to generate proposal');
         } finally {
@@ -85,6 +82,40 @@ export function ProposalStep({
         }
     };
 
+    // Streams phase events so sections show up as they are written; falls back to polling the status
+    const followGeneration = async (jobId: string) => {
+        const signal = pollController.current.signal;
+        let finished: Job<{ proposal: FullProposal }>;
+        try {
+            finished = await streamJobEvents<{ proposal: FullProposal }>(jobId, {
+                signal,
+                onEvent: event => {
+                    if (event.type === 'progress') setGenerationJob(event.data);
+                    else setGenerationEvents(prev => [...prev, event]);
+                },
+            });
+        } catch (error: any) {
+            if (error.name === 'AbortError') throw error;
+            console.warn('Event stream unavailable, polling job status instead:', error);
+            return waitForJob<{ proposal: FullProposal }>(jobId, { onUpdate: setGenerationJob, signal });
+        }
+
+        setGenerationJob(finished);
+        if (finished.status === 'failed') throw new Error(finished.error || 'Job failed');
+        if (finished.status === 'cancelled') throw new Error('Job was cancelled');
+        return finished.result as { proposal: FullProposal };
+    };
+
+    const handleCancelGeneration = async () => {
+        if (!generationJob) return;
+        try {
+            await cancelJob(generationJob.id);
+            toast.info('Cancelling after the current section...');
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to cancel generation');
+        }
+    };
+
     const handleSave = async () => {
         if (!proposal) return;
 
@@ -112,6 +143,49 @@ export function ProposalStep({
         }
     };
 
+    // Re-runs only the sections and work packages that failed, as a job followed like the first run
+    const handleRetryFailed = async () => {
+        if (!proposal?.id) return;
+
+        setRetrying(true);
+        try {
+            const response = await fetch(`${serverUrl}/proposals/${proposal.id}/generation/retry`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${publicAnonKey}`,
+                },
+                body: JSON.stringify({}),
+            });
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to retry sections');
+            }
+
+            const job: Job = await response.json();
+            setGenerationEvents([]);
+            setGenerationJob(job);
+            setGenerating(true);
+
+            const { proposal: data } = await followGeneration(job.id);
+            setProposal(data);
+            onProposalGenerated(data);
+            if (data.generationReport?.failed.length) {
+                toast.warning(`Still incomplete: ${data.generationReport.failed.join(', ')}`);
+            } else {
+                toast.success('All sections generated!');
+            }
+        } catch (error: any) {
+            if (error.name === 'AbortError') return;
+            console.error('Retry error:', error);
+            toast.error(error.message || 'Failed to retry sections');
+        } finally {
+            setGenerating(false);
+            setRetrying(false);
+        }
+    };
+
     const handleViewDetailed = () => {
         if (proposal?.id && onViewProposal) {
             onViewProposal(proposal.id);
@@ -123,17 +197,7 @@ export function ProposalStep({
     };
 
     if (generating) {
-        return (
-            <div className="flex flex-col items-center justify-center min-h-[400px] space-y-4">
-                <Loader2 className="h-12 w-12 animate-spin text-[#4472C4]" />
-                <div className="text-center">
-                    <h3 className="text-lg font-medium">Generating Your Proposal</h3>
-                    <p className="text-sm text-muted-foreground mt-2">
-                        AI is creating a comprehensive 11-section funding proposal...
-                    </p>
-                </div>
-            </div>
-        );
+        return <GenerationProgressView job={generationJob} events={generationEvents} onCancel={handleCancelGeneration} />;
     }
 
     if (!proposal) {
@@ -192,6 +256,25 @@ export function ProposalStep({
                 </DialogContent>
             </Dialog>
 
+            {/* Failed Sections */}
+            {proposal.generationReport && proposal.generationReport.failed.length > 0 && (
+                <Card className="bg-[#323232] border-amber-500/40">
+                    <CardContent className="flex items-center justify-between gap-4 pt-6">
+                        <div className="flex items-start gap-3">
+                            <AlertTriangle className="h-5 w-5 text-amber-400 mt-0.5" />
+                            <div>
+                                <p className="font-medium">Some parts could not be generated</p>
+                                <p className="text-sm text-muted-foreground">{proposal.generationReport.failed.join(', ')}</p>
+                            </div>
+                        </div>
+                        <Button variant="outline" onClick={handleRetryFailed} disabled={retrying}>
+                            {retrying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                            Retry failed
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Quick Overview */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <Card className="bg-[#323232] border-white/10">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Printer, Download, FileText, Building2, Clock, EuroIcon } from 'lucide-react';
+import { ArrowLeft, Printer, Download, FileDown, FileText, Building2, Clock, EuroIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { serverUrl, publicAnonKey } from '../utils/supabase/info';
 import { supabase } from '../utils/supabase';
@@ -13,7 +13,11 @@ import {
     DynamicPartnerSection
 } from './ProposalSections';
 import { exportToDocx } from '../utils/export-docx';
+import { exportToPdf } from '../utils/export-pdf';
 import { assembleDocument, DisplaySection } from '../utils/proposal-assembly';
+import { checkCompleteness, type CompletenessIssue } from '../utils/completeness';
+import { CompletenessDialog } from './CompletenessDialog';
+import { useNavigate } from 'react-router-dom';
 
 interface ProposalSummaryPageProps {
     proposalId: string | undefined;
@@ -24,6 +28,9 @@ export const ProposalSummaryPage: React.FC<ProposalSummaryPageProps> = ({ propos
     const [proposal, setProposal] = useState<FullProposal | null>(null);
     const [loading, setLoading] = useState(true);
     const [isExporting, setIsExporting] = useState(false);
+    const [completenessIssues, setCompletenessIssues] = useState<CompletenessIssue[] | null>(null);
+    const [exportFormat, setExportFormat] = useState<'docx' | 'pdf'>('docx');
+    const navigate = useNavigate();
 
     useEffect(() => {
         const loadProposal = async () => {
@@ -76,12 +83,29 @@ export const ProposalSummaryPage: React.FC<ProposalSummaryPageProps> = ({ propos
         window.print();
     };
 
-    const handleExportToDocx = async () => {
+    const handleExportClick = (format: 'docx' | 'pdf') => {
         if (!proposal) return;
+        setExportFormat(format);
+        const issues = checkCompleteness(proposal);
+        if (issues.length > 0) {
+            setCompletenessIssues(issues);
+            return;
+        }
+        handleExport(format);
+    };
+
+    // Sections are edited in the viewer, which scrolls to the anchor once the proposal is loaded
+    const handleJump = (issue: CompletenessIssue) => {
+        navigate(`/proposals/${proposalId}#${encodeURIComponent(issue.anchor)}`, { state: { tab: issue.tab } });
+    };
+
+    const handleExport = async (format: 'docx' | 'pdf') => {
+        if (!proposal) return;
+        setCompletenessIssues(null);
         setIsExporting(true);
         toast.info("Generating document...");
         try {
-            await exportToDocx(proposal);
+            await (format === 'pdf' ? exportToPdf : exportToDocx)(proposal);
             toast.success("Proposal exported successfully!");
         } catch (error) {
             console.error('Export error:', error);
@@ -141,9 +165,13 @@ export const ProposalSummaryPage: React.FC<ProposalSummaryPageProps> = ({ propos
                 <div className="flex gap-2">
                     <Button onClick={handlePrint} variant="outline" className="border-slate-200 bg-white shadow-sm hover:bg-slate-50">
                         <Printer className="h-4 w-4 mr-2" />
-                        Print / PDF
+                        Print
                     </Button>
-                    <Button onClick={handleExportToDocx} disabled={isExporting} className="bg-primary text-white hover:bg-primary/90 shadow-sm">
+                    <Button onClick={() => handleExportClick('pdf')} disabled={isExporting} variant="outline" className="border-slate-200 bg-white shadow-sm hover:bg-slate-50">
+                        <FileDown className="h-4 w-4 mr-2" />
+                        Export PDF
+                    </Button>
+                    <Button onClick={() => handleExportClick('docx')} disabled={isExporting} className="bg-primary text-white hover:bg-primary/90 shadow-sm">
                         <Download className="h-4 w-4 mr-2" />
                         {isExporting ? 'Exporting...' : 'Export DOCX'}
                     </Button>
@@ -294,6 +322,13 @@ export const ProposalSummaryPage: React.FC<ProposalSummaryPageProps> = ({ propos
                 </div>
             </div>
 
+            <CompletenessDialog
+                issues={completenessIssues}
+                onClose={() => setCompletenessIssues(null)}
+                onJump={handleJump}
+                onExport={() => handleExport(exportFormat)}
+            />
+
             <style dangerouslySetInnerHTML={{
                 __html: `
                 @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800;900&display=swap');
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Download, Share2, FileText, LayoutGrid, Users, Calendar, DollarSign, AlertTriangle, CheckCircle2, Layers, Plus, Trash2, Settings, ChevronDown, ChevronUp, Folder, Edit, Sparkles, MoreHorizontal, MoreVertical, Building2, Globe, Mail, Terminal } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Download, Share2, FileText, LayoutGrid, Users, Calendar, DollarSign, AlertTriangle, CheckCircle2, Layers, Plus, Trash2, Settings, ChevronDown, ChevronUp, Folder, Edit, Sparkles, MoreHorizontal, MoreVertical, Building2, Globe, Mail, Terminal, History, FileDown, FileSpreadsheet, Upload, FileCode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -10,15 +10,31 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
 import { serverUrl, publicAnonKey } from '../utils/supabase/info';
 import { supabase } from '../utils/supabase';
-import type { FullProposal } from '../types/proposal';
+import type { FullProposal, AiEditChangeSet } from '../types/proposal';
 import { PartnerSelectionModal } from './PartnerSelectionModal';
 import { exportToDocx } from '../utils/export-docx';
+import { exportToPdf } from '../utils/export-pdf';
+import { exportBudgetWorkbook } from '../utils/budget-workbook';
 import { DeleteConfirmDialog } from '@/components/ui/delete-confirm-dialog';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, Label } from '@/components/ui/primitives';
 import type { ProposalSettings } from '../types/proposal';
 import { ProposalCopilot } from './ProposalCopilot';
-import { useNavigate } from 'react-router-dom';
+import { ProposalHistoryPanel } from './ProposalHistoryPanel';
+import { AiChangeReview } from './AiChangeReview';
+import { LumpSumBudgetEditor } from './LumpSumBudgetEditor';
+import { ActualCostBudgetEditor } from './ActualCostBudgetEditor';
+import { PartnerBudgetTable } from './PartnerBudgetTable';
+import { BudgetWorkbookDialog } from './BudgetWorkbookDialog';
+import { MarkdownBundleDialog } from './MarkdownBundleDialog';
+import { StaffEffortEditor } from './StaffEffortEditor';
+import { GanttChart } from './GanttChart';
+import { DeliverablesEditor } from './DeliverablesEditor';
+import { EligibilityChecklist } from './EligibilityChecklist';
+import { CompliancePanel } from './CompliancePanel';
+import { CompletenessDialog } from './CompletenessDialog';
+import { ConsistencyReport } from './ConsistencyReport';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
     ResponsiveSectionContent,
     DynamicWorkPackageSection,
@@ -27,6 +43,17 @@ import {
     DynamicPartnerSection
 } from './ProposalSections';
 import { assembleDocument, DisplaySection } from '../utils/proposal-assembly';
+import { getBudgetModel, getFundingScheme, getLumpSumRules, lumpSumToBudget } from '../utils/lump-sum';
+import { checkEligibility, getEligibilityRules, hasEligibilityRules } from '../utils/eligibility';
+import { getActualCostRules } from '../utils/actual-cost';
+import { moveWorkPackage } from '../utils/deliverables';
+import { checkCompliance, shortenInstruction, type SectionCompliance } from '../utils/compliance';
+import { checkCompleteness, type CompletenessIssue } from '../utils/completeness';
+import { checkConsistency } from '../utils/consistency';
+import type { BudgetModel } from '../types/funding-scheme';
+import type { LumpSumBudget } from '../types/proposal';
+
+const SAVE_DELAY_MS = 1500;
 
 interface ProposalViewerPageProps {
     proposalId: string;
@@ -35,6 +62,7 @@ interface ProposalViewerPageProps {
 
 export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPageProps) {
     const navigate = useNavigate();
+    const location = useLocation();
     const [proposal, setProposal] = useState<FullProposal | null>(null);
     const [loading, setLoading] = useState(true);
     const [activeTab, setActiveTab] = useState('narrative');
@@ -46,8 +74,10 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
     const [settings, setSettings] = useState<ProposalSettings>({ currency: 'EUR', sourceUrl: '' });
     const [urlError, setUrlError] = useState<string>('');
     const [isCopilotOpen, setIsCopilotOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
-    const [newlyAddedSubItem, setNewlyAddedSubItem] = useState<string | null>(null);
+    const [workbookImportOpen, setWorkbookImportOpen] = useState(false);
+    const [isTextFormatsOpen, setIsTextFormatsOpen] = useState(false);
     const [isAiSectionDialogOpen, setIsAiSectionDialogOpen] = useState(false);
     const [aiSectionPrompt, setAiSectionPrompt] = useState('');
     const [isGeneratingSection, setIsGeneratingSection] = useState(false);
@@ -57,10 +87,53 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
     const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
     const [editingSectionTitle, setEditingSectionTitle] = useState('');
     const [editingContent, setEditingContent] = useState('');
+    const [editDialogTab, setEditDialogTab] = useState('manual');
     const [aiEditInstruction, setAiEditInstruction] = useState('');
     const [isAiEditing, setIsAiEditing] = useState(false);
+    const [pendingAiChanges, setPendingAiChanges] = useState<AiEditChangeSet | null>(null);
+    const [isApplyingAiChanges, setIsApplyingAiChanges] = useState(false);
     const [showPrompt, setShowPrompt] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
+    const [completenessIssues, setCompletenessIssues] = useState<CompletenessIssue[] | null>(null);
+    const [exportFormat, setExportFormat] = useState<'docx' | 'pdf'>('docx');
+
+    // Edits typed in place (budget lines, structured tables) are saved once typing pauses, so a burst of
+    // keystrokes becomes one PUT and one history version. The save always sends the latest proposal.
+    const latestProposal = React.useRef<FullProposal | null>(null);
+    latestProposal.current = proposal;
+    const saveTimer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const flushPendingSave = async () => {
+        if (!saveTimer.current) return;
+        clearTimeout(saveTimer.current);
+        saveTimer.current = null;
+        const current = latestProposal.current;
+        if (!current) return;
+
+        try {
+            const response = await fetch(`${serverUrl}/proposals/${current.id}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${publicAnonKey}`,
+                },
+                body: JSON.stringify(current),
+            });
+
+            if (!response.ok) throw new Error('Failed to update proposal');
+        } catch (error) {
+            console.error('Update error:', error);
+            toast.error('Failed to save changes');
+        }
+    };
+
+    const scheduleSave = () => {
+        if (saveTimer.current) clearTimeout(saveTimer.current);
+        saveTimer.current = setTimeout(flushPendingSave, SAVE_DELAY_MS);
+    };
+
+    // Leaving the page saves what is still pending
+    useEffect(() => () => { flushPendingSave(); }, []);
 
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('en-US', {
@@ -89,6 +162,13 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         loadProposal();
     }, [proposalId]);
 
+    // Links from the completeness report of the summary page: /proposals/:id#<section> with the tab in the state
+    useEffect(() => {
+        const anchor = location.hash.slice(1);
+        if (loading || !anchor) return;
+        jumpToSection((location.state as any)?.tab || 'narrative', decodeURIComponent(anchor));
+    }, [loading, location.hash]);
+
     const loadProposal = async () => {
         try {
             const response = await fetch(`${serverUrl}/proposals/${proposalId}`, {
@@ -219,9 +299,27 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         }
     };
 
-    const handleExportToDocx = async () => {
+    const jumpToSection = (tab: string, anchor: string) => {
+        setActiveTab(tab);
+        setTimeout(() => document.getElementById(anchor)?.scrollIntoView({ behavior: 'smooth' }), 100);
+    };
+
+    // Mandatory sections and structured data are checked first; the report opens when anything is missing
+    const handleExportClick = (format: 'docx' | 'pdf') => {
+        if (!proposal) return;
+        setExportFormat(format);
+        const issues = checkCompleteness(proposal);
+        if (issues.length > 0) {
+            setCompletenessIssues(issues);
+            return;
+        }
+        handleExport(format);
+    };
+
+    const handleExport = async (format: 'docx' | 'pdf') => {
         if (!proposal) return;
 
+        setCompletenessIssues(null);
         setIsExporting(true);
         toast.info("Syncing and generating document...");
 
@@ -238,8 +336,8 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
 
             if (!response.ok) throw new Error('Failed to sync proposal before export');
 
-            // 2. Trigger DOCX export
-            await exportToDocx(proposal);
+            // 2. Trigger DOCX or PDF export
+            await (format === 'pdf' ? exportToPdf : exportToDocx)(proposal);
             toast.success("Proposal exported successfully!");
         } catch (error) {
             console.error('Export error:', error);
@@ -464,7 +562,9 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         setEditingSectionId(sectionId);
         setEditingSectionTitle(title);
         setEditingContent(content);
+        setEditDialogTab('manual');
         setAiEditInstruction('');
+        setPendingAiChanges(null);
         setIsEditDialogOpen(true);
     };
 
@@ -493,8 +593,9 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         }
     };
 
-    const handleAiEdit = async () => {
-        if (!proposal || !editingSectionId || !aiEditInstruction) return;
+    // The AI proposes a change set; nothing is saved until it has been reviewed in AiChangeReview
+    const handleAiEdit = async (sectionId = editingSectionId, instruction = aiEditInstruction) => {
+        if (!proposal || !sectionId || !instruction) return;
 
         setIsAiEditing(true);
         try {
@@ -505,34 +606,19 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                     'Authorization': `Bearer ${publicAnonKey}`,
                 },
                 body: JSON.stringify({
-                    instruction: `For section '${editingSectionId}': ${aiEditInstruction}`,
-                    sectionId: editingSectionId
+                    instruction: `For section '${sectionId}': ${instruction}`,
+                    sectionId
                 }),
             });
 
             if (!response.ok) throw new Error('AI edit failed');
 
-            const data = await response.json();
-            if (data.proposal) {
-                setProposal(data.proposal);
-
-                // Find the updated content for the current editing section
-                // It might be a direct key or a virtual section (extra_wp_*)
-                if (editingSectionId.startsWith('extra_wp_')) {
-                    const idx = parseInt(editingSectionId.split('_').pop() || '0');
-                    const wps = data.proposal.workPackages || data.proposal.work_packages || [];
-                    if (wps[idx]) {
-                        setEditingContent(wps[idx].description || '');
-                    }
-                } else if (data.proposal[editingSectionId]) {
-                    setEditingContent(data.proposal[editingSectionId]);
-                } else if (data.proposal.dynamicSections && data.proposal.dynamicSections[editingSectionId]) {
-                    setEditingContent(data.proposal.dynamicSections[editingSectionId]);
-                }
-
-                toast.success('AI updated the section!');
-                // Optional: Switch to manual tab to review?
+            const changeSet: AiEditChangeSet = await response.json();
+            if (changeSet.changes.length === 0) {
+                toast.info('The AI did not suggest any changes');
+                return;
             }
+            setPendingAiChanges(changeSet);
         } catch (error) {
             console.error('AI Edit error:', error);
             toast.error('Failed to perform AI edit');
@@ -541,7 +627,62 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         }
     };
 
-    const handleUpdateBudget = async (newBudget: any[]) => {
+    // Opens the section in the AI tab of the edit dialog with a shortening instruction already running
+    // (CompliancePanel does not offer it for sections merged from several fields)
+    const handleShortenSection = (section: SectionCompliance) => {
+        const sectionId = section.sourceKeys?.[0] || section.id;
+        const instruction = shortenInstruction(section);
+        handleEditSection(sectionId, section.title, section.content);
+        setEditDialogTab('ai');
+        setAiEditInstruction(instruction);
+        handleAiEdit(sectionId, instruction);
+    };
+
+    const handleApplyAiChanges = async (changes: { section: string; content: any }[]) => {
+        if (!proposal || !editingSectionId || !pendingAiChanges) return;
+
+        setIsApplyingAiChanges(true);
+        try {
+            const response = await fetch(`${serverUrl}/proposals/${proposal.id}/ai-edit/apply`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${publicAnonKey}`,
+                },
+                body: JSON.stringify({ instruction: pendingAiChanges.instruction, changes }),
+            });
+
+            if (!response.ok) throw new Error('Failed to apply AI changes');
+
+            const data = await response.json();
+            // Keep the funding scheme and layout that loadProposal attached
+            setProposal({ ...proposal, ...data.proposal });
+
+            // Find the updated content for the current editing section
+            // It might be a direct key or a virtual section (extra_wp_*)
+            if (editingSectionId.startsWith('extra_wp_')) {
+                const idx = parseInt(editingSectionId.split('_').pop() || '0');
+                const wps = data.proposal.workPackages || data.proposal.work_packages || [];
+                if (wps[idx]) {
+                    setEditingContent(wps[idx].description || '');
+                }
+            } else if (data.proposal[editingSectionId]) {
+                setEditingContent(data.proposal[editingSectionId]);
+            } else if (data.proposal.dynamic_sections?.[editingSectionId] || data.proposal.dynamicSections?.[editingSectionId]) {
+                setEditingContent(data.proposal.dynamic_sections?.[editingSectionId] || data.proposal.dynamicSections[editingSectionId]);
+            }
+
+            setPendingAiChanges(null);
+            toast.success('AI changes applied!');
+        } catch (error) {
+            console.error('AI apply error:', error);
+            toast.error('Failed to apply AI changes');
+        } finally {
+            setIsApplyingAiChanges(false);
+        }
+    };
+
+    const handleUpdateBudget = (newBudget: any[]) => {
         if (!proposal) return;
 
         const updatedProposal = {
@@ -550,6 +691,20 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         };
 
         setProposal(updatedProposal);
+        latestProposal.current = updatedProposal;
+        scheduleSave();
+    };
+
+    // Lump-sum proposals keep the split and the budget items derived from it in sync
+    const handleSaveLumpSum = async (lumpSum: LumpSumBudget) => {
+        if (!proposal) return;
+
+        const updatedProposal = {
+            ...proposal,
+            budgetModel: 'lump-sum' as BudgetModel,
+            lumpSum,
+            budget: lumpSumToBudget(lumpSum, proposal)
+        };
 
         try {
             const response = await fetch(`${serverUrl}/proposals/${proposal.id}`, {
@@ -561,15 +716,25 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                 body: JSON.stringify(updatedProposal),
             });
 
-            if (!response.ok) throw new Error('Failed to update budget');
+            if (!response.ok) throw new Error('Failed to save allocation');
+            setProposal(updatedProposal);
+            toast.success('Lump-sum allocation saved');
         } catch (error) {
             console.error('Update error:', error);
-            toast.error('Failed to save budget changes');
-            // Revert on error would be complex here due to rapid updates, 
-            // relying on next load or user correction for now
+            toast.error('Failed to save the lump-sum allocation');
         }
     };
 
+    // Saves fields edited in place in the structured tab (budget model, cost lines, funding rates, staff effort, schedule)
+    const handleUpdateFields = (fields: Partial<FullProposal>) => {
+        if (!proposal) return;
+
+        const updatedProposal = { ...proposal, ...fields };
+        setProposal(updatedProposal);
+        latestProposal.current = updatedProposal;
+        scheduleSave();
+    };
+
     const handleAddBudgetItem = () => {
         if (!proposal) return;
         const newBudget = [...(proposal.budget || []), { item: 'New Item', description: 'Description', cost: 0 }];
@@ -593,73 +758,6 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         handleUpdateBudget(newBudget);
     };
 
-    const handleAddSubItem = (itemIndex: number) => {
-        if (!proposal || !proposal.budget) return;
-        const newBudget = [...proposal.budget];
-
-        if (!newBudget[itemIndex].breakdown) {
-            newBudget[itemIndex].breakdown = [];
-        }
-
-        const newSubIndex = newBudget[itemIndex].breakdown!.length;
-        newBudget[itemIndex].breakdown!.push({
-            subItem: 'New Sub-item',
-            quantity: 1,
-            unitCost: 0,
-            total: 0
-        });
-
-        // Recalculate main item cost
-        const subItemsTotal = newBudget[itemIndex].breakdown!.reduce((sum, sub) => sum + sub.total, 0);
-        newBudget[itemIndex].cost = subItemsTotal;
-
-        handleUpdateBudget(newBudget);
-
-        // Highlight the newly added sub-item
-        const highlightKey = `${itemIndex}-${newSubIndex}`;
-        setNewlyAddedSubItem(highlightKey);
-        setTimeout(() => setNewlyAddedSubItem(null), 2000);
-    };
-
-    const handleRemoveSubItem = (itemIndex: number, subIndex: number) => {
-        if (!proposal || !proposal.budget) return;
-        const newBudget = [...proposal.budget];
-
-        if (newBudget[itemIndex].breakdown) {
-            newBudget[itemIndex].breakdown!.splice(subIndex, 1);
-
-            // Recalculate main item cost
-            const subItemsTotal = newBudget[itemIndex].breakdown!.reduce((sum, sub) => sum + sub.total, 0);
-            newBudget[itemIndex].cost = subItemsTotal;
-
-            handleUpdateBudget(newBudget);
-        }
-    };
-
-    const handleSubItemChange = (itemIndex: number, subIndex: number, field: string, value: any) => {
-        if (!proposal || !proposal.budget) return;
-        const newBudget = [...proposal.budget];
-
-        if (newBudget[itemIndex].breakdown) {
-            const subItem = { ...newBudget[itemIndex].breakdown![subIndex], [field]: value };
-
-            // Auto-calculate total if quantity or unitCost changes
-            if (field === 'quantity' || field === 'unitCost') {
-                const qty = field === 'quantity' ? value : subItem.quantity;
-                const cost = field === 'unitCost' ? value : subItem.unitCost;
-                subItem.total = qty * cost;
-            }
-
-            newBudget[itemIndex].breakdown![subIndex] = subItem;
-
-            // Recalculate main item cost
-            const subItemsTotal = newBudget[itemIndex].breakdown!.reduce((sum, sub) => sum + sub.total, 0);
-            newBudget[itemIndex].cost = subItemsTotal;
-
-            handleUpdateBudget(newBudget);
-        }
-    };
-
     const handleBudgetChange = (index: number, field: string, value: string | number) => {
         if (!proposal || !proposal.budget) return;
         const newBudget = [...proposal.budget];
@@ -670,6 +768,10 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
         handleUpdateBudget(newBudget);
     };
 
+    // Both reports assemble the whole document; recomputed only when the proposal changes
+    const complianceReport = useMemo(() => (proposal ? checkCompliance(proposal) : null), [proposal]);
+    const consistencyIssues = useMemo(() => (proposal ? checkConsistency(proposal) : []), [proposal]);
+
     if (loading) {
         return (
             <div className="flex items-center justify-center h-[60vh]">
@@ -689,6 +791,12 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
 
     // Build sections array using shared assembly logic
     const sections = assembleDocument(proposal);
+    const lumpSumRules = getLumpSumRules(proposal);
+    const isLumpSum = getBudgetModel(proposal) === 'lump-sum' && !!lumpSumRules;
+    // A lump-sum model without the scheme's rules falls back to the free-form table
+    const budgetModel = isLumpSum || getBudgetModel(proposal) !== 'lump-sum' ? getBudgetModel(proposal) : 'free-form';
+    const eligibilityRules = getEligibilityRules(getFundingScheme(proposal));
+    const eligibilityChecks = hasEligibilityRules(eligibilityRules) ? checkEligibility(proposal.partners || [], eligibilityRules!) : [];
 
     return (
         <div className="space-y-6 pb-10 animate-in fade-in duration-500">
@@ -727,12 +835,28 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                     <Button variant="ghost" onClick={() => setShowPrompt(true)} title="View Generation Prompt">
                         <Terminal className="h-5 w-5" />
                     </Button>
+                    <Button variant="ghost" onClick={() => setIsHistoryOpen(true)} title="Version History">
+                        <History className="h-5 w-5" />
+                    </Button>
                     {/* Settings Button */}
                     <Button variant="ghost" onClick={() => setIsSettingsOpen(true)}>
                         <Settings className="h-5 w-5" />
                     </Button>
+                    <Button variant="outline" onClick={() => setIsTextFormatsOpen(true)} disabled={!proposal} title="Export or re-import Markdown, export HTML">
+                        <FileCode className="h-4 w-4 mr-2" />
+                        Markdown
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={() => handleExportClick('pdf')}
+                        disabled={isExporting || !proposal}
+                        title="Export a paginated PDF laid out like the DOCX"
+                    >
+                        <FileDown className="h-4 w-4 mr-2" />
+                        PDF
+                    </Button>
                     <Button
-                        onClick={handleExportToDocx}
+                        onClick={() => handleExportClick('docx')}
                         disabled={isExporting || !proposal}
                         className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-[0_0_15px_rgba(122,162,247,0.3)] disabled:opacity-70"
                     >
@@ -777,6 +901,9 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                         </CardContent>
                     </Card>
 
+                    <CompliancePanel report={complianceReport!} onShorten={handleShortenSection} disabled={isAiEditing} />
+                    <ConsistencyReport issues={consistencyIssues} onJump={(sectionId) => jumpToSection('narrative', sectionId)} />
+
                     <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
                         {/* Table of Contents (Sidebar) - Folder Style */}
                         <div className="hidden lg:block col-span-1 space-y-4">
@@ -897,7 +1024,8 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                 const isPartners = section.type === 'partners';
                                 const isProfiles = section.type === 'partner_profiles';
 
-                                if (!section.content && !isWP && !isWPList && !isBudget && !isRisk && !isPartners && !isProfiles) return null;
+                                // Empty mandatory sections stay visible so the completeness report can link to them
+                                if (!section.content && !section.mandatory && !isWP && !isWPList && !isBudget && !isRisk && !isPartners && !isProfiles) return null;
 
                                 const isPartnerSection = isPartners || isProfiles ||
                                     section.title.toLowerCase().includes('partner organisation') ||
@@ -1048,6 +1176,11 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                 Add Partner
                             </Button>
                         </div>
+                        {eligibilityChecks.length > 0 && (
+                            <div className="mb-4">
+                                <EligibilityChecklist checks={eligibilityChecks} schemeName={getFundingScheme(proposal)?.name} />
+                            </div>
+                        )}
                         <div className="flex flex-col gap-3">
                             {proposal.partners?.map((partner, idx) => (
                                 <div key={idx} className="flex items-center gap-4 p-4 border border-border/40 rounded-xl hover:border-primary/50 transition-all group bg-card/20 backdrop-blur-sm shadow-sm">
@@ -1130,6 +1263,28 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                                 <Badge variant="outline" className="mb-2 border-primary/30 text-primary">WP {idx + 1}</Badge>
                                                 <CardTitle className="text-lg">{wp.name}</CardTitle>
                                             </div>
+                                            <div className="flex gap-1">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    disabled={idx === 0}
+                                                    className="h-7 w-7 hover:bg-primary/20"
+                                                    onClick={() => handleUpdateFields(moveWorkPackage(proposal, idx, idx - 1))}
+                                                    title="Move up (renumbers deliverables and milestones)"
+                                                >
+                                                    <ChevronUp className="h-4 w-4" />
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    disabled={idx === proposal.workPackages.length - 1}
+                                                    className="h-7 w-7 hover:bg-primary/20"
+                                                    onClick={() => handleUpdateFields(moveWorkPackage(proposal, idx, idx + 1))}
+                                                    title="Move down (renumbers deliverables and milestones)"
+                                                >
+                                                    <ChevronDown className="h-4 w-4" />
+                                                </Button>
+                                            </div>
                                         </div>
                                     </CardHeader>
                                     <CardContent className="space-y-4">
@@ -1147,6 +1302,9 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                                                 <span className="font-bold text-foreground/80">
                                                                     {idx + 1}.{aIdx + 1} {act.name}
                                                                 </span>
+                                                                {act.startMonth && act.endMonth && (
+                                                                    <span className="font-mono text-[10px] text-muted-foreground">M{act.startMonth}-M{act.endMonth}</span>
+                                                                )}
                                                             </div>
                                                             <div className="text-muted-foreground/80 leading-relaxed text-[11px]" dangerouslySetInnerHTML={{ __html: act.description }} />
                                                         </div>
@@ -1172,6 +1330,9 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                 </Card>
                             ))}
                         </div>
+                        <GanttChart proposal={proposal} onChange={handleUpdateFields} />
+                        <DeliverablesEditor proposal={proposal} onChange={handleUpdateFields} />
+                        <StaffEffortEditor proposal={proposal} onChange={handleUpdateFields} />
                     </section>
 
                     {/* Budget */}
@@ -1182,22 +1343,58 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                 Budget Breakdown
                             </h3>
                             <div className="flex items-center gap-2">
-                                <span className="text-sm text-muted-foreground">Limit:</span>
-                                <span className="text-sm text-muted-foreground">Limit:</span>
-                                <div className="relative">
-                                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
-                                        {getCurrencySymbol(settings.currency)}
-                                    </span>
-                                    <Input
-                                        type="number"
-                                        value={budgetLimit}
-                                        onChange={(e) => setBudgetLimit(parseFloat(e.target.value) || 0)}
-                                        className="w-32 h-8 bg-card/50 pl-7"
-                                        placeholder="Limit"
-                                    />
-                                </div>
+                                <Select
+                                    value={budgetModel}
+                                    onChange={(e) => handleUpdateFields({ budgetModel: e.target.value as BudgetModel })}
+                                    className="h-8 w-40"
+                                    title="Budget model"
+                                >
+                                    <option value="free-form">Free-form</option>
+                                    {lumpSumRules && <option value="lump-sum">Lump sum</option>}
+                                    <option value="actual-cost">Actual costs</option>
+                                </Select>
+                                {budgetModel === 'free-form' && (
+                                    <>
+                                        <span className="text-sm text-muted-foreground">Limit:</span>
+                                        <div className="relative">
+                                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
+                                                {getCurrencySymbol(settings.currency)}
+                                            </span>
+                                            <Input
+                                                type="number"
+                                                value={budgetLimit}
+                                                onChange={(e) => setBudgetLimit(parseFloat(e.target.value) || 0)}
+                                                className="w-32 h-8 bg-card/50 pl-7"
+                                                placeholder="Limit"
+                                            />
+                                        </div>
+                                        <Button variant="outline" size="sm" className="h-8 gap-1" onClick={() => exportBudgetWorkbook(proposal).catch(() => toast.error('Failed to export the budget workbook'))}>
+                                            <FileSpreadsheet className="h-4 w-4" />
+                                            Export XLSX
+                                        </Button>
+                                        <Button variant="outline" size="sm" className="h-8 gap-1" onClick={() => setWorkbookImportOpen(true)}>
+                                            <Upload className="h-4 w-4" />
+                                            Import XLSX
+                                        </Button>
+                                    </>
+                                )}
                             </div>
                         </div>
+                        {isLumpSum ? (
+                            <LumpSumBudgetEditor
+                                proposal={proposal}
+                                rules={lumpSumRules!}
+                                formatCurrency={formatCurrency}
+                                onSave={handleSaveLumpSum}
+                            />
+                        ) : budgetModel === 'actual-cost' ? (
+                            <ActualCostBudgetEditor
+                                proposal={proposal}
+                                rules={getActualCostRules(proposal)}
+                                formatCurrency={formatCurrency}
+                                onChange={handleUpdateFields}
+                            />
+                        ) : (
                         <Card className="bg-card/30 border-border/40 overflow-hidden">
                             <div className="overflow-x-auto">
                                 <table className="w-full text-sm">
@@ -1260,15 +1457,6 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                                     </td>
                                                     <td className="py-2 px-4 text-right">
                                                         <div className="flex items-center justify-end gap-2">
-                                                            <Button
-                                                                variant="ghost"
-                                                                size="icon"
-                                                                className="h-7 w-7 rounded-md bg-blue-600 hover:bg-blue-700 text-white flex items-center justify-center shadow-sm"
-                                                                onClick={() => handleAddSubItem(idx)}
-                                                                title="Add Sub-item"
-                                                            >
-                                                                <Plus className="h-4 w-4" />
-                                                            </Button>
                                                             <Button
                                                                 variant="ghost"
                                                                 size="icon"
@@ -1283,66 +1471,23 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                                 </tr>
 
                                                 {/* Sub-items */}
-                                                {item.breakdown?.map((sub, subIdx) => {
-                                                    const isNewlyAdded = newlyAddedSubItem === `${idx}-${subIdx}`;
-                                                    return (
-                                                        <tr key={`${idx}-${subIdx}`} className={`hover:bg-white/5 transition-all duration-500 group ${isNewlyAdded ? 'bg-green-500/20 animate-pulse' : ''
-                                                            }`}>
-                                                            <td className="py-1 px-4 pl-12 relative" colSpan={2}>
-                                                                <div className="absolute left-8 top-1/2 -translate-y-1/2 w-3 h-[1px] bg-border"></div>
-                                                                <Input
-                                                                    value={sub.subItem}
-                                                                    onChange={(e) => handleSubItemChange(idx, subIdx, 'subItem', e.target.value)}
-                                                                    className="bg-transparent border-transparent hover:border-border/40 focus:border-primary h-7 text-xs"
-                                                                    placeholder="Sub-item Name"
-                                                                />
-                                                            </td>
-                                                            <td className="py-1 px-4">
-                                                                <div className="grid grid-cols-2 gap-4">
-                                                                    <div className="relative">
-                                                                        <Input
-                                                                            type="number"
-                                                                            value={sub.quantity}
-                                                                            onChange={(e) => handleSubItemChange(idx, subIdx, 'quantity', parseFloat(e.target.value) || 0)}
-                                                                            className="bg-transparent border-transparent hover:border-border/40 focus:border-primary h-7 text-xs w-full text-center"
-                                                                            placeholder="Qty"
-                                                                        />
-                                                                    </div>
-                                                                    <div className="relative">
-                                                                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground text-[10px]">
-                                                                            {getCurrencySymbol(settings.currency)}
-                                                                        </span>
-                                                                        <Input
-                                                                            type="text"
-                                                                            value={sub.unitCost ? Math.round(sub.unitCost).toLocaleString('en-US') : ''}
-                                                                            onChange={(e) => {
-                                                                                const rawValue = e.target.value.replace(/[^0-9]/g, '');
-                                                                                handleSubItemChange(idx, subIdx, 'unitCost', parseInt(rawValue) || 0);
-                                                                            }}
-                                                                            className="bg-transparent border-transparent hover:border-border/40 focus:border-primary h-7 text-xs w-full pl-6 text-right"
-                                                                            placeholder="0"
-                                                                        />
-                                                                    </div>
-                                                                </div>
-                                                            </td>
-                                                            <td className="py-1 px-4">
-                                                                <div className="flex items-center justify-end h-7 px-3 font-mono text-xs text-muted-foreground">
-                                                                    {formatCurrency(sub.total)}
-                                                                </div>
-                                                            </td>
-                                                            <td className="py-1 px-4 text-right">
-                                                                <Button
-                                                                    variant="ghost"
-                                                                    size="icon"
-                                                                    className="h-6 w-6 rounded-lg hover:bg-red-500 hover:text-white text-red-500 transition-colors"
-                                                                    onClick={() => handleRemoveSubItem(idx, subIdx)}
-                                                                >
-                                                                    <Trash2 className="h-3 w-3" />
-                                                                </Button>
-                                                            </td>
-                                                        </tr>
-                                                    )
-                                                })}
+                                                {item.breakdown?.map((sub, subIdx) => (
+                                                    <tr key={`${idx}-${subIdx}`} className="hover:bg-white/5 transition-colors text-xs">
+                                                        <td className="py-1.5 px-4 pl-12 relative" colSpan={2}>
+                                                            <div className="absolute left-8 top-1/2 -translate-y-1/2 w-3 h-[1px] bg-border"></div>
+                                                            <span className="px-3">{sub.subItem}</span>
+                                                        </td>
+                                                        <td className="py-1.5 px-4 text-muted-foreground">
+                                                            {sub.quantity} × {formatCurrency(sub.unitCost)}
+                                                        </td>
+                                                        <td className="py-1.5 px-4">
+                                                            <div className="flex items-center justify-end px-3 font-mono text-muted-foreground">
+                                                                {formatCurrency(sub.total)}
+                                                            </div>
+                                                        </td>
+                                                        <td></td>
+                                                    </tr>
+                                                ))}
                                             </React.Fragment>
                                         ))}
                                     </tbody>
@@ -1380,6 +1525,19 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                 </Button>
                             </div>
                         </Card>
+                        )}
+                        <BudgetWorkbookDialog
+                            proposal={proposal}
+                            open={workbookImportOpen}
+                            onOpenChange={setWorkbookImportOpen}
+                            formatCurrency={formatCurrency}
+                            onApply={handleUpdateBudget}
+                        />
+                        <PartnerBudgetTable
+                            proposal={proposal}
+                            formatCurrency={formatCurrency}
+                            onChange={handleUpdateFields}
+                        />
                     </section>
 
                     {/* Risks */}
@@ -1731,7 +1889,7 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                         <DialogTitle>Edit Section: {editingSectionTitle}</DialogTitle>
                     </DialogHeader>
 
-                    <Tabs defaultValue="manual" className="flex-1 flex flex-col min-h-0">
+                    <Tabs value={editDialogTab} onValueChange={setEditDialogTab} className="flex-1 flex flex-col min-h-0">
                         <TabsList className="grid w-full grid-cols-2">
                             <TabsTrigger value="manual">Manual Edit</TabsTrigger>
                             <TabsTrigger value="ai">AI Assistant</TabsTrigger>
@@ -1765,8 +1923,8 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                     className="h-24"
                                 />
                                 <Button
-                                    onClick={handleAiEdit}
-                                    disabled={!aiEditInstruction || isAiEditing}
+                                    onClick={() => handleAiEdit()}
+                                    disabled={!aiEditInstruction || isAiEditing || !!pendingAiChanges}
                                     className="w-full"
                                 >
                                     {isAiEditing ? (
@@ -1783,17 +1941,33 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                                 </Button>
                             </div>
 
-                            <div className="flex-1 min-h-0 flex flex-col">
-                                <Label>Current Content Preview:</Label>
-                                <div className="flex-1 border rounded-md p-4 overflow-y-auto bg-card/50 mt-2 prose prose-invert max-w-none text-sm">
-                                    <div dangerouslySetInnerHTML={{ __html: editingContent }} />
+                            {pendingAiChanges ? (
+                                <AiChangeReview
+                                    changeSet={pendingAiChanges}
+                                    applying={isApplyingAiChanges}
+                                    onApply={handleApplyAiChanges}
+                                    onDiscard={() => setPendingAiChanges(null)}
+                                />
+                            ) : (
+                                <div className="flex-1 min-h-0 flex flex-col">
+                                    <Label>Current Content Preview:</Label>
+                                    <div className="flex-1 border rounded-md p-4 overflow-y-auto bg-card/50 mt-2 prose prose-invert max-w-none text-sm">
+                                        <div dangerouslySetInnerHTML={{ __html: editingContent }} />
+                                    </div>
                                 </div>
-                            </div>
+                            )}
                         </TabsContent>
                     </Tabs>
                 </DialogContent>
             </Dialog>
 
+            <CompletenessDialog
+                issues={completenessIssues}
+                onClose={() => setCompletenessIssues(null)}
+                onJump={(issue) => { setCompletenessIssues(null); jumpToSection(issue.tab, issue.anchor); }}
+                onExport={() => handleExport(exportFormat)}
+            />
+
             {/* Copilot Toggle Button */}
             <Button
                 className="fixed bottom-6 right-6 h-14 w-14 rounded-full shadow-xl z-40 bg-gradient-to-r from-primary to-purple-600 hover:scale-105 transition-transform"
@@ -1809,6 +1983,19 @@ export function ProposalViewerPage({ proposalId, onBack }: ProposalViewerPagePro
                 onClose={() => setIsCopilotOpen(false)}
                 onProposalUpdate={loadProposal}
             />
+
+            <ProposalHistoryPanel
+                proposal={proposal}
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                onRestored={loadProposal}
+            />
+            <MarkdownBundleDialog
+                proposal={proposal}
+                open={isTextFormatsOpen}
+                onOpenChange={setIsTextFormatsOpen}
+                onApply={handleUpdateFields}
+            />
             {/* Prompt Dialog */}
             <Dialog open={showPrompt} onOpenChange={setShowPrompt}>
                 <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto bg-[#1E1E1E] text-white border-white/10 p-6">
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Loader2, Eye, Trash2, Search } from 'lucide-react';
+import { Loader2, Eye, Trash2, Search, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { serverUrl, publicAnonKey } from '../utils/supabase/info';
 import type { FullProposal } from '../types/proposal';
+import { ProposalImportDialog } from './ProposalImportDialog';
 
 interface SavedProposalsPageProps {
   onViewProposal: (id: string) => void;
@@ -15,6 +16,7 @@ export function SavedProposalsPage({ onViewProposal }: SavedProposalsPageProps)
   const [proposals, setProposals] = useState<FullProposal[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
 
   useEffect(() => {
     loadProposals();
@@ -91,8 +93,14 @@ export function SavedProposalsPage({ onViewProposal }: SavedProposalsPageProps)
             {proposals.length} proposal{proposals.length !== 1 ? 's' : ''} saved
           </p>
         </div>
+        <Button variant="outline" onClick={() => setImportOpen(true)} className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import DOCX
+        </Button>
       </div>
 
+      <ProposalImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={onViewProposal} />
+
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
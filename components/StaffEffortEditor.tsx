@@ -0,0 +1,98 @@
+import React from 'react';
+import { AlertTriangle, Clock, XCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import type { FullProposal } from '../types/proposal';
+import { checkStaffEffort, staffEffortMatrix, syncStaffEffort } from '../utils/staff-effort';
+
+interface StaffEffortEditorProps {
+    proposal: FullProposal;
+    onChange: (fields: Partial<FullProposal>) => void;
+}
+
+const parsePersonMonths = (value: string) => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * 10) / 10 : 0;
+};
+
+/** Person-months per work package and partner, with totals and checks against the personnel budget */
+export function StaffEffortEditor({ proposal, onChange }: StaffEffortEditorProps) {
+    const partners = proposal.partners || [];
+    const workPackages = proposal.workPackages || [];
+    const matrix = staffEffortMatrix(proposal);
+    const issues = checkStaffEffort(proposal, matrix);
+
+    if (workPackages.length === 0 || partners.length === 0) return null;
+
+    const setPersonMonths = (index: number, partner: string, personMonths: number) => {
+        const staffEffort = syncStaffEffort(proposal).map((record, i) => (i === index ? { ...record, [partner]: personMonths } : record));
+        onChange({ staffEffort });
+    };
+
+    return (
+        <div className="mt-6 space-y-3">
+            <h4 className="text-base font-semibold flex items-center gap-2">
+                <Clock className="h-4 w-4 text-primary" />
+                Staff Effort (person-months)
+            </h4>
+            <Card className="bg-card/30 border-border/40 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead className="bg-secondary/50">
+                            <tr>
+                                <th className="text-left py-3 px-3 font-medium text-muted-foreground min-w-[200px]">Work package</th>
+                                {partners.map(partner => (
+                                    <th key={partner.name} className="text-right py-3 px-3 font-medium text-muted-foreground min-w-[90px]" title={partner.name}>
+                                        {partner.acronym || partner.name}
+                                    </th>
+                                ))}
+                                <th className="text-right py-3 px-3 font-medium text-muted-foreground">Total PM</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-border/20">
+                            {workPackages.map((wp, i) => (
+                                <tr key={i} className="hover:bg-white/5">
+                                    <td className="py-1.5 px-3 font-medium">WP{i + 1}: {wp.name}</td>
+                                    {partners.map((partner, p) => (
+                                        <td key={partner.name} className="py-1.5 px-3">
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                step={0.5}
+                                                value={matrix.workPackages[i]?.partners[p] || ''}
+                                                onChange={(e) => setPersonMonths(i, partner.name, parsePersonMonths(e.target.value))}
+                                                className="h-7 w-20 ml-auto text-right text-xs bg-transparent border-transparent hover:border-border/40 focus:border-primary"
+                                                placeholder="0"
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="py-1.5 px-3 text-right font-mono font-medium">{matrix.workPackages[i]?.total || 0}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="bg-primary/5 font-bold border-t-2 border-primary/20">
+                            <tr>
+                                <td className="py-3 px-3 text-primary">Total PM</td>
+                                {matrix.partnerTotals.map((total, p) => (
+                                    <td key={p} className="py-3 px-3 text-right font-mono">{total}</td>
+                                ))}
+                                <td className="py-3 px-3 text-right font-mono text-primary">{matrix.total}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </Card>
+
+            {issues.length > 0 && (
+                <div className="space-y-1.5">
+                    {issues.map((issue, i) => (
+                        <div key={i} className={`flex items-start gap-2 text-xs ${issue.level === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                            {issue.level === 'error' ? <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" /> : <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />}
+                            <span>{issue.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,17 @@
 import { useState } from 'react';
-import { FundingSchemeSection, FundingSchemeTemplate } from '../types/funding-scheme';
+import { ActualCostRules, EligibilityRules, FundingSchemeBudget, FundingSchemeSection, FundingSchemeTemplate, LumpSumRules, ShareBounds } from '../types/funding-scheme';
+import { ORGANIZATION_TYPES } from '../types/partner';
 import { Plus, Trash2, GripVertical } from 'lucide-react';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
-import { Label } from './ui/primitives';
+import { Label, Select } from './ui/primitives';
 import { Checkbox } from './ui/checkbox';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
+import { OfficialTemplateEditor } from './OfficialTemplateEditor';
+import { LUMP_SUM_PRESETS } from '../utils/lump-sum';
+import { HORIZON_ACTUAL_COST_PRESETS } from '../utils/actual-cost';
+import { COUNTRY_GROUPS, ELIGIBILITY_PRESETS } from '../utils/eligibility';
 
 interface TemplateEditorProps {
     template: FundingSchemeTemplate;
@@ -82,6 +87,79 @@ export function TemplateEditor({ template, onChange }: TemplateEditorProps) {
         });
     };
 
+    const lumpSum = template.budget?.lumpSum;
+    // Kept as typed, so "120000, " can be followed by the next amount
+    const [amountsText, setAmountsText] = useState(lumpSum?.amounts?.join(', ') || '');
+
+    const updateLumpSum = (updates: Partial<LumpSumRules>) => {
+        onChange({
+            ...template,
+            budget: {
+                ...template.budget,
+                model: 'lump-sum',
+                lumpSum: { amounts: [], ...lumpSum, ...updates }
+            }
+        });
+    };
+
+    const actualCost = template.budget?.actualCost;
+
+    const updateActualCost = (updates: Partial<ActualCostRules>) => {
+        onChange({
+            ...template,
+            budget: {
+                ...template.budget,
+                model: 'actual-cost',
+                actualCost: { ...HORIZON_ACTUAL_COST_PRESETS['Horizon Europe RIA'], ...actualCost, ...updates }
+            }
+        });
+    };
+
+    const parseOptionalNumber = (value: string) => (value ? parseFloat(value) : null);
+
+    const setBudgetModel = (model: string) => {
+        onChange({
+            ...template,
+            budget: model === 'lump-sum'
+                ? { ...template.budget, model: 'lump-sum', lumpSum: lumpSum || { amounts: [] } }
+                : model === 'actual-cost'
+                    ? { ...template.budget, model: 'actual-cost', actualCost: actualCost || HORIZON_ACTUAL_COST_PRESETS['Horizon Europe RIA'] }
+                    : { ...template.budget, model: 'free-form' }
+        });
+    };
+
+    // Co-financing and partner share bounds apply whatever the budget model
+    const updateBudgetRules = (updates: Partial<FundingSchemeBudget>) => {
+        onChange({
+            ...template,
+            budget: { model: 'free-form', ...template.budget, ...updates }
+        });
+    };
+
+    const updateShareBounds = (key: 'coordinatorShare' | 'partnerShare', bound: keyof ShareBounds, value: string) => {
+        updateBudgetRules({ [key]: { ...template.budget?.[key], [bound]: parseOptionalNumber(value) } });
+    };
+
+    const eligibility = template.eligibility || {};
+    const [countriesText, setCountriesText] = useState(eligibility.eligibleCountries?.join(', ') || '');
+
+    const updateEligibility = (updates: Partial<EligibilityRules>) => {
+        onChange({ ...template, eligibility: { ...eligibility, ...updates } });
+    };
+
+    const setEligibleCountries = (text: string) => {
+        setCountriesText(text);
+        updateEligibility({ eligibleCountries: text.split(/[\s,;]+/).map(code => code.trim().toUpperCase()).filter(Boolean) });
+    };
+
+    const toggleType = (key: 'allowedOrganizationTypes' | 'coordinatorOrganizationTypes', type: string, checked: boolean) => {
+        const current = eligibility[key] || [];
+        updateEligibility({ [key]: checked ? [...current, type] : current.filter(t => t !== type) });
+    };
+
+    const countryGroup = Object.keys(COUNTRY_GROUPS).find(name =>
+        COUNTRY_GROUPS[name].join(',') === (eligibility.eligibleCountries || []).join(','));
+
     return (
         <div className="space-y-6">
             {/* Metadata Section */}
@@ -131,6 +209,272 @@ export function TemplateEditor({ template, onChange }: TemplateEditorProps) {
                 </CardContent>
             </Card>
 
+            {/* Budget Model */}
+            <Card className="bg-muted/30">
+                <CardContent className="p-4 space-y-4">
+                    <div className="flex items-center justify-between gap-4">
+                        <h4 className="text-sm font-semibold text-foreground">Budget Model</h4>
+                        <div className="w-48">
+                            <Select
+                                value={template.budget?.model || 'free-form'}
+                                onChange={(e) => setBudgetModel(e.target.value)}
+                                className="h-9"
+                            >
+                                <option value="free-form">Free-form cost items</option>
+                                <option value="lump-sum">Lump sum</option>
+                                <option value="actual-cost">Actual costs</option>
+                            </Select>
+                        </div>
+                    </div>
+
+                    {template.budget?.model === 'lump-sum' && (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-xs text-muted-foreground">Presets:</span>
+                                {Object.entries(LUMP_SUM_PRESETS).map(([name, rules]) => (
+                                    <Button key={name} size="sm" variant="outline" className="h-7 text-xs" onClick={() => { updateLumpSum(rules); setAmountsText(rules.amounts.join(', ')); }}>
+                                        {name}
+                                    </Button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Lump Sums (EUR)</Label>
+                                    <Input
+                                        value={amountsText}
+                                        onChange={(e) => {
+                                            setAmountsText(e.target.value);
+                                            updateLumpSum({ amounts: e.target.value.split(',').map(v => parseInt(v.replace(/[^0-9]/g, ''))).filter(v => v > 0) });
+                                        }}
+                                        placeholder="e.g., 120000, 250000, 400000"
+                                        className="h-9"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Max. Project Management (%)</Label>
+                                    <Input
+                                        type="number"
+                                        value={lumpSum?.managementMaxShare ?? ''}
+                                        onChange={(e) => updateLumpSum({ managementMaxShare: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Optional"
+                                        className="h-9"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Max. Work Packages</Label>
+                                    <Input
+                                        type="number"
+                                        value={lumpSum?.maxWorkPackages ?? ''}
+                                        onChange={(e) => updateLumpSum({ maxWorkPackages: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Optional"
+                                        className="h-9"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Min. Share per Partner (%)</Label>
+                                    <Input
+                                        type="number"
+                                        value={lumpSum?.minPartnerShare ?? ''}
+                                        onChange={(e) => updateLumpSum({ minPartnerShare: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Optional"
+                                        className="h-9"
+                                    />
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {template.budget?.model === 'actual-cost' && (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-xs text-muted-foreground">Presets:</span>
+                                {Object.entries(HORIZON_ACTUAL_COST_PRESETS).map(([name, rules]) => (
+                                    <Button key={name} size="sm" variant="outline" className="h-7 text-xs" onClick={() => updateActualCost({ forProfitFundingRate: null, ...rules })}>
+                                        {name}
+                                    </Button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Indirect Costs Flat Rate (%)</Label>
+                                    <Input
+                                        type="number"
+                                        value={actualCost?.indirectRate ?? ''}
+                                        onChange={(e) => updateActualCost({ indirectRate: parseFloat(e.target.value) || 0 })}
+                                        className="h-9"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Funding Rate (%)</Label>
+                                    <Input
+                                        type="number"
+                                        value={actualCost?.fundingRate ?? ''}
+                                        onChange={(e) => updateActualCost({ fundingRate: parseFloat(e.target.value) || 0 })}
+                                        className="h-9"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="text-xs">Funding Rate for Profit Organisations (%)</Label>
+                                    <Input
+                                        type="number"
+                                        value={actualCost?.forProfitFundingRate ?? ''}
+                                        onChange={(e) => updateActualCost({ forProfitFundingRate: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Same as funding rate"
+                                        className="h-9"
+                                    />
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {template.budget?.model !== 'actual-cost' && (
+                        <div className="space-y-2 md:w-1/3">
+                            <Label className="text-xs">EU Co-financing Rate (%)</Label>
+                            <Input
+                                type="number"
+                                value={template.budget?.coFinancingRate ?? ''}
+                                onChange={(e) => updateBudgetRules({ coFinancingRate: parseOptionalNumber(e.target.value) })}
+                                placeholder="100"
+                                className="h-9"
+                            />
+                        </div>
+                    )}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="space-y-2">
+                            <Label className="text-xs">Coordinator Share Min (%)</Label>
+                            <Input
+                                type="number"
+                                value={template.budget?.coordinatorShare?.min ?? ''}
+                                onChange={(e) => updateShareBounds('coordinatorShare', 'min', e.target.value)}
+                                className="h-9"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs">Coordinator Share Max (%)</Label>
+                            <Input
+                                type="number"
+                                value={template.budget?.coordinatorShare?.max ?? ''}
+                                onChange={(e) => updateShareBounds('coordinatorShare', 'max', e.target.value)}
+                                className="h-9"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs">Partner Share Min (%)</Label>
+                            <Input
+                                type="number"
+                                value={template.budget?.partnerShare?.min ?? ''}
+                                onChange={(e) => updateShareBounds('partnerShare', 'min', e.target.value)}
+                                className="h-9"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs">Partner Share Max (%)</Label>
+                            <Input
+                                type="number"
+                                value={template.budget?.partnerShare?.max ?? ''}
+                                onChange={(e) => updateShareBounds('partnerShare', 'max', e.target.value)}
+                                className="h-9"
+                            />
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Eligibility */}
+            <Card className="bg-muted/30">
+                <CardContent className="p-4 space-y-4">
+                    <h4 className="text-sm font-semibold text-foreground">Consortium Eligibility</h4>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-muted-foreground">Presets:</span>
+                        {Object.entries(ELIGIBILITY_PRESETS).map(([name, rules]) => (
+                            <Button key={name} size="sm" variant="outline" className="h-7 text-xs" onClick={() => { updateEligibility(rules); setCountriesText(rules.eligibleCountries?.join(', ') || ''); }}>
+                                {name}
+                            </Button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                            <Label className="text-xs">Min. Organisations</Label>
+                            <Input
+                                type="number"
+                                value={eligibility.minPartners ?? ''}
+                                onChange={(e) => updateEligibility({ minPartners: parseOptionalNumber(e.target.value) })}
+                                placeholder="No minimum"
+                                className="h-9"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs">Min. Countries</Label>
+                            <Input
+                                type="number"
+                                value={eligibility.minCountries ?? ''}
+                                onChange={(e) => updateEligibility({ minCountries: parseOptionalNumber(e.target.value) })}
+                                placeholder="No minimum"
+                                className="h-9"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="text-xs">Eligible Countries</Label>
+                            <Select
+                                value={countryGroup || (eligibility.eligibleCountries?.length ? 'custom' : '')}
+                                onChange={(e) => {
+                                    if (e.target.value === 'custom') return;
+                                    setEligibleCountries((COUNTRY_GROUPS[e.target.value] || []).join(', '));
+                                }}
+                                className="h-9"
+                            >
+                                <option value="">Any country</option>
+                                {Object.keys(COUNTRY_GROUPS).map(name => <option key={name} value={name}>{name}</option>)}
+                                <option value="custom">Custom list</option>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label className="text-xs">Eligible Country Codes (ISO, comma separated)</Label>
+                        <Input
+                            value={countriesText}
+                            onChange={(e) => setEligibleCountries(e.target.value)}
+                            placeholder="e.g. DE, FR, IT (empty: any country)"
+                            className="h-9 font-mono text-xs"
+                        />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="coordinator-eligible-country"
+                            checked={!!eligibility.coordinatorInEligibleCountry}
+                            onCheckedChange={(checked) => updateEligibility({ coordinatorInEligibleCountry: checked })}
+                        />
+                        <Label htmlFor="coordinator-eligible-country" className="text-xs cursor-pointer">
+                            Coordinator must be established in an eligible country
+                        </Label>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {([
+                            ['allowedOrganizationTypes', 'Eligible Organisation Types'],
+                            ['coordinatorOrganizationTypes', 'Organisation Types that may Coordinate'],
+                        ] as const).map(([key, title]) => (
+                            <div key={key} className="space-y-2">
+                                <Label className="text-xs">{title} <span className="text-muted-foreground">(none checked: any)</span></Label>
+                                <div className="max-h-40 overflow-y-auto rounded-md border border-border/40 p-2 space-y-1.5">
+                                    {ORGANIZATION_TYPES.map(type => (
+                                        <label key={type} className="flex items-start gap-2 text-xs cursor-pointer">
+                                            <Checkbox
+                                                checked={!!eligibility[key]?.includes(type)}
+                                                onCheckedChange={(checked) => toggleType(key, type, checked)}
+                                            />
+                                            <span>{type}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Official DOCX Template */}
+            <OfficialTemplateEditor template={{ ...template, sections }} onChange={onChange} />
+
             {/* Sections */}
             <div className="space-y-4">
                 <div className="flex items-center justify-between">
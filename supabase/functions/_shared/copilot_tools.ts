@@ -0,0 +1,221 @@
+// Typed edit operations for the proposal copilot. The model answers with tool calls instead of
+// whole replacement arrays; each call is validated against its argument schema and applied as
+// a patch, so changing one activity can no longer drop the others.
+
+import { array, number, object, oneOf, optional, string, validate, type Schema, type SchemaIssue } from './schema.ts';
+import { getSectionValue, isDynamicSection, setSectionValue } from './proposal_sections.ts';
+
+export interface CopilotToolCall {
+    tool: string;
+    args: any;
+}
+
+export interface AppliedToolCall extends CopilotToolCall {
+    section: string;
+    summary: string;
+}
+
+export interface RejectedToolCall extends CopilotToolCall {
+    error: string;
+}
+
+interface CopilotTool {
+    description: string;
+    // Example arguments shown to the model
+    example: Record<string, any>;
+    args: Schema;
+    // Mutates the proposal; throws when the call references something that does not exist
+    apply: (proposal: any, args: any) => { section: string; summary: string };
+}
+
+class ToolCallError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolCallError';
+    }
+}
+
+// Structured data, which has its own tools
+const STRUCTURED_FIELDS = ['budget', 'risks', 'workPackages', 'timeline', 'partners'];
+
+// Top-level text fields edit_section may rewrite, besides the keys of dynamic_sections; the legacy ones
+// are the narrative fields of proposals written before funding schemes had dynamic sections
+const NARRATIVE_FIELDS = [
+    'title', 'summary', 'relevance', 'impact', 'methods', 'introduction', 'objectives', 'methodology', 'expectedResults',
+    'innovation', 'sustainability', 'consortium', 'workPlan', 'riskManagement', 'dissemination',
+];
+
+// 1-based index from the model -> the element, or a readable error
+const pick = (list: any[] | undefined, index: number, what: string) => {
+    if (!Array.isArray(list) || list.length === 0) throw new ToolCallError(`The proposal has no ${what}s`);
+    const item = list[index - 1];
+    if (!Number.isInteger(index) || !item) {
+        throw new ToolCallError(`${what} ${index} does not exist (valid: 1-${list.length})`);
+    }
+    return item;
+};
+
+const defined = (args: Record<string, any>, keys: string[]) => keys.filter(key => args[key] !== undefined && args[key] !== null);
+
+const TOOLS: Record<string, CopilotTool> = {
+    update_activity: {
+        description: 'Change fields of one activity. workPackage and activity are 1-based (activity 2.1 = workPackage 2, activity 1). Only the given fields change.',
+        example: { workPackage: 2, activity: 1, description: '<p>...</p>' },
+        args: object({
+            workPackage: number(),
+            activity: number(),
+            name: optional(string({ min: 1 })),
+            description: optional(string({ min: 1 })),
+            leadPartner: optional(string()),
+            participatingPartners: optional(array(string())),
+            estimatedBudget: optional(number()),
+        }),
+        apply: (proposal, args) => {
+            const wp = pick(proposal.workPackages, args.workPackage, 'Work package');
+            const activity = pick(wp.activities, args.activity, `Activity in WP${args.workPackage}`);
+            const fields = defined(args, ['name', 'description', 'leadPartner', 'participatingPartners', 'estimatedBudget']);
+            if (fields.length === 0) throw new ToolCallError('No activity fields to change');
+            for (const field of fields) activity[field] = args[field];
+            return { section: 'workPackages', summary: `Updated ${fields.join(', ')} of activity ${args.workPackage}.${args.activity}` };
+        },
+    },
+
+    add_budget_sub_item: {
+        description: 'Add a cost line to a budget item (1-based). Its total is quantity x unitCost and the item cost is updated to match.',
+        example: { budgetItem: 1, subItem: 'VR headsets', quantity: 10, unitCost: 600 },
+        args: object({
+            budgetItem: number(),
+            subItem: string({ min: 1 }),
+            quantity: number(),
+            unitCost: number(),
+        }),
+        apply: (proposal, args) => {
+            const item = pick(proposal.budget, args.budgetItem, 'Budget item');
+            if (args.quantity <= 0 || args.unitCost < 0) throw new ToolCallError('quantity must be positive and unitCost not negative');
+
+            const total = Math.round(args.quantity * args.unitCost * 100) / 100;
+            const hadBreakdown = Array.isArray(item.breakdown) && item.breakdown.length > 0;
+            item.breakdown = [...(item.breakdown || []), { subItem: args.subItem, quantity: args.quantity, unitCost: args.unitCost, total }];
+            // Without an earlier breakdown the existing cost stays as the untracked remainder
+            item.cost = hadBreakdown
+                ? item.breakdown.reduce((sum: number, sub: any) => sum + (sub.total || 0), 0)
+                : (item.cost || 0) + total;
+            return { section: 'budget', summary: `Added "${args.subItem}" (${total}) to ${item.item || `budget item ${args.budgetItem}`}` };
+        },
+    },
+
+    update_risk: {
+        description: 'Change the likelihood, impact or mitigation of one risk (1-based).',
+        example: { risk: 3, likelihood: 'Low' },
+        args: object({
+            risk: number(),
+            likelihood: optional(oneOf(['Low', 'Medium', 'High'])),
+            impact: optional(oneOf(['Low', 'Medium', 'High'])),
+            mitigation: optional(string({ min: 1 })),
+        }),
+        apply: (proposal, args) => {
+            const risk = pick(proposal.risks, args.risk, 'Risk');
+            const fields = defined(args, ['likelihood', 'impact', 'mitigation']);
+            if (fields.length === 0) throw new ToolCallError('No risk fields to change');
+            for (const field of fields) risk[field] = args[field];
+            return { section: 'risks', summary: `Updated ${fields.join(', ')} of risk ${args.risk}` };
+        },
+    },
+
+    set_partner_role: {
+        description: 'Rename the project role of a partner, matched by its name or acronym.',
+        example: { partner: 'Example University', role: 'Research lead' },
+        args: object({
+            partner: string({ min: 1 }),
+            role: string({ min: 1 }),
+        }),
+        apply: (proposal, args) => {
+            const needle = args.partner.trim().toLowerCase();
+            const partners = proposal.partners || [];
+            const partner = partners.find((p: any) => p.name?.toLowerCase() === needle || p.acronym?.toLowerCase() === needle)
+                || partners.find((p: any) => p.name?.toLowerCase().includes(needle));
+            if (!partner) {
+                throw new ToolCallError(`No partner named "${args.partner}" (partners: ${partners.map((p: any) => p.name).join(', ') || 'none'})`);
+            }
+            partner.role = args.role;
+            return { section: 'partners', summary: `Set the role of ${partner.name} to "${args.role}"` };
+        },
+    },
+
+    edit_section: {
+        description: 'Replace the HTML of one narrative section by key (summary, relevance, impact, or a key of dynamic_sections). Not for budget, risks, workPackages, timeline or partners.',
+        example: { section: 'impact', content: '<p>...</p>' },
+        args: object({
+            section: string({ min: 1 }),
+            content: string({ min: 1 }),
+        }),
+        apply: (proposal, args) => {
+            if (STRUCTURED_FIELDS.includes(args.section)) {
+                throw new ToolCallError(`"${args.section}" is structured data; use the specific tools instead`);
+            }
+            // Anything else (id, budgetModel, funding_scheme_id, ...) is not the model's to overwrite
+            if (!NARRATIVE_FIELDS.includes(args.section) && !isDynamicSection(proposal, args.section)) {
+                throw new ToolCallError(`Unknown section "${args.section}" (sections: ${['summary', 'relevance', 'impact', ...Object.keys(proposal.dynamic_sections || proposal.dynamicSections || {})].join(', ')})`);
+            }
+            const current = getSectionValue(proposal, args.section);
+            if (current !== undefined && current !== null && typeof current !== 'string') {
+                throw new ToolCallError(`"${args.section}" is not a narrative section`);
+            }
+            setSectionValue(proposal, args.section, args.content);
+            return { section: args.section, summary: `Rewrote ${args.section}` };
+        },
+    },
+};
+
+/** Tool reference for the copilot prompt */
+export const describeTools = () => Object.entries(TOOLS)
+    .map(([name, tool]) => `- ${name}: ${tool.description}\n  e.g. { "tool": "${name}", "args": ${JSON.stringify(tool.example)} }`)
+    .join('\n');
+
+// Own keys only, so a model-supplied name like "constructor" or "__proto__" is not mistaken for a tool
+const findTool = (name: unknown): CopilotTool | undefined =>
+    typeof name === 'string' && Object.hasOwn(TOOLS, name) ? TOOLS[name] : undefined;
+
+// Schema problems of one call (unknown tool, missing or mistyped arguments)
+export const validateToolCall = (call: CopilotToolCall): { args: any; issues: SchemaIssue[] } => {
+    const tool = findTool(call?.tool);
+    if (!tool) {
+        return { args: call?.args, issues: [{ path: 'tool', message: `unknown tool "${call?.tool}" (tools: ${Object.keys(TOOLS).join(', ')})` }] };
+    }
+    const { value, issues } = validate(tool.args, call.args);
+    return { args: value, issues: issues.map(i => ({ ...i, path: i.path ? `args.${i.path}` : 'args' })) };
+};
+
+export const formatIssues = (issues: SchemaIssue[]) => issues.map(i => `${i.path} ${i.message}`).join('; ');
+
+/**
+ * Validates and applies each call in order. A call that fails is skipped without leaving a
+ * partial change behind; the others still apply.
+ */
+export function applyToolCalls(proposal: any, calls: CopilotToolCall[]) {
+    const applied: AppliedToolCall[] = [];
+    const rejected: RejectedToolCall[] = [];
+
+    for (const call of calls) {
+        const { args, issues } = validateToolCall(call);
+        if (issues.length) {
+            rejected.push({ tool: call?.tool, args: call?.args, error: formatIssues(issues) });
+            continue;
+        }
+
+        const tool = findTool(call.tool)!;
+        const draft = structuredClone(proposal);
+        try {
+            const result = tool.apply(draft, args);
+            // Only the touched section is copied back, keeping earlier calls' changes elsewhere
+            setSectionValue(proposal, result.section, getSectionValue(draft, result.section));
+            applied.push({ tool: call.tool, args, ...result });
+        } catch (e: any) {
+            if (!(e instanceof ToolCallError)) throw e;
+            rejected.push({ tool: call.tool, args, error: e.message });
+        }
+    }
+
+    const sections = Array.from(new Set(applied.map(a => a.section)));
+    return { applied, rejected, sections };
+}
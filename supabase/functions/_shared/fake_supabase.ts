@@ -0,0 +1,121 @@
+// In-memory stand-in for the Supabase REST API, for tests. Replaces globalThis.fetch and answers the
+// PostgREST requests supabase-js sends (select with eq/like/in filters, order, limit, insert, upsert,
+// update, delete, single rows), so server modules run offline together with the fake LLM provider.
+
+type Row = Record<string, any>;
+
+export interface FakeSupabase {
+    tables: Map<string, Row[]>;
+    table(name: string): Row[];
+    restore(): void;
+}
+
+const FAKE_URL = 'http://supabase.test';
+
+const conflictKeys = (table: string, onConflict: string | null, row: Row) => {
+    if (onConflict) return onConflict.split(',');
+    if (table.startsWith('kv_store')) return ['key'];
+    return 'id' in row ? ['id'] : [];
+};
+
+function matches(row: Row, params: URLSearchParams): boolean {
+    for (const [column, condition] of params) {
+        if (['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'].includes(column)) continue;
+        const dot = condition.indexOf('.');
+        const op = condition.slice(0, dot);
+        const value = condition.slice(dot + 1);
+        const actual = row[column] === undefined || row[column] === null ? '' : String(row[column]);
+        if (op === 'eq' && actual !== value) return false;
+        if (op === 'neq' && actual === value) return false;
+        if (op === 'like' && !new RegExp(`^${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*')}$`).test(actual)) return false;
+        if (op === 'in' && !value.replace(/^\(|\)$/g, '').split(',').map(v => v.replace(/^"|"$/g, '')).includes(actual)) return false;
+    }
+    return true;
+}
+
+function select(rows: Row[], params: URLSearchParams): Row[] {
+    let result = rows.filter(row => matches(row, params));
+    const order = params.get('order');
+    if (order) {
+        const [column, direction] = order.split('.');
+        const sign = direction === 'desc' ? -1 : 1;
+        result = [...result].sort((a, b) => (a[column] > b[column] ? sign : a[column] < b[column] ? -sign : 0));
+    }
+    const limit = params.get('limit');
+    return limit ? result.slice(0, Number(limit)) : result;
+}
+
+const respond = (body: any, status: number, single: boolean) => {
+    if (single) {
+        const rows = Array.isArray(body) ? body : [body];
+        if (rows.length !== 1) {
+            return new Response(JSON.stringify({ code: 'PGRST116', message: `JSON object requested, ${rows.length} rows returned` }), { status: 406 });
+        }
+        return new Response(JSON.stringify(rows[0]), { status, headers: { 'Content-Type': 'application/json' } });
+    }
+    return new Response(body === null ? null : JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+};
+
+/** Points the Supabase clients at an in-memory database until restore() is called */
+export function installFakeSupabase(): FakeSupabase {
+    const tables = new Map<string, Row[]>();
+    const table = (name: string) => {
+        if (!tables.has(name)) tables.set(name, []);
+        return tables.get(name)!;
+    };
+    const originalFetch = globalThis.fetch;
+    const originalUrl = Deno.env.get('SUPABASE_URL');
+    const originalKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    Deno.env.set('SUPABASE_URL', FAKE_URL);
+    Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key');
+
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+        const request = new Request(input, init);
+        const url = new URL(request.url);
+        const match = /\/rest\/v1\/([^/]+)$/.exec(url.pathname);
+        if (url.origin !== FAKE_URL || !match) return originalFetch(input, init);
+
+        const rows = table(match[1]);
+        const params = url.searchParams;
+        const single = (request.headers.get('Accept') || '').includes('vnd.pgrst.object');
+        const prefer = request.headers.get('Prefer') || '';
+        const representation = prefer.includes('return=representation');
+        const body = request.method === 'GET' || request.method === 'HEAD' ? null : await request.text();
+        const payload = body ? JSON.parse(body) : null;
+
+        if (request.method === 'GET') return respond(select(rows, params), 200, single);
+
+        if (request.method === 'POST') {
+            const written = (Array.isArray(payload) ? payload : [payload]).map((input: Row) => {
+                const row = { ...input };
+                const keys = conflictKeys(match[1], params.get('on_conflict'), row);
+                const existing = prefer.includes('resolution=merge-duplicates') && keys.length
+                    ? rows.find(r => keys.every(k => r[k] === row[k]))
+                    : undefined;
+                if (existing) return Object.assign(existing, row);
+                if (!('id' in row)) row.id = crypto.randomUUID();
+                if (!('created_at' in row)) row.created_at = new Date().toISOString();
+                rows.push(row);
+                return row;
+            });
+            return respond(representation ? written : null, 201, single);
+        }
+
+        const affected = rows.filter(row => matches(row, params));
+        if (request.method === 'PATCH') affected.forEach(row => Object.assign(row, payload));
+        if (request.method === 'DELETE') tables.set(match[1], rows.filter(row => !affected.includes(row)));
+        return respond(representation ? affected : null, representation ? 200 : 204, single);
+    };
+
+    return {
+        tables,
+        table,
+        restore: () => {
+            globalThis.fetch = originalFetch;
+            if (originalUrl === undefined) Deno.env.delete('SUPABASE_URL');
+            else Deno.env.set('SUPABASE_URL', originalUrl);
+            if (originalKey === undefined) Deno.env.delete('SUPABASE_SERVICE_ROLE_KEY');
+            else Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', originalKey);
+        },
+    };
+}
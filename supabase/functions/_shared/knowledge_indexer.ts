@@ -0,0 +1,75 @@
+// Extracts knowledge chunks from a guideline PDF in the global-library bucket and stores them
+// in global_knowledge. Used by the index-knowledge function and by the server job worker.
+
+import { getLLM } from './llm/index.ts';
+
+export interface IndexKnowledgeResult {
+    count: number;
+}
+
+export async function indexKnowledgeFile(supabase: any, fileUrl: string, sourceName: string): Promise<IndexKnowledgeResult> {
+    console.log(`[INDEX] Downloading file: ${fileUrl}`);
+    const { data: fileData, error: downloadError } = await supabase
+        .storage
+        .from('global-library')
+        .download(fileUrl);
+
+    if (downloadError) {
+        console.error(`[INDEX] Storage detail:`, downloadError);
+        throw new Error(`Failed to download ${fileUrl}: ${downloadError.message}`);
+    }
+
+    const arrayBuffer = await fileData.arrayBuffer();
+    console.log(`[INDEX] File downloaded. Bytes: ${arrayBuffer.byteLength}`);
+
+    const llm = getLLM();
+
+    const prompt = `You are a Senior European Grant Expert. Deeply analyze the guidelines for "${sourceName}".
+        
+        EXTRACT 15-20 TECHNICAL KNOWLEDGE CHUNKS.
+        
+        Structure your response as ONLY valid JSON:
+        {
+          "chunks": [
+            {
+              "content": "Professional technical description of criteria or best practice...",
+              "type": "criteria" | "best_practice" | "output",
+              "keywords": ["specific_key1", "specific_key2"]
+            }
+          ]
+        }`;
+
+    console.log(`[INDEX] Sending to ${llm.name}...`);
+    let chunks: any[] = [];
+    try {
+        const parsed = await llm.generateJSON(prompt, {
+            files: [{ mimeType: 'application/pdf', data: new Uint8Array(arrayBuffer), name: sourceName }]
+        });
+        chunks = parsed.chunks || [];
+    } catch (e: any) {
+        console.error('[INDEX] AI extraction failed:', e.message);
+        throw e instanceof SyntaxError ? new Error('AI returned malformed data format') : e;
+    }
+    console.log(`[INDEX] AI Response received. Chunks: ${chunks.length}`);
+
+    console.log(`[INDEX] Inserting ${chunks.length} chunks into database...`);
+    const { error: insertError } = await supabase
+        .from('global_knowledge')
+        .insert(chunks.map(chunk => ({
+            source_name: sourceName,
+            content: chunk.content,
+            metadata: {
+                type: chunk.type,
+                keywords: chunk.keywords,
+                source_id: fileUrl
+            }
+        })));
+
+    if (insertError) {
+        console.error('[INDEX] Database Insert Failed:', insertError);
+        throw insertError;
+    }
+
+    console.log(`[INDEX] SUCCESS: Completed ${sourceName}`);
+    return { count: chunks.length };
+}
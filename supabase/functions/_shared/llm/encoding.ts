@@ -0,0 +1,36 @@
+// JSON extraction and file encoding helpers shared by the providers
+
+export const extractJSON = (text: string) => {
+    try {
+        // Find the first { and last }
+        const start = text.indexOf('{');
+        const end = text.lastIndexOf('}');
+        const bStart = text.indexOf('[');
+        // A top-level array wins when it opens before the first object
+        if (start !== -1 && end !== -1 && end > start && (bStart === -1 || start < bStart)) {
+            return JSON.parse(text.substring(start, end + 1));
+        }
+        // Fallback for [ array ]
+        const bEnd = text.lastIndexOf(']');
+        if (bStart !== -1 && bEnd !== -1 && bEnd > bStart) {
+            return JSON.parse(text.substring(bStart, bEnd + 1));
+        }
+        return JSON.parse(text);
+    } catch (e) {
+        // Try cleaning markdown
+        const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+        return JSON.parse(cleaned);
+    }
+};
+
+// Base64 without spreading the whole buffer onto the call stack
+export const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+export const isTextFile = (mimeType: string) =>
+    mimeType.startsWith('text/') || mimeType === 'application/json';
@@ -0,0 +1,73 @@
+import { extractJSON } from './encoding.ts';
+import { defaultFixtures } from './fixtures.ts';
+import type { GenerateOptions, LLMMessage, LLMProvider } from './types.ts';
+
+export interface LLMFixture {
+    /** Substring (or RegExp) the prompt must contain; the first matching fixture wins */
+    match: string | RegExp;
+    /** Raw text, or an object that is returned as JSON */
+    response: string | object;
+}
+
+export interface FakeCall {
+    method: 'generateText' | 'generateJSON' | 'chat';
+    prompt: string;
+    options: GenerateOptions;
+    fixture: string | null;
+}
+
+export interface FakeProviderOptions {
+    fixtures?: LLMFixture[];
+    /** JSON file with extra fixtures ({ match: string, response }[]), checked before the built-in ones */
+    fixturesPath?: string;
+    /** Returned when nothing matches */
+    fallback?: string | object;
+}
+
+// Deterministic offline provider: answers from fixtures and records every call
+export class FakeProvider implements LLMProvider {
+    readonly name = 'fake';
+    readonly calls: FakeCall[] = [];
+    private fixtures: LLMFixture[];
+    private fixturesPath?: string;
+    private fallback: string | object;
+    private loaded = false;
+
+    constructor(options: FakeProviderOptions = {}) {
+        this.fixtures = options.fixtures || defaultFixtures;
+        this.fixturesPath = options.fixturesPath;
+        this.fallback = options.fallback ?? {};
+    }
+
+    async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        return await this.respond('generateText', prompt, options);
+    }
+
+    async generateJSON<T = any>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+        return extractJSON(await this.respond('generateJSON', prompt, options));
+    }
+
+    async chat(messages: LLMMessage[], options: GenerateOptions = {}): Promise<string> {
+        const transcript = messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
+        return await this.respond('chat', transcript, options);
+    }
+
+    private async respond(method: FakeCall['method'], prompt: string, options: GenerateOptions) {
+        await this.loadFixtures();
+
+        const fixture = this.fixtures.find(f =>
+            typeof f.match === 'string' ? prompt.includes(f.match) : f.match.test(prompt)
+        );
+        this.calls.push({ method, prompt, options, fixture: fixture ? String(fixture.match) : null });
+
+        const response = fixture ? fixture.response : this.fallback;
+        return typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+    }
+
+    private async loadFixtures() {
+        if (this.loaded || !this.fixturesPath) return;
+        this.loaded = true;
+        const extra: LLMFixture[] = JSON.parse(await Deno.readTextFile(this.fixturesPath));
+        this.fixtures = [...extra, ...this.fixtures];
+    }
+}
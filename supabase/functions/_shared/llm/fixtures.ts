@@ -0,0 +1,201 @@
+// Built-in responses for the fake provider (LLM_PROVIDER=fake).
+// Each fixture keys off a phrase from one of the prompts used by the edge functions,
+// so the full URL -> ideas -> proposal -> edit flow works offline.
+
+import type { LLMFixture } from './fake.ts';
+
+const fakeProposal = {
+    title: 'GreenSkills Lab',
+    summary: '<p>GreenSkills Lab builds a shared open curriculum that helps vocational trainers teach practical green-transition skills.</p>',
+    partners: [],
+    workPackages: [
+        {
+            name: 'WP1: Project Management',
+            description: '<p>Coordination, quality assurance and financial reporting for the whole consortium.</p>',
+            duration: 'M1-M24',
+            activities: [
+                { name: 'Project Coordination', description: 'Steering committee meetings and milestone tracking.', leadPartner: '', participatingPartners: [], estimatedBudget: 30000 },
+                { name: 'Quality Assurance', description: 'Quality plan, internal reviews and risk monitoring.', leadPartner: '', participatingPartners: [], estimatedBudget: 20000 }
+            ],
+            deliverables: ['Management Plan', 'Quality Manual']
+        },
+        {
+            name: 'WP2: Curriculum Development',
+            description: '<p>Co-design and piloting of six open training modules.</p>',
+            duration: 'M3-M20',
+            activities: [
+                { name: 'Needs Assessment', description: 'Survey of 200 trainers across partner countries.', leadPartner: '', participatingPartners: [], estimatedBudget: 60000 },
+                { name: 'Module Design', description: 'Six modules with learning outcomes, materials and assessment.', leadPartner: '', participatingPartners: [], estimatedBudget: 90000 },
+                { name: 'Pilot Delivery', description: 'Pilots with 120 learners and evaluation of results.', leadPartner: '', participatingPartners: [], estimatedBudget: 50000 }
+            ],
+            deliverables: ['Needs Assessment Report', 'Open Curriculum']
+        }
+    ],
+    budget: [
+        {
+            item: 'Personnel',
+            cost: 180000,
+            description: 'Staff costs for trainers, researchers and coordination.',
+            breakdown: [
+                { subItem: 'Trainers', quantity: 12, unitCost: 10000, total: 120000 },
+                { subItem: 'Coordination', quantity: 12, unitCost: 5000, total: 60000 }
+            ]
+        },
+        {
+            item: 'Travel',
+            cost: 40000,
+            description: 'Transnational meetings and pilot visits.',
+            breakdown: [{ subItem: 'Meetings', quantity: 4, unitCost: 10000, total: 40000 }]
+        },
+        {
+            item: 'Dissemination',
+            cost: 30000,
+            description: 'Multiplier events and the open platform.',
+            breakdown: [{ subItem: 'Multiplier events', quantity: 3, unitCost: 10000, total: 30000 }]
+        }
+    ],
+    risks: [
+        { risk: 'Low pilot participation', likelihood: 'Medium', impact: 'High', mitigation: 'Recruit through partner networks and plan a reserve cohort.' },
+        { risk: 'Partner staff turnover', likelihood: 'Low', impact: 'Medium', mitigation: 'Document all tasks and name a deputy for each lead.' }
+    ],
+    dynamicSections: {
+        project_summary: '<p>GreenSkills Lab equips vocational trainers with an open green-skills curriculum.</p>',
+        relevance: '<p>The project answers the shortage of trainers able to teach green-transition skills.</p>',
+        project_description: '<p>An open, modular curriculum co-designed with trainers and employers.</p>',
+        needs_analysis: '<p>Partner surveys show that 70% of trainers lack ready-made green-skills material.</p>',
+        impact: '<p>120 learners trained during pilots and 500 trainers reached through the open platform.</p>',
+        project_design: '<p>Two work packages with quarterly steering meetings and a shared quality plan.</p>',
+        work_packages_overview: '<p>WP1 manages the project; WP2 develops and pilots the curriculum.</p>',
+        work_package_1: '<p>WP1 keeps the project on time, on budget and of high quality.</p>',
+        work_package_2: '<p>WP2 turns the needs assessment into six piloted training modules.</p>'
+    }
+};
+
+const fakeSkeleton = {
+    title: fakeProposal.title,
+    summary: fakeProposal.summary,
+    objectives: [
+        'Co-design six open green-skills modules with 30 vocational trainers',
+        'Pilot the modules with 120 learners in three countries',
+        'Reach 500 trainers through the open platform by month 24'
+    ],
+    partners: fakeProposal.partners,
+    workPackages: fakeProposal.workPackages.map(({ activities, deliverables, ...outline }) => ({
+        ...outline,
+        leadPartner: '',
+        budget: activities.reduce((sum, a) => sum + a.estimatedBudget, 0)
+    })),
+    budget: fakeProposal.budget,
+    risks: fakeProposal.risks
+};
+
+const fakeWorkPackage = {
+    activities: fakeProposal.workPackages[1].activities,
+    deliverables: fakeProposal.workPackages[1].deliverables,
+    narrative: fakeProposal.dynamicSections.work_package_2
+};
+
+export const defaultFixtures: LLMFixture[] = [
+    // proposal-copilot (chat transcripts embed the whole proposal, so match them first)
+    {
+        match: 'You are a proposal assistant',
+        response: 'This is an offline answer from the fake LLM provider. Ask me to "update the summary" to see an edit.'
+    },
+
+    // server: /analyze-url
+    {
+        match: 'Analyze this funding call and extract key information',
+        response: {
+            summary: 'Call for cooperation partnerships in vocational education and training focused on green skills.',
+            constraints: { partners: 'At least 3 partners from 3 countries', budget: '250000', duration: '24 months' }
+        }
+    },
+    {
+        match: 'You are a creative brainstorming assistant',
+        response: {
+            ideas: [
+                { title: 'GreenSkills Lab', description: 'An open curriculum that helps vocational trainers teach green-transition skills.' },
+                { title: 'Circular Makers', description: 'Maker spaces where apprentices repair and redesign products for reuse.' },
+                { title: 'Energy Coaches', description: 'Peer-training programme for building-energy advisors in rural areas.' }
+            ]
+        }
+    },
+
+    // server: /analyze-relevance
+    {
+        match: 'Validate these project ideas',
+        response: { score: 'Good', justification: 'The ideas address the green-skills priority and fit the budget and duration.' }
+    },
+
+    // server: /generate-proposal (repair prompts repeat the full prompt, so match them first)
+    { match: 'REPAIR REQUEST', response: { value: null } },
+    { match: 'SECTION TO WRITE', response: { content: '<p>Offline section text from the fake LLM provider, written against the GreenSkills Lab plan.</p>' } },
+    { match: 'WORK PACKAGE TO DETAIL', response: fakeWorkPackage },
+    { match: 'TASK: PROPOSAL SKELETON', response: fakeSkeleton },
+
+    // server: /proposals/:id/ai-edit
+    { match: 'Which ONE section of the proposal should be edited', response: { section: 'summary' } },
+    {
+        match: 'TASK: Generate the NEW content',
+        response: { content: '<p>Revised by the fake LLM provider: the section now states objectives, target groups and measurable results.</p>' }
+    },
+
+    // server: /generate-section
+    {
+        match: 'SECTION TO CREATE',
+        response: { title: 'Additional Section', content: '<p>Offline content generated by the fake LLM provider.</p>' }
+    },
+
+    // server: /import-partner-pdf
+    {
+        match: 'Extract all possible partner organization information',
+        response: {
+            name: 'Example Training Centre', legalNameNational: '', acronym: 'ETC', organisationId: 'E10000000', pic: '900000000',
+            vatNumber: '', businessId: '', organizationType: 'Small and medium sized enterprise', isPublicBody: false, isNonProfit: false,
+            legalAddress: '1 Example Street', city: 'Lisbon', postcode: '1000-001', country: 'Portugal', region: '',
+            website: 'https://example.org', contactEmail: 'info@example.org', department: '',
+            description: 'Vocational training provider.', experience: '', staffSkills: '', relevantProjects: '', keywords: ['training'],
+            legalRepName: '', legalRepPosition: '', legalRepEmail: '', legalRepPhone: '',
+            contactPersonName: '', contactPersonPosition: '', contactPersonEmail: '', contactPersonPhone: '', contactPersonRole: ''
+        }
+    },
+
+    // index-knowledge
+    {
+        match: 'EXTRACT 15-20 TECHNICAL KNOWLEDGE CHUNKS',
+        response: {
+            chunks: [
+                { content: 'Objectives must be specific, measurable and linked to the needs analysis.', type: 'criteria', keywords: ['objectives', 'needs'] },
+                { content: 'Describe how results will be sustained after the funding period.', type: 'best_practice', keywords: ['sustainability', 'impact'] }
+            ]
+        }
+    },
+
+    // parse-funding-template
+    {
+        match: 'precision-oriented Document Analysis AI',
+        response: {
+            fundingScheme: 'Example Programme',
+            sections: [
+                { key: 'relevance', label: 'Relevance', type: 'richtext', charLimit: 5000, wordLimit: null, mandatory: true, order: 1, description: 'How does the project address the priorities?', aiPrompt: 'Draft the Relevance section.', subsections: [] },
+                { key: 'impact', label: 'Impact', type: 'richtext', charLimit: 3000, wordLimit: null, mandatory: true, order: 2, description: 'What impact will the project have?', aiPrompt: 'Draft the Impact section.', subsections: [] }
+            ],
+            metadata: { totalCharLimit: 8000, estimatedDuration: '24 months' }
+        }
+    },
+
+    // search-funding-v2
+    { match: 'You are a consortium-building expert', response: [] },
+    { match: 'Is this page a SPECIFIC funding call', response: { type: 'specific_call', better_url: null } },
+    {
+        match: 'Analyze this funding opportunity page',
+        response: {
+            title: 'Example Call', call_id: 'EXAMPLE-2026-01', description: 'Offline example opportunity.', status: 'Open',
+            deadline: 'Unknown', budget: '€250,000', duration: '24 months', eligibility: 'At least 3 partners',
+            funding_entity: 'Erasmus+', topic: 'Green skills',
+            match: { score: 0, status: 'Unknown', reason: 'No partner selected for evaluation.' }
+        }
+    },
+    { match: 'Custom Sources provided by user', response: [] },
+    { match: /Find 5 EU funding calls/, response: { opportunities: [] } },
+];
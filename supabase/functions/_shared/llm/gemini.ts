@@ -0,0 +1,135 @@
+import { GoogleGenerativeAI } from 'npm:@google/generative-ai';
+import { GoogleAIFileManager } from 'npm:@google/generative-ai/server';
+import { extractJSON, isTextFile, toBase64 } from './encoding.ts';
+import {
+    LLMError,
+    resolveModel,
+    type GenerateOptions,
+    type LLMFile,
+    type LLMMessage,
+    type LLMProvider,
+    type ModelMap,
+} from './types.ts';
+
+export const GEMINI_MODELS: ModelMap = {
+    default: 'gemini-2.0-flash',
+    fast: 'gemini-2.5-flash-lite',
+    pro: 'gemini-2.5-pro',
+};
+
+// Files above this size go through the File API instead of being inlined
+const INLINE_FILE_LIMIT = 15 * 1024 * 1024;
+
+const RELAXED_SAFETY = [
+    { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+    { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
+    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
+];
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    private apiKey: string;
+    private client: any;
+    private models: ModelMap;
+
+    constructor(apiKey: string, models: Partial<ModelMap> = {}) {
+        this.apiKey = apiKey;
+        this.client = new GoogleGenerativeAI(apiKey);
+        this.models = { ...GEMINI_MODELS, ...models };
+    }
+
+    async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        return await this.generate(prompt, options, false);
+    }
+
+    async generateJSON<T = any>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+        const text = await this.generate(prompt, options, true);
+        return extractJSON(text);
+    }
+
+    async chat(messages: LLMMessage[], options: GenerateOptions = {}): Promise<string> {
+        const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+        const turns = messages.filter(m => m.role !== 'system');
+        const last = turns.pop();
+        if (!last || last.role !== 'user') {
+            throw new LLMError('chat() expects the last message to come from the user', this.name);
+        }
+
+        const model = this.getModel(options, false, system);
+        const session = model.startChat({
+            history: turns.map(m => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }]
+            }))
+        });
+
+        try {
+            const result = await session.sendMessage(last.content);
+            return result.response.text();
+        } catch (e: any) {
+            throw this.wrapError(e);
+        }
+    }
+
+    private async generate(prompt: string, options: GenerateOptions, json: boolean) {
+        const model = this.getModel(options, json);
+        const uploaded: string[] = [];
+
+        try {
+            const parts: any[] = [prompt];
+            for (const file of options.files || []) {
+                parts.push(await this.toPart(file, uploaded));
+            }
+            const result = await model.generateContent(parts);
+            return result.response.text();
+        } catch (e: any) {
+            throw this.wrapError(e);
+        } finally {
+            for (const path of uploaded) {
+                await Deno.remove(path).catch(() => { });
+            }
+        }
+    }
+
+    private getModel(options: GenerateOptions, json: boolean, systemInstruction?: string) {
+        return this.client.getGenerativeModel({
+            model: resolveModel(options.model, this.models),
+            generationConfig: {
+                temperature: options.temperature,
+                maxOutputTokens: options.maxOutputTokens,
+                ...(json ? { responseMimeType: 'application/json' } : {})
+            },
+            ...(options.relaxedSafety ? { safetySettings: RELAXED_SAFETY } : {}),
+            ...(systemInstruction ? { systemInstruction } : {})
+        });
+    }
+
+    private async toPart(file: LLMFile, uploaded: string[]) {
+        // Gemini has no DOCX support, so callers convert those to text first
+        if (isTextFile(file.mimeType)) {
+            return { text: new TextDecoder().decode(file.data) };
+        }
+
+        if (file.data.byteLength <= INLINE_FILE_LIMIT) {
+            return { inlineData: { mimeType: file.mimeType, data: toBase64(file.data) } };
+        }
+
+        const tempFilePath = `/tmp/${crypto.randomUUID()}-${file.name || 'upload'}`;
+        await Deno.writeFile(tempFilePath, file.data);
+        uploaded.push(tempFilePath);
+
+        const fileManager = new GoogleAIFileManager(this.apiKey);
+        const upload = await fileManager.uploadFile(tempFilePath, {
+            mimeType: file.mimeType,
+            displayName: file.name || 'upload',
+        });
+        console.log(`Uploaded file ${upload.file.displayName} as: ${upload.file.uri}`);
+        return { fileData: { mimeType: upload.file.mimeType, fileUri: upload.file.uri } };
+    }
+
+    private wrapError(e: any) {
+        if (e instanceof LLMError) return e;
+        return new LLMError(`Gemini request failed: ${e?.message || e}`, this.name, e?.status);
+    }
+}
@@ -0,0 +1,67 @@
+// Shared LLM provider layer for all edge functions.
+//
+// Secrets:
+//   LLM_PROVIDER        gemini (default) | openai | fake
+//   GEMINI_API_KEY      required for gemini
+//   LLM_BASE_URL        required for openai (any OpenAI-compatible server)
+//   LLM_API_KEY         optional bearer token for openai
+//   LLM_MODEL_DEFAULT / LLM_MODEL_FAST / LLM_MODEL_PRO   model overrides per tier
+//   LLM_FIXTURES_PATH   optional extra fixtures for fake
+
+import { GeminiProvider } from './gemini.ts';
+import { OpenAICompatibleProvider } from './openai_compatible.ts';
+import { FakeProvider } from './fake.ts';
+import type { LLMProvider, ModelMap } from './types.ts';
+
+export * from './types.ts';
+export { extractJSON } from './encoding.ts';
+export { GeminiProvider, GEMINI_MODELS } from './gemini.ts';
+export { OpenAICompatibleProvider } from './openai_compatible.ts';
+export { FakeProvider, type FakeCall, type LLMFixture } from './fake.ts';
+
+let cached: LLMProvider | null = null;
+
+const modelOverrides = (): Partial<ModelMap> => {
+    const models: Partial<ModelMap> = {};
+    const tiers: [keyof ModelMap, string][] = [['default', 'LLM_MODEL_DEFAULT'], ['fast', 'LLM_MODEL_FAST'], ['pro', 'LLM_MODEL_PRO']];
+    for (const [tier, envName] of tiers) {
+        const value = Deno.env.get(envName);
+        if (value) models[tier] = value;
+    }
+    return models;
+};
+
+export const createLLM = (providerName = Deno.env.get('LLM_PROVIDER') || 'gemini'): LLMProvider => {
+    switch (providerName.toLowerCase()) {
+        case 'gemini': {
+            const apiKey = Deno.env.get('GEMINI_API_KEY');
+            if (!apiKey) {
+                console.error('CRITICAL: GEMINI_API_KEY is missing');
+                throw new Error('GEMINI_API_KEY not set in Supabase Secrets');
+            }
+            return new GeminiProvider(apiKey, modelOverrides());
+        }
+        case 'openai': {
+            const baseUrl = Deno.env.get('LLM_BASE_URL');
+            const models = modelOverrides();
+            if (!baseUrl || !models.default) {
+                throw new Error('LLM_BASE_URL and LLM_MODEL_DEFAULT must be set for LLM_PROVIDER=openai');
+            }
+            return new OpenAICompatibleProvider({
+                baseUrl,
+                apiKey: Deno.env.get('LLM_API_KEY'),
+                models: { ...models, default: models.default },
+            });
+        }
+        case 'fake':
+            return new FakeProvider({ fixturesPath: Deno.env.get('LLM_FIXTURES_PATH') });
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${providerName}" (expected gemini, openai or fake)`);
+    }
+};
+
+// One provider per isolate, configured from the function secrets
+export const getLLM = (): LLMProvider => {
+    if (!cached) cached = createLLM();
+    return cached;
+};
@@ -0,0 +1,97 @@
+import { extractJSON, isTextFile, toBase64 } from './encoding.ts';
+import {
+    LLMError,
+    resolveModel,
+    type GenerateOptions,
+    type LLMFile,
+    type LLMMessage,
+    type LLMProvider,
+    type ModelMap,
+} from './types.ts';
+
+export interface OpenAICompatibleConfig {
+    /** e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+    baseUrl: string;
+    apiKey?: string;
+    models: Partial<ModelMap> & { default: string };
+}
+
+// Talks to any server exposing the OpenAI /chat/completions API (vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'openai-compatible';
+    private baseUrl: string;
+    private apiKey?: string;
+    private models: ModelMap;
+
+    constructor(config: OpenAICompatibleConfig) {
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.apiKey = config.apiKey;
+        this.models = {
+            default: config.models.default,
+            fast: config.models.fast || config.models.default,
+            pro: config.models.pro || config.models.default,
+        };
+    }
+
+    async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        return await this.complete([{ role: 'user', content: this.toContent(prompt, options.files) }], options, false);
+    }
+
+    async generateJSON<T = any>(prompt: string, options: GenerateOptions = {}): Promise<T> {
+        const text = await this.complete([{ role: 'user', content: this.toContent(prompt, options.files) }], options, true);
+        return extractJSON(text);
+    }
+
+    async chat(messages: LLMMessage[], options: GenerateOptions = {}): Promise<string> {
+        if (messages[messages.length - 1]?.role !== 'user') {
+            throw new LLMError('chat() expects the last message to come from the user', this.name);
+        }
+        return await this.complete(messages, options, false);
+    }
+
+    private async complete(messages: any[], options: GenerateOptions, json: boolean) {
+        let res: Response;
+        try {
+            res = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+                },
+                body: JSON.stringify({
+                    model: resolveModel(options.model, this.models),
+                    messages,
+                    temperature: options.temperature,
+                    max_tokens: options.maxOutputTokens,
+                    ...(json ? { response_format: { type: 'json_object' } } : {})
+                })
+            });
+        } catch (e: any) {
+            throw new LLMError(`${this.name} request failed: ${e?.message || e}`, this.name);
+        }
+
+        if (!res.ok) {
+            const body = await res.text().catch(() => '');
+            throw new LLMError(`${this.name} request failed (${res.status}): ${body.substring(0, 500)}`, this.name, res.status);
+        }
+
+        const data = await res.json();
+        return data.choices?.[0]?.message?.content ?? '';
+    }
+
+    private toContent(prompt: string, files: LLMFile[] = []) {
+        if (files.length === 0) return prompt;
+
+        const parts: any[] = [{ type: 'text', text: prompt }];
+        for (const file of files) {
+            if (isTextFile(file.mimeType)) {
+                parts.push({ type: 'text', text: new TextDecoder().decode(file.data) });
+            } else if (file.mimeType.startsWith('image/')) {
+                parts.push({ type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${toBase64(file.data)}` } });
+            } else {
+                throw new LLMError(`${this.name} cannot read ${file.mimeType} files; convert them to text first`, this.name, 415);
+            }
+        }
+        return parts;
+    }
+}
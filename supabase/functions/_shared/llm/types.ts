@@ -0,0 +1,57 @@
+// Provider-agnostic contract for every LLM call made by the edge functions
+
+/**
+ * Model tiers used by callers instead of hard-coded model names.
+ * Each provider maps them to concrete models (overridable via LLM_MODEL_* secrets).
+ */
+export type ModelTier = 'default' | 'fast' | 'pro';
+
+export type ModelMap = Record<ModelTier, string>;
+
+/** A document or image passed alongside the prompt */
+export interface LLMFile {
+    mimeType: string;
+    data: Uint8Array;
+    name?: string;
+}
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface GenerateOptions {
+    /** A model tier, or an explicit provider model id */
+    model?: ModelTier | string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    files?: LLMFile[];
+    /** Turn off provider content filters (Gemini safety settings). Ignored by providers without them. */
+    relaxedSafety?: boolean;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+    /** Like generateText, but asks for JSON output and returns it parsed */
+    generateJSON<T = any>(prompt: string, options?: GenerateOptions): Promise<T>;
+    /** Multi-turn conversation; the last message must come from the user */
+    chat(messages: LLMMessage[], options?: GenerateOptions): Promise<string>;
+}
+
+export class LLMError extends Error {
+    provider: string;
+    status?: number;
+
+    constructor(message: string, provider: string, status?: number) {
+        super(message);
+        this.name = 'LLMError';
+        this.provider = provider;
+        this.status = status;
+    }
+}
+
+export const resolveModel = (model: string | undefined, models: ModelMap) => {
+    if (!model) return models.default;
+    return (models as Record<string, string>)[model] || model;
+};
@@ -0,0 +1,20 @@
+// Reading and writing one proposal section by key. Template sections live in dynamic_sections;
+// everything else (summary, budget, workPackages...) is a top-level field.
+
+const dynamicSectionsOf = (proposal: any) => proposal.dynamic_sections || proposal.dynamicSections || {};
+
+export const isDynamicSection = (proposal: any, section: string) =>
+    !(section in proposal) && Object.hasOwn(dynamicSectionsOf(proposal), section);
+
+export const getSectionValue = (proposal: any, section: string) =>
+    isDynamicSection(proposal, section) ? dynamicSectionsOf(proposal)[section] : proposal[section];
+
+export const setSectionValue = (proposal: any, section: string, value: any) => {
+    if (isDynamicSection(proposal, section)) {
+        const sections = { ...dynamicSectionsOf(proposal), [section]: value };
+        proposal.dynamic_sections = sections;
+        if (proposal.dynamicSections) proposal.dynamicSections = sections;
+    } else {
+        proposal[section] = value;
+    }
+};
@@ -0,0 +1,105 @@
+// Append-only proposal history (proposal_versions table). Used by the server function for
+// manual saves, AI edits, generation and restores, and by the proposal-copilot function.
+
+export type ProposalVersionSource = 'initial' | 'generation' | 'manual' | 'ai-edit' | 'copilot' | 'restore';
+
+export interface RecordVersionOptions {
+    source: ProposalVersionSource;
+    description?: string | null;
+    section?: string | null;
+    // The proposal before this save. Stored as an "initial" version when the proposal has no
+    // history yet, so the state from before versioning existed can still be restored.
+    previous?: any;
+}
+
+export const fromDbVersion = (v: any) => ({
+    id: v.id,
+    proposalId: v.proposal_id,
+    version: v.version,
+    source: v.source,
+    description: v.description,
+    section: v.section,
+    createdAt: v.created_at,
+    ...(v.snapshot !== undefined ? { snapshot: v.snapshot } : {}),
+});
+
+const latestVersion = async (supabase: any, proposalId: string): Promise<number> => {
+    const { data, error } = await supabase
+        .from('proposal_versions')
+        .select('version')
+        .eq('proposal_id', proposalId)
+        .order('version', { ascending: false })
+        .limit(1);
+    if (error) throw new Error(`Failed to read history of ${proposalId}: ${error.message}`);
+    return data?.[0]?.version || 0;
+};
+
+const insertVersion = async (supabase: any, row: Record<string, any>) => {
+    const { data, error } = await supabase.from('proposal_versions').insert(row).select().single();
+    return { data, error };
+};
+
+/**
+ * Stores `proposal` as the next version. Never throws: a missing snapshot must not fail the save
+ * that triggered it.
+ */
+export async function recordProposalVersion(supabase: any, proposal: any, options: RecordVersionOptions) {
+    const proposalId = proposal.id;
+    try {
+        let version = await latestVersion(supabase, proposalId);
+
+        if (version === 0 && options.previous) {
+            await insertVersion(supabase, {
+                proposal_id: proposalId,
+                version: ++version,
+                source: 'initial',
+                description: 'State before version history was recorded',
+                snapshot: options.previous,
+            });
+        }
+
+        const row = {
+            proposal_id: proposalId,
+            source: options.source,
+            description: options.description ?? null,
+            section: options.section ?? null,
+            snapshot: proposal,
+        };
+
+        // Two saves racing for the same number: the loser takes the next one
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const { data, error } = await insertVersion(supabase, { ...row, version: version + 1 });
+            if (!error) {
+                console.log(`🕓 [VERSIONS] ${proposalId} v${data.version} (${options.source})`);
+                return fromDbVersion(data);
+            }
+            if (error.code !== '23505') throw new Error(error.message);
+            version = await latestVersion(supabase, proposalId);
+        }
+        throw new Error('Could not allocate a version number');
+    } catch (e: any) {
+        console.error(`❌ [VERSIONS] Failed to record ${options.source} version of ${proposalId}:`, e.message);
+        return null;
+    }
+}
+
+export async function listProposalVersions(supabase: any, proposalId: string) {
+    const { data, error } = await supabase
+        .from('proposal_versions')
+        .select('id, proposal_id, version, source, description, section, created_at')
+        .eq('proposal_id', proposalId)
+        .order('version', { ascending: false });
+    if (error) throw new Error(`Failed to list versions of ${proposalId}: ${error.message}`);
+    return (data || []).map(fromDbVersion);
+}
+
+export async function getProposalVersion(supabase: any, proposalId: string, version: number) {
+    const { data, error } = await supabase
+        .from('proposal_versions')
+        .select('*')
+        .eq('proposal_id', proposalId)
+        .eq('version', version)
+        .maybeSingle();
+    if (error) throw new Error(`Failed to load version ${version} of ${proposalId}: ${error.message}`);
+    return data ? fromDbVersion(data) : null;
+}
@@ -0,0 +1,113 @@
+// Minimal runtime schema builder for validating AI output (generated proposals, copilot
+// tool calls). Validators coerce where it is safe (numeric strings -> numbers) and report
+// every problem with the path of the offending field.
+
+export interface SchemaIssue {
+    path: string;
+    message: string;
+}
+
+export interface Schema {
+    (value: any, path: string, issues: SchemaIssue[]): any;
+    optional?: boolean;
+}
+
+const typeOf = (value: any) => Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+const joinPath = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+export const string = (opts: { min?: number } = {}): Schema => (value, path, issues) => {
+    if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${typeOf(value)}` });
+        return value;
+    }
+    if (opts.min && value.trim().length < opts.min) {
+        issues.push({ path, message: value.trim() ? `must be at least ${opts.min} characters` : 'must not be empty' });
+    }
+    return value;
+};
+
+export const number = (): Schema => (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+        // "€250,000" -> 250000; "TBD", "N/A" or "-" have no digits and are not 0
+        const cleaned = value.replace(/[^\d.-]/g, '');
+        const parsed = Number(cleaned);
+        if (/\d/.test(cleaned) && Number.isFinite(parsed)) return parsed;
+    }
+    issues.push({ path, message: `expected number, got ${typeOf(value)}` });
+    return value;
+};
+
+export const boolean = (): Schema => (value, path, issues) => {
+    if (typeof value !== 'boolean') issues.push({ path, message: `expected boolean, got ${typeOf(value)}` });
+    return value;
+};
+
+export const array = (item: Schema, opts: { min?: number } = {}): Schema => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${typeOf(value)}` });
+        return value;
+    }
+    if (opts.min && value.length < opts.min) {
+        issues.push({ path, message: `must contain at least ${opts.min} item(s), got ${value.length}` });
+    }
+    return value.map((v, i) => item(v, `${path}[${i}]`, issues));
+};
+
+export const oneOf = (values: string[]): Schema => (value, path, issues) => {
+    const match = typeof value === 'string' && values.find(v => v.toLowerCase() === value.trim().toLowerCase());
+    if (!match) {
+        issues.push({ path, message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}` });
+        return value;
+    }
+    return match;
+};
+
+// Unknown keys are kept as-is so extra AI fields are not lost
+export const object = (shape: Record<string, Schema>): Schema => (value, path, issues) => {
+    if (typeOf(value) !== 'object') {
+        issues.push({ path, message: `expected object, got ${typeOf(value)}` });
+        return value;
+    }
+    const result = { ...value };
+    for (const [key, schema] of Object.entries(shape)) {
+        const fieldPath = joinPath(path, key);
+        if (result[key] === undefined || result[key] === null) {
+            if (!schema.optional) issues.push({ path: fieldPath, message: 'is required' });
+            continue;
+        }
+        result[key] = schema(result[key], fieldPath, issues);
+    }
+    return result;
+};
+
+export const record = (valueSchema: Schema, opts: { requiredKeys?: string[] } = {}): Schema => (value, path, issues) => {
+    if (typeOf(value) !== 'object') {
+        issues.push({ path, message: `expected object, got ${typeOf(value)}` });
+        return value;
+    }
+    const result = { ...value };
+    for (const key of opts.requiredKeys || []) {
+        if (result[key] === undefined || result[key] === null) {
+            issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+    }
+    for (const [key, v] of Object.entries(result)) {
+        if (v === undefined || v === null) continue;
+        result[key] = valueSchema(v, joinPath(path, key), issues);
+    }
+    return result;
+};
+
+export const optional = (schema: Schema): Schema => {
+    const wrapped: Schema = (value, path, issues) => schema(value, path, issues);
+    wrapped.optional = true;
+    return wrapped;
+};
+
+export const validate = <T = any>(schema: Schema, value: any): { value: T; issues: SchemaIssue[] } => {
+    const issues: SchemaIssue[] = [];
+    const result = schema(value, '', issues);
+    return { value: result, issues };
+};
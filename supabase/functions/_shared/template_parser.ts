@@ -0,0 +1,173 @@
+// Extracts the section structure of a funding application form (PDF or DOCX in the
+// funding-templates bucket). Used by the parse-funding-template function and by the server job worker.
+
+import { getLLM } from './llm/index.ts'
+import mammoth from 'npm:mammoth'
+
+export async function parseFundingTemplate(supabaseClient: any, fileUrl: string) {
+    // Download file from Supabase Storage
+    console.log('⬇️  Downloading file from storage...')
+    const { data: fileData, error: downloadError } = await supabaseClient
+        .storage
+        .from('funding-templates')
+        .download(fileUrl)
+
+    if (downloadError) {
+        console.error('Download error:', downloadError)
+        throw new Error(`Failed to download file: ${downloadError.message}`)
+    }
+
+    console.log('✅ File downloaded, size:', fileData.size, 'bytes')
+
+    const arrayBuffer = await fileData.arrayBuffer()
+    let fileBytes = new Uint8Array(arrayBuffer)
+
+    // Determine MIME type from file extension
+    const fileExtension = fileUrl.split('.').pop()?.toLowerCase()
+    let mimeType = 'application/pdf'
+
+    if (fileExtension === 'docx') {
+        mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    } else if (fileExtension === 'doc') {
+        mimeType = 'application/msword'
+    }
+
+    console.log('📝 File type calculated:', mimeType)
+
+    // Handle DOCX files - Convert to text using Mammoth
+    // LLM providers don't natively support application/vnd.openxmlformats-officedocument.wordprocessingml.document
+    // so we must extract text first.
+    if (fileExtension === 'docx' || mimeType.includes('wordprocessingml')) {
+        console.log('🔄 Converting DOCX to text...');
+        try {
+            // Mammoth expects a buffer
+            // Convert ArrayBuffer to Uint8Array first
+            const uint8Array = new Uint8Array(arrayBuffer);
+            // Create a standard buffer from it (Mammoth often expects this structure or similar)
+            // However, standard mammoth 'extractRawText' usually takes { buffer: Buffer }
+            // We'll simulate a Buffer-like object if Buffer isn't globally available, or rely on Deno's Buffer.
+            // Using 'node:buffer' is safest in Deno environment if allowed.
+
+            const { Buffer } = await import('node:buffer');
+            const buffer = Buffer.from(uint8Array);
+
+            const result = await mammoth.extractRawText({ buffer: buffer });
+            const text = result.value;
+            console.log('✅ DOCX converted to text. Length:', text.length);
+
+            if (!text) {
+                throw new Error('Extracted text is empty');
+            }
+
+            // Update mime type and data to plain text
+            mimeType = 'text/plain';
+            fileBytes = new TextEncoder().encode(text);
+        } catch (conversionError: any) {
+            console.error('❌ Error converting DOCX:', conversionError);
+            throw new Error(`Failed to convert DOCX file: ${conversionError.message}`);
+        }
+    }
+
+    const llm = getLLM()
+
+    console.log(`🤖 Analyzing document with ${llm.name} (pro tier)...`)
+
+    const prompt = `You are a precision-oriented Document Analysis AI. Your mission is to extract the EXACT structure of an EU funding application form from the provided PDF/document.
+
+### THE GOLD STANDARD FOR EXTRACTION:
+1. **LITERAL LABELS:** Extract section names exactly as they are written (e.g., "Work package n°2 -"). Do not correct grammar or capitalize differently.
+2. **VERBATIM QUESTIONS:** Within each section, find every question or instruction and copy it LITERALLY. 
+   - Look for text in boxes, bulleted prompts, or italicized instructions.
+   - Example: If the form says "What are the concrete objectives you would like to achieve?", do not summarize it as "Define objectives." Copy the whole question.
+   - Place all these verbatim questions in the "description" field.
+3. **ZERO NOISE:**
+   - DO NOT extract page numbers ("1 / 20", "Page 5").
+   - DO NOT extract form metadata ("Form ID KA220-YOU...", "Deadline (Brussels Time)...").
+   - DO NOT extract footer/header repetitions.
+4. **HIERARCHY IS KEY:** 
+   - Use the "Table of Contents" (usually on page 2 or 3) as your roadmap.
+   - Maintain the nested structure (e.g., "Relevance" has subsections "Priorities and Topics", "Project description", etc.).
+   - Use the "subsections" array for this.
+5. **AI PROMPT GENERATION:** Create a surgical "aiPrompt" for the generation engine. It must say: "Draft the [Label] section. Answer these specific questions verbatim from the guidelines: [List verbatim questions]. Use a professional, technical, and persuasive tone."
+
+### SECTION MAPPING (Surgical Accuracy):
+- **Context:** Extract title, start date, duration, agency.
+- **Project Summary:** Capture the specific bullet points required (Context, Objectives, Participants, Methodology, Results/Impact).
+- **Participating Organisations:** Ensure you capture the "Background and experience" sub-questions for both coordinators and partners.
+- **Relevance:** Capture "Priorities and Topics", "創新 (Innovation)", "Complementarity", "EU Added Value", and the "Needs Analysis" prompts.
+- **Project Design:** Capture Monitoring, Budget Control, Risk Handling, Digital tools, and Green practices.
+- **Work Packages:** Capture specific WP objectives, results, indicators, and task allocations.
+
+Return ONLY a perfectly formatted JSON object.
+
+{
+  "fundingScheme": "Exact Name of the Programme/Action",
+  "extractedFrom": "${fileUrl}",
+  "sections": [
+{
+  "key": "unique_snake_case_key",
+  "label": "Exact literal label from document",
+  "type": "textarea" | "richtext" | "structured",
+  "charLimit": number | null,
+  "wordLimit": number | null,
+  "mandatory": true,
+  "order": number,
+  "description": "ALL VERBATIM QUESTIONS AND PROMPTS CONCATENATED",
+  "aiPrompt": "Draft the [Label] section by answering: [Question 1]? [Question 2]? ...",
+  "subsections": [ /* Nested version of this structure */ ]
+}
+  ],
+  "metadata": {
+"totalCharLimit": number | null,
+"estimatedDuration": "string"
+  }
+}
+
+Return ONLY the raw JSON object. No explanation.`
+
+    // Send document to the LLM for analysis.
+    // The pro tier is used for maximum extraction precision on high-density documents.
+    const responseText = await llm.generateText(prompt, {
+        model: 'pro',
+        temperature: 0.0, // Absolute zero for deterministic, factual extraction
+        files: [{ mimeType, data: fileBytes, name: fileUrl.split('/').pop() }]
+    })
+    console.log('✅ AI analysis complete')
+    console.log('Raw response length:', responseText.length)
+
+    // Clean JSON response - remove markdown if present
+    let cleanedText = responseText.trim()
+
+    // Remove markdown code blocks
+    cleanedText = cleanedText.replace(/```json\s*/g, '')
+    cleanedText = cleanedText.replace(/```\s*/g, '')
+
+    // Find JSON object boundaries
+    const jsonStart = cleanedText.indexOf('{')
+    const jsonEnd = cleanedText.lastIndexOf('}')
+
+    if (jsonStart === -1 || jsonEnd === -1) {
+        throw new Error('No valid JSON object found in AI response')
+    }
+
+    const jsonText = cleanedText.substring(jsonStart, jsonEnd + 1)
+
+    console.log('Cleaned JSON length:', jsonText.length)
+
+    // Parse the extracted template
+    const extracted = JSON.parse(jsonText)
+
+    console.log('✅ Successfully parsed template')
+    console.log('   Funding Scheme:', extracted.fundingScheme)
+    console.log('   Sections found:', extracted.sections?.length ?? 0)
+
+    // Validate structure
+    if (!extracted.sections || !Array.isArray(extracted.sections)) {
+        throw new Error('Invalid template structure: sections array missing')
+    }
+
+    return {
+        ...extracted,
+        needsReview: true // Always requires human review
+    }
+}
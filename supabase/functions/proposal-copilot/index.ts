@@ -1,6 +1,9 @@
 /// <reference lib="deno.ns" />
-import { createClient } from "jsr:@supabase/supabase-js@2";
-import { GoogleGenerativeAI } from "npm:@google/generative-ai";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getLLM, type LLMMessage } from "../_shared/llm/index.ts";
+import { recordProposalVersion } from "../_shared/proposal_versions.ts";
+import { applyToolCalls, describeTools, type CopilotToolCall } from "../_shared/copilot_tools.ts";
+import { getSectionValue, setSectionValue } from "../_shared/proposal_sections.ts";
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -39,6 +42,144 @@ const extractJSON = (text: string) => {
     }
 };
 
+// The model's edit reply: { tool_calls: [...], explanation }. Anything else is a plain answer.
+const parseToolReply = (text: string): { toolCalls: CopilotToolCall[]; explanation?: string } | null => {
+    try {
+        const json = extractJSON(text);
+        if (!Array.isArray(json?.tool_calls)) return null;
+        return { toolCalls: json.tool_calls, explanation: json.explanation };
+    } catch (e) {
+        // Not JSON or failed to parse, treat as normal text
+        return null;
+    }
+};
+
+const KV_TABLE_NAME = 'kv_store_3cb71dae';
+
+const isUuid = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+
+// Errors with an HTTP status other than 500 (e.g. an undo that conflicts with a later edit)
+class CopilotError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'CopilotError';
+    }
+}
+
+const loadProposal = async (supabase: any, proposalId: string) => {
+    let proposal: any = null;
+    let fetchError: any = null;
+
+    // 1. Try fetching from KV store (works for string IDs and UUIDs)
+    // The app primarily uses this for generated proposals
+    console.log(`Attempting to fetch from KV store (${KV_TABLE_NAME})...`);
+
+    const { data: kvData, error: kvError } = await supabase
+        .from(KV_TABLE_NAME)
+        .select('value')
+        .eq('key', proposalId)
+        .single();
+
+    if (kvData && kvData.value) {
+        console.log('Found proposal in KV store');
+        proposal = kvData.value;
+    } else {
+        console.log('Not found in KV store or error:', kvError?.message);
+
+        // 2. If not found, check if it's a UUID to try the 'proposals' table
+        // This is for backward compatibility or if data was moved to real tables
+        if (isUuid(proposalId)) {
+            console.log('ID is a UUID, checking Postgres "proposals" table...');
+            const { data: pgData, error: pgError } = await supabase
+                .from('proposals')
+                .select('*')
+                .eq('id', proposalId)
+                .single();
+
+            if (pgData) {
+                console.log('Found proposal in Postgres table');
+                proposal = pgData;
+            } else {
+                console.log('Not found in Postgres table:', pgError?.message);
+                fetchError = pgError || kvError;
+            }
+        } else {
+            console.log('ID is not a UUID, skipping Postgres check');
+            fetchError = kvError;
+        }
+    }
+
+    if (!proposal) {
+        const errorMessage = fetchError?.message || 'Proposal not found in any store';
+        console.error('Proposal fetch failed:', errorMessage);
+        throw new Error(errorMessage);
+    }
+
+    return proposal;
+};
+
+// Saves the proposal to the KV store (or the given sections to the 'proposals' table for UUID-only proposals)
+const saveProposal = async (supabase: any, proposalId: string, proposal: any, sections: string[]) => {
+    proposal.updatedAt = new Date().toISOString();
+
+    // Save to KV
+    const { error: updateError } = await supabase
+        .from(KV_TABLE_NAME)
+        .upsert({ key: proposalId, value: proposal });
+
+    if (updateError) {
+        console.error('Failed to update KV:', updateError);
+        // Fallback to 'proposals' table if UUID
+        if (isUuid(proposalId)) {
+            await supabase
+                .from('proposals')
+                .update(Object.fromEntries(sections.map(section => [section, getSectionValue(proposal, section)])))
+                .eq('id', proposalId);
+        }
+    }
+};
+
+// Puts back the values a copilot action replaced, as long as none of its sections was edited since
+const undoAction = async (supabase: any, proposalId: string, actionId: string) => {
+    const { data: action } = await supabase
+        .from('copilot_actions')
+        .select('*')
+        .eq('id', actionId)
+        .eq('proposal_id', proposalId)
+        .maybeSingle();
+
+    if (!action) throw new CopilotError(404, 'Copilot action not found');
+    if (action.undone_at) throw new CopilotError(409, 'This change has already been undone');
+
+    const changes: any[] = action.changes || [];
+    const sections = changes.map(c => c.section);
+    const proposal = await loadProposal(supabase, proposalId);
+    const edited = changes.filter(c => JSON.stringify(getSectionValue(proposal, c.section) ?? null) !== JSON.stringify(c.new_value ?? null));
+    if (edited.length) {
+        const names = edited.map(c => `"${c.section}"`).join(', ');
+        throw new CopilotError(409, `${names} was edited after this change, so it can no longer be undone here. Use the version history to restore it.`);
+    }
+
+    const previous = structuredClone(proposal);
+    for (const change of changes) {
+        setSectionValue(proposal, change.section, change.previous_value);
+    }
+    await saveProposal(supabase, proposalId, proposal, sections);
+    await supabase.from('copilot_actions').update({ undone_at: new Date().toISOString() }).eq('id', action.id);
+    await recordProposalVersion(supabase, { ...proposal, id: proposalId }, {
+        source: 'copilot',
+        description: `Undo: ${action.message || sections.join(', ')}`,
+        section: sections.length === 1 ? sections[0] : null,
+        previous
+    });
+
+    console.log(`↩️ Undid copilot action ${action.id} on ${sections.join(', ')}`);
+    return {
+        response: `Reverted the change to ${sections.join(', ')}.`,
+        action: { type: 'undo', id: action.id, sections }
+    };
+};
+
 Deno.serve(async (req) => {
     console.log('=== COPILOT REQUEST RECEIVED ===');
     console.log('Method:', req.method);
@@ -54,9 +195,9 @@ Deno.serve(async (req) => {
         const body = await req.json();
         console.log('Request body:', JSON.stringify(body, null, 2));
 
-        const { proposalId, message, history } = body;
+        const { proposalId, message, history, undoActionId } = body;
 
-        if (!proposalId || !message) {
+        if (!proposalId || (!message && !undoActionId)) {
             console.error('Missing required fields:', { proposalId, message });
             throw new Error('Missing proposalId or message');
         }
@@ -74,62 +215,21 @@ Deno.serve(async (req) => {
         const supabase = createClient(supabaseUrl, supabaseKey);
         console.log('Supabase client created');
 
+        if (undoActionId) {
+            console.log('Undoing copilot action:', undoActionId);
+            return new Response(
+                JSON.stringify(await undoAction(supabase, proposalId, undoActionId)),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+        }
+
         console.log('Step 3: Fetching proposal from database...');
         console.log('Proposal ID:', proposalId);
 
         console.log('Step 3: Fetching proposal from database...');
         console.log('Proposal ID:', proposalId);
 
-        let proposal = null;
-        let fetchError = null;
-
-        // 1. Try fetching from KV store (works for string IDs and UUIDs)
-        // The app primarily uses this for generated proposals
-        const KV_TABLE_NAME = 'kv_store_3cb71dae';
-        console.log(`Attempting to fetch from KV store (${KV_TABLE_NAME})...`);
-
-        const { data: kvData, error: kvError } = await supabase
-            .from(KV_TABLE_NAME)
-            .select('value')
-            .eq('key', proposalId)
-            .single();
-
-        if (kvData && kvData.value) {
-            console.log('Found proposal in KV store');
-            proposal = kvData.value;
-        } else {
-            console.log('Not found in KV store or error:', kvError?.message);
-
-            // 2. If not found, check if it's a UUID to try the 'proposals' table
-            // This is for backward compatibility or if data was moved to real tables
-            const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(proposalId);
-
-            if (isUuid) {
-                console.log('ID is a UUID, checking Postgres "proposals" table...');
-                const { data: pgData, error: pgError } = await supabase
-                    .from('proposals')
-                    .select('*')
-                    .eq('id', proposalId)
-                    .single();
-
-                if (pgData) {
-                    console.log('Found proposal in Postgres table');
-                    proposal = pgData;
-                } else {
-                    console.log('Not found in Postgres table:', pgError?.message);
-                    fetchError = pgError || kvError;
-                }
-            } else {
-                console.log('ID is not a UUID, skipping Postgres check');
-                fetchError = kvError;
-            }
-        }
-
-        if (!proposal) {
-            const errorMessage = fetchError?.message || 'Proposal not found in any store';
-            console.error('Proposal fetch failed:', errorMessage);
-            throw new Error(errorMessage);
-        }
+        const proposal = await loadProposal(supabase, proposalId);
 
         console.log('Proposal found:', proposal.title);
 
@@ -153,33 +253,16 @@ Deno.serve(async (req) => {
         console.log('Context built with keys:', Object.keys(context).join(', '));
         console.log('Context built');
 
-        console.log('Step 5: Initializing Gemini...');
-        const apiKey = Deno.env.get('GEMINI_API_KEY');
-        console.log('Gemini API Key exists:', !!apiKey);
-
-        if (!apiKey) {
-            throw new Error('GEMINI_API_KEY is not set');
-        }
-
-        const genAI = new GoogleGenerativeAI(apiKey);
-        console.log('GoogleGenerativeAI instance created');
-
-        const model = genAI.getGenerativeModel({
-            model: 'gemini-2.0-flash',
-            generationConfig: {
-                temperature: 0.1, // Low temperature for precision
-                maxOutputTokens: 8192 // Increased to handle large WP arrays
-            }
-        });
-        console.log('Model instance created (Gemini 2.0 Flash)');
+        console.log('Step 5: Initializing LLM provider...');
+        const llm = getLLM();
+        console.log('Provider:', llm.name);
 
         console.log('Step 6: Starting chat...');
 
-        const chatHistory = [
+        const chatHistory: LLMMessage[] = [
             {
                 role: "user",
-                parts: [{
-                    text: `You are a proposal assistant. Context: ${JSON.stringify(context)}
+                content: `You are a proposal assistant. Context: ${JSON.stringify(context)}
                 
 IMPORTANT: If the user asks to "redo", "rewrite", "update", or "change" a specific section (e.g., "redo the methodology", "update the risks"), you MUST perform the update.
 
@@ -188,108 +271,127 @@ STRICT FORMATTING & LOGIC RULES:
 2. DO NOT include "(dd/mm/yyyy)" in any labels or headers.
 3. Currency MUST always be formatted with the symbol first and thousands separators, e.g., "€60,000".
 
-STRICT BUDGET & DATA TYPE RULES:
-- The following sections MUST BE JSON ARRAYS, not strings or HTML: 'budget', 'risks', 'workPackages', 'timeline', 'partners'.
-- NESTED UPDATES (Work Packages): If the user asks to update an activity or task (e.g., "improve activity 2.1"), you MUST update the 'workPackages' section. Your "content" field will be the FULL updated 'workPackages' array with the improved activity text injected into the correct WP and activity index.
-- If the user asks to update 'budget', your "content" field MUST be a JSON array of objects following the exact structure: [{ "item": "string", "description": "string", "cost": number, "breakdown": [{ "subItem": "string", "quantity": number, "unitCost": number, "total": number }] }].
+EDITING WITH TOOLS:
+You never return whole sections. Every change is made with one or more of these tools, which the server applies as patches:
+${describeTools()}
+
+- Indexes are 1-based and refer to the order in the Context (WP2 = workPackage 2, activity 2.1 = workPackage 2, activity 1).
 - REALISTIC RESEARCH & PRICING: Use current 2026 market rates. Examples: VR Headsets (Meta Quest 3 level) ~€550-€700; Senior Researcher/Expert rate ~€350-€500/day; Hosting/Metaverse infra ~€1,000-€3,000/year; AI API Subscriptions ~€50-€200/month.
-- DETAILED SUB-ITEMS: Do not provide empty breakdowns. Every budget category must have 2-4 specific sub-items (e.g., Personnel should break down into specific roles; Hardware should list specific devices).
-- EXACT ARITHMETIC: If the user specifies a total budget (e.g., "€250,000"), you MUST ensure the sum of all "cost" values in your budget array equals EXACTLY that amount. The "cost" of a main item must equal the sum of its "total" breakdown values.
-- For narrative sections (summary, relevance, impact, etc.), use HTML formatting (<p>, <ul>, etc.).
+- For narrative content (activity descriptions, edit_section), use HTML formatting (<p>, <ul>, etc.).
 
 To perform an update, your response MUST be a JSON object with this structure:
 {
-  "action": "update_section",
-  "section": "section_name_key",
-  "content": <String for narrative OR Array for structured sections>,
+  "tool_calls": [
+    { "tool": "update_activity", "args": { "workPackage": 2, "activity": 1, "description": "<p>...</p>" } }
+  ],
   "explanation": "I have improved the description for Activity 2.1 in WP2 by adding specific details about VR prototyping and user testing."
 }
 
-The "section_name_key" must be the root key (e.g., 'workPackages' for activity changes, 'budget' for budget changes).
 The "explanation" is what I will show to the user.
 
-If the user is just asking a question, reply with normal text (not JSON).` }],
+If the user is just asking a question, reply with normal text (not JSON).`,
             },
             {
-                role: "model",
-                parts: [{ text: "I understand. I will maintain strict JSON array formats for structured data like budget and risks, and I will ensure arithmetic is exact to the cent." }],
+                role: "assistant",
+                content: "I understand. I will change the proposal only through tool calls, with 1-based indexes taken from the context.",
             },
         ];
 
         if (history && Array.isArray(history)) {
             history.forEach((msg: any) => {
                 chatHistory.push({
-                    role: msg.role === 'assistant' ? 'model' : 'user',
-                    parts: [{ text: msg.content }]
+                    role: msg.role === 'assistant' ? 'assistant' : 'user',
+                    content: msg.content
                 });
             });
         }
 
-        const chat = model.startChat({
-            history: chatHistory,
-        });
-        console.log('Chat started');
-
         console.log('Step 7: Sending message to AI...');
         console.log('User message:', message);
 
-        const result = await chat.sendMessage(message);
-        console.log('AI response received');
-
-        const response = await result.response;
-        let text = response.text();
-        console.log('Response text extracted, length:', text.length);
+        const conversation: LLMMessage[] = [...chatHistory, { role: 'user', content: message }];
+        const chatOptions = {
+            temperature: 0.1, // Low temperature for precision
+            maxOutputTokens: 8192
+        };
+        const text = await llm.chat(conversation, chatOptions);
+        console.log('AI response received, length:', text.length);
 
-        // Check if response is JSON (action)
+        // Check if response is JSON (tool calls)
         let responseData: any = { response: text };
-
-        try {
-            // Attempt to find JSON in the response (in case of extra text)
-            const potentialJson = extractJSON(text);
-            if (potentialJson.action === 'update_section' && potentialJson.section && potentialJson.content) {
-                console.log('Action detected: update_section for', potentialJson.section);
-
-                // Perform the update in the DB
-                // Note: We need to update the KV store or the table depending on where it lives.
-                // We already fetched 'proposal', so we know where it came from? 
-                // Actually, we fetched it but didn't store the source.
-                // However, we can just try updating the KV store first as that's the primary store for this app.
-
-                const KV_TABLE_NAME = 'kv_store_3cb71dae';
-
-                // Update the local object
-                proposal[potentialJson.section] = potentialJson.content;
-                proposal.updatedAt = new Date().toISOString();
-
-                // Save to KV
-                const { error: updateError } = await supabase
-                    .from(KV_TABLE_NAME)
-                    .upsert({ key: proposalId, value: proposal });
-
-                if (updateError) {
-                    console.error('Failed to update KV:', updateError);
-                    // Fallback to 'proposals' table if UUID
-                    const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(proposalId);
-                    if (isUuid) {
-                        await supabase
-                            .from('proposals')
-                            .update({ [potentialJson.section]: potentialJson.content })
-                            .eq('id', proposalId);
+        let reply = parseToolReply(text);
+
+        if (reply) {
+            // Dry run on a copy: one repair round for calls with bad arguments or indexes
+            const { rejected } = applyToolCalls(structuredClone(proposal), reply.toolCalls);
+            if (rejected.length) {
+                console.log(`Step 7b: ${rejected.length} invalid tool call(s), asking for corrections...`);
+                const repairText = await llm.chat([
+                    ...conversation,
+                    { role: 'assistant', content: text },
+                    {
+                        role: 'user',
+                        content: `These tool calls could not be applied:\n${rejected.map(r => `- ${r.tool}: ${r.error}`).join('\n')}\n\nReturn the complete corrected JSON (all tool calls, not only the fixed ones).`
                     }
-                }
+                ], chatOptions);
+                reply = parseToolReply(repairText) || reply;
+            }
+        }
 
-                // Return the structured response
-                responseData = {
-                    response: potentialJson.explanation || "Section updated successfully.",
-                    action: {
-                        type: 'update_section',
-                        section: potentialJson.section
-                    }
-                };
+        if (reply && reply.toolCalls.length) {
+            console.log('Tool calls detected:', reply.toolCalls.map(c => c?.tool).join(', '));
+
+            const previous = structuredClone(proposal);
+            const { applied, rejected, sections } = applyToolCalls(proposal, reply.toolCalls);
+            let actionId: string | undefined;
+
+            if (applied.length) {
+                await saveProposal(supabase, proposalId, proposal, sections);
+
+                // Keep the replaced values so this exact change can be undone from the chat
+                const { data: action, error: actionError } = await supabase
+                    .from('copilot_actions')
+                    .insert({
+                        proposal_id: proposalId,
+                        type: 'tool_calls',
+                        section: sections.length === 1 ? sections[0] : null,
+                        changes: sections.map(section => ({
+                            section,
+                            previous_value: getSectionValue(previous, section) ?? null,
+                            new_value: getSectionValue(proposal, section) ?? null
+                        })),
+                        tool_calls: applied.map(({ tool, args }) => ({ tool, args })),
+                        message,
+                        explanation: reply.explanation
+                    })
+                    .select('id')
+                    .single();
+                if (actionError) console.error('Failed to record copilot action:', actionError);
+                actionId = action?.id;
+
+                await recordProposalVersion(supabase, { ...proposal, id: proposalId }, {
+                    source: 'copilot',
+                    description: message,
+                    section: sections.length === 1 ? sections[0] : null,
+                    previous
+                });
             }
-        } catch (e) {
-            // Not JSON or failed to parse, treat as normal text
-            console.log('Response is not a valid action JSON, treating as text.');
+
+            const skipped = rejected.length
+                ? `\n\nSkipped ${rejected.length} change(s): ${rejected.map(r => `${r.tool} (${r.error})`).join('; ')}`
+                : '';
+
+            // Return the structured response
+            responseData = {
+                response: (applied.length ? reply.explanation || 'Proposal updated successfully.' : 'I could not apply any of the changes.') + skipped,
+                action: applied.length ? {
+                    type: 'tool_calls',
+                    id: actionId,
+                    sections,
+                    applied: applied.map(({ tool, summary }) => ({ tool, summary })),
+                    rejected: rejected.map(({ tool, error }) => ({ tool, error }))
+                } : undefined
+            };
         }
 
         console.log('Step 8: Returning response...');
@@ -315,7 +417,7 @@ If the user is just asking a question, reply with normal text (not JSON).` }],
                 details: error?.toString(),
                 stack: error?.stack
             }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            { status: error instanceof CopilotError ? error.status : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
     }
 });
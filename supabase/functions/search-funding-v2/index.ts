@@ -1,5 +1,5 @@
-import { createClient } from 'jsr:@supabase/supabase-js@2';
-import { GoogleGenerativeAI } from 'npm:@google/generative-ai';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getLLM } from '../_shared/llm/index.ts';
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -9,12 +9,6 @@ const corsHeaders = {
 
 const FUNCTION_VERSION = 'v2.1-no-fallback'; // Force new deployment
 
-const getAI = () => {
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) throw new Error('GEMINI_API_KEY not set');
-    return new GoogleGenerativeAI(apiKey);
-};
-
 // Search EU Funding & Tenders Portal API
 async function searchEUPortal(query: string) {
     try {
@@ -110,9 +104,6 @@ async function searchEUPortal(query: string) {
 async function suggestPartners(callDescription: string, callEligibility: string, callTopic: string, allPartners: any[]) {
     try {
         console.log('Suggesting partners for call...');
-        const ai = getAI();
-        const model = ai.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
         const prompt = `You are a consortium-building expert. Analyze this funding call and suggest the best partners from the available list.
         
         CALL DETAILS:
@@ -146,9 +137,7 @@ async function suggestPartners(callDescription: string, callEligibility: string,
         
         Return ONLY valid JSON array.`;
 
-        const result = await model.generateContent(prompt);
-        const text = result.response.text();
-        const suggestions = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+        const suggestions = await getLLM().generateJSON<any[]>(prompt, { model: 'fast' });
 
         console.log(`Generated ${suggestions.length} partner suggestions`);
         return suggestions;
@@ -180,8 +169,7 @@ Deno.serve(async (req) => {
         if (deepScrape && url) {
             console.log(`Analyzing URL: ${url}`);
 
-            const ai = getAI();
-            const model = ai.getGenerativeModel({ model: 'gemini-1.5-flash' });
+            const llm = getLLM();
 
             const fetchContent = async (targetUrl: string) => {
                 try {
@@ -220,8 +208,7 @@ Deno.serve(async (req) => {
             Return ONLY valid JSON.`;
 
             try {
-                const checkResult = await model.generateContent(checkPrompt);
-                const checkData = JSON.parse(checkResult.response.text().replace(/```json/g, '').replace(/```/g, '').trim());
+                const checkData = await llm.generateJSON(checkPrompt, { model: 'fast' });
 
                 if (checkData.type === 'portal' && checkData.better_url && checkData.better_url !== currentUrl) {
                     console.log(`Portal detected. Digging deeper to: ${checkData.better_url}`);
@@ -280,9 +267,7 @@ Deno.serve(async (req) => {
 
             prompt += `\nReturn ONLY valid JSON.`;
 
-            const result = await model.generateContent(prompt);
-            const text = result.response.text();
-            const data = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+            const data = await llm.generateJSON(prompt, { model: 'fast' });
 
             data.url = currentUrl;
 
@@ -302,9 +287,6 @@ Deno.serve(async (req) => {
 
         if (customSources && customSources.length > 0) {
             console.log('Checking custom sources...');
-            const ai = getAI();
-            const model = ai.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
             const customPrompt = `User Query: "${query}"
             
             Custom Sources provided by user:
@@ -317,9 +299,7 @@ Deno.serve(async (req) => {
             Return ONLY valid JSON.`;
 
             try {
-                const result = await model.generateContent(customPrompt);
-                const text = result.response.text();
-                const customResults = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+                const customResults = await getLLM().generateJSON(customPrompt, { model: 'fast' });
                 if (Array.isArray(customResults)) {
                     opportunities.push(...customResults);
                 }
@@ -393,16 +373,13 @@ Deno.serve(async (req) => {
         }
         */
 
-        // If EU Portal returns no results, use Gemini as fallback
+        // If EU Portal returns no results, use the LLM as fallback
         if (opportunities.length === 0) {
-            console.log('[FALLBACK] Using Gemini...');
-            const ai = getAI();
-            const model = ai.getGenerativeModel({ model: 'gemini-1.5-flash' });
+            console.log('[FALLBACK] Using LLM knowledge...');
             const today = new Date().toISOString().split('T')[0];
             const prompt = `Find 5 EU funding calls for "${query}". Today: ${today}. Only deadlines >= ${today}. Return JSON: {"opportunities": [{"title": "", "url": "", "description": "", "source": "Horizon Europe", "status": "Open", "deadline": "YYYY-MM-DD", "budget": "", "eligibility": ""}]}`;
             try {
-                const result = await model.generateContent(prompt);
-                const data = JSON.parse(result.response.text().replace(/```json/g, '').replace(/```/g, '').trim());
+                const data = await getLLM().generateJSON(prompt, { model: 'fast' });
                 if (data.opportunities) opportunities.push(...data.opportunities);
             } catch (e) { console.error('[FALLBACK] Failed:', e); }
         }
@@ -1,26 +1,109 @@
-export async function aiEditProposal(ai: any, proposal: any, instruction: string) {
-    // 1. Determine section
-    const detectionPrompt = `Given instruction: "${instruction}". 
-    Which ONE field of the proposal JSON should be edited? 
-    Options: title, summary, relevance, impact, methods, workPlan, budget, risks, dissemination.
-    Return JSON: { "section": "fieldName" }`;
-
-    const detectRes = await ai.getGenerativeModel({ model: 'gemini-1.5-flash' }).generateContent({
-        contents: [{ role: 'user', parts: [{ text: detectionPrompt }] }]
-    });
-    const section = JSON.parse((detectRes.text || "").replace(/```json/g, '').replace(/```/g, '')).section;
-
-    // 2. Edit
-    const editPrompt = `Current content of ${section}: ${JSON.stringify(proposal[section])}.
-    User instruction: ${instruction}.
-    Generate the NEW content for this section only. Maintain JSON structure/type (string or array).
-    Return JSON: { "content": ... }`;
-
-    const editRes = await ai.getGenerativeModel({ model: 'gemini-1.5-flash' }).generateContent({
-        contents: [{ role: 'user', parts: [{ text: editPrompt }] }]
-    });
-    const newContent = JSON.parse((editRes.text || "").replace(/```json/g, '').replace(/```/g, '')).content;
-
-    proposal[section] = newContent;
-    return { proposal, editedSection: section };
-}
\ No newline at end of file
+// AI edits of a single proposal section. The edit is returned as a change set that the user
+// reviews (per hunk) before POST /proposals/:id/ai-edit/apply saves the accepted result.
+
+import type { LLMProvider } from '../_shared/llm/index.ts';
+import { KnowledgeRetriever } from './knowledge_retriever.ts';
+import { applyActualCost, rebalanceBudget, resolveBudgetModel } from './budget.ts';
+import * as PromptBuilder from './prompt_builder.ts';
+import { getSectionValue, setSectionValue } from '../_shared/proposal_sections.ts';
+
+export const STRUCTURED_SECTIONS = ['budget', 'risks', 'workPackages', 'timeline', 'partners'];
+
+// One section's content before and after the edit
+export interface SectionChange {
+    section: string;
+    before: any;
+    after: any;
+}
+
+export interface AiEditChangeSet {
+    instruction: string;
+    editedSection: string;
+    changes: SectionChange[];
+}
+
+const detectSection = async (llm: LLMProvider, instruction: string): Promise<string> => {
+    const detectionPrompt = `Given this user instruction: "${instruction}"
+
+Which ONE section of the proposal should be edited?
+
+Available sections:
+- title, summary, relevance, impact, budget, risks, partners, timeline
+- workPackages (Choose this for ANYTHING related to activities, tasks, work packages, or the work plan)
+- dynamic_sections (Choose this for template-specific narrative sections)
+
+Return JSON: { "section": "sectionName" }
+
+Return ONLY valid JSON, no other text.`;
+
+    const detectData = await llm.generateJSON(detectionPrompt);
+    console.log('Detection Output:', JSON.stringify(detectData));
+    return detectData.section;
+};
+
+/**
+ * Asks the LLM for the new content of one section and returns what would change, without
+ * touching `proposal`. Budget/work package edits are rebalanced first, so the change set can
+ * include the budget even when only the work packages were edited. `fundingScheme` supplies the
+ * budget model when the proposal has not chosen one.
+ */
+export async function aiEditProposal(llm: LLMProvider, proposal: any, instruction: string, sectionId?: string, fundingScheme?: any): Promise<AiEditChangeSet> {
+    let section = sectionId || await detectSection(llm, instruction);
+
+    // Map aliases if needed
+    if (section === 'workPlan' || section === 'activities' || section === 'tasks' || section?.startsWith('extra_wp_')) {
+        section = 'workPackages';
+    }
+
+    // RAG: Retrieve intelligence for edits
+    const retriever = new KnowledgeRetriever();
+    const editKeywords = KnowledgeRetriever.extractSmartKeywords(`${instruction} ${section}`);
+    const expertContext = await retriever.getRelevantKnowledge(editKeywords, 3);
+
+    const editPrompt = `Current content of ${section}: ${JSON.stringify(getSectionValue(proposal, section))}
+
+User instruction: ${instruction}
+
+### EXPERT INTELLIGENCE (Apply these quality standards to the edit):
+${expertContext || 'No specific guidelines found for this query.'}
+
+TASK: Generate the NEW content for the "${section}" section only based on the user instruction.
+
+CRITICAL RULES:
+1. DATA TYPE: If the section is one of [${STRUCTURED_SECTIONS.join(', ')}], the content MUST be a JSON ARRAY of objects. DO NOT return a string or HTML for these sections.
+2. WORK PACKAGES: If editing 'workPackages', ensure each WP has multiple detailed activities (3-5 per WP). If the user asks to "improve activities", rewrite the descriptions to be more technical, detailed, and measurable. Keep the existing structure but improve the content.
+3. NARRATIVE: For other sections (summary, relevance, impact, or keys in dynamic_sections), provide detailed HTML content (<p>, <ul>, <li>, <strong> tags).
+4. ARITHMETIC: If updating 'budget' or 'workPackages' and a total amount is specified, ensure all item costs sum up EXACTLY to that total.
+
+Return JSON: { "content": <Array OR String depending on section type> }
+
+Return ONLY valid JSON, no other text.`;
+
+    const { content } = await llm.generateJSON(editPrompt);
+    console.log(`Edit Output for ${section}:`, JSON.stringify(content)?.substring(0, 500));
+
+    const draft = structuredClone(proposal);
+    setSectionValue(draft, section, content);
+
+    // Rebalance if budget or workPackages was edited; actual-cost budgets have no fixed total to scale to,
+    // but their new lines still need a partner and a cost category
+    const budgetModel = resolveBudgetModel(proposal, fundingScheme);
+    if (section === 'budget' && budgetModel === 'actual-cost') {
+        applyActualCost(draft);
+    } else if ((section === 'budget' || section === 'workPackages') && budgetModel !== 'actual-cost') {
+        const maxBudgetParam = proposal.settings?.customParams?.find((p: any) => p.key === 'Max Budget')?.value;
+        const rawTargetBudget = PromptBuilder.extractNumericBudget(instruction) || PromptBuilder.extractNumericBudget(maxBudgetParam) || 250000;
+        // A lump sum is fixed; edits only move money between items
+        const targetBudget = budgetModel === 'lump-sum' && proposal.lumpSum?.amount
+            ? proposal.lumpSum.amount
+            : rawTargetBudget < 1000 ? 250000 : rawTargetBudget;
+        rebalanceBudget(draft, targetBudget);
+    }
+
+    const touched = Array.from(new Set([section, 'budget', 'workPackages']));
+    const changes = touched
+        .map(key => ({ section: key, before: getSectionValue(proposal, key), after: getSectionValue(draft, key) }))
+        .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+
+    return { instruction, editedSection: section, changes };
+}
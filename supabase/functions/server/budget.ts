@@ -0,0 +1,228 @@
+// Budget arithmetic applied after AI generation and edits
+
+export const rebalanceBudget = (proposal: any, targetBudget: number) => {
+    if (!proposal.budget || !Array.isArray(proposal.budget) || proposal.budget.length === 0) return;
+
+    console.log(`⚖️ Rebalancing budget to target: ${targetBudget}`);
+
+    // 1. Proportional scaling for main budget items
+    let currentTotal = proposal.budget.reduce((sum: number, item: any) => sum + (item.cost || 0), 0);
+
+    if (currentTotal > 0 && Math.abs(currentTotal - targetBudget) > 1) {
+        const scaleFactor = targetBudget / currentTotal;
+        let runningTotal = 0;
+
+        proposal.budget.forEach((item: any, idx: number) => {
+            if (idx === proposal.budget.length - 1) {
+                // Last item gets the remainder to ensure exact match
+                item.cost = targetBudget - runningTotal;
+            } else {
+                item.cost = Math.round((item.cost || 0) * scaleFactor);
+                runningTotal += item.cost;
+            }
+        });
+        console.log(`   - Scaled budget items by factor ${scaleFactor.toFixed(4)}`);
+    } else if (currentTotal === 0 && targetBudget > 0) {
+        // Fallback if AI returned no budget - create a default item
+        proposal.budget = [{
+            item: "Project Implementation",
+            cost: targetBudget,
+            description: "Total project implementation costs as per target budget.",
+            breakdown: [{ subItem: "Operational Costs", quantity: 1, unitCost: targetBudget, total: targetBudget }],
+            partnerAllocations: proposal.partners?.map((p: any) => ({ partner: p.name, amount: Math.floor(targetBudget / proposal.partners.length) })) || []
+        }];
+    }
+
+    // 2. Ensure internal consistency for each budget item (breakdown and partnerAllocations)
+    proposal.budget.forEach((item: any) => {
+        const itemTarget = item.cost || 0;
+
+        // Partner Allocations consistency
+        if (item.partnerAllocations && Array.isArray(item.partnerAllocations) && item.partnerAllocations.length > 0) {
+            const paTotal = item.partnerAllocations.reduce((sum: number, pa: any) => sum + (pa.amount || 0), 0);
+            if (paTotal !== itemTarget) {
+                const sortedPA = [...item.partnerAllocations].sort((a, b) => (b.amount || 0) - (a.amount || 0));
+                const largestPA = sortedPA[0];
+                largestPA.amount = (largestPA.amount || 0) + (itemTarget - paTotal);
+            }
+        }
+
+        // Breakdown consistency
+        if (item.breakdown && Array.isArray(item.breakdown) && item.breakdown.length > 0) {
+            const bdTotal = item.breakdown.reduce((sum: number, bd: any) => sum + (bd.total || 0), 0);
+            if (bdTotal !== itemTarget) {
+                const sortedBD = [...item.breakdown].sort((a, b) => (b.total || 0) - (a.total || 0));
+                const largestBD = sortedBD[0];
+                largestBD.total = (largestBD.total || 0) + (itemTarget - bdTotal);
+            }
+        }
+    });
+
+    // 3. Rebalance Work Package activity budgets
+    if (proposal.workPackages && Array.isArray(proposal.workPackages) && proposal.workPackages.length > 0) {
+        let wpTotal = 0;
+        proposal.workPackages.forEach((wp: any) => {
+            if (wp.activities && Array.isArray(wp.activities)) {
+                wpTotal += wp.activities.reduce((sum: number, act: any) => sum + (act.estimatedBudget || 0), 0);
+            }
+        });
+
+        if (wpTotal !== targetBudget) {
+            const allActivities: any[] = [];
+            proposal.workPackages.forEach((wp: any) => {
+                if (wp.activities && Array.isArray(wp.activities)) {
+                    wp.activities.forEach((act: any) => allActivities.push(act));
+                }
+            });
+
+            if (allActivities.length > 0) {
+                allActivities.sort((a, b) => (b.estimatedBudget || 0) - (a.estimatedBudget || 0));
+                const largestAct = allActivities[0];
+                largestAct.estimatedBudget = (largestAct.estimatedBudget || 0) + (targetBudget - wpTotal);
+                console.log(`   - Adjusted WP activity "${largestAct.name}" to match total target budget.`);
+            }
+        }
+    }
+};
+
+
+// ---------------------------------------------------------------------------
+// Lump-sum schemes (template_json.budget.model === 'lump-sum'). The viewer edits the split with
+// the same rules (utils/lump-sum.ts); generation only provides a starting point.
+// ---------------------------------------------------------------------------
+
+export const getLumpSumRules = (fundingScheme: any) => {
+    const budget = fundingScheme?.template_json?.budget;
+    return budget?.model === 'lump-sum' && budget.lumpSum ? budget.lumpSum : null;
+};
+
+// Smallest allowed lump sum covering the requested budget, else the largest one
+export const chooseLumpSum = (amounts: number[], requested: number) => {
+    const sorted = [...amounts].sort((a, b) => a - b);
+    return sorted.find(amount => amount >= requested) ?? sorted[sorted.length - 1] ?? requested;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Weights -> percentages with two decimals adding up to 100; the largest absorbs the rounding
+const toPercentages = (weights: number[]) => {
+    const base = weights.some(w => w > 0) ? weights : weights.map(() => 1);
+    const total = base.reduce((sum, w) => sum + w, 0);
+    const shares = base.map(w => round2((w / total) * 100));
+    const largest = shares.indexOf(Math.max(...shares));
+    shares[largest] = round2(shares[largest] + 100 - shares.reduce((sum, s) => sum + s, 0));
+    return shares;
+};
+
+// Splits `total` by percentages into whole euros that add up exactly
+const splitAmount = (total: number, shares: number[]) => {
+    const amounts = shares.map(share => Math.round((total * share) / 100));
+    const largest = amounts.indexOf(Math.max(...amounts));
+    amounts[largest] += total - amounts.reduce((sum, a) => sum + a, 0);
+    return amounts;
+};
+
+/**
+ * Switches a generated proposal to the lump-sum model: work package shares follow the activity
+ * budgets (project management capped by the scheme), each work package is split equally over the
+ * partners, and `budget` becomes one item per work package.
+ */
+export const applyLumpSum = (proposal: any, rules: any, amount: number) => {
+    const workPackages: any[] = proposal.workPackages || [];
+    if (workPackages.length === 0) return;
+
+    const activityTotals = workPackages.map(wp => (wp.activities || []).reduce((sum: number, act: any) => sum + (act.estimatedBudget || 0), 0));
+    let shares = toPercentages(activityTotals);
+
+    const namedManagement = workPackages.findIndex(wp => /manag|coordinat/i.test(wp.name || ''));
+    const management = namedManagement >= 0 ? namedManagement : 0;
+    const cap = rules.managementMaxShare;
+    if (cap && shares[management] > cap && workPackages.length > 1) {
+        const others = toPercentages(shares.map((share, i) => (i === management ? 0 : share)));
+        shares = others.map((share, i) => (i === management ? cap : round2((share * (100 - cap)) / 100)));
+        const largest = shares.indexOf(Math.max(...shares));
+        shares[largest] = round2(shares[largest] + 100 - shares.reduce((sum, s) => sum + s, 0));
+    }
+
+    const names: string[] = (proposal.partners || []).map((p: any) => p.name).filter(Boolean);
+    const partnerShares = names.length ? toPercentages(names.map(() => 1)) : [];
+
+    proposal.budgetModel = 'lump-sum';
+    proposal.lumpSum = {
+        amount,
+        workPackages: shares.map(share => ({
+            share,
+            partnerShares: Object.fromEntries(names.map((name, i) => [name, partnerShares[i]]))
+        }))
+    };
+
+    const wpAmounts = splitAmount(amount, shares);
+    proposal.budget = workPackages.map((wp, i) => {
+        const partnerAmounts = names.length ? splitAmount(wpAmounts[i], partnerShares) : [];
+        return {
+            item: `WP${i + 1}: ${wp.name}`,
+            cost: wpAmounts[i],
+            description: `${shares[i]}% of the lump sum`,
+            partnerAllocations: names.map((partner, p) => ({ partner, amount: partnerAmounts[p] }))
+        };
+    });
+    console.log(`   - Split lump sum of ${amount} over ${workPackages.length} work packages`);
+};
+
+
+// ---------------------------------------------------------------------------
+// Budget models and actual-cost schemes (template_json.budget.model === 'actual-cost'), where every
+// cost line belongs to a partner and a Part A cost category (utils/actual-cost.ts).
+// ---------------------------------------------------------------------------
+
+/** The proposal's own budget model, else its funding scheme's, else free-form (as getBudgetModel in the viewer) */
+export const resolveBudgetModel = (proposal: any, fundingScheme?: any): string =>
+    proposal.budgetModel
+    || (fundingScheme || proposal.fundingScheme || proposal.funding_scheme)?.template_json?.budget?.model
+    || 'free-form';
+
+// First match wins; anything else is "other"
+const COST_CATEGORY_PATTERNS: [string, RegExp][] = [
+    ['subcontracting', /subcontract/i],
+    ['financial_support', /financial support|third part|cascade funding/i],
+    ['personnel', /personnel|staff|salar|person[- ]?months?|researcher|human resources/i],
+    ['travel', /travel|subsistence|mission|accommodation/i],
+    ['equipment', /equipment|hardware|instrument|device/i],
+    ['other_goods', /consumable|material|goods|service|publication|dissemination|audit|licen[cs]e|event|printing/i],
+];
+
+const guessCostCategory = (item: any) =>
+    COST_CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(`${item.item || ''} ${item.description || ''}`))?.[0] || 'other';
+
+/**
+ * Switches a budget to the actual-cost model: a line without a partner becomes one line per
+ * partner allocation (or the coordinator's line when it has none), and lines without a category
+ * get one guessed from their name. Lines that already have a partner are kept as they are.
+ */
+export const applyActualCost = (proposal: any) => {
+    proposal.budgetModel = 'actual-cost';
+    if (!Array.isArray(proposal.budget)) return;
+
+    const partners: any[] = proposal.partners || [];
+    const coordinator = (partners.find(p => p.isCoordinator) || partners[0])?.name;
+
+    proposal.budget = proposal.budget.flatMap((item: any) => {
+        const category = item.category || guessCostCategory(item);
+        if (item.partner) return [{ ...item, category }];
+
+        const allocations = (item.partnerAllocations || []).filter((a: any) => a.partner && a.amount > 0);
+        if (allocations.length <= 1) {
+            const { partnerAllocations: _, ...line } = item;
+            return [{ ...line, category, partner: allocations[0]?.partner || coordinator }];
+        }
+        // The breakdown describes the whole item, so the per-partner lines carry only their amount
+        return allocations.map((a: any) => ({
+            item: item.item,
+            cost: a.amount,
+            description: item.description,
+            category,
+            partner: a.partner,
+        }));
+    });
+    console.log(`   - Assigned ${proposal.budget.length} cost lines to partners and cost categories`);
+};
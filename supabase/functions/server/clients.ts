@@ -0,0 +1,31 @@
+// Client factories for Supabase and the LLM provider
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+export { getLLM } from '../_shared/llm/index.ts';
+
+export const getSupabaseClient = () => {
+    const url = Deno.env.get('SUPABASE_URL') || '';
+    const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    return createClient(url, key);
+};
+
+export const ensureBucket = async (bucketName: string) => {
+    const supabase = getSupabaseClient();
+
+    // Check if bucket exists
+    const { data: buckets } = await supabase.storage.listBuckets();
+    const bucketExists = buckets?.some(b => b.name === bucketName);
+
+    if (!bucketExists) {
+        console.log(`Creating bucket: ${bucketName}`);
+        const { error } = await supabase.storage.createBucket(bucketName, {
+            public: true,
+            fileSizeLimit: 52428800, // 50MB
+        });
+
+        if (error) {
+            console.error(`Failed to create bucket ${bucketName}:`, error);
+        }
+    }
+};
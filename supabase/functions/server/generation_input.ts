@@ -0,0 +1,149 @@
+// Loads everything a proposal generation needs from the request: partner profiles,
+// the funding scheme template and RAG guidelines
+
+import { getSupabaseClient } from './clients.ts';
+import * as KV from './kv_store.ts';
+import { KnowledgeRetriever } from './knowledge_retriever.ts';
+import type { GenerationEventHandler, GenerationInput } from './generation_orchestrator.ts';
+
+export interface GenerationRequest {
+    idea: any;
+    summary: string;
+    constraints: any;
+    selectedPartners?: string[];
+    userPrompt?: string;
+    fundingSchemeId?: string;
+}
+
+export async function loadGenerationInput(request: GenerationRequest, onEvent?: GenerationEventHandler): Promise<GenerationInput> {
+    const { idea, summary, constraints, selectedPartners = [], userPrompt, fundingSchemeId } = request;
+
+    // Load partner details if provided
+    const partnersRaw: any[] = [];
+    const partners: any[] = [];
+    const filteredPartners = selectedPartners.filter(Boolean);
+    console.log(`🔍 Loading ${filteredPartners.length} partners from DB: ${filteredPartners.join(', ')}`);
+
+    if (filteredPartners.length > 0) {
+        const supabase = getSupabaseClient();
+        // Only query UUIDs from Supabase to avoid "invalid input syntax for type uuid" error
+        const uuidPartners = filteredPartners.filter((id: string) =>
+            /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(id)
+        );
+
+        if (uuidPartners.length > 0) {
+            const { data: dbPartners, error: partnerError } = await supabase
+                .from('partners')
+                .select('*')
+                .in('id', uuidPartners);
+
+            if (partnerError) console.error('❌ Error fetching partners:', partnerError);
+
+            if (dbPartners && dbPartners.length > 0) {
+                console.log(`✅ Found ${dbPartners.length} partners in DB.`);
+
+                // Map to camelCase for the prompt builder
+                partners.push(...dbPartners.map(p => ({
+                    id: p.id,
+                    name: p.name,
+                    legalNameNational: p.legal_name_national || '',
+                    acronym: p.acronym,
+                    country: p.country,
+                    description: p.description,
+                    experience: p.experience,
+                    staffSkills: p.staff_skills,
+                    relevantProjects: p.relevant_projects,
+                    organisationId: p.organisation_id || p.pic || '',
+                    pic: p.pic || '',
+                    vatNumber: p.vat_number || '',
+                    businessId: p.business_id || '',
+                    organizationType: p.organization_type || '',
+                    isPublicBody: p.is_public_body,
+                    isNonProfit: p.is_non_profit,
+                    legalAddress: p.legal_address || '',
+                    city: p.city || '',
+                    postcode: p.postcode || '',
+                    region: p.region || '',
+                    website: p.website || '',
+                    contactEmail: p.contact_email || '',
+                    department: p.department || '',
+                    legalRepName: p.legal_rep_name || '',
+                    legalRepPosition: p.legal_rep_position || '',
+                    legalRepEmail: p.legal_rep_email || '',
+                    legalRepPhone: p.legal_rep_phone || '',
+                    contactPersonName: p.contact_person_name || '',
+                    contactPersonPosition: p.contact_person_position || '',
+                    contactPersonEmail: p.contact_person_email || '',
+                    contactPersonPhone: p.contact_person_phone || '',
+                    contactPersonRole: p.contact_person_role || '',
+                    role: p.role || '',
+                    isCoordinator: p.id === filteredPartners[0] // First one selected is always coordinator
+                })));
+            }
+        }
+
+        // Fallback to KV if any missing (for transition)
+        for (const partnerId of filteredPartners) {
+            if (!partners.find(p => p.id === partnerId)) {
+                const kvPartner = await KV.get(`partner:${partnerId}`);
+                if (kvPartner) {
+                    console.log(`📦 Recovered partner ${partnerId} from KV.`);
+                    partners.push({ ...kvPartner, isCoordinator: partnerId === filteredPartners[0] });
+                }
+            }
+        }
+
+        // Ensure the order matches the selection
+        partners.sort((a, b) => filteredPartners.indexOf(a.id) - filteredPartners.indexOf(b.id));
+    }
+
+    if (partners.length === 0) {
+        console.warn('⚠️ No partners found for this proposal generation!');
+    } else {
+        console.log(`🎭 Final partner list: ${partners.map(p => `${p.name} (${p.isCoordinator ? 'Coord' : 'Partner'})`).join(', ')}`);
+    }
+
+    await onEvent?.('partners_loaded', {
+        count: partners.length,
+        partners: partners.map(p => ({ name: p.name, isCoordinator: p.isCoordinator }))
+    });
+
+    // Load funding scheme if selected
+    let fundingScheme = null;
+    if (fundingSchemeId) {
+        const supabase = getSupabaseClient();
+        const { data } = await supabase
+            .from('funding_schemes')
+            .select('*')
+            .eq('id', fundingSchemeId)
+            .single();
+        fundingScheme = data;
+    }
+
+    // NEW: Expert Intelligence Retrieval (RAG)
+    const retriever = new KnowledgeRetriever();
+    const smartKeywords = KnowledgeRetriever.extractSmartKeywords(
+        `${fundingScheme?.name || ''} ${idea.title} ${idea.description} ${userPrompt || ''}`
+    );
+
+    console.log(`🧠 [RAG] Keywords: ${smartKeywords.join(', ')}`);
+    const ragStart = Date.now();
+    const expertKnowledge = await retriever.getRelevantKnowledge(smartKeywords, 4);
+    console.log(`✅ [RAG] Completed in ${Date.now() - ragStart}ms. Length: ${expertKnowledge?.length || 0}`);
+
+    if (expertKnowledge) {
+        console.log(`✅ [RAG] Found relevant context for ${smartKeywords.length} keywords.`);
+    }
+    await onEvent?.('rag_keywords', { keywords: smartKeywords, found: !!expertKnowledge });
+
+    return {
+        idea,
+        summary,
+        constraints,
+        partners,
+        userPrompt,
+        fundingScheme,
+        fundingSchemeId,
+        expertKnowledge
+    };
+}
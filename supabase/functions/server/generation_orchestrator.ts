@@ -0,0 +1,354 @@
+// Section-by-section proposal generation.
+// A skeleton (objectives, WP list, partner roles, budget, risks) is generated first; every template
+// section and every work package is then generated in its own call with the skeleton as shared context.
+// Progress is persisted in KV under `generation:<proposalId>` so failed steps can be retried alone.
+
+import type { LLMProvider } from '../_shared/llm/index.ts';
+import * as KV from './kv_store.ts';
+import * as PromptBuilder from './prompt_builder.ts';
+import { applyActualCost, applyLumpSum, getLumpSumRules, rebalanceBudget, resolveBudgetModel } from './budget.ts';
+import { saveToSupabase } from './proposal_sync.ts';
+import { getSupabaseClient } from './clients.ts';
+import { recordProposalVersion } from '../_shared/proposal_versions.ts';
+import { validate } from '../_shared/schema.ts';
+import { buildProposalSchema, sectionContentSchema, skeletonSchema, workPackageDetailSchema } from './proposal_schema.ts';
+import { generateStructured } from './structured_output.ts';
+
+export type GenerationStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface GenerationStep {
+    id: string; // 'skeleton' | 'section:<key>' | 'work_package:<n>'
+    label: string;
+    status: GenerationStepStatus;
+    attempts: number;
+    error?: string;
+    repaired?: string[];
+}
+
+export interface GenerationInput extends PromptBuilder.ProposalContext {
+    fundingSchemeId?: string;
+}
+
+export interface GenerationState {
+    proposalId: string;
+    status: 'running' | 'completed' | 'partial' | 'failed';
+    input: GenerationInput;
+    skeleton?: any;
+    steps: GenerationStep[];
+    startedAt: string;
+    updatedAt: string;
+}
+
+export type GenerationEventType =
+    | 'partners_loaded'
+    | 'rag_keywords'
+    | 'step_started'
+    | 'skeleton_ready'
+    | 'section_generated'
+    | 'work_package_generated'
+    | 'step_failed'
+    | 'budget_rebalanced'
+    | 'saved';
+
+export type GenerationEventHandler = (type: GenerationEventType, data: Record<string, any>) => Promise<void> | void;
+
+/** Lets a caller (e.g. the job worker) follow progress and stop the run between steps */
+export interface GenerationHooks {
+    onProgress?: (state: GenerationState) => Promise<void> | void;
+    // Phase events with the generated content, streamed to the UI as sections arrive
+    onEvent?: GenerationEventHandler;
+    // Throwing here stops the run before the next step starts
+    beforeStep?: () => Promise<void> | void;
+}
+
+const SECTION_CONCURRENCY = 3;
+
+const GENERATION_OPTIONS = {
+    temperature: 0.2,
+    maxOutputTokens: 8192,
+    relaxedSafety: true,
+};
+
+// Always generated, even when the template has no such section
+const WORK_PACKAGES_OVERVIEW: PromptBuilder.FlatSection = {
+    key: 'work_packages_overview',
+    label: 'All Workpackages and activities',
+    description: 'Overview of all work packages, how they connect and who leads them.',
+};
+
+const stateKey = (proposalId: string) => `generation:${proposalId}`;
+
+export const getGenerationState = (proposalId: string): Promise<GenerationState | null> => KV.get(stateKey(proposalId));
+
+const getSections = (input: GenerationInput): PromptBuilder.FlatSection[] => {
+    const sections = PromptBuilder.getProposalSections(input.fundingScheme);
+    return sections.some(s => s.key === WORK_PACKAGES_OVERVIEW.key) ? sections : [...sections, WORK_PACKAGES_OVERVIEW];
+};
+
+const planSteps = (input: GenerationInput, skeleton: any): GenerationStep[] => [
+    ...getSections(input).map(s => ({ id: `section:${s.key}`, label: s.label, status: 'pending' as const, attempts: 0 })),
+    ...skeleton.workPackages.map((wp: any, i: number) => ({
+        id: `work_package:${i + 1}`,
+        label: wp.name || `Work Package ${i + 1}`,
+        status: 'pending' as const,
+        attempts: 0
+    })),
+];
+
+const persist = async (state: GenerationState, proposal: any) => {
+    state.updatedAt = new Date().toISOString();
+    await KV.set(proposal.id, proposal);
+    await KV.set(stateKey(state.proposalId), state);
+};
+
+// Empty proposal saved before the first AI call so progress is visible from the start
+const createDraft = (input: GenerationInput) => {
+    const now = new Date().toISOString();
+    const customParams = [];
+    if (input.constraints?.budget) customParams.push({ key: 'Max Budget', value: input.constraints.budget });
+    if (input.constraints?.duration) customParams.push({ key: 'Duration', value: input.constraints.duration });
+    if (input.constraints?.partners) customParams.push({ key: 'Partner Requirements', value: input.constraints.partners });
+
+    const proposal: any = {
+        id: `proposal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        title: input.idea.title,
+        summary: '',
+        partners: input.partners,
+        workPackages: [],
+        budget: [],
+        risks: [],
+        dynamic_sections: {},
+        selectedIdea: input.idea,
+        generatedAt: now,
+        savedAt: now,
+        updatedAt: now,
+        settings: {
+            currency: 'EUR',
+            sourceUrl: '',
+            customParams: customParams
+        }
+    };
+    if (input.fundingSchemeId) proposal.funding_scheme_id = input.fundingSchemeId;
+    return proposal;
+};
+
+const applySkeleton = (proposal: any, skeleton: any, input: GenerationInput) => {
+    proposal.title = skeleton.title;
+    proposal.summary = skeleton.summary;
+    proposal.objectives = skeleton.objectives;
+    proposal.budget = skeleton.budget;
+    proposal.risks = skeleton.risks;
+    proposal.workPackages = skeleton.workPackages.map((wp: any) => ({
+        name: wp.name,
+        description: wp.description,
+        duration: wp.duration,
+        activities: [],
+        deliverables: []
+    }));
+
+    // Merge AI-generated partner info (roles/desc) with portal metadata (OID/VAT/etc)
+    proposal.partners = input.partners.map(portalP => {
+        const aiP = (skeleton.partners as any[]).find(p =>
+            p.name?.toLowerCase().includes(portalP.name.toLowerCase()) ||
+            portalP.name.toLowerCase().includes(p.name?.toLowerCase())
+        );
+        return {
+            ...portalP,
+            role: aiP?.role || portalP.role || 'Partner',
+            description: aiP?.description || portalP.description
+        };
+    });
+};
+
+const runSkeleton = async (llm: LLMProvider, state: GenerationState, proposal: any, step: GenerationStep) => {
+    const prompt = PromptBuilder.buildSkeletonPrompt(state.input);
+    const { value, report } = await generateStructured<any>(llm, prompt, skeletonSchema, GENERATION_OPTIONS);
+    if (!report.valid) throw new Error(`Skeleton is incomplete: ${report.failed.join(', ')}`);
+
+    step.repaired = report.repaired;
+    proposal.generationPrompt = prompt;
+    state.skeleton = value;
+    applySkeleton(proposal, value, state.input);
+    // A new skeleton invalidates everything written against the previous one
+    state.steps = [step, ...planSteps(state.input, value)];
+};
+
+const runSection = async (llm: LLMProvider, state: GenerationState, proposal: any, step: GenerationStep) => {
+    const key = step.id.slice('section:'.length);
+    const section = getSections(state.input).find(s => s.key === key);
+    if (!section) throw new Error(`Section "${key}" is no longer part of the template`);
+
+    const prompt = PromptBuilder.buildSectionPrompt(state.input, state.skeleton, section);
+    const { value, report } = await generateStructured<any>(llm, prompt, sectionContentSchema, GENERATION_OPTIONS);
+    if (!report.valid) throw new Error(`Section content is invalid: ${report.issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+
+    step.repaired = report.repaired;
+    proposal.dynamic_sections[key] = value.content;
+};
+
+const runWorkPackage = async (llm: LLMProvider, state: GenerationState, proposal: any, step: GenerationStep) => {
+    const wpIndex = Number(step.id.slice('work_package:'.length)) - 1;
+    const prompt = PromptBuilder.buildWorkPackagePrompt(state.input, state.skeleton, wpIndex);
+    const { value, report } = await generateStructured<any>(llm, prompt, workPackageDetailSchema, GENERATION_OPTIONS);
+    if (!report.valid) throw new Error(`Work package is invalid: ${report.issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+
+    step.repaired = report.repaired;
+    proposal.workPackages[wpIndex] = {
+        ...proposal.workPackages[wpIndex],
+        activities: value.activities,
+        deliverables: value.deliverables
+    };
+    proposal.dynamic_sections[`work_package_${wpIndex + 1}`] = value.narrative;
+};
+
+const runStep = async (llm: LLMProvider, state: GenerationState, proposal: any, step: GenerationStep, hooks: GenerationHooks) => {
+    await hooks.beforeStep?.();
+    step.status = 'running';
+    step.attempts++;
+    delete step.error;
+    await persist(state, proposal);
+    await hooks.onProgress?.(state);
+    await hooks.onEvent?.('step_started', { stepId: step.id, label: step.label });
+
+    const startTime = Date.now();
+    try {
+        if (step.id === 'skeleton') await runSkeleton(llm, state, proposal, step);
+        else if (step.id.startsWith('section:')) await runSection(llm, state, proposal, step);
+        else await runWorkPackage(llm, state, proposal, step);
+        step.status = 'done';
+        console.log(`✅ [GENERATE] ${step.id} done in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+    } catch (e: any) {
+        step.status = 'failed';
+        step.error = e.message;
+        console.error(`❌ [GENERATE] ${step.id} failed:`, e.message);
+    }
+    await persist(state, proposal);
+    await hooks.onProgress?.(state);
+    if (hooks.onEvent) await emitStepResult(hooks.onEvent, step, proposal);
+};
+
+const emitStepResult = (emit: GenerationEventHandler, step: GenerationStep, proposal: any) => {
+    if (step.status === 'failed') {
+        return emit('step_failed', { stepId: step.id, label: step.label, error: step.error });
+    }
+    if (step.id === 'skeleton') {
+        return emit('skeleton_ready', {
+            title: proposal.title,
+            summary: proposal.summary,
+            objectives: proposal.objectives,
+            workPackages: proposal.workPackages.map((wp: any) => wp.name)
+        });
+    }
+    if (step.id.startsWith('section:')) {
+        const key = step.id.slice('section:'.length);
+        return emit('section_generated', { stepId: step.id, key, label: step.label, content: proposal.dynamic_sections[key] });
+    }
+    const wpIndex = Number(step.id.slice('work_package:'.length)) - 1;
+    return emit('work_package_generated', {
+        stepId: step.id,
+        key: `work_package_${wpIndex + 1}`,
+        label: step.label,
+        workPackage: proposal.workPackages[wpIndex],
+        content: proposal.dynamic_sections[`work_package_${wpIndex + 1}`]
+    });
+};
+
+// Runs the pending steps a few at a time to stay within provider rate limits
+const runPool = async (steps: GenerationStep[], run: (step: GenerationStep) => Promise<void>) => {
+    const queue = [...steps];
+    const workers = Array.from({ length: Math.min(SECTION_CONCURRENCY, queue.length) }, async () => {
+        while (queue.length > 0) {
+            try {
+                await run(queue.shift()!);
+            } catch (e) {
+                queue.length = 0; // Let the other workers finish their current step, then stop
+                throw e;
+            }
+        }
+    });
+    await Promise.all(workers);
+};
+
+const finalize = async (state: GenerationState, proposal: any, hooks: GenerationHooks) => {
+    const targetBudget = PromptBuilder.resolveTargetBudget(state.input.userPrompt, state.input.constraints?.budget, state.input.fundingScheme);
+    rebalanceBudget(proposal, targetBudget);
+    const lumpSumRules = getLumpSumRules(state.input.fundingScheme);
+    if (lumpSumRules) applyLumpSum(proposal, lumpSumRules, targetBudget);
+    else if (resolveBudgetModel(proposal, state.input.fundingScheme) === 'actual-cost') applyActualCost(proposal);
+    await hooks.onEvent?.('budget_rebalanced', { total: targetBudget, items: proposal.budget.length });
+
+    const sectionKeys = getSections(state.input).map(s => s.key);
+    const { issues } = validate(buildProposalSchema(sectionKeys), { ...proposal, dynamicSections: proposal.dynamic_sections });
+    const failed = state.steps.filter(s => s.status === 'failed');
+
+    state.status = failed.length === 0 ? 'completed' : 'partial';
+    proposal.generationReport = {
+        valid: failed.length === 0 && issues.length === 0,
+        rounds: Math.max(...state.steps.map(s => s.attempts)),
+        repaired: state.steps.flatMap(s => (s.repaired || []).map(target => `${s.id}:${target}`)),
+        failed: failed.map(s => s.label),
+        issues
+    };
+    proposal.updatedAt = new Date().toISOString();
+
+    await persist(state, proposal);
+    await saveToSupabase(proposal);
+    await recordProposalVersion(getSupabaseClient(), proposal, {
+        source: 'generation',
+        description: state.status === 'completed' ? 'Generated proposal' : `Generated proposal (failed: ${proposal.generationReport.failed.join(', ')})`,
+    });
+    await hooks.onEvent?.('saved', { proposalId: proposal.id, status: state.status });
+};
+
+const runGeneration = async (llm: LLMProvider, state: GenerationState, proposal: any, hooks: GenerationHooks) => {
+    state.status = 'running';
+    const skeletonStep = state.steps.find(s => s.id === 'skeleton')!;
+
+    if (skeletonStep.status !== 'done') {
+        await runStep(llm, state, proposal, skeletonStep, hooks);
+        if (skeletonStep.status === 'failed') {
+            state.status = 'failed';
+            await persist(state, proposal);
+            throw new Error(`AI generation failed: ${skeletonStep.error}`);
+        }
+    }
+
+    const pending = state.steps.filter(s => s.status === 'pending');
+    console.log(`🧩 [GENERATE] ${pending.length} step(s) to run for ${state.proposalId}`);
+    await runPool(pending, step => runStep(llm, state, proposal, step, hooks));
+
+    await finalize(state, proposal, hooks);
+    return { proposal, state };
+};
+
+export async function startGeneration(llm: LLMProvider, input: GenerationInput, hooks: GenerationHooks = {}) {
+    const proposal = createDraft(input);
+    const now = new Date().toISOString();
+    const state: GenerationState = {
+        proposalId: proposal.id,
+        status: 'running',
+        input,
+        steps: [{ id: 'skeleton', label: 'Project skeleton', status: 'pending', attempts: 0 }],
+        startedAt: now,
+        updatedAt: now
+    };
+    await persist(state, proposal);
+    return runGeneration(llm, state, proposal, hooks);
+}
+
+/**
+ * Re-runs the given steps, or every failed step when none are given.
+ * Retrying the skeleton regenerates all sections, since they depend on it.
+ */
+export async function retryGeneration(llm: LLMProvider, state: GenerationState, stepIds?: string[], hooks: GenerationHooks = {}) {
+    const proposal = await KV.get(state.proposalId);
+    if (!proposal) throw new Error(`Proposal ${state.proposalId} not found`);
+    proposal.dynamic_sections = proposal.dynamic_sections || proposal.dynamicSections || {};
+
+    for (const step of state.steps) {
+        // Steps left 'running' belong to an invocation that died mid-way
+        const stale = step.status === 'failed' || step.status === 'running';
+        if (stepIds ? stepIds.includes(step.id) : stale) step.status = 'pending';
+    }
+    return runGeneration(llm, state, proposal, hooks);
+}
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { FakeProvider } from '../_shared/llm/index.ts';
+import { defaultFixtures } from '../_shared/llm/fixtures.ts';
+import { installFakeSupabase } from '../_shared/fake_supabase.ts';
+import { retryGeneration, startGeneration, type GenerationInput } from './generation_orchestrator.ts';
+
+const input: GenerationInput = {
+    idea: { title: 'GreenSkills Lab', description: 'An open green-skills curriculum for vocational trainers.' },
+    summary: 'Call for cooperation partnerships in vocational education and training.',
+    constraints: { partners: '2 partners', budget: '250000', duration: '24 months' },
+    partners: [],
+    fundingScheme: {
+        id: 'scheme-1',
+        name: 'Test scheme',
+        template_json: {
+            sections: [
+                { key: 'relevance', label: 'Relevance', mandatory: true, order: 1 },
+                { key: 'impact', label: 'Impact', mandatory: true, order: 2 },
+            ],
+        },
+    },
+};
+
+Deno.test('startGeneration writes every section and work package from the fake provider', async () => {
+    const db = installFakeSupabase();
+    try {
+        const events: string[] = [];
+        const { proposal, state } = await startGeneration(new FakeProvider(), input, { onEvent: (type) => { events.push(type); } });
+
+        assert.equal(state.status, 'completed');
+        assert.ok(state.steps.every(step => step.status === 'done'));
+        assert.equal(proposal.title, 'GreenSkills Lab');
+        for (const key of ['relevance', 'impact', 'project_description', 'needs_analysis', 'work_packages_overview', 'work_package_1', 'work_package_2']) {
+            assert.ok(proposal.dynamic_sections[key], `missing section ${key}`);
+        }
+        assert.equal(proposal.workPackages.length, 2);
+        assert.ok(proposal.workPackages.every((wp: any) => wp.activities.length > 0));
+        assert.equal(proposal.budget.reduce((sum: number, item: any) => sum + item.cost, 0), 250000);
+        assert.deepEqual([events[0], events[events.length - 1]], ['step_started', 'saved']);
+
+        const stored = db.table('kv_store_3cb71dae').find(row => row.key === proposal.id);
+        assert.equal(stored?.value.title, 'GreenSkills Lab');
+        assert.deepEqual(db.table('proposal_versions').map(v => v.source), ['generation']);
+    } finally {
+        db.restore();
+    }
+});
+
+Deno.test('startGeneration assigns cost lines to partners and categories for actual-cost schemes', async () => {
+    const db = installFakeSupabase();
+    try {
+        const { proposal } = await startGeneration(new FakeProvider(), {
+            ...input,
+            partners: [{ name: 'Green Institute', isCoordinator: true }, { name: 'Skills Academy' }] as any,
+            fundingScheme: { ...input.fundingScheme, template_json: { ...input.fundingScheme.template_json, budget: { model: 'actual-cost' } } },
+        });
+
+        assert.equal(proposal.budgetModel, 'actual-cost');
+        assert.ok(proposal.budget.every((line: any) => line.partner && line.category));
+        assert.equal(proposal.budget.find((line: any) => line.item === 'Personnel').category, 'personnel');
+        assert.equal(proposal.budget.reduce((sum: number, line: any) => sum + line.cost, 0), 250000);
+    } finally {
+        db.restore();
+    }
+});
+
+Deno.test('retryGeneration re-runs only the failed steps', async () => {
+    const db = installFakeSupabase();
+    try {
+        // The impact section comes back empty, and so does every repair of it
+        const failing = new FakeProvider({
+            fixtures: [{ match: 'SECTION TO WRITE: Impact', response: { content: '' } }, ...defaultFixtures],
+        });
+        const first = await startGeneration(failing, input);
+        assert.equal(first.state.status, 'partial');
+        assert.deepEqual(first.state.steps.filter(s => s.status === 'failed').map(s => s.id), ['section:impact']);
+
+        const llm = new FakeProvider();
+        const { proposal, state } = await retryGeneration(llm, first.state);
+
+        assert.equal(state.status, 'completed');
+        assert.ok(proposal.dynamic_sections.impact);
+        assert.equal(proposal.dynamic_sections.relevance, first.proposal.dynamic_sections.relevance);
+        assert.ok(llm.calls.every(call => call.prompt.includes('SECTION TO WRITE: Impact')));
+    } finally {
+        db.restore();
+    }
+});
@@ -0,0 +1,56 @@
+// Shared HTTP helpers and middleware for the server edge function
+
+export const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+};
+
+export type FetchHandler = (req: Request) => Promise<Response>;
+
+export const json = (body: unknown, status = 200, headers: Record<string, string> = {}) => {
+    return new Response(
+        JSON.stringify(body),
+        { status, headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers } }
+    );
+};
+
+// Answers preflight requests and makes sure every response carries the CORS headers
+export const withCors = (handler: FetchHandler): FetchHandler => async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+
+    const response = await handler(req);
+    for (const [key, value] of Object.entries(corsHeaders)) {
+        if (!response.headers.has(key)) response.headers.set(key, value);
+    }
+    return response;
+};
+
+export const errorResponse = (error: any) => {
+    console.error('Server error:', error);
+    console.error('Error stack:', error?.stack);
+    console.error('Error details:', JSON.stringify(error, null, 2));
+
+    // Special handling for API quota errors
+    if (error?.message && error.message.includes('429')) {
+        return json({ error: '⏰ API Quota Limit Reached. Please try again later or use your own API key.' }, 429);
+    }
+
+    return json({
+        error: error?.message || 'Internal server error',
+        details: error?.toString(),
+        stack: error?.stack,
+        phase: 'Global Catch'
+    }, 500);
+};
+
+// Turns anything a handler throws into the standard JSON error response
+export const withErrorHandling = (handler: FetchHandler): FetchHandler => async (req) => {
+    try {
+        return await handler(req);
+    } catch (error: any) {
+        return errorResponse(error);
+    }
+};
@@ -0,0 +1,67 @@
+// Handlers for each background job type (see ./jobs.ts)
+
+import { getLLM, getSupabaseClient } from './clients.ts';
+import { getGenerationState, retryGeneration, startGeneration, type GenerationHooks } from './generation_orchestrator.ts';
+import { loadGenerationInput } from './generation_input.ts';
+import { importPartnerFromPdf } from './partner_import.ts';
+import { indexKnowledgeFile } from '../_shared/knowledge_indexer.ts';
+import { parseFundingTemplate } from '../_shared/template_parser.ts';
+import type { JobHandler, JobType } from './jobs.ts';
+
+// payload: GenerationRequest (same body as POST /generate-proposal), or { retry: { proposalId, stepIds? } }
+// from POST /proposals/:id/generation/retry
+const generateProposal: JobHandler = async ({ job, payload, progress, throwIfCancelled, emit }) => {
+    const llm = getLLM();
+    const hooks: GenerationHooks = {
+        beforeStep: throwIfCancelled,
+        onEvent: emit,
+        onProgress: state => {
+            const finished = state.steps.filter(s => s.status === 'done' || s.status === 'failed').length;
+            const running = state.steps.filter(s => s.status === 'running').map(s => s.label);
+            // The skeleton alone is one step, so keep room for the sections that follow it
+            const percent = state.steps.length === 1 ? 5 : 5 + (finished / state.steps.length) * 90;
+            return progress(percent, running.length ? `Writing: ${running.join(', ')}` : 'Finishing', { proposalId: state.proposalId });
+        },
+    };
+
+    // A re-claimed or retried job continues its generation instead of starting over
+    const resumeId = job.result?.proposalId || payload.retry?.proposalId;
+    const previous = resumeId ? await getGenerationState(resumeId) : null;
+    if (resumeId && !previous) throw new Error(`No generation found for proposal ${resumeId}`);
+    // Requested steps are reset once; a re-claimed job picks up whatever is still failed or pending
+    const stepIds = job.result?.proposalId ? undefined : payload.retry?.stepIds;
+    const { proposal, state } = previous
+        ? await retryGeneration(llm, previous, stepIds, hooks)
+        : await startGeneration(llm, await loadGenerationInput(payload, emit), hooks);
+
+    return { proposalId: proposal.id, status: state.status, proposal };
+};
+
+// payload: { filePath, fileName } - PDF already uploaded to partner-assets
+const importPartnerPdf: JobHandler = async ({ payload, progress }) => {
+    await progress(10, 'Reading PDF');
+    const { data, error } = await getSupabaseClient().storage.from('partner-assets').download(payload.filePath);
+    if (error) throw new Error(`Failed to download ${payload.filePath}: ${error.message}`);
+
+    await progress(30, 'Extracting partner details');
+    return importPartnerFromPdf({ data: new Uint8Array(await data.arrayBuffer()), name: payload.fileName }, payload.filePath);
+};
+
+// payload: { fileUrl, sourceName } - file in the global-library bucket
+const indexKnowledge: JobHandler = async ({ payload, progress }) => {
+    await progress(10, `Analyzing ${payload.sourceName}`);
+    return indexKnowledgeFile(getSupabaseClient(), payload.fileUrl, payload.sourceName);
+};
+
+// payload: { fileUrl } - file in the funding-templates bucket
+const parseTemplate: JobHandler = async ({ payload, progress }) => {
+    await progress(10, 'Analyzing document structure');
+    return { template: await parseFundingTemplate(getSupabaseClient(), payload.fileUrl) };
+};
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+    'generate-proposal': generateProposal,
+    'import-partner-pdf': importPartnerPdf,
+    'index-knowledge': indexKnowledge,
+    'parse-funding-template': parseTemplate,
+};
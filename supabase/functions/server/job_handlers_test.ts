@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { FakeProvider } from '../_shared/llm/index.ts';
+import { defaultFixtures } from '../_shared/llm/fixtures.ts';
+import { installFakeSupabase } from '../_shared/fake_supabase.ts';
+import { startGeneration } from './generation_orchestrator.ts';
+import { jobHandlers } from './job_handlers.ts';
+import { isJobType, type JobContext } from './jobs.ts';
+
+const input = {
+    idea: { title: 'GreenSkills Lab', description: 'An open green-skills curriculum for vocational trainers.' },
+    summary: 'Call for cooperation partnerships in vocational education and training.',
+    constraints: { partners: '2 partners', budget: '250000', duration: '24 months' },
+    partners: [],
+};
+
+const context = (job: any, payload: any, events: string[]): JobContext => ({
+    job,
+    payload,
+    progress: async () => {},
+    throwIfCancelled: async () => {},
+    emit: async (type) => { events.push(type); },
+});
+
+Deno.test('a generate-proposal retry job resumes the failed steps of an earlier generation', async () => {
+    Deno.env.set('LLM_PROVIDER', 'fake');
+    const db = installFakeSupabase();
+    try {
+        const failing = new FakeProvider({
+            fixtures: [{ match: 'SECTION TO WRITE: Impact', response: { content: '' } }, ...defaultFixtures],
+        });
+        const first = await startGeneration(failing, input);
+        assert.equal(first.state.status, 'partial');
+
+        const events: string[] = [];
+        const result = await jobHandlers['generate-proposal'](context({ id: 'job-1', result: null }, { retry: { proposalId: first.proposal.id } }, events));
+
+        assert.equal(result.proposalId, first.proposal.id);
+        assert.equal(result.status, 'completed');
+        assert.ok(result.proposal.dynamic_sections.impact);
+        assert.deepEqual(events.filter(type => type === 'section_generated').length, 1);
+    } finally {
+        db.restore();
+        Deno.env.delete('LLM_PROVIDER');
+    }
+});
+
+Deno.test('a retry job for a proposal without a generation fails', async () => {
+    const db = installFakeSupabase();
+    try {
+        await assert.rejects(
+            jobHandlers['generate-proposal'](context({ id: 'job-2', result: null }, { retry: { proposalId: 'proposal-missing' } }, [])),
+            /No generation found for proposal proposal-missing/,
+        );
+    } finally {
+        db.restore();
+    }
+});
+
+Deno.test('isJobType accepts handler names only, not inherited object keys', () => {
+    assert.equal(isJobType('generate-proposal'), true);
+    for (const type of ['toString', 'constructor', 'hasOwnProperty', '__proto__']) {
+        assert.equal(isJobType(type), false, type);
+    }
+});
@@ -0,0 +1,210 @@
+// Background jobs for long-running AI operations.
+//
+// Jobs live in the `jobs` table. A worker claims the oldest queued job with claim_next_job()
+// (FOR UPDATE SKIP LOCKED) and runs the handler registered for its type in ./job_handlers.ts.
+// The worker is started in the background after a job is queued and whenever a queued job is
+// polled; POST /jobs/worker runs it in the foreground (e.g. from a cron schedule).
+// Handlers can also append events to `job_events`, which GET /jobs/:id/events streams as SSE.
+
+import { getSupabaseClient } from './clients.ts';
+import { jobHandlers } from './job_handlers.ts';
+
+export type JobType = 'generate-proposal' | 'import-partner-pdf' | 'index-knowledge' | 'parse-funding-template';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobContext {
+    job: any;
+    payload: any;
+    // Also refreshes updated_at, which tells claim_next_job() the worker is still alive
+    progress: (percent: number, message?: string, result?: any) => Promise<void>;
+    throwIfCancelled: () => Promise<void>;
+    // Appends to job_events; a failed insert only costs the stream an event, never the job
+    emit: (type: string, data?: Record<string, any>) => Promise<void>;
+}
+
+export type JobHandler = (ctx: JobContext) => Promise<any>;
+
+export class JobCancelledError extends Error {
+    constructor() {
+        super('Job was cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+// Same window as claim_next_job(): a running job without progress for this long lost its worker
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+const FINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+let workerRunning = false;
+
+// Own keys only: "toString" or "constructor" would otherwise pass and run an Object.prototype method
+export const isJobType = (type: string): type is JobType => Object.hasOwn(jobHandlers, type);
+
+export const fromDbJob = (j: any) => ({
+    id: j.id,
+    type: j.type,
+    status: j.status,
+    payload: j.payload,
+    result: j.result,
+    error: j.error,
+    progress: j.progress,
+    progressMessage: j.progress_message,
+    attempts: j.attempts,
+    maxAttempts: j.max_attempts,
+    cancelRequested: j.cancel_requested,
+    createdAt: j.created_at,
+    updatedAt: j.updated_at,
+    startedAt: j.started_at,
+    finishedAt: j.finished_at,
+});
+
+const updateJob = async (id: string, updates: Record<string, any>) => {
+    const { data, error } = await getSupabaseClient()
+        .from('jobs')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+    if (error) throw new Error(`Failed to update job ${id}: ${error.message}`);
+    return data;
+};
+
+const runJob = async (job: any) => {
+    const handler = isJobType(job.type) ? jobHandlers[job.type as JobType] : undefined;
+    console.log(`⚙️ [JOBS] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+    const ctx: JobContext = {
+        job,
+        payload: job.payload,
+        progress: async (percent, message, result) => {
+            const updates: Record<string, any> = { progress: Math.max(0, Math.min(100, Math.round(percent))) };
+            if (message !== undefined) updates.progress_message = message;
+            if (result !== undefined) updates.result = { ...(job.result || {}), ...result };
+            job.result = updates.result ?? job.result;
+            await updateJob(job.id, updates);
+        },
+        throwIfCancelled: async () => {
+            const { data } = await getSupabaseClient().from('jobs').select('cancel_requested').eq('id', job.id).single();
+            if (data?.cancel_requested) throw new JobCancelledError();
+        },
+        emit: async (type, data = {}) => {
+            const { error } = await getSupabaseClient().from('job_events').insert({ job_id: job.id, type, data });
+            if (error) console.warn(`⚠️ [JOBS] Failed to record ${type} event for job ${job.id}:`, error.message);
+        },
+    };
+
+    try {
+        if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+        const result = await handler(ctx);
+        await updateJob(job.id, {
+            status: 'completed',
+            progress: 100,
+            result: result ?? null,
+            finished_at: new Date().toISOString(),
+        });
+        console.log(`✅ [JOBS] ${job.type} job ${job.id} completed`);
+    } catch (e: any) {
+        const cancelled = e instanceof JobCancelledError;
+        console.error(`❌ [JOBS] ${job.type} job ${job.id} ${cancelled ? 'cancelled' : 'failed'}:`, e.message);
+        await updateJob(job.id, {
+            status: cancelled ? 'cancelled' : 'failed',
+            error: cancelled ? null : e.message,
+            finished_at: new Date().toISOString(),
+        });
+    }
+};
+
+/** Processes queued jobs one at a time until the queue is empty or `maxJobs` have run. */
+export async function runWorker(maxJobs = 5): Promise<number> {
+    if (workerRunning) return 0;
+    workerRunning = true;
+
+    let processed = 0;
+    try {
+        const supabase = getSupabaseClient();
+        while (processed < maxJobs) {
+            const { data, error } = await supabase.rpc('claim_next_job');
+            if (error) throw new Error(`Failed to claim job: ${error.message}`);
+            const job = Array.isArray(data) ? data[0] : data;
+            if (!job) break;
+
+            await runJob(job);
+            processed++;
+        }
+    } finally {
+        workerRunning = false;
+    }
+    return processed;
+}
+
+// Keeps the worker alive after the response is sent (Supabase Edge Runtime), or just lets it run
+export const kickWorker = () => {
+    const task = runWorker().catch(e => console.error('❌ [JOBS] Worker error:', e));
+    (globalThis as any).EdgeRuntime?.waitUntil(task);
+};
+
+export async function enqueueJob(type: JobType, payload: any) {
+    const { data, error } = await getSupabaseClient()
+        .from('jobs')
+        .insert({ type, payload })
+        .select()
+        .single();
+    if (error) throw new Error(`Failed to queue ${type} job: ${error.message}`);
+
+    console.log(`📥 [JOBS] Queued ${type} job ${data.id}`);
+    kickWorker();
+    return data;
+}
+
+export async function getJob(id: string) {
+    const { data: job } = await getSupabaseClient().from('jobs').select('*').eq('id', id).maybeSingle();
+    if (!job) return null;
+
+    const stale = job.status === 'running' && Date.now() - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+    if (stale && job.attempts >= job.max_attempts) {
+        return updateJob(id, {
+            status: 'failed',
+            error: 'The worker stopped responding and no attempts are left',
+            finished_at: new Date().toISOString(),
+        });
+    }
+    if (job.status === 'queued' || stale) kickWorker();
+    return job;
+}
+
+export async function listJobEvents(jobId: string, afterId = 0) {
+    const { data, error } = await getSupabaseClient()
+        .from('job_events')
+        .select('id, type, data, created_at')
+        .eq('job_id', jobId)
+        .gt('id', afterId)
+        .order('id');
+    if (error) throw new Error(`Failed to load events for job ${jobId}: ${error.message}`);
+    return data || [];
+}
+
+export async function cancelJob(job: any) {
+    if (job.status === 'queued') {
+        return updateJob(job.id, { status: 'cancelled', cancel_requested: true, finished_at: new Date().toISOString() });
+    }
+    // The running handler notices the flag before its next step
+    return updateJob(job.id, { cancel_requested: true });
+}
+
+export async function retryJob(job: any) {
+    const updated = await updateJob(job.id, {
+        status: 'queued',
+        attempts: 0,
+        error: null,
+        progress: 0,
+        progress_message: null,
+        cancel_requested: false,
+        started_at: null,
+        finished_at: null,
+    });
+    kickWorker();
+    return updated;
+}
+
+export const isFinal = (status: JobStatus) => FINAL_STATUSES.includes(status);
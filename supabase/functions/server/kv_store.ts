@@ -1,7 +1,7 @@
 // KV Store module for database operations
 // Uses Supabase PostgreSQL with key-value pattern
 
-import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createClient } from 'npm:@supabase/supabase-js@2';
 
 const getSupabaseClient = () => {
   const url = Deno.env.get('SUPABASE_URL') || '';
@@ -0,0 +1,200 @@
+// Partner creation from a PIF (Partner Information Form) PDF, shared by POST /import-partner-pdf
+// and the import-partner-pdf background job
+
+import { ensureBucket, getLLM, getSupabaseClient } from './clients.ts';
+import { toDbPartner } from './partner_mapping.ts';
+import * as KV from './kv_store.ts';
+
+const PARTNER_PDF_PROMPT = `Extract all possible partner organization information from the attached PDF file (PIF - Partner Information Form).
+            
+            Be thorough. Extract:
+            - Legal Name and Acronym
+            - OID / PIC / Organisation ID
+            - VAT Number and Business Registration ID
+            - Organisation ID (OID or PIC number)
+            - VAT Number (VAT)
+            - Business Registration ID (National ID)
+            - Organization Type. CRITICAL: You MUST map the organization type to EXACTLY ONE of the following permitted values (case-sensitive):
+              * Accreditation, certification or qualification body
+              * Counselling body
+              * European grouping of territorial cooperation
+              * European or international public body
+              * Foundation
+              * Higher education institution (tertiary level)
+              * Large enterprise
+              * Local Public body
+              * National Public body
+              * National Youth Council
+              * Non-governmental organisation/association
+              * Organisation or association representing (parts of) the sport sector
+              * Public service provider
+              * Regional Public body
+              * Research Institute/Centre
+              * School/Institute/Educational centre – Adult education
+              * School/Institute/Educational centre – General education (pre-primary level)
+              * School/Institute/Educational centre – General education (primary level)
+              * School/Institute/Educational centre – General education (secondary level)
+              * School/Institute/Educational centre – Vocational Training (secondary level)
+              * School/Institute/Educational centre – Vocational Training (tertiary level)
+              * Small and medium sized enterprise
+              * Social enterprise
+              * Social partner or other representative of working life (chambers of commerce, trade union, trade association)
+              * Sport club
+              * Sport federation
+              * Sport league
+              * Youth organisation
+              - Name and Acronym
+            - Full Legal Name (National Language)
+            - Organisation ID (OID) and PIC (often format E12345678 and 9-digit number)
+            - National ID (Business ID) or Registration Number
+            - VAT Number
+            - Organisation Type (PICK ONE from this list only):
+              * Accreditation, certification or qualification body
+              * Counselling body
+              * European grouping of territorial cooperation
+              * European or international public body
+              * Foundation
+              * Higher education institution (tertiary level)
+              * Large enterprise
+              * Local Public body
+              * National Public body
+              * National Youth Council
+              * Non-governmental organisation/association
+              * Organisation or association representing (parts of) the sport sector
+              * Public service provider
+              * Regional Public body
+              * Research Institute/Centre
+              * School/Institute/Educational centre – Adult education
+              * School/Institute/Educational centre – General education (pre-primary level)
+              * School/Institute/Educational centre – General education (primary level)
+              * School/Institute/Educational centre – General education (secondary level)
+              * School/Institute/Educational centre – Vocational Training (secondary level)
+              * School/Institute/Educational centre – Vocational Training (tertiary level)
+              * Small and medium sized enterprise
+              * Social enterprise
+              * Social partner or other representative of working life (chambers of commerce, trade union, trade association)
+              * Sport club
+              * Sport federation
+              * Sport league
+              * Youth organisation
+              If the value is not found or not clear, pick the most logically similar one from this list. Do not use any other values.
+            - Public Body (boolean) and Non-profit (boolean) status
+            - Legal Address (Street), City, Postcode, Country, Region
+            - Department or Unit name
+            - Website and Main Contact Email
+            - Brief Description (summary of organization)
+            - Expertise, Experience, staff skills, and previous relevant projects
+            - Legal Representative Person (Name, Position, Email, Phone)
+            - Contact Person details (Name, Position, Email, Phone, Role)
+
+            Return ONLY a valid JSON object. 
+            CRITICAL: For fields where data is not found in the PDF, return an empty string "" instead of null or omitting the field.
+            
+            {
+              "name": "full legal name (latin characters)",
+              "legalNameNational": "full legal name (national language)",
+              "acronym": "acronym (string or empty)",
+              "organisationId": "OID (e.g. E10176763)",
+              "pic": "PIC (e.g. 940898255)",
+              "vatNumber": "VAT (string or empty)",
+              "businessId": "National ID / Registration ID",
+              "organizationType": "Pick exactly from list provided",
+              "isPublicBody": true/false,
+              "isNonProfit": true/false,
+              "legalAddress": "street address",
+              "city": "city",
+              "postcode": "postcode",
+              "country": "country",
+              "region": "region",
+              "website": "Main Website URL",
+              "contactEmail": "general email",
+              "department": "department name",
+              "description": "summary text",
+              "experience": "detailed experience",
+              "staffSkills": "personnel skills",
+              "relevantProjects": "list of projects",
+              "keywords": ["kw1", "kw2"],
+              "legalRepName": "Legal Rep Name",
+              "legalRepPosition": "Legal Rep Position",
+              "legalRepEmail": "Legal Rep Email",
+              "legalRepPhone": "Legal Rep Phone",
+              "contactPersonName": "Contact Person Name",
+              "contactPersonPosition": "Contact Person Position",
+              "contactPersonEmail": "Contact Person Email",
+              "contactPersonPhone": "Contact Person Phone",
+              "contactPersonRole": "Contact Person Role"
+            }`;
+
+export interface PartnerPdf {
+    data: Uint8Array;
+    name: string;
+    contentType?: string;
+}
+
+/**
+ * Extracts the partner with the LLM, stores the PDF in partner-assets and saves the partner.
+ * `storedPath` skips the upload when the PDF is already in partner-assets.
+ */
+export async function importPartnerFromPdf(pdf: PartnerPdf, storedPath?: string) {
+    // The provider decides whether the PDF is inlined or sent through a file upload API
+    let extractedData;
+    try {
+        extractedData = await getLLM().generateJSON(PARTNER_PDF_PROMPT, {
+            files: [{ mimeType: 'application/pdf', data: pdf.data, name: pdf.name }]
+        });
+    } catch (aiError: any) {
+        console.error('AI multimodal error:', aiError);
+        throw new Error(`AI processing failed: ${aiError.message}`);
+    }
+    console.log('Parsed partner:', extractedData.name);
+
+    // Create Partner
+    const id = `partner-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const newPartner = { ...extractedData, id, createdAt: new Date().toISOString() };
+
+    // Upload PDF
+    const supabase = getSupabaseClient();
+    let fileName = storedPath;
+    if (!fileName) {
+        await ensureBucket('partner-assets');
+        fileName = `${id}/profile-${Date.now()}.pdf`;
+        const { error: uploadError } = await supabase.storage
+            .from('partner-assets')
+            .upload(fileName, pdf.data, { contentType: pdf.contentType || 'application/pdf', upsert: true });
+        if (uploadError) fileName = undefined;
+    }
+
+    if (fileName) {
+        const { data: { publicUrl } } = supabase.storage
+            .from('partner-assets')
+            .getPublicUrl(fileName);
+        newPartner.pdfUrl = publicUrl;
+    }
+
+    // Map to snake_case for DB insert
+    const dbPartner = {
+        ...toDbPartner(newPartner),
+        is_public_body: newPartner.isPublicBody === true,
+        is_non_profit: newPartner.isNonProfit === true
+    };
+
+    const { data: savedData, error: saveError } = await supabase
+        .from('partners')
+        .insert(dbPartner)
+        .select()
+        .single();
+
+    if (saveError) {
+        console.error('Failed to save to DB, falling back to KV:', saveError);
+        await KV.set(`partner:${id}`, newPartner);
+    }
+
+    return {
+        partnerId: savedData?.id || id,
+        partner: savedData ? {
+            ...newPartner,
+            id: savedData.id,
+            createdAt: savedData.created_at
+        } : newPartner
+    };
+}
@@ -0,0 +1,77 @@
+// snake_case (partners table) <-> camelCase (Partner type) mapping
+
+export const fromDbPartner = (p: any) => ({
+    id: p.id,
+    name: p.name,
+    legalNameNational: p.legal_name_national,
+    acronym: p.acronym,
+    organisationId: p.organisation_id,
+    pic: p.pic,
+    vatNumber: p.vat_number,
+    businessId: p.business_id,
+    organizationType: p.organization_type,
+    isPublicBody: p.is_public_body,
+    isNonProfit: p.is_non_profit,
+    country: p.country,
+    legalAddress: p.legal_address,
+    city: p.city,
+    postcode: p.postcode,
+    region: p.region,
+    contactEmail: p.contact_email,
+    website: p.website,
+    description: p.description,
+    department: p.department,
+    keywords: p.keywords,
+    logoUrl: p.logo_url,
+    pdfUrl: p.pdf_url,
+    legalRepName: p.legal_rep_name,
+    legalRepPosition: p.legal_rep_position,
+    legalRepEmail: p.legal_rep_email,
+    legalRepPhone: p.legal_rep_phone,
+    contactPersonName: p.contact_person_name,
+    contactPersonPosition: p.contact_person_position,
+    contactPersonEmail: p.contact_person_email,
+    contactPersonPhone: p.contact_person_phone,
+    contactPersonRole: p.contact_person_role,
+    experience: p.experience,
+    staffSkills: p.staff_skills,
+    relevantProjects: p.relevant_projects,
+    createdAt: p.created_at
+});
+
+export const toDbPartner = (body: any) => ({
+    name: body.name,
+    legal_name_national: body.legalNameNational,
+    acronym: body.acronym,
+    organisation_id: body.organisationId || body.pic, // Use either
+    pic: body.pic || body.organisationId,
+    vat_number: body.vatNumber,
+    business_id: body.businessId,
+    organization_type: body.organizationType,
+    is_public_body: body.isPublicBody,
+    is_non_profit: body.isNonProfit,
+    country: body.country,
+    legal_address: body.legalAddress,
+    city: body.city,
+    postcode: body.postcode,
+    region: body.region,
+    contact_email: body.contactEmail,
+    website: body.website,
+    description: body.description,
+    department: body.department,
+    keywords: Array.isArray(body.keywords) ? body.keywords : [],
+    logo_url: body.logoUrl || null,
+    pdf_url: body.pdfUrl || null,
+    legal_rep_name: body.legalRepName,
+    legal_rep_position: body.legalRepPosition,
+    legal_rep_email: body.legalRepEmail,
+    legal_rep_phone: body.legalRepPhone,
+    contact_person_name: body.contactPersonName,
+    contact_person_position: body.contactPersonPosition,
+    contact_person_email: body.contactPersonEmail,
+    contact_person_phone: body.contactPersonPhone,
+    contact_person_role: body.contactPersonRole,
+    experience: body.experience,
+    staff_skills: body.staffSkills,
+    relevant_projects: body.relevantProjects
+});
@@ -0,0 +1,396 @@
+// Paginated PDF rendering of the proposal document built by the client (utils/export-pdf.ts), laid out
+// like the DOCX export: title page, table of contents, running header and "Page X of Y" footer
+
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from 'npm:pdf-lib@1.17.1';
+import fontkit from 'npm:@pdf-lib/fontkit@1.1.1';
+
+// Mirrors types/pdf.ts
+export type PdfCell = string | { text: string; bold?: boolean; fill?: string; color?: string; align?: 'left' | 'center' | 'right' };
+
+export type PdfBlock =
+    | { type: 'heading'; text: string; level: number; toc?: boolean }
+    | { type: 'paragraph'; text: string; label?: string; bullet?: boolean; size?: number; bold?: boolean; italic?: boolean; color?: string }
+    | { type: 'table'; header: PdfCell[]; rows: PdfCell[][]; widths?: number[]; size?: number }
+    | { type: 'pageBreak' };
+
+export interface PdfDocumentModel {
+    title: string;
+    acronym: string;
+    scheme?: string;
+    coverDetails: { label: string; value: string }[];
+    logo?: string;
+    blocks: PdfBlock[];
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.2;
+const HEADING_SIZES: Record<number, number> = { 1: 16, 2: 14, 3: 12, 4: 11 };
+const TOC_LINE = 18;
+const TOC_ENTRIES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN - 40) / TOC_LINE);
+
+const COLOR_PRIMARY = '003399';
+const COLOR_TABLE_HEADER = 'F2F2F2';
+const COLOR_BORDER = 'BFBFBF';
+
+// Noto Sans (SIL OFL, fonts/OFL.txt) covers Latin, Greek and Cyrillic; the files ship with the function
+// as static files (supabase/config.toml) and are subset into each PDF
+const FONT_FILES = { regular: 'NotoSans-Regular.ttf', bold: 'NotoSans-Bold.ttf', italic: 'NotoSans-Italic.ttf' };
+
+// Symbols the exported tables use that Noto Sans has no glyph for
+const REPLACEMENTS: Record<string, string> = { '◆': '*', '└': '-', '≥': '>=', '≤': '<=', '→': '->', '\t': '    ' };
+
+const color = (hex = '000000') => {
+    const value = parseInt(hex.replace('#', ''), 16) || 0;
+    return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+interface Fonts {
+    regular: PDFFont;
+    bold: PDFFont;
+    italic: PDFFont;
+}
+
+interface Run {
+    text: string;
+    font: PDFFont;
+}
+
+interface TocEntry {
+    text: string;
+    level: number;
+    page: number;
+}
+
+class PdfWriter {
+    page!: PDFPage;
+    y = 0;
+    toc: TocEntry[] = [];
+    private encodable: Set<number>;
+
+    constructor(private doc: PDFDocument, private fonts: Fonts) {
+        this.encodable = new Set(fonts.regular.getCharacterSet());
+    }
+
+    // Replaces what the font cannot draw: accents are dropped (ő -> o), anything else becomes "?"
+    sanitize(text: string): string {
+        return Array.from(text.replace(/\r?\n/g, ' '))
+            .map(char => {
+                if (this.encodable.has(char.codePointAt(0)!)) return char;
+                if (REPLACEMENTS[char] !== undefined) return REPLACEMENTS[char];
+                const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+                return base && Array.from(base).every(c => this.encodable.has(c.codePointAt(0)!)) ? base : '?';
+            })
+            .join('');
+    }
+
+    newPage() {
+        this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        this.y = PAGE_HEIGHT - MARGIN;
+    }
+
+    ensureSpace(height: number) {
+        if (this.y - height < MARGIN) this.newPage();
+    }
+
+    // Greedy line breaking over runs of mixed fonts; words wider than the line are split by character
+    wrap(runs: Run[], size: number, width: number): Run[][] {
+        const lines: Run[][] = [];
+        let line: Run[] = [];
+        let lineWidth = 0;
+        const push = (text: string, font: PDFFont) => {
+            const last = line[line.length - 1];
+            if (last && last.font === font) last.text += text;
+            else line.push({ text, font });
+            lineWidth += font.widthOfTextAtSize(text, size);
+        };
+        const breakLine = () => {
+            if (line.length > 0) line[line.length - 1].text = line[line.length - 1].text.trimEnd();
+            lines.push(line);
+            line = [];
+            lineWidth = 0;
+        };
+
+        for (const run of runs) {
+            for (const word of this.sanitize(run.text).split(/(?<= )/)) {
+                if (!word) continue;
+                const wordWidth = run.font.widthOfTextAtSize(word.trimEnd(), size);
+                if (lineWidth > 0 && lineWidth + wordWidth > width) breakLine();
+                if (lineWidth === 0 && wordWidth > width) {
+                    for (const char of Array.from(word)) {
+                        if (lineWidth > 0 && lineWidth + run.font.widthOfTextAtSize(char, size) > width) breakLine();
+                        push(char, run.font);
+                    }
+                    continue;
+                }
+                push(lineWidth === 0 ? word.trimStart() : word, run.font);
+            }
+        }
+        if (line.length > 0 || lines.length === 0) breakLine();
+        return lines;
+    }
+
+    lineWidth(line: Run[], size: number) {
+        return line.reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0);
+    }
+
+    drawLine(line: Run[], x: number, y: number, size: number, textColor: string) {
+        for (const run of line) {
+            if (run.text) this.page.drawText(run.text, { x, y, size, font: run.font, color: color(textColor) });
+            x += run.font.widthOfTextAtSize(run.text, size);
+        }
+    }
+
+    heading(block: Extract<PdfBlock, { type: 'heading' }>) {
+        const size = HEADING_SIZES[block.level] || BODY_SIZE;
+        const lines = this.wrap([{ text: block.text, font: this.fonts.bold }], size, CONTENT_WIDTH);
+        const height = lines.length * size * LINE_HEIGHT;
+        // Keep the heading with at least three lines of the text below it
+        this.ensureSpace(size + height + 3 * BODY_SIZE * LINE_HEIGHT);
+        if (this.y < PAGE_HEIGHT - MARGIN) this.y -= size;
+        if (block.toc) this.toc.push({ text: block.text, level: block.level, page: this.doc.getPageCount() });
+        for (const line of lines) {
+            this.y -= size * LINE_HEIGHT;
+            this.drawLine(line, MARGIN, this.y, size, block.level <= 2 ? COLOR_PRIMARY : '000000');
+        }
+        this.y -= size * 0.5;
+    }
+
+    paragraph(block: Extract<PdfBlock, { type: 'paragraph' }>) {
+        const size = block.size || BODY_SIZE;
+        const indent = block.bullet ? 14 : 0;
+        const runs: Run[] = [
+            ...(block.label ? [{ text: block.label, font: this.fonts.bold }] : []),
+            { text: block.text, font: block.bold ? this.fonts.bold : block.italic ? this.fonts.italic : this.fonts.regular },
+        ];
+        const lines = this.wrap(runs, size, CONTENT_WIDTH - indent);
+        lines.forEach((line, i) => {
+            this.ensureSpace(size * LINE_HEIGHT);
+            this.y -= size * LINE_HEIGHT;
+            if (block.bullet && i === 0) this.page.drawText('•', { x: MARGIN + 2, y: this.y, size, font: this.fonts.regular, color: color(block.color) });
+            this.drawLine(line, MARGIN + indent, this.y, size, block.color || '000000');
+        });
+        this.y -= size * 0.5;
+    }
+
+    table(block: Extract<PdfBlock, { type: 'table' }>) {
+        const size = block.size || 10;
+        const padding = size >= 8 ? 4 : 1.5;
+        const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+        if (columns === 0) return;
+        const relative = block.widths?.length === columns ? block.widths : Array(columns).fill(1);
+        const scale = CONTENT_WIDTH / relative.reduce((sum, w) => sum + w, 0);
+        const widths = relative.map(w => w * scale);
+
+        const layout = (cells: PdfCell[], header: boolean) => {
+            const normalized = Array.from({ length: columns }, (_, i) => {
+                const cell = cells[i] ?? '';
+                return typeof cell === 'string'
+                    ? { text: cell, bold: header, fill: header ? COLOR_TABLE_HEADER : undefined }
+                    : { ...cell, bold: cell.bold ?? header, fill: cell.fill ?? (header ? COLOR_TABLE_HEADER : undefined) };
+            });
+            const lines = normalized.map((cell, i) =>
+                this.wrap([{ text: cell.text, font: cell.bold ? this.fonts.bold : this.fonts.regular }], size, widths[i] - 2 * padding));
+            const height = Math.max(...lines.map(l => l.length)) * size * LINE_HEIGHT + 2 * padding;
+            return { cells: normalized, lines, height };
+        };
+
+        const drawRow = (row: ReturnType<typeof layout>) => {
+            let x = MARGIN;
+            row.cells.forEach((cell, i) => {
+                this.page.drawRectangle({
+                    x, y: this.y - row.height, width: widths[i], height: row.height,
+                    color: cell.fill ? color(cell.fill) : undefined,
+                    borderColor: color(COLOR_BORDER),
+                    borderWidth: 0.5,
+                });
+                row.lines[i].forEach((line, j) => {
+                    const free = widths[i] - 2 * padding - this.lineWidth(line, size);
+                    const offset = cell.align === 'right' ? free : cell.align === 'center' ? free / 2 : 0;
+                    const baseline = this.y - padding - (j + 1) * size * LINE_HEIGHT + size * (LINE_HEIGHT - 1);
+                    this.drawLine(line, x + padding + Math.max(0, offset), baseline, size, cell.color || '000000');
+                });
+                x += widths[i];
+            });
+            this.y -= row.height;
+        };
+
+        const header = block.header.length > 0 ? layout(block.header, true) : null;
+        const rows = block.rows.map(row => layout(row, false));
+        const lineHeight = size * LINE_HEIGHT;
+        // The first `count` lines of every cell, and the rest
+        const splitRow = (row: ReturnType<typeof layout>, count: number) => {
+            const part = (lines: Run[][][]) => ({
+                cells: row.cells,
+                lines,
+                height: Math.max(...lines.map(l => l.length)) * lineHeight + 2 * padding,
+            });
+            return [part(row.lines.map(l => l.slice(0, count))), part(row.lines.map(l => l.slice(count)))];
+        };
+        const continuePage = () => {
+            this.newPage();
+            if (header) drawRow(header);
+        };
+
+        const pageRoom = PAGE_HEIGHT - 2 * MARGIN - (header?.height || 0);
+        this.ensureSpace((header?.height || 0) + Math.min(rows[0]?.height || 0, 2 * padding + 3 * lineHeight));
+        if (header) drawRow(header);
+        for (let row of rows) {
+            // Continue on a new page, repeating the header row. A row taller than a whole page fills
+            // the rest of this one (at least three lines) and carries on below the header of the next.
+            while (this.y - row.height < MARGIN) {
+                const fits = Math.floor((this.y - MARGIN - 2 * padding) / lineHeight);
+                const freshPage = this.y >= PAGE_HEIGHT - MARGIN - (header?.height || 0);
+                if (!freshPage && (row.height <= pageRoom || fits < 3)) {
+                    continuePage();
+                    continue;
+                }
+                const [head, rest] = splitRow(row, Math.max(1, fits));
+                drawRow(head);
+                continuePage();
+                row = rest;
+            }
+            drawRow(row);
+        }
+        this.y -= size;
+    }
+
+    async titlePage(model: PdfDocumentModel) {
+        this.newPage();
+        if (model.logo) {
+            try {
+                const [meta, data] = model.logo.split(',');
+                const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+                const image = meta.includes('png') ? await this.doc.embedPng(bytes) : await this.doc.embedJpg(bytes);
+                const scaled = image.scaleToFit(160, 80);
+                this.page.drawImage(image, { x: (PAGE_WIDTH - scaled.width) / 2, y: this.y - scaled.height, ...scaled });
+                this.y -= scaled.height + 40;
+            } catch (error) {
+                console.warn('Could not embed the scheme logo:', error);
+            }
+        }
+
+        // Shaded title box, as on the DOCX title page
+        const titleLines = this.wrap([{ text: model.title, font: this.fonts.bold }], 24, CONTENT_WIDTH - 40);
+        const boxHeight = 40 + 14 * LINE_HEIGHT + titleLines.length * 24 * LINE_HEIGHT + 30 + BODY_SIZE * LINE_HEIGHT;
+        this.y = Math.min(this.y, PAGE_HEIGHT * 0.65);
+        this.page.drawRectangle({
+            x: MARGIN, y: this.y - boxHeight, width: CONTENT_WIDTH, height: boxHeight,
+            color: color('F9F9F9'), borderColor: color('CCCCCC'), borderWidth: 0.5,
+        });
+        const centered = (line: Run[], size: number, textColor: string) => {
+            this.y -= size * LINE_HEIGHT;
+            this.drawLine(line, (PAGE_WIDTH - this.lineWidth(line, size)) / 2, this.y, size, textColor);
+        };
+        this.y -= 20;
+        centered([{ text: 'PROJECT PROPOSAL', font: this.fonts.bold }], 14, COLOR_PRIMARY);
+        this.y -= 10;
+        titleLines.forEach(line => centered(line, 24, '000000'));
+        this.y -= 20;
+        const call = model.scheme ? `Call for Proposal: ${model.scheme}` : 'H2020 / Horizon Europe Style';
+        centered(this.wrap([{ text: call, font: this.fonts.italic }], BODY_SIZE, CONTENT_WIDTH - 40)[0], BODY_SIZE, '666666');
+        this.y -= 50;
+
+        for (const detail of model.coverDetails) {
+            const line = this.wrap([{ text: `${detail.label}: `, font: this.fonts.bold }, { text: detail.value, font: this.fonts.regular }], BODY_SIZE, CONTENT_WIDTH)[0];
+            centered(line, BODY_SIZE, '333333');
+            this.y -= 4;
+        }
+    }
+
+    tocPages(count: number, firstPage: number) {
+        for (let i = 0; i < count; i++) {
+            this.page = this.doc.insertPage(firstPage + i, [PAGE_WIDTH, PAGE_HEIGHT]);
+            this.y = PAGE_HEIGHT - MARGIN;
+            if (i === 0) {
+                this.y -= HEADING_SIZES[1] * LINE_HEIGHT;
+                this.page.drawText('Table of Contents', { x: MARGIN, y: this.y, size: HEADING_SIZES[1], font: this.fonts.bold, color: color(COLOR_PRIMARY) });
+                this.y -= 40 - HEADING_SIZES[1] * LINE_HEIGHT;
+            }
+            for (const entry of this.toc.slice(i * TOC_ENTRIES_PER_PAGE, (i + 1) * TOC_ENTRIES_PER_PAGE)) {
+                this.y -= TOC_LINE;
+                const font = entry.level <= 2 ? this.fonts.bold : this.fonts.regular;
+                const x = MARGIN + Math.max(0, entry.level - 2) * 14;
+                const number = String(entry.page);
+                const numberWidth = font.widthOfTextAtSize(number, BODY_SIZE);
+                let text = this.sanitize(entry.text);
+                const available = MARGIN + CONTENT_WIDTH - numberWidth - 20 - x;
+                while (text.length > 1 && font.widthOfTextAtSize(text, BODY_SIZE) > available) text = `${text.slice(0, -2).trimEnd()}…`;
+                this.page.drawText(text, { x, y: this.y, size: BODY_SIZE, font });
+
+                const textEnd = x + font.widthOfTextAtSize(text, BODY_SIZE) + 4;
+                const dot = this.fonts.regular.widthOfTextAtSize('.', BODY_SIZE);
+                const dots = Math.max(0, Math.floor((MARGIN + CONTENT_WIDTH - numberWidth - 4 - textEnd) / dot));
+                this.page.drawText('.'.repeat(dots), { x: textEnd, y: this.y, size: BODY_SIZE, font: this.fonts.regular, color: color('999999') });
+                this.page.drawText(number, { x: MARGIN + CONTENT_WIDTH - numberWidth, y: this.y, size: BODY_SIZE, font });
+            }
+        }
+    }
+
+    // Running header and footer on every page but the title page
+    decorate(acronym: string) {
+        const pages = this.doc.getPages();
+        const header = this.sanitize(`PROPOSAL: ${acronym}`);
+        pages.forEach((page, i) => {
+            if (i === 0) return;
+            page.drawText(header, { x: MARGIN, y: PAGE_HEIGHT - 45, size: 8, font: this.fonts.bold, color: color('666666') });
+            page.drawLine({ start: { x: MARGIN, y: PAGE_HEIGHT - 50 }, end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - 50 }, thickness: 0.5, color: color('CCCCCC') });
+            page.drawText('Generated by EU Proposal Tool', { x: MARGIN, y: 40, size: 8, font: this.fonts.regular, color: color('999999') });
+            const pageLabel = `Page ${i + 1} of ${pages.length}`;
+            page.drawText(pageLabel, {
+                x: PAGE_WIDTH - MARGIN - this.fonts.regular.widthOfTextAtSize(pageLabel, 8),
+                y: 40, size: 8, font: this.fonts.regular, color: color('999999'),
+            });
+        });
+    }
+}
+
+let fontFiles: Promise<Record<keyof Fonts, Uint8Array>> | null = null;
+
+// Read once per instance; a failed read is retried on the next export
+const loadFontFiles = () => {
+    fontFiles ??= Promise.all(Object.entries(FONT_FILES).map(async ([style, file]) =>
+        [style, await Deno.readFile(new URL(`./fonts/${file}`, import.meta.url))] as const))
+        .then(entries => Object.fromEntries(entries) as Record<keyof Fonts, Uint8Array>)
+        .catch(error => {
+            fontFiles = null;
+            throw error;
+        });
+    return fontFiles;
+};
+
+export async function renderProposalPdf(model: PdfDocumentModel): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    doc.setTitle(model.title);
+    doc.setSubject(model.scheme || 'EU project proposal');
+    doc.setCreator('EU Proposal Tool');
+
+    doc.registerFontkit(fontkit);
+    const files = await loadFontFiles();
+    const fonts: Fonts = {
+        regular: await doc.embedFont(files.regular, { subset: true }),
+        bold: await doc.embedFont(files.bold, { subset: true }),
+        italic: await doc.embedFont(files.italic, { subset: true }),
+    };
+    const writer = new PdfWriter(doc, fonts);
+    await writer.titlePage(model);
+
+    writer.newPage();
+    for (const block of model.blocks || []) {
+        if (block.type === 'heading') writer.heading(block);
+        else if (block.type === 'paragraph') writer.paragraph(block);
+        else if (block.type === 'table') writer.table(block);
+        else if (block.type === 'pageBreak') writer.newPage();
+    }
+
+    // The contents go between the title page and the body, so the body's page numbers shift by its length
+    const tocCount = Math.ceil(writer.toc.length / TOC_ENTRIES_PER_PAGE);
+    writer.toc.forEach(entry => entry.page += tocCount);
+    writer.tocPages(tocCount, 1);
+    writer.decorate(model.acronym || model.title);
+
+    return await doc.save();
+}
@@ -1,6 +1,8 @@
 // Prompt Builder module for AI integration
 // Constructs prompts for Google Gemini API
 
+import { chooseLumpSum, getLumpSumRules } from './budget.ts';
+
 export const extractNumericBudget = (text: string): number | null => {
   if (!text) return null;
   let clean = text.replace(/&nbsp;/g, ' ').replace(/\s/g, '');
@@ -145,44 +147,38 @@ Return ONLY valid JSON, no other text.`;
   return basePrompt;
 }
 
-export function buildProposalPrompt(
-  idea: any,
-  summary: string,
-  constraints: any,
-  partners: any = [],
-  userPrompt?: string,
-  fundingScheme?: any
-): string {
-  // Helper to flatten sections and subsections
-  interface FlatSection {
-    key: string;
-    label: string;
-    description: string;
-    charLimit?: number;
-    aiPrompt?: string;
-  }
+export interface FlatSection {
+  key: string;
+  label: string;
+  description: string;
+  charLimit?: number;
+  aiPrompt?: string;
+}
 
-  const flattenSections = (sections: any[]): FlatSection[] => {
-    let result: FlatSection[] = [];
-    sections.forEach(s => {
-      const fallbackKey = (s.label || 'section').toLowerCase().replace(/\s+/g, '_').replace(/\W/g, '');
-      const validKey = s.key || fallbackKey;
-
-      result.push({
-        key: validKey,
-        label: s.label || 'Untitled Section',
-        description: s.description || '',
-        charLimit: s.charLimit,
-        aiPrompt: s.aiPrompt
-      });
-      if (s.subsections && s.subsections.length > 0) {
-        result = [...result, ...flattenSections(s.subsections)];
-      }
+// Helper to flatten sections and subsections
+const flattenSections = (sections: any[]): FlatSection[] => {
+  let result: FlatSection[] = [];
+  sections.forEach(s => {
+    const fallbackKey = (s.label || 'section').toLowerCase().replace(/\s+/g, '_').replace(/\W/g, '');
+    const validKey = s.key || fallbackKey;
+
+    result.push({
+      key: validKey,
+      label: s.label || 'Untitled Section',
+      description: s.description || '',
+      charLimit: s.charLimit,
+      aiPrompt: s.aiPrompt
     });
-    return result;
-  };
+    if (s.subsections && s.subsections.length > 0) {
+      result = [...result, ...flattenSections(s.subsections)];
+    }
+  });
+  return result;
+};
 
-  let allSections = fundingScheme?.template_json?.sections
+// Narrative sections the proposal must fill, in prompt order
+export function getProposalSections(fundingScheme?: any): FlatSection[] {
+  const allSections: FlatSection[] = fundingScheme?.template_json?.sections
     ? flattenSections(fundingScheme.template_json.sections)
     : [
       { key: 'project_summary', label: 'Project Summary', description: 'Overview of project.' },
@@ -202,95 +198,110 @@ export function buildProposalPrompt(
     }
   });
 
-  const userRequirements = userPrompt
-    ? `\n\n🎯 MANDATORY USER REQUIREMENTS - HIGHEST PRIORITY:\n${userPrompt}\n============================================================`
-    : '';
+  return allSections;
+}
 
-  // Robust budget extraction
-  const rawBudget = extractNumericBudget(userPrompt || '') || extractNumericBudget(constraints.budget || '') || 250000;
-  const budgetNum = rawBudget < 1000 ? 250000 : rawBudget;
+export interface ProposalContext {
+  idea: any;
+  summary: string;
+  constraints: any;
+  partners: any[];
+  userPrompt?: string;
+  fundingScheme?: any;
+  expertKnowledge?: string;
+}
 
-  const finalBudgetStr = `€${budgetNum.toLocaleString()}`;
-  const personnelBudget = Math.floor(budgetNum * 0.6);
-  const operationalBudget = Math.floor(budgetNum * 0.4);
+// Robust budget extraction: user prompt first, then the call constraints, 250k default.
+// Lump-sum schemes snap it to the smallest allowed lump sum that covers it.
+export const resolveTargetBudget = (userPrompt?: string, constraintsBudget?: string, fundingScheme?: any): number => {
+  const rawBudget = extractNumericBudget(userPrompt || '') || extractNumericBudget(constraintsBudget || '') || 250000;
+  const budget = rawBudget < 1000 ? 250000 : rawBudget;
+  const lumpSum = getLumpSumRules(fundingScheme);
+  return lumpSum?.amounts?.length ? chooseLumpSum(lumpSum.amounts, budget) : budget;
+};
 
-  const partnerDictionary = partners.map((p: any, i: number) => `[PARTNER ${i + 1}]: "${p.name}" 
+const describePartners = (partners: any[]) => partners.map((p: any, i: number) => `[PARTNER ${i + 1}]: "${p.name}" 
    - Acronym: ${p.acronym || 'N/A'}
    - Role: ${p.isCoordinator ? 'LEAD COORDINATOR (APPLICANT ORGANISATION)' : 'Partner'}
    - Country: ${p.country || 'N/A'}
    - Profile: ${p.description || 'No profile provided.'}
    - Expertise: ${p.experience || 'No expertise provided.'}`).join('\n\n');
 
-  const sectionInstructions = allSections.map((s) => {
-    return `SECTION: ${s.label}
-    KEY: "${s.key}"
-    AI INSTRUCTION: ${s.aiPrompt || 'Write a technical narrative addressing this section.'}`;
-  }).join('\n\n');
+// Project, consortium and budget facts repeated at the top of every generation prompt
+const buildSharedContext = (ctx: ProposalContext): string => {
+  const budgetNum = resolveTargetBudget(ctx.userPrompt, ctx.constraints?.budget, ctx.fundingScheme);
+  const userRequirements = ctx.userPrompt
+    ? `\n\n🎯 MANDATORY USER REQUIREMENTS - HIGHEST PRIORITY:\n${ctx.userPrompt}\n============================================================`
+    : '';
+  const expertKnowledge = ctx.expertKnowledge
+    ? `\n\n### EXPERT INTELLIGENCE (MANDATORY GUIDELINES TO FOLLOW):\n${ctx.expertKnowledge}`
+    : '';
 
   return `You are an elite European Grant Writing Consultant with a 100% success rate in Erasmus+ and Horizon Europe funding. 
-Your writing style is highly professional, technical, persuasive, and data-driven. 
+Your writing style is highly professional, technical, persuasive, and data-driven.${userRequirements}
 
-MANDATORY INSTRUCTION: You MUST provide an EXTREMELY DETAILED and EXHAUSTIVE output for the following sections in this EXACT SEQUENCE:
-1. Relevance of the project: Deep context, policy alignment, and urgent need.
-2. Project description: Comprehensive overview of the solution.
-3. Needs analysis: Evidence-based analysis of target group gaps.
-4. Impact: Concrete, measurable outcomes (short and long term).
-5. Project design and implementation: Detailed methodology and operational flow.
-6. All Workpackages and activities: Granular breakdown of every single task and sub-activity.
+FUNDING PROGRAMME: ${ctx.fundingScheme?.name || 'Not specified'}
+CALL SUMMARY: ${ctx.summary || 'Not provided'}
 
 PROJECT IDEA:
-Title: ${idea.title}
-Summary: ${idea.description}
+Title: ${ctx.idea.title}
+Summary: ${ctx.idea.description}
 
-CONSORTIUM PARTNERS (LOADED FROM DATABASE - YOU MUST USE ALL ${partners.length} OF THEM):
-${partnerDictionary}
+CONSORTIUM PARTNERS (LOADED FROM DATABASE - YOU MUST USE ALL ${ctx.partners.length} OF THEM):
+${describePartners(ctx.partners)}
 
-BUDGET CONSTRAINTS:
-- Total: ${finalBudgetStr} (${budgetNum} EUR)
-- Rule: USE ONLY LARGE INTEGERS for "cost", "unitCost", and "amount".
-- STRICT TOTAL: The sum of all items in the "budget" array MUST equal EXACTLY ${budgetNum} EUR.
-- PRIORITY: If a different budget was mentioned in the user prompt, IGNORE it and USE EXACTLY ${budgetNum} EUR.
-- PARTNER ALLOCATION: Distribute the ${budgetNum} EUR across all ${partners.length} partners in the "partnerAllocations" arrays.
+TOTAL BUDGET: €${budgetNum.toLocaleString()} (${budgetNum} EUR)${getLumpSumRules(ctx.fundingScheme) ? ' - a fixed LUMP SUM, to be split over the work packages' : ''}${expertKnowledge}`;
+};
+
+// Compact view of the skeleton given to the section and work package prompts
+const describeSkeleton = (skeleton: any): string => JSON.stringify({
+  title: skeleton.title,
+  objectives: skeleton.objectives,
+  partners: (skeleton.partners || []).map((p: any) => ({ name: p.name, role: p.role })),
+  workPackages: (skeleton.workPackages || []).map((wp: any, i: number) => ({
+    number: i + 1,
+    name: wp.name,
+    duration: wp.duration,
+    leadPartner: wp.leadPartner,
+    budget: wp.budget,
+    description: wp.description
+  }))
+}, null, 2);
+
+// Step 1: the shared plan every later section is written against
+export function buildSkeletonPrompt(ctx: ProposalContext): string {
+  const budgetNum = resolveTargetBudget(ctx.userPrompt, ctx.constraints?.budget, ctx.fundingScheme);
+  const personnelBudget = Math.floor(budgetNum * 0.6);
+  const partners = ctx.partners;
+
+  return `${buildSharedContext(ctx)}
+
+TASK: PROPOSAL SKELETON
+Produce the shared plan of the proposal. The narrative sections and the detailed activities of each
+work package are written later in separate requests, so keep every description here SHORT (1-3 sentences).
 
 STRICT OUTPUT CONTRACT:
 1. **PARTNERS MAPPING**: 
    - You MUST include EXACTLY ${partners.length} partners in the "partners" array.
    - The first partner MUST be the Lead Coordinator: "${partners[0]?.name}".
-2. **WORK PACKAGES (CRITICAL)**:
-   - You MUST generate exactly 5 distinct Work Packages in the "workPackages" array.
-   - Each Work Package MUST contain between 3 and 5 detailed activities.
-   - In EACH activity, provide a comprehensive "description" (at least 2-3 sentences) explaining the technical implementation, method, and expected outcome.
-   - Each Work Package MUST have 2-3 clear deliverables.
-   - For EACH Work Package, you MUST also create a narrative summary in "dynamicSections" using keys like "work_package_1", "work_package_2", etc. The narrative summary should be 3-4 paragraphs of high-level technical text.
-3. **SECTION MAPPING**: 
-   - You MUST fill content for EVERY key listed in the "STRUCTURE TO FOLLOW" section below.
-   - If you see a key like "applicant_organisation", provide a technical description of "${partners[0]?.name}".
-   - If you see a key like "participating_organisations", describe the synergy between ALL partners.
-4. **EXACT BUDGET**: The total budget MUST be exactly ${budgetNum} EUR. Distribute it realistically among Personnel, Equipment, and Travel. Ensure the sum of "estimatedBudget" in ALL activities across ALL WPs equals exactly ${budgetNum} EUR.
+2. **OBJECTIVES**: 3-5 specific, measurable objectives.
+3. **WORK PACKAGES**: exactly 5 Work Packages, each with a lead partner, a duration (e.g. "M1-M24") and a
+   "budget" integer. The sum of all work package budgets MUST equal EXACTLY ${budgetNum} EUR.
+4. **EXACT BUDGET**: The sum of all items in the "budget" array MUST equal EXACTLY ${budgetNum} EUR.
+   USE ONLY LARGE INTEGERS for "cost", "unitCost", and "amount".
+   Distribute every item across all ${partners.length} partners in "partnerAllocations".
 5. **NO HALLUCINATIONS**: Do NOT invent partners. Use ONLY the ${partners.length} organizations provided.
 
-STRUCTURE TO FOLLOW (MANDATORY KEYS):
-${sectionInstructions}
-    KEY: "work_packages_overview" (Provide the 'All Workpackages and activities' summary here)
-
 STRICT JSON OUTPUT FORMAT (FOLLOW EXACTLY):
 {
-  "title": "${idea.title}",
+  "title": "${ctx.idea.title}",
+  "summary": "Full project summary (HTML formatted with <p>, <ul>, <strong>)...",
+  "objectives": ["Objective 1...", "Objective 2..."],
   "partners": [
     ${partners.map((p: any) => `{ "name": "${p.name}", "role": "${p.isCoordinator ? 'Lead Coordinator' : 'Partner'}", "country": "${p.country || ''}", "isCoordinator": ${p.isCoordinator || false}, "description": "Professional technical profile based on expertise." }`).join(',\n    ')}
   ],
   "workPackages": [
-    {
-      "name": "WP1: Project Management",
-      "description": "Exhaustive management narrative summary...",
-      "duration": "M1-M24",
-      "activities": [
-        { "name": "Project Coordination & Quality Assurance", "description": "Continuous monitoring of project milestones, ensuring adherence to quality standards and timeline. Regular steering committee meetings and risk mitigation sessions.", "leadPartner": "${partners[0]?.name}", "estimatedBudget": ${Math.floor(personnelBudget * 0.1)} },
-        { "name": "Financial Management & Reporting", "description": "Oversight of budget allocation, expense tracking, and preparation of periodic financial reports for the funding agency. Ensuring compliance with financial regulations.", "leadPartner": "${partners[0]?.name}", "estimatedBudget": ${Math.floor(personnelBudget * 0.05)} },
-        { "name": "Internal Communication Infrastructure", "description": "Establishment of collaborative platforms, cloud storage, and communication protocols to ensure seamless data exchange and synchronization between all partners.", "leadPartner": "${partners[0]?.name}", "estimatedBudget": ${Math.floor(personnelBudget * 0.05)} }
-      ],
-      "deliverables": ["Management Plan", "Quality Manual", "Financial Reports"]
-    }
+    { "name": "WP1: Project Management", "description": "Short scope of the work package.", "duration": "M1-M24", "leadPartner": "${partners[0]?.name || ''}", "budget": ${Math.floor(budgetNum * 0.15)} }
   ],
   "budget": [
     {
@@ -301,13 +312,64 @@ STRICT JSON OUTPUT FORMAT (FOLLOW EXACTLY):
       "partnerAllocations": [${partners.map((p: any) => `{ "partner": "${p.name}", "amount": ${Math.floor(personnelBudget / (partners.length || 1))} }`).join(', ')}]
     }
   ],
-  "risks": [{ "risk": "Technical delay", "likelihood": "Low", "impact": "High", "mitigation": "Proper planning and alternative resource allocation." }],
-  "summary": "Full project summary (HTML formatted with <p>, <ul>, <strong>)...",
-  "dynamicSections": {
-    "key_from_structure_above": "HTML technical narrative...",
-    "work_package_1": "Narrative for WP1...",
-    "work_package_2": "Narrative for WP2..."
-  }
+  "risks": [{ "risk": "Technical delay", "likelihood": "Low", "impact": "High", "mitigation": "Proper planning and alternative resource allocation." }]
+}
+
+Return ONLY valid JSON.`;
+}
+
+// Step 2a: one narrative section of the funding scheme template
+export function buildSectionPrompt(ctx: ProposalContext, skeleton: any, section: FlatSection): string {
+  const limit = section.charLimit ? `\nLENGTH LIMIT: at most ${section.charLimit} characters (plain text, excluding HTML tags).` : '';
+
+  return `${buildSharedContext(ctx)}
+
+PROJECT PLAN (already agreed - stay consistent with it):
+${describeSkeleton(skeleton)}
+
+SECTION TO WRITE: ${section.label}
+KEY: "${section.key}"
+DESCRIPTION: ${section.description || 'N/A'}
+AI INSTRUCTION: ${section.aiPrompt || 'Write a technical narrative addressing this section.'}${limit}
+
+Write an EXTREMELY DETAILED, evidence-based narrative for this section only. Refer to the objectives,
+partners and work packages of the plan by name. Use HTML (<p>, <ul>, <li>, <strong>).
+
+Return JSON: { "content": "<p>...</p>" }
+
+Return ONLY valid JSON.`;
+}
+
+// Step 2b: activities, deliverables and narrative of one work package
+export function buildWorkPackagePrompt(ctx: ProposalContext, skeleton: any, wpIndex: number): string {
+  const wp = skeleton.workPackages[wpIndex];
+  const wpBudget = wp.budget || Math.floor(resolveTargetBudget(ctx.userPrompt, ctx.constraints?.budget) / (skeleton.workPackages.length || 1));
+
+  return `${buildSharedContext(ctx)}
+
+PROJECT PLAN (already agreed - stay consistent with it):
+${describeSkeleton(skeleton)}
+
+WORK PACKAGE TO DETAIL: WP${wpIndex + 1} - ${wp.name}
+Scope: ${wp.description}
+Duration: ${wp.duration || 'N/A'}
+Lead partner: ${wp.leadPartner || ctx.partners[0]?.name || 'N/A'}
+Budget: ${wpBudget} EUR
+
+RULES:
+- Between 3 and 5 detailed activities. Each "description" is at least 2-3 sentences explaining the technical
+  implementation, method, and expected outcome.
+- "leadPartner" and "participatingPartners" use ONLY the partner names listed above.
+- "startMonth" and "endMonth" are the project months the activity runs, within the work package duration.
+- The "estimatedBudget" of all activities MUST sum to EXACTLY ${wpBudget} EUR (large integers).
+- 2-3 clear deliverables.
+- "narrative": a 3-4 paragraph HTML summary of the work package.
+
+Return JSON:
+{
+  "activities": [{ "name": "...", "description": "...", "leadPartner": "...", "participatingPartners": ["..."], "estimatedBudget": 0, "startMonth": 1, "endMonth": 6 }],
+  "deliverables": ["..."],
+  "narrative": "<p>...</p>"
 }
 
 Return ONLY valid JSON.`;
@@ -0,0 +1,244 @@
+// Reading a previously written Word proposal into the structured model, shared by POST /proposals/import-docx.
+// The document is split at its headings; work package, budget and risk tables become structured data and the
+// headings are matched to the funding scheme's sections. The client reviews the mapping before anything is saved.
+
+import mammoth from 'npm:mammoth';
+
+// Mirrors types/proposal-import.ts
+export interface ImportedSection {
+    id: string;
+    heading: string;
+    level: number;
+    content: string;
+    target: string | null;
+}
+
+export interface ImportedProposal {
+    title: string;
+    fileName: string;
+    sections: ImportedSection[];
+    workPackages: any[];
+    budget: any[];
+    risks: any[];
+    warnings: string[];
+}
+
+// Title and Subtitle paragraphs are not mapped by default
+const STYLE_MAP = ["p[style-name='Title'] => h1.doc-title:fresh"];
+
+const decode = (text: string) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+const textOf = (html: string) => decode(html.replace(/<br\s*\/?>/g, ' ').replace(/<\/(?:p|t[dh])>/g, ' ').replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+const normalizeLabel = (text: string) => text.toLowerCase().replace(/^[\d.\s]+/, '').replace(/[^a-z0-9]/g, '');
+
+const flattenSections = (sections: any[] = []): { key: string; label: string }[] =>
+    sections.flatMap(s => [{ key: s.key, label: s.label }, ...flattenSections(s.subsections)]);
+
+// "12.500,00 €", "EUR 12,500" or "12 500" -> 12500
+export function parseAmount(text: string): number {
+    const digits = (text || '').replace(/[^\d.,-]/g, '');
+    if (!/\d/.test(digits)) return 0;
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+    const decimal = lastComma > lastDot
+        ? (digits.length - lastComma - 1 === 3 && lastDot === -1 ? -1 : lastComma)
+        : (lastDot > -1 && digits.length - lastDot - 1 !== 3 ? lastDot : -1);
+    const whole = (decimal === -1 ? digits : digits.slice(0, decimal)).replace(/[.,]/g, '');
+    const fraction = decimal === -1 ? '' : digits.slice(decimal + 1);
+    return Math.round(parseFloat(`${whole}.${fraction || 0}`) * 100) / 100 || 0;
+}
+
+const monthOf = (text: string) => parseInt(/\d+/.exec(text || '')?.[0] || '') || undefined;
+
+// Outermost tables as [start, end) offsets; a table nested in a cell stays part of its parent
+function outerTables(html: string): [number, number][] {
+    const tables: [number, number][] = [];
+    let depth = 0;
+    let start = 0;
+    for (const tag of html.matchAll(/<(\/?)table\b[^>]*>/gi)) {
+        if (!tag[1]) {
+            if (depth++ === 0) start = tag.index!;
+        } else if (depth > 0 && --depth === 0) {
+            tables.push([start, tag.index! + tag[0].length]);
+        }
+    }
+    return tables;
+}
+
+// Cell texts of the table's own rows; the text of a nested table is part of the cell holding it
+function tableRows(table: string): string[][] {
+    const rows: string[][] = [];
+    let depth = 0;
+    let cellStart = -1;
+    for (const tag of table.matchAll(/<(\/?)(table|tr|td|th)\b[^>]*>/gi)) {
+        const closing = !!tag[1];
+        const name = tag[2].toLowerCase();
+        if (name === 'table') depth += closing ? -1 : 1;
+        else if (depth !== 1) continue;
+        else if (name === 'tr') {
+            if (!closing) rows.push([]);
+        } else if (!closing) {
+            cellStart = tag.index! + tag[0].length;
+        } else if (cellStart !== -1 && rows.length > 0) {
+            rows[rows.length - 1].push(textOf(table.slice(cellStart, tag.index)));
+            cellStart = -1;
+        }
+    }
+    return rows;
+}
+
+const column = (header: string[], pattern: RegExp) => header.findIndex(cell => pattern.test(cell.toLowerCase()));
+
+const emptyWorkPackage = (name: string): any => ({ name, description: '', activities: [], deliverables: [] });
+
+/** Takes a risk, work package or budget table into the result; false when the table stays in the narrative */
+function readTable(rows: string[][], result: ImportedProposal): boolean {
+    if (rows.length < 2) return false;
+    const header = rows[0];
+    const body = rows.slice(1).filter(row => row.some(Boolean) && !/^(grand )?total\b/i.test(row[0] || ''));
+
+    // Risk register: Risk | Likelihood | Impact | Mitigation
+    const riskCol = column(header, /risk/);
+    const mitigationCol = column(header, /mitigat|measure|contingenc/);
+    if (riskCol !== -1 && mitigationCol !== -1) {
+        const impactCol = column(header, /impact|severity/);
+        const likelihoodCol = column(header, /likelihood|probability/);
+        result.risks.push(...body.map(row => ({
+            risk: row[riskCol],
+            likelihood: likelihoodCol === -1 ? '' : row[likelihoodCol],
+            impact: impactCol === -1 ? '' : row[impactCol],
+            mitigation: row[mitigationCol],
+        })).filter(r => r.risk));
+        return true;
+    }
+
+    // Work package description: "Work package number | 1", "Work package title | ...", "Start month | 1" rows
+    if (rows.some(row => /^work\s*package\s*(number|title|n)/i.test(row[0] || ''))) {
+        const value = (pattern: RegExp) => rows.find(row => pattern.test((row[0] || '').toLowerCase()))?.slice(1).filter(Boolean).join(' ') || '';
+        const number = monthOf(value(/^work\s*package\s*(number|n)/));
+        const wp = emptyWorkPackage(value(/title/) || `Work package ${number || result.workPackages.length + 1}`);
+        wp.description = [value(/objective/), value(/description of work|tasks/)].filter(Boolean).join('\n\n');
+        const start = monthOf(value(/start/));
+        const end = monthOf(value(/end/));
+        const index = number && number <= result.workPackages.length ? number - 1 : result.workPackages.length;
+        result.workPackages[index] = {
+            ...result.workPackages[index],
+            ...wp,
+            ...(start && end ? { duration: `M${start}-M${end}` } : {}),
+        };
+        return true;
+    }
+
+    // List of work packages: WP No. | Title | Lead | Start | End (deliverable and milestone lists also have WP columns)
+    const wpCol = column(header, /^(wp|work\s*package)/);
+    const titleCol = column(header, /title|name/);
+    if (wpCol !== -1 && titleCol !== -1 && wpCol !== titleCol && column(header, /deliverable|milestone/) === -1) {
+        const startCol = column(header, /start/);
+        const endCol = column(header, /end/);
+        body.forEach((row, i) => {
+            const index = (monthOf(row[wpCol]) || i + 1) - 1;
+            const start = startCol === -1 ? undefined : monthOf(row[startCol]);
+            const end = endCol === -1 ? undefined : monthOf(row[endCol]);
+            result.workPackages[index] = {
+                ...emptyWorkPackage(row[titleCol]),
+                ...result.workPackages[index],
+                name: row[titleCol] || result.workPackages[index]?.name,
+                ...(start && end ? { duration: `M${start}-M${end}` } : {}),
+            };
+        });
+        return true;
+    }
+
+    // Budget: Item | Description | Cost. A "Total" or "Amount" column only counts with amounts in a currency,
+    // and effort tables (Participant | WP1 | ... | Total person-months) are never budgets.
+    const isEffort = header.some(cell => /person[\s-]*months?|\bpms?\b|effort|\bfte\b/.test(cell.toLowerCase()));
+    const currencyCol = column(header, /cost|budget|\beur\b|€/);
+    const amountCol = column(header, /amount|total/);
+    const costCol = currencyCol !== -1 ? currencyCol
+        : amountCol !== -1 && body.some(row => /€|\beur\b/i.test(row[amountCol] || '')) ? amountCol : -1;
+    const itemCol = header.findIndex((_, i) => i !== costCol);
+    if (!isEffort && costCol !== -1 && body.some(row => parseAmount(row[costCol]) > 0)) {
+        const descriptionCol = column(header, /description|justification|details/);
+        result.budget.push(...body.map(row => ({
+            item: row[itemCol],
+            description: descriptionCol === -1 || descriptionCol === itemCol ? '' : row[descriptionCol],
+            cost: parseAmount(row[costCol]),
+        })).filter(item => item.item && item.cost > 0));
+        return true;
+    }
+    return false;
+}
+
+function suggestTarget(heading: string, sections: { key: string; label: string }[], workPackages: any[]): string | null {
+    const wp = /\b(?:work\s*package|wp)\s*(?:n[°o.]?\s*)?(\d+)/i.exec(heading);
+    if (wp) {
+        const index = parseInt(wp[1]) - 1;
+        if (!workPackages[index]) workPackages[index] = emptyWorkPackage(heading.replace(/^.*?\d+\s*[:.\-–]*\s*/, '') || heading);
+        return `@wp:${index}`;
+    }
+    const wanted = normalizeLabel(heading);
+    if (!wanted) return null;
+    const exact = sections.find(s => normalizeLabel(s.label) === wanted);
+    if (exact) return exact.key;
+    const partial = sections.find(s => {
+        const label = normalizeLabel(s.label);
+        return label.length > 4 && wanted.length > 4 && (label.includes(wanted) || wanted.includes(label));
+    });
+    if (partial) return partial.key;
+    if (/summary|abstract/.test(wanted)) return '@summary';
+    return null;
+}
+
+export async function importProposalDocx(data: Uint8Array, fileName: string, fundingScheme: any): Promise<ImportedProposal> {
+    const { Buffer } = await import('node:buffer');
+    const converted = await mammoth.convertToHtml({ buffer: Buffer.from(data) }, { styleMap: STYLE_MAP });
+    const html: string = converted.value || '';
+    if (!textOf(html)) throw new Error('The document has no text');
+
+    const result: ImportedProposal = {
+        title: textOf(/<h1 class="doc-title">([\s\S]*?)<\/h1>/.exec(html)?.[1] || '') || fileName.replace(/\.docx$/i, ''),
+        fileName,
+        sections: [],
+        workPackages: [],
+        budget: [],
+        risks: [],
+        warnings: (converted.messages || []).map((m: any) => m.message),
+    };
+
+    // Tables are read first so that work packages listed in a table are known when headings are matched
+    const document = html.replace(/<h1 class="doc-title">[\s\S]*?<\/h1>/, '');
+    let body = '';
+    let position = 0;
+    for (const [start, end] of outerTables(document)) {
+        const table = document.slice(start, end);
+        body += document.slice(position, start) + (readTable(tableRows(table), result) ? '' : table);
+        position = end;
+    }
+    body += document.slice(position);
+
+    const sections = flattenSections(fundingScheme?.template_json?.sections);
+    const parts = body.split(/(<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>)/);
+    // Text before the first heading usually is the cover page or the abstract
+    const intro = parts[0];
+    for (let i = 1; i < parts.length; i += 2) {
+        const heading = textOf(parts[i]);
+        const content = (parts[i + 1] || '').trim();
+        if (!heading) continue;
+        result.sections.push({
+            id: `import_${result.sections.length}`,
+            heading,
+            level: parseInt(parts[i][2]),
+            content,
+            target: suggestTarget(heading, sections, result.workPackages),
+        });
+    }
+    if (textOf(intro)) {
+        result.sections.unshift({ id: 'import_intro', heading: '(Text before the first heading)', level: 1, content: intro.trim(), target: null });
+    }
+
+    // Work packages referenced only by number in a table may leave gaps
+    result.workPackages = Array.from(result.workPackages, (wp, i) => wp || emptyWorkPackage(`Work package ${i + 1}`));
+    return result;
+}
@@ -0,0 +1,94 @@
+// Runtime shape of the proposal JSON returned by the AI (mirrors FullProposal in types/proposal.ts)
+
+import { array, boolean, number, object, optional, record, string, type Schema } from '../_shared/schema.ts';
+
+export const partnerSchema = object({
+    name: string({ min: 1 }),
+    role: optional(string()),
+    country: optional(string()),
+    isCoordinator: optional(boolean()),
+    description: optional(string()),
+});
+
+export const activitySchema = object({
+    name: string({ min: 1 }),
+    description: string({ min: 1 }),
+    leadPartner: optional(string()),
+    participatingPartners: optional(array(string())),
+    estimatedBudget: number(),
+    startMonth: optional(number()),
+    endMonth: optional(number()),
+});
+
+export const workPackageSchema = object({
+    name: string({ min: 1 }),
+    description: string({ min: 1 }),
+    duration: optional(string()),
+    activities: array(activitySchema, { min: 1 }),
+    deliverables: array(string(), { min: 1 }),
+});
+
+export const budgetItemSchema = object({
+    item: string({ min: 1 }),
+    cost: number(),
+    description: string(),
+    breakdown: optional(array(object({
+        subItem: string({ min: 1 }),
+        quantity: number(),
+        unitCost: number(),
+        total: number(),
+    }))),
+    partnerAllocations: optional(array(object({
+        partner: string({ min: 1 }),
+        amount: number(),
+    }))),
+});
+
+export const riskSchema = object({
+    risk: string({ min: 1 }),
+    likelihood: string(),
+    impact: string(),
+    mitigation: string({ min: 1 }),
+});
+
+/**
+ * Schema for a freshly generated proposal. `sectionKeys` are the template section keys
+ * that must be present in dynamicSections.
+ */
+export const buildProposalSchema = (sectionKeys: string[]): Schema => object({
+    title: string({ min: 1 }),
+    summary: string({ min: 1 }),
+    partners: array(partnerSchema),
+    workPackages: array(workPackageSchema, { min: 1 }),
+    budget: array(budgetItemSchema, { min: 1 }),
+    risks: array(riskSchema, { min: 1 }),
+    dynamicSections: record(string({ min: 1 }), { requiredKeys: sectionKeys }),
+});
+
+// Section-by-section generation (generation_orchestrator.ts)
+
+export const skeletonSchema = object({
+    title: string({ min: 1 }),
+    summary: string({ min: 1 }),
+    objectives: array(string({ min: 1 }), { min: 1 }),
+    partners: array(partnerSchema),
+    workPackages: array(object({
+        name: string({ min: 1 }),
+        description: string({ min: 1 }),
+        duration: optional(string()),
+        leadPartner: optional(string()),
+        budget: optional(number()),
+    }), { min: 1 }),
+    budget: array(budgetItemSchema, { min: 1 }),
+    risks: array(riskSchema, { min: 1 }),
+});
+
+export const sectionContentSchema = object({
+    content: string({ min: 1 }),
+});
+
+export const workPackageDetailSchema = object({
+    activities: array(activitySchema, { min: 1 }),
+    deliverables: array(string(), { min: 1 }),
+    narrative: string({ min: 1 }),
+});
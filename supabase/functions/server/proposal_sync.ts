@@ -0,0 +1,110 @@
+import { getSupabaseClient } from './clients.ts';
+
+// Helper to sync proposal to real Supabase table for relational integrity
+export const saveToSupabase = async (proposal: any) => {
+    try {
+        const supabase = getSupabaseClient();
+        const pid = proposal.id;
+
+        // 1. Basic Metadata (The 'proposals' table)
+        const dbProposal: any = {
+            title: proposal.title || 'Untitled Proposal',
+            summary: proposal.summary,
+            project_url: proposal.projectUrl || proposal.project_url,
+            selected_idea: proposal.selectedIdea,
+            settings: proposal.settings || {},
+            generated_at: proposal.generatedAt,
+            saved_at: proposal.savedAt || new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+            funding_scheme_id: proposal.funding_scheme_id,
+            // Keep JSONB as cache/backup for now
+            dynamic_sections: proposal.dynamic_sections || proposal.dynamicSections || {},
+            work_packages: proposal.workPackages || proposal.work_packages || [],
+            budget: proposal.budget || [],
+            risks: proposal.risks || [],
+            partners: proposal.partners || []
+        };
+
+        let layoutId = proposal.layout_id;
+        if (!layoutId && proposal.funding_scheme_id) {
+            const { data: layouts } = await supabase
+                .from('funding_scheme_layouts')
+                .select('id')
+                .eq('funding_scheme_id', proposal.funding_scheme_id)
+                .eq('is_default', true)
+                .limit(1);
+            if (layouts && layouts.length > 0) {
+                layoutId = layouts[0].id;
+            }
+        }
+
+        const { data: savedProp, error: propError } = await supabase
+            .from('proposals')
+            .upsert({ ...dbProposal, id: pid, layout_id: layoutId }, { onConflict: 'id' })
+            .select()
+            .single();
+
+        if (propError) {
+            console.warn('Proposals table upsert failed (likely missing new schema):', propError.message);
+            // Non-critical fallback
+        }
+
+        // 2. Relational Narrative Sections
+        const dynamicSections = proposal.dynamic_sections || proposal.dynamicSections || {};
+        const sectionsToInsert = Object.entries(dynamicSections).map(([key, val]) => ({
+            proposal_id: pid,
+            section_key: key,
+            content: val as string,
+            label: key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+        }));
+
+        if (proposal.summary) {
+            sectionsToInsert.push({
+                proposal_id: pid,
+                section_key: 'summary',
+                content: proposal.summary,
+                label: 'Executive Summary'
+            });
+        }
+
+        if (sectionsToInsert.length > 0) {
+            const { error: sError } = await supabase.from('proposal_sections').upsert(sectionsToInsert, { onConflict: 'proposal_id,section_key' });
+            if (sError) console.warn('Relational Sections sync failed:', sError.message);
+        }
+
+        // 3. Relational Partners
+        const partners = proposal.partners || [];
+        if (partners.length > 0) {
+            const partnersToInsert = partners.map((p: any, idx: number) => ({
+                proposal_id: pid,
+                partner_id: p.id && p.id.length > 30 ? p.id : null,
+                name: p.name,
+                role: p.role || 'Partner',
+                is_coordinator: !!p.isCoordinator,
+                description: p.description,
+                order_index: idx
+            }));
+            const { error: pError } = await supabase.from('proposal_partners').upsert(partnersToInsert, { onConflict: 'proposal_id,partner_id' });
+            if (pError) console.warn('Relational Partners sync failed:', pError.message);
+        }
+
+        // 4. Relational Work Packages
+        const wps = proposal.workPackages || proposal.work_packages || [];
+        if (wps.length > 0) {
+            const wpsToInsert = wps.map((wp: any, idx: number) => ({
+                proposal_id: pid,
+                name: wp.name || `Work Package ${idx + 1}`,
+                description: wp.description,
+                duration: wp.duration || wp.timeline,
+                order_index: idx,
+                activities: wp.activities || []
+            }));
+            await supabase.from('proposal_work_packages').delete().eq('proposal_id', pid);
+            await supabase.from('proposal_work_packages').insert(wpsToInsert);
+        }
+
+        console.log(`✅ Relational Sync Attempted for Proposal: ${pid}`);
+    } catch (err: any) {
+        console.error('❌ Supabase Relational Sync Error:', err.message);
+    }
+};
@@ -0,0 +1,99 @@
+// Declarative router for the server edge function.
+// Routes are declared as method + path pattern ('/proposals/:id/ai-edit') and matched
+// segment by segment against the path below the function mount point ('/server').
+
+import { json, type FetchHandler } from './http.ts';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// '/partners/:id/upload-logo' -> 'id'
+type ParamNames<P extends string> =
+    P extends `${string}:${infer Param}/${infer Rest}`
+        ? Param | ParamNames<`/${Rest}`>
+        : P extends `${string}:${infer Param}`
+            ? Param
+            : never;
+
+export type RouteParams<P extends string> = string extends P
+    ? Record<string, string>
+    : { [K in ParamNames<P>]: string };
+
+export interface RouteContext<P extends string = string> {
+    req: Request;
+    url: URL;
+    path: string;
+    params: RouteParams<P>;
+}
+
+export type RouteHandler<P extends string = string> = (ctx: RouteContext<P>) => Promise<Response> | Response;
+
+export interface Route {
+    method: HttpMethod;
+    pattern: string;
+    handler: RouteHandler;
+}
+
+export const route = <P extends string>(method: HttpMethod, pattern: P, handler: RouteHandler<P>): Route => ({
+    method,
+    pattern,
+    handler: handler as unknown as RouteHandler,
+});
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const matchPattern = (pattern: string, path: string): Record<string, string> | null => {
+    const patternParts = splitPath(pattern);
+    const pathParts = splitPath(path);
+    if (patternParts.length !== pathParts.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternParts.length; i++) {
+        const part = patternParts[i];
+        if (part.startsWith(':')) {
+            params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+        } else if (part !== pathParts[i]) {
+            return null;
+        }
+    }
+    return params;
+};
+
+// '/functions/v1/server/proposals/123' -> '/proposals/123'
+const stripBasePath = (pathname: string, basePath: string) => {
+    const parts = splitPath(pathname);
+    const baseParts = splitPath(basePath);
+    const start = parts.findIndex((_, i) => baseParts.every((b, j) => parts[i + j] === b));
+    const rest = start === -1 ? parts : parts.slice(start + baseParts.length);
+    return '/' + rest.join('/');
+};
+
+export const createRouter = (routes: Route[], basePath = '/server'): FetchHandler => async (req) => {
+    const url = new URL(req.url);
+    const path = stripBasePath(url.pathname, basePath);
+    console.log(`[REQUEST] ${req.method} ${path}`);
+
+    const allowed: string[] = [];
+    for (const r of routes) {
+        let params: Record<string, string> | null;
+        try {
+            params = matchPattern(r.pattern, path);
+        } catch (error) {
+            // decodeURIComponent rejects a stray "%": the client sent a bad URL, not a server fault
+            if (error instanceof URIError) return json({ error: 'Malformed URL', path }, 400);
+            throw error;
+        }
+        if (!params) continue;
+        if (r.method !== req.method) {
+            allowed.push(r.method);
+            continue;
+        }
+        return await r.handler({ req, url, path, params });
+    }
+
+    if (allowed.length > 0) {
+        const allow = [...new Set(allowed), 'OPTIONS'].join(', ');
+        return json({ error: 'Method not allowed', method: req.method, path, allow }, 405, { 'Allow': allow });
+    }
+
+    return json({ error: 'Not found', path }, 404);
+};
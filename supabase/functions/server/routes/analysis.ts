@@ -0,0 +1,115 @@
+import { route, type Route } from '../router.ts';
+import { json } from '../http.ts';
+import { getLLM } from '../clients.ts';
+import * as PromptBuilder from '../prompt_builder.ts';
+
+export const analysisRoutes: Route[] = [
+    // PHASE 1: ANALYZE URL & GENERATE IDEAS
+    route('POST', '/analyze-url', async ({ req }) => {
+        const { url: targetUrl, userPrompt } = await req.json();
+
+        // Fetch URL content
+        let content = '';
+        try {
+            const res = await fetch(targetUrl);
+            content = await res.text();
+            content = content.substring(0, 20000); // Limit to 20k chars
+        } catch (e) {
+            content = 'Could not fetch URL content. Please rely on user prompt.';
+        }
+
+        const llm = getLLM();
+
+        // Phase 1: Extract summary and constraints
+        const phase1Prompt = `Analyze this funding call and extract key information.
+${userPrompt ? `\nUSER PROVIDED INSTRUCTIONS/TEXT (THIS IS PARALLEL TO OR REPLACES URL CONTENT - USE THIS FOR BUDGET/DURATION): \n${userPrompt}\n` : ''}
+URL: ${targetUrl}
+CONTENT: ${content.substring(0, 5000)}
+
+Extract:
+1. A summary of the funding opportunity (incorporating user instructions if provided).
+2. Partner requirements.
+3. Budget range (CRITICAL: If a specific total budget like "250,000" or "€1M" is mentioned in user text or URL, use that EXACT numeric value).
+4. Project duration (If a specific duration like "24 months" is mentioned, use that EXACT duration).
+
+Return JSON:
+{
+  "summary": "Summary of the opportunity",
+  "constraints": {
+"partners": "e.g., 3-5 partners required",
+"budget": "e.g., 250000 (MANDATORY: Numeric value only if possible, prioritize user instructions over URL)",
+"duration": "e.g., 24 months"
+  }
+}
+
+Return ONLY valid JSON, no other text.`;
+
+        let phase1Data;
+        try {
+            phase1Data = await llm.generateJSON(phase1Prompt, { temperature: 0.1 });
+            console.log('Phase 1 Output:', JSON.stringify(phase1Data));
+        } catch (error: any) {
+            console.error('Phase 1 failed:', error);
+            return json({
+                error: 'Analysis failed (Phase 1)',
+                message: error.message,
+                details: error.toString(),
+                provider: llm.name,
+                hint: 'This error often occurs if the configured model name is invalid or the API key is not authorized for this specific model.'
+            }, 500);
+        }
+
+        // Phase 2: Generate ideas
+        let phase2Data;
+        try {
+            const phase2Prompt = PromptBuilder.buildPhase2Prompt(
+                phase1Data.summary,
+                phase1Data.constraints,
+                userPrompt
+            );
+
+            phase2Data = await llm.generateJSON(phase2Prompt, { temperature: 0.7 });
+            console.log(`Phase 2 Output: ${phase2Data?.ideas?.length || 0} ideas`);
+        } catch (error: any) {
+            console.error('Phase 2 failed:', error);
+            return json({
+                error: 'Idea generation failed (Phase 2)',
+                message: error.message,
+                details: error.toString(),
+                provider: llm.name
+            }, 500);
+        }
+
+        return json({
+            summary: phase1Data.summary,
+            constraints: phase1Data.constraints,
+            ideas: phase2Data.ideas
+        });
+    }),
+
+    // PHASE 2: ANALYZE RELEVANCE
+    route('POST', '/analyze-relevance', async ({ req }) => {
+        const { url: targetUrl, constraints, ideas, userPrompt } = await req.json();
+
+        // Re-fetch URL content for validation
+        let content = '';
+        try {
+            const res = await fetch(targetUrl);
+            content = await res.text();
+        } catch (e) {
+            content = '';
+        }
+
+        const prompt = PromptBuilder.buildRelevancePrompt(
+            targetUrl,
+            content,
+            constraints,
+            ideas,
+            userPrompt
+        );
+
+        const data = await getLLM().generateJSON(prompt);
+
+        return json(data);
+    }),
+];
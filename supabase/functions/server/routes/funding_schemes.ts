@@ -0,0 +1,33 @@
+import { route, type Route } from '../router.ts';
+import { json } from '../http.ts';
+import { getSupabaseClient } from '../clients.ts';
+
+export const fundingSchemeRoutes: Route[] = [
+    // GET /funding-schemes - List all
+    route('GET', '/funding-schemes', async () => {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .from('funding_schemes')
+            .select('*')
+            .order('name');
+
+        if (error) throw error;
+
+        return json({ schemes: data });
+    }),
+
+    // GET /funding-schemes/:id - Get single
+    route('GET', '/funding-schemes/:id', async ({ params }) => {
+        const { id } = params;
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+            .from('funding_schemes')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) throw error;
+
+        return json(data);
+    }),
+];
@@ -0,0 +1,92 @@
+import { route, type Route } from '../router.ts';
+import { json } from '../http.ts';
+import { getLLM } from '../clients.ts';
+import { KnowledgeRetriever } from '../knowledge_retriever.ts';
+import { getGenerationState, startGeneration } from '../generation_orchestrator.ts';
+import { enqueueJob, fromDbJob } from '../jobs.ts';
+import { loadGenerationInput } from '../generation_input.ts';
+
+export const generationRoutes: Route[] = [
+    // PHASE 3: GENERATE PROPOSAL
+    route('POST', '/generate-proposal', async ({ req }) => {
+        const input = await loadGenerationInput(await req.json());
+
+        const llm = getLLM();
+        console.log(`🚀 [GENERATE] Section-by-section generation with ${llm.name}`);
+
+        const startTime = Date.now();
+        const { proposal, state } = await startGeneration(llm, input);
+        console.log(`✅ [GENERATE] ${state.status} in ${((Date.now() - startTime) / 1000).toFixed(1)}s (${state.steps.length} steps)`);
+
+        return json(proposal);
+    }),
+
+    // GET /proposals/:id/generation - Per-step progress of a section-by-section generation
+    route('GET', '/proposals/:id/generation', async ({ params }) => {
+        const state = await getGenerationState(params.id);
+        if (!state) {
+            return json({ error: 'No generation found for this proposal' }, 404);
+        }
+
+        const { input, skeleton, ...progress } = state;
+        return json(progress);
+    }),
+
+    // POST /proposals/:id/generation/retry - Queue a generate-proposal job that re-runs the failed steps
+    // (or the given stepIds) only; follow it like the first run via /jobs/:id/events
+    route('POST', '/proposals/:id/generation/retry', async ({ req, params }) => {
+        const state = await getGenerationState(params.id);
+        if (!state) {
+            return json({ error: 'No generation found for this proposal' }, 404);
+        }
+
+        const { stepIds } = await req.json().catch(() => ({}));
+        const job = await enqueueJob('generate-proposal', { retry: { proposalId: params.id, stepIds } });
+        return json(fromDbJob(job), 202);
+    }),
+
+    // POST /generate-section - Generate new proposal section with AI
+    route('POST', '/generate-section', async ({ req }) => {
+        const { sectionTitle, proposalContext, existingSections } = await req.json();
+
+        // RAG: Retrieve intelligence for new section
+        const retriever = new KnowledgeRetriever();
+        const sectionKeywords = KnowledgeRetriever.extractSmartKeywords(`${sectionTitle} ${proposalContext}`);
+        const expertContext = await retriever.getRelevantKnowledge(sectionKeywords, 3);
+
+        const prompt = `You are generating a new section for a research/project proposal.
+
+### EXPERT INTELLIGENCE (Guidelines for this section):
+${expertContext || 'Follow general best practices for EU funding.'}
+
+SECTION TO CREATE: "${sectionTitle}"
+
+PROPOSAL CONTEXT:
+${proposalContext}
+
+EXISTING SECTIONS:
+${existingSections.join(', ')}
+
+Generate comprehensive, professional content for the "${sectionTitle}" section.
+
+Requirements:
+- Write 3-5 well-structured paragraphs
+- Use HTML formatting (<p>, <strong>, <ul>, <li> tags)
+- Make it relevant to the proposal context
+- Use professional, academic language
+- Include specific details and examples where appropriate
+- Ensure it complements existing sections without repeating content
+
+Return JSON:
+{
+  "title": "${sectionTitle}",
+  "content": "<p>HTML formatted content here...</p>"
+}
+
+Return ONLY valid JSON, no other text.`;
+
+        const data = await getLLM().generateJSON(prompt);
+
+        return json(data);
+    }),
+];
@@ -0,0 +1,146 @@
+import { route, type Route } from '../router.ts';
+import { corsHeaders, json } from '../http.ts';
+import { ensureBucket, getSupabaseClient } from '../clients.ts';
+import { isUUID } from '../utils.ts';
+import { cancelJob, enqueueJob, fromDbJob, getJob, isFinal, isJobType, listJobEvents, retryJob, runWorker } from '../jobs.ts';
+
+const EVENT_POLL_MS = 1000;
+
+const sseMessage = (event: string, data: unknown, id?: number) =>
+    `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+export const jobRoutes: Route[] = [
+    // POST /jobs - Queue a job: { type, payload }
+    route('POST', '/jobs', async ({ req }) => {
+        const { type, payload = {} } = await req.json();
+        if (!type || !isJobType(type)) {
+            return json({ error: `Unknown job type "${type}"` }, 400);
+        }
+
+        const job = await enqueueJob(type, payload);
+        return json(fromDbJob(job), 202);
+    }),
+
+    // POST /jobs/import-partner-pdf - Upload a PIF PDF (multipart "file") and queue its import
+    route('POST', '/jobs/import-partner-pdf', async ({ req }) => {
+        const formData = await req.formData();
+        const file = formData.get('file');
+
+        if (!file || !(file instanceof File)) {
+            return json({ error: 'No PDF file uploaded' }, 400);
+        }
+
+        await ensureBucket('partner-assets');
+        const filePath = `imports/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`;
+        const { error: uploadError } = await getSupabaseClient().storage
+            .from('partner-assets')
+            .upload(filePath, file, { contentType: file.type || 'application/pdf', upsert: true });
+        if (uploadError) throw new Error(`Failed to store PDF: ${uploadError.message}`);
+
+        const job = await enqueueJob('import-partner-pdf', { filePath, fileName: file.name });
+        return json(fromDbJob(job), 202);
+    }),
+
+    // POST /jobs/worker - Process queued jobs in the foreground (cron / manual trigger)
+    route('POST', '/jobs/worker', async () => {
+        const processed = await runWorker();
+        return json({ processed });
+    }),
+
+    // GET /jobs/:id - Status, progress and result
+    route('GET', '/jobs/:id', async ({ params }) => {
+        const job = isUUID(params.id) ? await getJob(params.id) : null;
+        if (!job) {
+            return json({ error: 'Job not found' }, 404);
+        }
+
+        return json(fromDbJob(job));
+    }),
+
+    // GET /jobs/:id/events - Server-sent events: the job's event log and "progress" snapshots, then a
+    // final "done" event with the job. A reconnecting client resumes after the Last-Event-ID header
+    // (or ?after=), so a stream cut off by the function time limit loses nothing.
+    route('GET', '/jobs/:id/events', async ({ req, params, url }) => {
+        const initial = isUUID(params.id) ? await getJob(params.id) : null;
+        if (!initial) {
+            return json({ error: 'Job not found' }, 404);
+        }
+
+        let lastId = Number(req.headers.get('Last-Event-ID') || url.searchParams.get('after') || 0) || 0;
+        const encoder = new TextEncoder();
+
+        let lastProgress = '';
+        let closed = false;
+        const stream = new ReadableStream({
+            async start(controller) {
+                const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+                try {
+                    while (!closed && !req.signal.aborted) {
+                        // Read the status before the events so nothing emitted before completion is missed
+                        const job = await getJob(initial.id);
+                        for (const event of await listJobEvents(initial.id, lastId)) {
+                            send(sseMessage(event.type, event.data, event.id));
+                            lastId = event.id;
+                        }
+                        if (!job || isFinal(job.status)) {
+                            send(sseMessage('done', job ? fromDbJob(job) : null));
+                            break;
+                        }
+                        // Progress has no id: it is a snapshot, not part of the replayable log
+                        const progress = JSON.stringify([job.status, job.progress, job.progress_message, job.cancel_requested]);
+                        if (progress !== lastProgress) {
+                            send(sseMessage('progress', fromDbJob(job)));
+                            lastProgress = progress;
+                        } else {
+                            send(': ping\n\n');
+                        }
+                        await new Promise(resolve => setTimeout(resolve, EVENT_POLL_MS));
+                    }
+                } catch (e: any) {
+                    if (closed) return;
+                    console.error(`❌ [JOBS] Event stream for ${initial.id} failed:`, e.message);
+                    send(sseMessage('error', { error: e.message }));
+                }
+                if (!closed) controller.close();
+            },
+            cancel() {
+                closed = true;
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                ...corsHeaders,
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+            },
+        });
+    }),
+
+    // POST /jobs/:id/cancel
+    route('POST', '/jobs/:id/cancel', async ({ params }) => {
+        const job = isUUID(params.id) ? await getJob(params.id) : null;
+        if (!job) {
+            return json({ error: 'Job not found' }, 404);
+        }
+        if (isFinal(job.status)) {
+            return json({ error: `Job is already ${job.status}` }, 409);
+        }
+
+        return json(fromDbJob(await cancelJob(job)));
+    }),
+
+    // POST /jobs/:id/retry - Re-queue a failed or cancelled job
+    route('POST', '/jobs/:id/retry', async ({ params }) => {
+        const job = isUUID(params.id) ? await getJob(params.id) : null;
+        if (!job) {
+            return json({ error: 'Job not found' }, 404);
+        }
+        if (job.status !== 'failed' && job.status !== 'cancelled') {
+            return json({ error: `Only failed or cancelled jobs can be retried (job is ${job.status})` }, 409);
+        }
+
+        return json(fromDbJob(await retryJob(job)), 202);
+    }),
+];
@@ -0,0 +1,281 @@
+import { route, type Route } from '../router.ts';
+import { json } from '../http.ts';
+import { ensureBucket, getSupabaseClient } from '../clients.ts';
+import { isUUID } from '../utils.ts';
+import { fromDbPartner, toDbPartner } from '../partner_mapping.ts';
+import * as KV from '../kv_store.ts';
+import { importPartnerFromPdf } from '../partner_import.ts';
+
+export const partnerRoutes: Route[] = [
+    // GET /partners - List all
+    route('GET', '/partners', async () => {
+        const supabase = getSupabaseClient();
+        const { data: partners, error } = await supabase
+            .from('partners')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+
+        // Map back to camelCase with all fields for full hydration
+        const mappedPartners = partners.map(fromDbPartner);
+
+        // Fallback: also get from KV (for transition)
+        const kvPartners = await KV.getByPrefix('partner:');
+        const allPartners = [...mappedPartners];
+        kvPartners.forEach(kvp => {
+            const alreadyExists = allPartners.find(p =>
+                p.id === kvp.id ||
+                (p.name && kvp.name && p.name.toLowerCase() === kvp.name.toLowerCase())
+            );
+            if (!alreadyExists) {
+                allPartners.push(kvp);
+            }
+        });
+
+        return json({ partners: allPartners });
+    }),
+
+    // GET /partners/:id - Get single partner details
+    route('GET', '/partners/:id', async ({ params }) => {
+        const { id } = params;
+        console.log(`[PARTNER] Fetching single partner: ${id}`);
+
+        const supabase = getSupabaseClient();
+        let p = null;
+
+        // Try DB first if it's a UUID
+        if (isUUID(id)) {
+            const { data, error } = await supabase
+                .from('partners')
+                .select('*')
+                .eq('id', id)
+                .maybeSingle();
+            if (data) p = data;
+            if (error) {
+                console.error('[PARTNER] DB Error:', error);
+            }
+        }
+
+        if (p) {
+            return json(fromDbPartner(p));
+        }
+
+        // Fallback to KV
+        const kvPartner = await KV.get(`partner:${id}`);
+        if (kvPartner) {
+            return json(kvPartner);
+        }
+
+        return json({ error: 'Partner not found' }, 404);
+    }),
+
+    // POST /partners - Create
+    route('POST', '/partners', async ({ req }) => {
+        const body = await req.json();
+        const supabase = getSupabaseClient();
+
+        const dbPartner = toDbPartner(body);
+
+        const { data, error } = await supabase
+            .from('partners')
+            .upsert(dbPartner, { onConflict: 'name' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Partner Insert Error:', error);
+            throw error;
+        }
+
+        return json({ ...body, id: data.id, createdAt: data.created_at });
+    }),
+
+    // PUT /partners/:id - Update
+    route('PUT', '/partners/:id', async ({ req, params }) => {
+        const { id } = params;
+        const body = await req.json();
+        const supabase = getSupabaseClient();
+
+        const dbPartner = { ...toDbPartner(body), updated_at: new Date().toISOString() };
+
+        console.log(`Updating partner ${id}:`, JSON.stringify(dbPartner).substring(0, 500));
+
+        if (isUUID(id)) {
+            const { error } = await supabase
+                .from('partners')
+                .update(dbPartner)
+                .eq('id', id);
+
+            if (error) {
+                console.error(`Partner Update Error for ${id}:`, error);
+                throw error;
+            }
+
+            return json({ ...body, id });
+        } else {
+            // If not a UUID, this is a legacy/temp partner from KV
+            // We migrate it to Postgres by performing an INSERT
+            console.log(`Migrating KV partner ${id} to Postgres...`);
+
+            // Use upsert to handle cases where the partner name already exists in Postgres
+            const { data, error } = await supabase
+                .from('partners')
+                .upsert(dbPartner, { onConflict: 'name' })
+                .select()
+                .single();
+
+            if (error) {
+                console.error('Migration Upsert Error:', error);
+                throw error;
+            }
+
+            // Delete from KV after successful migration
+            await KV.del(`partner:${id}`);
+
+            return json({ ...body, id: data.id, createdAt: data.created_at, migratedFrom: id });
+        }
+    }),
+
+    // DELETE /partners/:id
+    route('DELETE', '/partners/:id', async ({ params }) => {
+        const { id } = params;
+        const supabase = getSupabaseClient();
+
+        if (isUUID(id)) {
+            await supabase.from('partners').delete().eq('id', id);
+        }
+        await KV.del(`partner:${id}`); // Also delete from KV if it was there
+
+        return json({ success: true });
+    }),
+
+    // POST /partners/:id/upload-logo
+    route('POST', '/partners/:id/upload-logo', async ({ req, params }) => {
+        const { id } = params;
+        const formData = await req.formData();
+        const file = formData.get('file');
+
+        if (!file) {
+            return json({ error: 'No file uploaded' }, 400);
+        }
+
+        const supabase = getSupabaseClient();
+        await ensureBucket('partner-assets');
+
+        const fileName = `${id}/logo-${Date.now()}`;
+        const { data, error } = await supabase.storage
+            .from('partner-assets')
+            .upload(fileName, file, {
+                contentType: (file as File).type,
+                upsert: true
+            });
+
+        if (error) {
+            throw new Error(`Upload error: ${error.message}`);
+        }
+
+        const { data: { publicUrl } } = supabase.storage
+            .from('partner-assets')
+            .getPublicUrl(fileName);
+
+        // Update partner record if it's a UUID
+        if (isUUID(id)) {
+            const { error: dbError } = await supabase
+                .from('partners')
+                .update({ logo_url: publicUrl })
+                .eq('id', id);
+
+            if (dbError) {
+                console.error('Logo DB update error:', dbError);
+            }
+        }
+
+        // Always check KV for legacy compatibility
+        const partner = await KV.get(`partner:${id}`);
+        if (partner) {
+            partner.logoUrl = publicUrl;
+            await KV.set(`partner:${id}`, partner);
+        }
+
+        return json({ url: publicUrl });
+    }),
+
+    // POST /partners/:id/upload-pdf
+    route('POST', '/partners/:id/upload-pdf', async ({ req, params }) => {
+        const { id } = params;
+        const formData = await req.formData();
+        const file = formData.get('file');
+
+        if (!file) {
+            return json({ error: 'No file uploaded' }, 400);
+        }
+
+        const supabase = getSupabaseClient();
+        await ensureBucket('partner-assets');
+
+        const fileName = `${id}/pdf-${Date.now()}`;
+        const { data, error } = await supabase.storage
+            .from('partner-assets')
+            .upload(fileName, file, {
+                contentType: (file as File).type,
+                upsert: true
+            });
+
+        if (error) {
+            throw new Error(`Upload error: ${error.message}`);
+        }
+
+        const { data: { publicUrl } } = supabase.storage
+            .from('partner-assets')
+            .getPublicUrl(fileName);
+
+        // Update partner record if it's a UUID
+        if (isUUID(id)) {
+            const { error: dbError } = await supabase
+                .from('partners')
+                .update({ pdf_url: publicUrl })
+                .eq('id', id);
+
+            if (dbError) {
+                console.error('PDF DB update error:', dbError);
+            }
+        }
+
+        // Always check KV for legacy compatibility
+        const partner = await KV.get(`partner:${id}`);
+        if (partner) {
+            partner.pdfUrl = publicUrl;
+            await KV.set(`partner:${id}`, partner);
+        }
+
+        return json({ url: publicUrl });
+    }),
+
+    // POST /import-partner-pdf
+    route('POST', '/import-partner-pdf', async ({ req }) => {
+        console.log('=== PDF IMPORT ENDPOINT HIT ===');
+
+        try {
+            const formData = await req.formData();
+            const file = formData.get('file');
+
+            if (!file || !(file instanceof File)) {
+                return json({ error: 'No PDF file uploaded' }, 400);
+            }
+
+            console.log('Processing file:', file.name, file.size);
+
+            const result = await importPartnerFromPdf({
+                data: new Uint8Array(await file.arrayBuffer()),
+                name: file.name,
+                contentType: file.type
+            });
+
+            return json(result);
+        } catch (error: any) {
+            console.error('Import error:', error);
+            return json({ error: error?.message || 'Import failed' }, 500);
+        }
+    }),
+];
@@ -0,0 +1,241 @@
+import { route, type Route } from '../router.ts';
+import { corsHeaders, json } from '../http.ts';
+import { getLLM, getSupabaseClient } from '../clients.ts';
+import { saveToSupabase } from '../proposal_sync.ts';
+import * as KV from '../kv_store.ts';
+import { aiEditProposal } from '../ai_editor.ts';
+import { renderProposalPdf } from '../pdf_renderer.ts';
+import { importProposalDocx } from '../proposal_import.ts';
+import { setSectionValue } from '../../_shared/proposal_sections.ts';
+import { recordProposalVersion } from '../../_shared/proposal_versions.ts';
+
+export const proposalRoutes: Route[] = [
+    // GET /proposals - List all
+    route('GET', '/proposals', async () => {
+        const proposals = await KV.getByPrefix('proposal-');
+        return json({
+            proposals: proposals.sort((a: any, b: any) =>
+                new Date(b.savedAt || b.generatedAt).getTime() - new Date(a.savedAt || a.generatedAt).getTime()
+            )
+        });
+    }),
+
+    // GET /proposals/:id - Get single (Enhanced for Relational Loading)
+    route('GET', '/proposals/:id', async ({ params }) => {
+        const { id } = params;
+        let proposal = await KV.get(id);
+
+        // Hybrid Load: Try Relational DB first for the most up-to-date structured data
+        try {
+            const supabase = getSupabaseClient();
+            const { data: dbProp, error: dbError } = await supabase.from('proposals').select(`
+                *,
+                sections:proposal_sections(*),
+                rel_partners:proposal_partners(*),
+                rel_work_packages:proposal_work_packages(*),
+                rel_budget:proposal_budget_items(*),
+                rel_risks:proposal_risks(*),
+                fundingScheme:funding_schemes(*)
+            `).eq('id', id).single();
+
+            if (dbProp && !dbError) {
+                console.log(`💎 Loaded relational data for ${id}`);
+                // Reconstruct the proposal object
+                const dynamic_sections: any = {};
+                dbProp.sections?.forEach((s: any) => {
+                    dynamic_sections[s.section_key] = s.content;
+                });
+
+                proposal = {
+                    ...proposal,
+                    ...dbProp,
+                    dynamicSections: dynamic_sections,
+                    dynamic_sections: dynamic_sections,
+                    partners: dbProp.rel_partners?.map((p: any) => ({
+                        id: p.partner_id,
+                        name: p.name,
+                        role: p.role,
+                        isCoordinator: p.is_coordinator,
+                        description: p.description
+                    })) || dbProp.partners,
+                    workPackages: dbProp.rel_work_packages?.map((w: any) => ({
+                        name: w.name,
+                        description: w.description,
+                        duration: w.duration,
+                        activities: w.activities
+                    })) || dbProp.work_packages,
+                    budget: dbProp.rel_budget?.map((b: any) => ({
+                        category: b.item_category,
+                        description: b.description,
+                        cost: b.cost,
+                        subItems: b.breakdown
+                    })) || dbProp.budget
+                };
+            }
+        } catch (err) {
+            console.error('Relational Load Error (Falling back to KV/JSONB):', err);
+        }
+
+        if (!proposal) {
+            return json({ error: 'Proposal not found' }, 404);
+        }
+
+        return json(proposal);
+    }),
+
+    // POST /proposals - Create/save
+    route('POST', '/proposals', async ({ req }) => {
+        const body = await req.json();
+        const id = body.id || `proposal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+        const proposal = {
+            ...body,
+            id,
+            savedAt: body.savedAt || new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        };
+
+        const previous = await KV.get(id);
+        await KV.set(id, proposal);
+        await saveToSupabase(proposal);
+        await recordProposalVersion(getSupabaseClient(), proposal, { source: 'manual', description: 'Saved proposal', previous });
+
+        return json(proposal);
+    }),
+
+    // POST /proposals/import-docx - Read a Word proposal (multipart: file, fundingSchemeId?) for review.
+    // Nothing is saved: the client creates the proposal with POST /proposals once the mapping is confirmed.
+    route('POST', '/proposals/import-docx', async ({ req }) => {
+        const formData = await req.formData();
+        const file = formData.get('file');
+        if (!file || !(file instanceof File)) {
+            return json({ error: 'No DOCX file uploaded' }, 400);
+        }
+
+        const schemeId = formData.get('fundingSchemeId');
+        let fundingScheme = null;
+        if (typeof schemeId === 'string' && schemeId) {
+            const { data } = await getSupabaseClient().from('funding_schemes').select('*').eq('id', schemeId).single();
+            fundingScheme = data;
+        }
+
+        const result = await importProposalDocx(new Uint8Array(await file.arrayBuffer()), file.name, fundingScheme);
+        return json(result);
+    }),
+
+    // PUT /proposals/:id - Update
+    route('PUT', '/proposals/:id', async ({ req, params }) => {
+        const { id } = params;
+        const existing = await KV.get(id);
+
+        if (!existing) {
+            return json({ error: 'Proposal not found' }, 404);
+        }
+
+        const updates = await req.json();
+        const updated = {
+            ...existing,
+            ...updates,
+            updatedAt: new Date().toISOString(),
+        };
+
+        await KV.set(id, updated);
+        await saveToSupabase(updated);
+        // The viewer sends the whole proposal, so describe the save by what actually differs
+        const changed = Object.keys(updates).filter(key =>
+            key !== 'updatedAt' && JSON.stringify(updates[key]) !== JSON.stringify(existing[key])
+        );
+        // A save that changes nothing (e.g. the sync before an export) adds no version
+        if (changed.length > 0) {
+            await recordProposalVersion(getSupabaseClient(), updated, {
+                source: 'manual',
+                description: `Edited ${changed.join(', ')}`,
+                section: changed.length === 1 ? changed[0] : null,
+                previous: existing,
+            });
+        }
+
+        return json(updated);
+    }),
+
+    // DELETE /proposals/:id
+    route('DELETE', '/proposals/:id', async ({ params }) => {
+        await KV.del(params.id);
+        await getSupabaseClient().from('proposal_versions').delete().eq('proposal_id', params.id);
+
+        return json({ success: true });
+    }),
+
+    // POST /proposals/:id/pdf - Render the document assembled by the client: { document } -> application/pdf
+    route('POST', '/proposals/:id/pdf', async ({ req, params }) => {
+        const { document } = await req.json();
+        if (!document?.blocks?.length) {
+            return json({ error: 'Document is empty' }, 400);
+        }
+
+        const bytes = await renderProposalPdf(document);
+        const fileName = `${String(document.title || params.id).replace(/[^a-z0-9]/gi, '_')}_EU_Proposal.pdf`;
+        // pdf-lib types its output over ArrayBufferLike, which is not a BodyInit; the copy is backed by an ArrayBuffer
+        return new Response(new Blob([new Uint8Array(bytes)]), {
+            headers: {
+                ...corsHeaders,
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+            },
+        });
+    }),
+
+    // POST /proposals/:id/ai-edit - Propose an AI edit: { instruction, sectionId? } -> change set.
+    // Nothing is saved until the reviewed result is sent to /ai-edit/apply.
+    route('POST', '/proposals/:id/ai-edit', async ({ req, params }) => {
+        const { instruction, sectionId } = await req.json();
+
+        const proposal = await KV.get(params.id);
+        if (!proposal) {
+            return json({ error: 'Proposal not found' }, 404);
+        }
+
+        // The stored proposal only has the scheme's id; its budget model decides how the edit is rebalanced
+        const schemeId = proposal.funding_scheme_id || proposal.fundingSchemeId;
+        let fundingScheme = proposal.fundingScheme || null;
+        if (!fundingScheme && schemeId) {
+            const { data } = await getSupabaseClient().from('funding_schemes').select('*').eq('id', schemeId).single();
+            fundingScheme = data;
+        }
+
+        const changeSet = await aiEditProposal(getLLM(), proposal, instruction, sectionId, fundingScheme);
+        return json(changeSet);
+    }),
+
+    // POST /proposals/:id/ai-edit/apply - Save reviewed AI changes: { instruction, changes: [{ section, content }] }
+    route('POST', '/proposals/:id/ai-edit/apply', async ({ req, params }) => {
+        const { id } = params;
+        const { instruction, changes } = await req.json();
+        if (!Array.isArray(changes) || changes.length === 0) {
+            return json({ error: 'No changes to apply' }, 400);
+        }
+
+        const proposal = await KV.get(id);
+        if (!proposal) {
+            return json({ error: 'Proposal not found' }, 404);
+        }
+
+        // Keep the stored state for the history's "initial" version
+        const previous = structuredClone(proposal);
+        for (const change of changes) {
+            setSectionValue(proposal, change.section, change.content);
+        }
+
+        proposal.updatedAt = new Date().toISOString();
+        await KV.set(id, proposal);
+        await saveToSupabase(proposal);
+        await recordProposalVersion(getSupabaseClient(), proposal, {
+            source: 'ai-edit',
+            description: instruction,
+            section: changes.length === 1 ? changes[0].section : null,
+            previous,
+        });
+
+        return json({ proposal, editedSections: changes.map((c: any) => c.section) });
+    }),
+];
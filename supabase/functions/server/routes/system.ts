@@ -0,0 +1,50 @@
+import { route, type Route } from '../router.ts';
+import { json } from '../http.ts';
+import { getLLM } from '../clients.ts';
+
+export const systemRoutes: Route[] = [
+    // API root
+    route('GET', '/', async ({ path }) => {
+        return json({ status: 'ok', message: 'AI Proposal Generator API v2', path });
+    }),
+
+    // HEALTH CHECK
+    route('GET', '/health', async () => {
+        return json({
+            status: 'ok',
+            time: new Date().toISOString(),
+            has_key: !!Deno.env.get('GEMINI_API_KEY'),
+            project: 'swvvyxuozwqvyaberqvu'
+        });
+    }),
+
+    // Diagnostic endpoint
+    route('GET', '/test-ai', async () => {
+        try {
+            const llm = getLLM();
+            const message = await llm.generateText('Say hello');
+            return json({
+                success: true,
+                provider: llm.name,
+                message,
+                apiKeyPrefix: Deno.env.get('GEMINI_API_KEY')?.substring(0, 8)
+            });
+        } catch (error: any) {
+            return json({
+                success: false,
+                error: error.message,
+                details: error.toString(),
+                apiKeyPrefix: Deno.env.get('GEMINI_API_KEY')?.substring(0, 8)
+            }, 500);
+        }
+    }),
+
+    // SEED ENDPOINTS (stubs)
+    route('POST', '/seed-sources-simple', async () => {
+        return json({ message: 'Seeded' });
+    }),
+
+    route('POST', '/seed-partner-search-sources', async () => {
+        return json({ message: 'Seeded' });
+    }),
+];
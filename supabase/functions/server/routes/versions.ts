@@ -0,0 +1,87 @@
+import { route, type Route } from '../router.ts';
+import { json } from '../http.ts';
+import { getSupabaseClient } from '../clients.ts';
+import { saveToSupabase } from '../proposal_sync.ts';
+import * as KV from '../kv_store.ts';
+import { getProposalVersion, listProposalVersions, recordProposalVersion } from '../../_shared/proposal_versions.ts';
+
+// Copies one section from a snapshot: a top-level field (budget, workPackages, summary...) or a
+// template section stored in dynamic_sections.
+const restoreSection = (current: any, snapshot: any, section: string) => {
+    const snapshotSections = snapshot.dynamic_sections || snapshot.dynamicSections || {};
+    if (!(section in snapshot) && section in snapshotSections) {
+        const dynamicSections = { ...(current.dynamic_sections || current.dynamicSections || {}), [section]: snapshotSections[section] };
+        return { ...current, dynamic_sections: dynamicSections, dynamicSections };
+    }
+    if (!(section in snapshot)) return null;
+    return { ...current, [section]: snapshot[section] };
+};
+
+// Version numbers start at 1; anything else would reach PostgREST as an invalid integer
+const parseVersion = (value: string) => {
+    const version = Number(value);
+    return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+export const versionRoutes: Route[] = [
+    // GET /proposals/:id/versions - History, newest first (without snapshots)
+    route('GET', '/proposals/:id/versions', async ({ params }) => {
+        return json({ versions: await listProposalVersions(getSupabaseClient(), params.id) });
+    }),
+
+    // GET /proposals/:id/versions/:version - One version with its snapshot
+    route('GET', '/proposals/:id/versions/:version', async ({ params }) => {
+        const number = parseVersion(params.version);
+        if (number === null) {
+            return json({ error: 'Invalid version' }, 400);
+        }
+        const version = await getProposalVersion(getSupabaseClient(), params.id, number);
+        if (!version) {
+            return json({ error: 'Version not found' }, 404);
+        }
+        return json(version);
+    }),
+
+    // POST /proposals/:id/versions/:version/restore - Restore the whole proposal, or { section } only.
+    // The restored state is saved as a new version, so a restore can itself be undone.
+    route('POST', '/proposals/:id/versions/:version/restore', async ({ req, params }) => {
+        const { id } = params;
+        const number = parseVersion(params.version);
+        if (number === null) {
+            return json({ error: 'Invalid version' }, 400);
+        }
+        const { section } = await req.json().catch(() => ({}));
+        const supabase = getSupabaseClient();
+
+        const version = await getProposalVersion(supabase, id, number);
+        if (!version) {
+            return json({ error: 'Version not found' }, 404);
+        }
+        const current = await KV.get(id);
+
+        let restored: any;
+        if (section) {
+            if (!current) {
+                return json({ error: 'Proposal not found' }, 404);
+            }
+            restored = restoreSection(current, version.snapshot, section);
+            if (!restored) {
+                return json({ error: `Section "${section}" does not exist in version ${version.version}` }, 400);
+            }
+        } else {
+            restored = { ...version.snapshot, id };
+        }
+        restored.updatedAt = new Date().toISOString();
+
+        await KV.set(id, restored);
+        await saveToSupabase(restored);
+        const saved = await recordProposalVersion(supabase, restored, {
+            source: 'restore',
+            description: section ? `Restored "${section}" from version ${version.version}` : `Restored version ${version.version}`,
+            section: section || null,
+            previous: current,
+        });
+
+        return json({ proposal: restored, version: saved });
+    }),
+];
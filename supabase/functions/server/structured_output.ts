@@ -0,0 +1,153 @@
+// Generate JSON with the LLM, validate it against a runtime schema and re-prompt
+// only for the fields that came back missing or invalid.
+
+import { extractJSON, type GenerateOptions, type LLMProvider } from '../_shared/llm/index.ts';
+import { validate, type Schema, type SchemaIssue } from '../_shared/schema.ts';
+
+export interface StructuredReport {
+    valid: boolean;
+    rounds: number;
+    repaired: string[];
+    failed: string[];
+    issues: SchemaIssue[];
+}
+
+export interface StructuredOptions extends GenerateOptions {
+    maxRepairRounds?: number;
+    // Merged under the parsed response, e.g. { dynamicSections: {} } so missing
+    // sections are re-prompted one key at a time instead of as one large field
+    defaults?: Record<string, any>;
+}
+
+// Record fields whose entries are repaired one key at a time
+const KEYED_FIELDS = ['dynamicSections'];
+
+/**
+ * Maps an issue path to the smallest part of the document that can be regenerated on its own:
+ * a top-level field, one array item (`workPackages[1]`) or one keyed entry (`dynamicSections.impact`).
+ */
+const repairTarget = (path: string): string => {
+    const match = path.match(/^([^.[]+)(?:\[(\d+)\]|\.([^.[]+))?/);
+    if (!match) return path;
+    const [, field, index, key] = match;
+    if (index !== undefined) return `${field}[${index}]`;
+    if (key !== undefined && KEYED_FIELDS.includes(field)) return `${field}.${key}`;
+    return field;
+};
+
+const parseTarget = (target: string) => {
+    const match = target.match(/^([^.[]+)(?:\[(\d+)\]|\.(.+))?$/)!;
+    return { field: match[1], index: match[2] !== undefined ? Number(match[2]) : undefined, key: match[3] };
+};
+
+const readTarget = (doc: any, target: string) => {
+    const { field, index, key } = parseTarget(target);
+    if (index !== undefined) return doc[field]?.[index];
+    if (key !== undefined) return doc[field]?.[key];
+    return doc[field];
+};
+
+const writeTarget = (doc: any, target: string, value: any) => {
+    const { field, index, key } = parseTarget(target);
+    if (index !== undefined) {
+        if (!Array.isArray(doc[field])) doc[field] = [];
+        doc[field][index] = value;
+    } else if (key !== undefined) {
+        if (!doc[field] || typeof doc[field] !== 'object') doc[field] = {};
+        doc[field][key] = value;
+    } else {
+        doc[field] = value;
+    }
+};
+
+const groupIssues = (issues: SchemaIssue[]) => {
+    const groups = new Map<string, SchemaIssue[]>();
+    for (const issue of issues) {
+        const target = repairTarget(issue.path);
+        groups.set(target, [...(groups.get(target) || []), issue]);
+    }
+    // A whole-field repair already covers its items and keys
+    for (const target of groups.keys()) {
+        const { field, index, key } = parseTarget(target);
+        if ((index !== undefined || key !== undefined) && groups.has(field)) groups.delete(target);
+    }
+    return groups;
+};
+
+const buildRepairPrompt = (prompt: string, target: string, issues: SchemaIssue[], current: any) => `${prompt}
+
+### REPAIR REQUEST
+Your previous answer for "${target}" was missing or invalid:
+${issues.map(i => `- ${i.path || '(root)'}: ${i.message}`).join('\n')}
+
+Current value of "${target}":
+${current === undefined ? '(missing)' : JSON.stringify(current, null, 2)}
+
+Return ONLY a JSON object of the form { "value": ... } where "value" is the complete, corrected "${target}"
+following the structure requested above. Do not return the rest of the document.`;
+
+export async function generateStructured<T = any>(
+    llm: LLMProvider,
+    prompt: string,
+    schema: Schema,
+    options: StructuredOptions = {}
+): Promise<{ value: T; report: StructuredReport }> {
+    const { maxRepairRounds = 2, defaults = {}, ...generateOptions } = options;
+
+    const text = await llm.generateText(prompt, generateOptions);
+    if (!text) throw new Error('AI returned an empty response.');
+
+    let parsed: any;
+    try {
+        parsed = extractJSON(text);
+    } catch (e: any) {
+        // Usually a truncated response: every field is reported missing and regenerated separately
+        console.error(`⚠️ [STRUCTURED] Response is not valid JSON (${text.length} chars): ${e.message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) parsed = {};
+
+    let result = validate<T>(schema, { ...defaults, ...parsed });
+    const repaired = new Set<string>();
+    const failed = new Set<string>();
+    let rounds = 0;
+
+    while (result.issues.length > 0 && rounds < maxRepairRounds) {
+        rounds++;
+        const groups = groupIssues(result.issues);
+        console.log(`🔧 [STRUCTURED] Repair round ${rounds}: ${[...groups.keys()].join(', ')}`);
+
+        const doc: any = result.value;
+        await Promise.all([...groups.entries()].map(async ([target, issues]) => {
+            try {
+                const response = await llm.generateJSON(
+                    buildRepairPrompt(prompt, target, issues, readTarget(doc, target)),
+                    generateOptions
+                );
+                if (response?.value === undefined) throw new Error('response has no "value"');
+                writeTarget(doc, target, response.value);
+                repaired.add(target);
+            } catch (e: any) {
+                console.error(`❌ [STRUCTURED] Repair of ${target} failed: ${e.message}`);
+                failed.add(target);
+            }
+        }));
+
+        result = validate<T>(schema, doc);
+    }
+
+    // Only targets that are still invalid count as failed
+    const remaining = new Set(result.issues.map(i => repairTarget(i.path)));
+    const report: StructuredReport = {
+        valid: result.issues.length === 0,
+        rounds,
+        repaired: [...repaired].filter(t => !remaining.has(t)),
+        failed: [...new Set([...failed, ...remaining])],
+        issues: result.issues,
+    };
+
+    if (!report.valid) {
+        console.warn(`⚠️ [STRUCTURED] ${result.issues.length} issue(s) left after ${rounds} repair round(s):`, result.issues);
+    }
+
+    return { value: result.value, report };
+}
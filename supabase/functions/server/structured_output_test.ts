@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { FakeProvider } from '../_shared/llm/index.ts';
+import { number, object, string } from '../_shared/schema.ts';
+import { generateStructured } from './structured_output.ts';
+
+const schema = object({ title: string({ min: 1 }), budget: number() });
+
+Deno.test('generateStructured returns a valid response without repair rounds', async () => {
+    const llm = new FakeProvider({ fixtures: [{ match: 'TASK: TEST', response: { title: 'GreenSkills Lab', budget: '250000' } }] });
+
+    const { value, report } = await generateStructured<any>(llm, 'TASK: TEST', schema);
+
+    assert.deepEqual(value, { title: 'GreenSkills Lab', budget: 250000 });
+    assert.equal(report.valid, true);
+    assert.equal(report.rounds, 0);
+    assert.equal(llm.calls.length, 1);
+});
+
+Deno.test('generateStructured re-prompts only for the missing field', async () => {
+    const llm = new FakeProvider({
+        fixtures: [
+            { match: 'REPAIR REQUEST', response: { value: 120000 } },
+            { match: 'TASK: TEST', response: { title: 'GreenSkills Lab' } },
+        ],
+    });
+
+    const { value, report } = await generateStructured<any>(llm, 'TASK: TEST', schema);
+
+    assert.equal(value.budget, 120000);
+    assert.deepEqual(report.repaired, ['budget']);
+    assert.equal(report.valid, true);
+    assert.equal(llm.calls.length, 2);
+    assert.match(llm.calls[1].prompt, /Your previous answer for "budget"/);
+});
+
+Deno.test('generateStructured repairs placeholder text in a number field', async () => {
+    for (const placeholder of ['TBD', 'N/A', '-']) {
+        const llm = new FakeProvider({
+            fixtures: [
+                { match: 'REPAIR REQUEST', response: { value: '€120,000' } },
+                { match: 'TASK: TEST', response: { title: 'GreenSkills Lab', budget: placeholder } },
+            ],
+        });
+
+        const { value, report } = await generateStructured<any>(llm, 'TASK: TEST', schema);
+
+        assert.equal(value.budget, 120000, placeholder);
+        assert.deepEqual(report.repaired, ['budget']);
+    }
+});
+
+Deno.test('generateStructured reports fields it could not repair', async () => {
+    const llm = new FakeProvider({
+        fixtures: [
+            { match: 'REPAIR REQUEST', response: { value: null } },
+            { match: 'TASK: TEST', response: 'not json at all' },
+        ],
+    });
+
+    const { report } = await generateStructured<any>(llm, 'TASK: TEST', schema, { maxRepairRounds: 1 });
+
+    assert.equal(report.valid, false);
+    assert.equal(report.rounds, 1);
+    assert.deepEqual([...report.failed].sort(), ['budget', 'title']);
+});
@@ -0,0 +1,7 @@
+// Small parsing helpers shared by the server routes
+
+export { extractJSON } from '../_shared/llm/index.ts';
+
+export const isUUID = (str: string) => {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(str);
+};
@@ -0,0 +1,60 @@
+-- Background jobs for long-running AI operations (proposal generation, partner PDF import,
+-- knowledge indexing, template parsing). Rows are written by the server edge function and
+-- polled by the UI through GET /server/jobs/:id.
+
+CREATE TABLE IF NOT EXISTS public.jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    result JSONB,
+    error TEXT,
+    progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+    progress_message TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    cancel_requested BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_created ON public.jobs(status, created_at);
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients (polling / realtime); all writes go through the service role
+CREATE POLICY "Allow public read access" ON public.jobs FOR SELECT USING (true);
+
+CREATE TRIGGER update_jobs_updated_at
+BEFORE UPDATE ON public.jobs
+FOR EACH ROW
+EXECUTE PROCEDURE public.update_updated_at_column();
+
+-- Atomically hands the oldest queued job to a worker. A running job whose worker stopped
+-- reporting progress for 10 minutes (edge function killed) is picked up again until it
+-- runs out of attempts.
+CREATE OR REPLACE FUNCTION public.claim_next_job()
+RETURNS SETOF public.jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        started_at = NOW(),
+        error = NULL
+    WHERE id = (
+        SELECT id FROM public.jobs
+        WHERE NOT cancel_requested
+          AND attempts < max_attempts
+          AND (status = 'queued' OR (status = 'running' AND updated_at < NOW() - INTERVAL '10 minutes'))
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
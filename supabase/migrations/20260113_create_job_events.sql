@@ -0,0 +1,16 @@
+-- Ordered event log per job (generation phases, finished sections), streamed to the UI
+-- by GET /server/jobs/:id/events. The BIGSERIAL id doubles as the SSE event id.
+
+CREATE TABLE IF NOT EXISTS public.job_events (
+    id BIGSERIAL PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_events_job_id ON public.job_events(job_id, id);
+
+ALTER TABLE public.job_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access" ON public.job_events FOR SELECT USING (true);
@@ -0,0 +1,34 @@
+-- Immutable proposal history. Every save (manual edit, AI edit, copilot action, generation,
+-- restore) appends a full snapshot of the proposal as it was stored in the KV store.
+-- proposal_id is the KV key (e.g. "proposal-1736...") so it is TEXT and has no foreign key.
+
+CREATE TABLE IF NOT EXISTS public.proposal_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('initial', 'generation', 'manual', 'ai-edit', 'copilot', 'restore')),
+    description TEXT, -- AI edit instruction, copilot message, or what a manual save touched
+    section TEXT, -- Section the change was limited to, if any
+    snapshot JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(proposal_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_versions_proposal ON public.proposal_versions(proposal_id, version DESC);
+
+ALTER TABLE public.proposal_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access" ON public.proposal_versions FOR SELECT USING (true);
+
+-- Versions are append-only, even for the service role
+CREATE OR REPLACE FUNCTION public.prevent_proposal_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'proposal_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER proposal_versions_immutable
+BEFORE UPDATE ON public.proposal_versions
+FOR EACH ROW
+EXECUTE PROCEDURE public.prevent_proposal_version_update();
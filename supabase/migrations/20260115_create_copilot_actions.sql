@@ -0,0 +1,21 @@
+-- Changes made by the proposal copilot, with the value each one replaced, so the chat can undo
+-- a single action later (proposal-copilot function, { undoActionId }).
+
+CREATE TABLE IF NOT EXISTS public.copilot_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id TEXT NOT NULL, -- KV key of the proposal
+    type TEXT NOT NULL DEFAULT 'update_section',
+    section TEXT NOT NULL,
+    previous_value JSONB,
+    new_value JSONB,
+    message TEXT, -- The user message that triggered the action
+    explanation TEXT,
+    undone_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_copilot_actions_proposal ON public.copilot_actions(proposal_id, created_at DESC);
+
+ALTER TABLE public.copilot_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access" ON public.copilot_actions FOR SELECT USING (true);
@@ -0,0 +1,17 @@
+-- Copilot actions are now made of tool calls that can touch several sections at once.
+-- `changes` holds [{ section, previous_value, new_value }] for every touched section;
+-- the single-section columns are kept for rows written before this migration.
+
+ALTER TABLE public.copilot_actions
+    ADD COLUMN IF NOT EXISTS changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS tool_calls JSONB;
+
+ALTER TABLE public.copilot_actions ALTER COLUMN section DROP NOT NULL;
+
+UPDATE public.copilot_actions
+SET changes = jsonb_build_array(jsonb_build_object(
+    'section', section,
+    'previous_value', previous_value,
+    'new_value', new_value
+))
+WHERE changes = '[]'::jsonb AND section IS NOT NULL;
@@ -0,0 +1,22 @@
+-- Lump-sum budget model for the Erasmus+ small-scale (KA210) and cooperation (KA220) partnerships.
+-- Stored in template_json.budget; the proposal viewer splits the chosen amount per work package and partner.
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{budget}',
+        '{"model": "lump-sum", "lumpSum": {"amounts": [30000, 60000]}}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%KA210%'
+  AND (template_json -> 'budget') IS NULL;
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{budget}',
+        '{"model": "lump-sum", "lumpSum": {"amounts": [120000, 250000, 400000], "managementMaxShare": 20, "maxWorkPackages": 5}}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%KA220%'
+  AND (template_json -> 'budget') IS NULL;
@@ -0,0 +1,23 @@
+-- Actual-cost budget model for Horizon Europe schemes: 25% flat-rate indirect costs, 100% funding
+-- (Innovation Actions: 70% for profit organisations). Stored in template_json.budget.
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{budget}',
+        '{"model": "actual-cost", "actualCost": {"indirectRate": 25, "fundingRate": 100, "forProfitFundingRate": 70}}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%Horizon%'
+  AND (name ~ '\mIA\M' OR name ILIKE '%Innovation Action%')
+  AND (template_json -> 'budget') IS NULL;
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{budget}',
+        '{"model": "actual-cost", "actualCost": {"indirectRate": 25, "fundingRate": 100}}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%Horizon%'
+  AND (template_json -> 'budget') IS NULL;
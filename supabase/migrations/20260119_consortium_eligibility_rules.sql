@@ -0,0 +1,34 @@
+-- Consortium eligibility rules (template_json.eligibility) for the Erasmus+ partnerships and Horizon Europe
+-- collaborative actions. Countries are ISO 3166 alpha-2 codes: Erasmus+ programme countries, and the Horizon
+-- Europe member and associated countries. Checked before generation and in the proposal viewer.
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{eligibility}',
+        '{"minPartners": 2, "minCountries": 2, "eligibleCountries": ["AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE", "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE", "IS", "LI", "NO", "MK", "RS", "TR"], "coordinatorInEligibleCountry": true}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%KA210%'
+  AND (template_json -> 'eligibility') IS NULL;
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{eligibility}',
+        '{"minPartners": 3, "minCountries": 3, "eligibleCountries": ["AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE", "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE", "IS", "LI", "NO", "MK", "RS", "TR"], "coordinatorInEligibleCountry": true}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%KA220%'
+  AND (template_json -> 'eligibility') IS NULL;
+
+UPDATE public.funding_schemes
+SET template_json = jsonb_set(
+        template_json,
+        '{eligibility}',
+        '{"minPartners": 3, "minCountries": 3, "eligibleCountries": ["AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE", "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE", "AL", "AM", "BA", "CA", "CH", "FO", "GE", "GB", "IL", "IS", "KR", "MD", "ME", "MK", "NO", "NZ", "RS", "TN", "TR", "UA", "XK"]}'::jsonb
+    ),
+    updated_at = NOW()
+WHERE name ILIKE '%Horizon%'
+  AND (name ~ '\mRIA\M' OR name ~ '\mIA\M' OR name ILIKE '%Research and Innovation Action%' OR name ILIKE '%Innovation Action%')
+  AND (template_json -> 'eligibility') IS NULL;
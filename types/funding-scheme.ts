@@ -27,6 +27,90 @@ export interface FundingSchemeTemplate {
         estimatedDuration?: string; // Estimated time to complete (e.g., "3-4 hours")
         evaluationCriteria?: string; // Evaluation scoring breakdown (e.g., "Excellence 50%, Impact 30%")
     };
+    budget?: FundingSchemeBudget; // How proposals under this scheme are budgeted (free-form when absent)
+    eligibility?: EligibilityRules; // Consortium requirements checked before generation and in the viewer
+    officialDocx?: OfficialDocxTemplate; // Official Part B template the DOCX export fills instead of its own layout
+}
+
+/**
+ * Official application template (e.g. the Commission's Part B DOCX) stored in the funding-templates bucket.
+ * Export keeps the file's styles, headers and footers and injects proposal content at the mapped anchors.
+ */
+export interface OfficialDocxTemplate {
+    path: string; // Object path in the funding-templates bucket
+    fileName: string;
+    anchors: DocxTemplateAnchor[];
+    instructions?: InstructionRules;
+}
+
+/**
+ * A heading or placeholder paragraph of the template. Content goes below a heading and replaces a placeholder.
+ */
+export interface DocxTemplateAnchor {
+    index: number; // Position among the top-level paragraphs of word/document.xml
+    text: string;
+    kind: 'heading' | 'placeholder';
+    level?: number; // Heading level from the paragraph style or outline level
+    sectionKey?: string | null; // FundingSchemeSection.key, or one of the structured targets ("@partners", "@budget", ...)
+}
+
+// Guidance of the template removed on export; a paragraph or table is removed when any rule matches
+export interface InstructionRules {
+    italic?: boolean; // All text italic (the Commission's guidance style)
+    styles?: string[]; // Paragraph style ids, e.g. "Instructions"
+    patterns?: string[]; // Regular expressions matched against the text, e.g. "^#@.*@#$"
+}
+
+/**
+ * Consortium eligibility of a scheme (e.g. KA220: 3 organisations from 3 programme countries;
+ * Horizon RIA: 3 independent legal entities from 3 member or associated states).
+ * Unset fields are not checked.
+ */
+export interface EligibilityRules {
+    minPartners?: number | null; // Distinct organisations, the coordinator included
+    minCountries?: number | null; // Distinct eligible countries
+    eligibleCountries?: string[]; // ISO 3166 alpha-2 codes; partners elsewhere do not count towards minCountries
+    allowedOrganizationTypes?: string[]; // Values of ORGANIZATION_TYPES (types/partner.ts)
+    coordinatorOrganizationTypes?: string[];
+    coordinatorInEligibleCountry?: boolean;
+}
+
+export type BudgetModel = 'free-form' | 'lump-sum' | 'actual-cost';
+
+/**
+ * Rules of a lump-sum scheme (e.g. Erasmus+ KA210: 30k/60k, KA220: 120k/250k/400k).
+ * The applicant picks one amount and splits it over work packages and partners.
+ */
+export interface LumpSumRules {
+    amounts: number[]; // Lump sums the applicant can choose from
+    managementMaxShare?: number | null; // Max % of the lump sum for the project management work package
+    maxWorkPackages?: number | null; // Including project management
+    minPartnerShare?: number | null; // Min % of the lump sum each partner must receive
+}
+
+/**
+ * Rules of an actual-cost scheme (Horizon Europe RIA/IA): costs are declared per partner and
+ * indirect costs are a flat rate on the direct costs except subcontracting and financial support.
+ */
+export interface ActualCostRules {
+    indirectRate: number; // % flat rate, 25 in Horizon Europe
+    fundingRate: number; // % of eligible costs reimbursed (RIA: 100, IA: 100 for non-profits)
+    forProfitFundingRate?: number | null; // IA: 70
+}
+
+// Allowed % of the total budget (both ends optional)
+export interface ShareBounds {
+    min?: number | null;
+    max?: number | null;
+}
+
+export interface FundingSchemeBudget {
+    model: BudgetModel;
+    lumpSum?: LumpSumRules;
+    actualCost?: ActualCostRules;
+    coFinancingRate?: number | null; // % paid by the EU in the free-form and lump-sum models (100 when absent)
+    coordinatorShare?: ShareBounds;
+    partnerShare?: ShareBounds; // Applies to every partner, the coordinator included
 }
 
 export interface FundingScheme {
@@ -0,0 +1,30 @@
+// Background job type definitions (server: supabase/functions/server/jobs.ts)
+
+export type JobType = 'generate-proposal' | 'import-partner-pdf' | 'index-knowledge' | 'parse-funding-template';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<TResult = any> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: any;
+  result?: TResult | null;
+  error?: string | null;
+  progress: number; // 0-100
+  progressMessage?: string | null;
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested: boolean;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+}
+
+// Entry of a job's event log, streamed by GET /jobs/:id/events
+export interface JobEvent<TData = any> {
+  id: number;
+  type: string;
+  data: TData;
+}
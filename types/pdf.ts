@@ -0,0 +1,24 @@
+// Layout-neutral proposal document sent to the PDF renderer (server: supabase/functions/server/pdf_renderer.ts)
+
+export type PdfCell = string | {
+  text: string;
+  bold?: boolean;
+  fill?: string; // Hex background, e.g. "F2F2F2"
+  color?: string; // Hex text colour
+  align?: 'left' | 'center' | 'right';
+};
+
+export type PdfBlock =
+  | { type: 'heading'; text: string; level: number; toc?: boolean } // toc: listed in the table of contents
+  | { type: 'paragraph'; text: string; label?: string; bullet?: boolean; size?: number; bold?: boolean; italic?: boolean; color?: string }
+  | { type: 'table'; header: PdfCell[]; rows: PdfCell[][]; widths?: number[]; size?: number } // widths: relative column widths
+  | { type: 'pageBreak' };
+
+export interface PdfDocumentModel {
+  title: string;
+  acronym: string; // Running header
+  scheme?: string;
+  coverDetails: { label: string; value: string }[];
+  logo?: string; // PNG or JPEG data URL
+  blocks: PdfBlock[];
+}
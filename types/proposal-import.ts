@@ -0,0 +1,22 @@
+// Result of reading an existing Word proposal (server: supabase/functions/server/proposal_import.ts)
+
+import type { BudgetItem, Risk, WorkPackage } from './proposal';
+
+export interface ImportedSection {
+  id: string;
+  heading: string;
+  level: number;
+  content: string; // HTML, without the tables taken into the structured data
+  // Suggested target: a FundingSchemeSection.key, "@summary", "@wp:<index>", "@custom" (kept under its own heading) or null
+  target: string | null;
+}
+
+export interface ImportedProposal {
+  title: string;
+  fileName: string;
+  sections: ImportedSection[];
+  workPackages: WorkPackage[];
+  budget: BudgetItem[];
+  risks: Risk[];
+  warnings: string[]; // Mammoth conversion messages
+}
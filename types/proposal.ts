@@ -1,6 +1,6 @@
 // Proposal-related type definitions
 
-import type { FundingScheme, DynamicSections } from './funding-scheme';
+import type { FundingScheme, DynamicSections, BudgetModel } from './funding-scheme';
 import type { Partner } from './partner';
 
 export interface Idea {
@@ -37,14 +37,34 @@ export interface WorkPackage {
     leadPartner: string;
     participatingPartners: string[];
     estimatedBudget: number;
+    startMonth?: number; // 1-based project month
+    endMonth?: number;
   }[];
-  deliverables: string[];
+  deliverables: string[]; // "D1.1 Title (M6)"; kept in sync with FullProposal.deliverables once that is set
+}
+
+export type DeliverableType = 'R' | 'DEM' | 'DEC' | 'DATA' | 'OTHER';
+export type DisseminationLevel = 'PU' | 'SEN';
+
+export interface Deliverable {
+  id: string; // "D1.1": work package number and position, renumbered on every change
+  title: string;
+  workPackage: number; // 1-based
+  type: DeliverableType;
+  dissemination: DisseminationLevel;
+  leadPartner: string;
+  dueMonth: number;
+  description?: string;
 }
 
 export interface Milestone {
   milestone: string;
-  workPackage: string;
-  dueDate: string;
+  workPackage: string; // "WP2" (free text in older proposals)
+  dueDate: string; // "M12" (free text in older proposals)
+  id?: string; // "MS3", numbered by due month
+  dueMonth?: number;
+  leadPartner?: string;
+  verification?: string; // Means of verification
 }
 
 export interface Risk {
@@ -61,11 +81,41 @@ export interface BudgetBreakdown {
   total: number;
 }
 
+export interface PartnerAllocation {
+  partner: string; // Partner name
+  amount: number;
+}
+
+// Horizon Europe Part A cost categories (A personnel, B subcontracting, C.1-C.3 purchases, D other)
+export type CostCategory =
+  | 'personnel'
+  | 'subcontracting'
+  | 'travel'
+  | 'equipment'
+  | 'other_goods'
+  | 'financial_support'
+  | 'other';
+
 export interface BudgetItem {
   item: string;
   cost: number;
   description: string;
   breakdown?: BudgetBreakdown[];
+  partnerAllocations?: PartnerAllocation[];
+  // Actual-cost model only
+  partner?: string; // Partner name declaring the cost
+  category?: CostCategory;
+  personMonths?: number; // Personnel: cost = personMonths x monthlyRate
+  monthlyRate?: number;
+}
+
+// Lump-sum split chosen by the applicant; `budget` is derived from it (one item per work package)
+export interface LumpSumBudget {
+  amount: number;
+  workPackages: {
+    share: number; // % of the lump sum
+    partnerShares: Record<string, number>; // Partner name -> % of this work package
+  }[];
 }
 
 export interface TimelinePhase {
@@ -113,6 +163,11 @@ export interface FullProposal {
   milestones: Milestone[];
   risks: Risk[];
   budget: BudgetItem[];
+  budgetModel?: BudgetModel; // Defaults to the funding scheme's model, else free-form
+  lumpSum?: LumpSumBudget;
+  fundingRates?: Record<string, number>; // Actual-cost model: partner name -> funding rate %, when it differs from the scheme default
+  deliverables?: Deliverable[]; // Registry; derived from WorkPackage.deliverables until first edited
+  staffEffort?: Record<string, number>[]; // Per work package (proposal.workPackages order): partner name -> person-months
   timeline: TimelinePhase[];
   technicalOverview?: TechnicalLayer[] | string;
 
@@ -126,10 +181,40 @@ export interface FullProposal {
   updatedAt?: string;
   settings?: ProposalSettings;
   generationPrompt?: string;
+  generationReport?: GenerationReport;
+}
+
+// Result of validating the AI output against the proposal schema
+export interface GenerationReport {
+  valid: boolean;
+  rounds: number;
+  repaired: string[];
+  failed: string[];
+  issues: { path: string; message: string }[];
 }
 
 export interface ProposalSettings {
   currency: string;
   sourceUrl?: string;
   customParams?: { key: string; value: string }[];
-}
\ No newline at end of file
+}
+// Immutable snapshot in the proposal's history (server: _shared/proposal_versions.ts)
+export type ProposalVersionSource = 'initial' | 'generation' | 'manual' | 'ai-edit' | 'copilot' | 'restore';
+
+export interface ProposalVersion {
+  id: string;
+  proposalId: string;
+  version: number;
+  source: ProposalVersionSource;
+  description?: string | null; // AI edit instruction, copilot message or what a manual save changed
+  section?: string | null;
+  createdAt: string;
+  snapshot?: FullProposal; // Only when a single version is requested
+}
+
+// Proposed AI edit, reviewed per hunk before it is applied (server: ai_editor.ts)
+export interface AiEditChangeSet {
+  instruction: string;
+  editedSection: string;
+  changes: { section: string; before: any; after: any }[];
+}
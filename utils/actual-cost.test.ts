@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'vitest';
+import type { FullProposal } from '../types/proposal';
+import { actualCostSummary, fundingRateFor, HORIZON_ACTUAL_COST_PRESETS, itemCost, UNASSIGNED_PARTNER } from './actual-cost';
+
+const IA = HORIZON_ACTUAL_COST_PRESETS['Horizon Europe IA'];
+
+const proposal = {
+    partners: [{ id: 'p1', name: 'Uni A', isNonProfit: true }, { id: 'p2', name: 'SME C', isNonProfit: false }],
+    fundingRates: {},
+    budget: [
+        { item: 'Researchers', cost: 0, description: '', partner: 'Uni A', category: 'personnel', personMonths: 12.5, monthlyRate: 5000 },
+        { item: 'Survey', cost: 20000, description: '', partner: 'Uni A', category: 'subcontracting' },
+        {
+            item: 'Pilot kit', cost: 1, description: '', partner: 'SME C', category: 'equipment',
+            breakdown: [{ subItem: 'Sensors', quantity: 4, unitCost: 2500, total: 10000 }],
+        },
+        { item: 'Meetings', cost: 3000, description: '', partner: 'Left the consortium', category: 'travel' },
+    ],
+} as unknown as FullProposal;
+
+test('itemCost uses person-months for personnel, else the breakdown, else the typed cost', () => {
+    assert.deepEqual(proposal.budget.map(itemCost), [62500, 20000, 10000, 3000]);
+});
+
+test('fundingRateFor applies the for-profit rate only to partners marked as for-profit', () => {
+    assert.equal(fundingRateFor(proposal, 'Uni A', IA), 100);
+    assert.equal(fundingRateFor(proposal, 'SME C', IA), 70);
+    assert.equal(fundingRateFor({ ...proposal, fundingRates: { 'SME C': 60 } }, 'SME C', IA), 60);
+});
+
+test('actualCostSummary charges indirect costs on direct costs other than subcontracting', () => {
+    const { rows, total } = actualCostSummary(proposal, IA);
+    assert.deepEqual(rows.map(row => [row.partner, row.direct, row.indirect, row.total, row.fundingRate, row.euContribution]), [
+        ['Uni A', 82500, 15625, 98125, 100, 98125],
+        ['SME C', 10000, 2500, 12500, 70, 8750],
+        [UNASSIGNED_PARTNER, 3000, 750, 3750, 100, 3750],
+    ]);
+    assert.deepEqual([total.direct, total.indirect, total.total, total.euContribution], [95500, 18875, 114375, 110625]);
+    assert.equal(total.categories.personnel, 62500);
+});
@@ -0,0 +1,102 @@
+// Actual-cost budgets (Horizon Europe RIA/IA): every cost line belongs to a partner and a Part A
+// cost category. Indirect costs are a flat rate on the eligible direct costs, and the EU contribution
+// is the partner's funding rate applied to its total eligible costs.
+
+import type { FullProposal, BudgetItem, CostCategory } from '../types/proposal';
+import type { ActualCostRules } from '../types/funding-scheme';
+import { getFundingScheme } from './lump-sum';
+
+export const COST_CATEGORIES: { key: CostCategory; code: string; label: string }[] = [
+    { key: 'personnel', code: 'A', label: 'Personnel costs' },
+    { key: 'subcontracting', code: 'B', label: 'Subcontracting costs' },
+    { key: 'travel', code: 'C.1', label: 'Travel and subsistence' },
+    { key: 'equipment', code: 'C.2', label: 'Equipment' },
+    { key: 'other_goods', code: 'C.3', label: 'Other goods, works and services' },
+    { key: 'financial_support', code: 'D.1', label: 'Financial support to third parties' },
+    { key: 'other', code: 'D.2', label: 'Other cost categories' },
+];
+
+// Direct costs that do not carry the indirect cost flat rate
+const EXCLUDED_FROM_INDIRECT: CostCategory[] = ['subcontracting', 'financial_support'];
+
+export const HORIZON_ACTUAL_COST_PRESETS: Record<string, ActualCostRules> = {
+    'Horizon Europe RIA': { indirectRate: 25, fundingRate: 100 },
+    'Horizon Europe IA': { indirectRate: 25, fundingRate: 100, forProfitFundingRate: 70 },
+};
+
+const DEFAULT_RULES: ActualCostRules = HORIZON_ACTUAL_COST_PRESETS['Horizon Europe RIA'];
+
+export const UNASSIGNED_PARTNER = '';
+
+export interface PartnerCosts {
+    partner: string; // UNASSIGNED_PARTNER for lines without a partner
+    categories: Record<CostCategory, number>;
+    direct: number;
+    indirect: number;
+    total: number; // F. Total eligible costs
+    fundingRate: number;
+    euContribution: number; // Maximum EU contribution
+}
+
+export const getActualCostRules = (proposal: FullProposal): ActualCostRules => {
+    const rules = getFundingScheme(proposal)?.template_json?.budget?.actualCost;
+    return { ...DEFAULT_RULES, ...rules };
+};
+
+/** Cost of one line: person-months x monthly rate for personnel, else the breakdown or the typed cost */
+export const itemCost = (item: BudgetItem) => {
+    if (item.category === 'personnel' && item.personMonths !== undefined && item.monthlyRate !== undefined) {
+        return Math.round((item.personMonths || 0) * (item.monthlyRate || 0));
+    }
+    if (item.breakdown && item.breakdown.length > 0) {
+        return item.breakdown.reduce((sum, sub) => sum + (sub.total || 0), 0);
+    }
+    return item.cost || 0;
+};
+
+/** Partner's funding rate: set on the proposal, else the scheme's (for-profit) default */
+export const fundingRateFor = (proposal: FullProposal, partner: string, rules: ActualCostRules) => {
+    const override = proposal.fundingRates?.[partner];
+    if (override !== undefined) return override;
+    const isNonProfit = proposal.partners?.find(p => p.name === partner)?.isNonProfit;
+    return rules.forProfitFundingRate && isNonProfit === false ? rules.forProfitFundingRate : rules.fundingRate;
+};
+
+const emptyCategories = () => Object.fromEntries(COST_CATEGORIES.map(c => [c.key, 0])) as Record<CostCategory, number>;
+
+const costsFor = (proposal: FullProposal, partner: string, items: BudgetItem[], rules: ActualCostRules): PartnerCosts => {
+    const categories = emptyCategories();
+    for (const item of items) categories[item.category || 'other'] += itemCost(item);
+
+    const direct = Object.values(categories).reduce((sum, cost) => sum + cost, 0);
+    const indirectBase = direct - EXCLUDED_FROM_INDIRECT.reduce((sum, key) => sum + categories[key], 0);
+    const indirect = Math.round((indirectBase * rules.indirectRate) / 100);
+    const total = direct + indirect;
+    const fundingRate = partner === UNASSIGNED_PARTNER ? rules.fundingRate : fundingRateFor(proposal, partner, rules);
+    return { partner, categories, direct, indirect, total, fundingRate, euContribution: Math.round((total * fundingRate) / 100) };
+};
+
+/**
+ * Part A budget table: one row per partner (in consortium order), plus a row for cost lines
+ * that have no partner yet, plus the consortium total.
+ */
+export function actualCostSummary(proposal: FullProposal, rules: ActualCostRules = getActualCostRules(proposal)) {
+    const budget = proposal.budget || [];
+    const names = (proposal.partners || []).map(p => p.name).filter(Boolean);
+    const rows = names.map(name => costsFor(proposal, name, budget.filter(item => item.partner === name), rules));
+
+    const unassigned = budget.filter(item => !item.partner || !names.includes(item.partner));
+    if (unassigned.length > 0) rows.push(costsFor(proposal, UNASSIGNED_PARTNER, unassigned, rules));
+
+    const categories = emptyCategories();
+    rows.forEach(row => COST_CATEGORIES.forEach(c => { categories[c.key] += row.categories[c.key]; }));
+    const sum = (pick: (row: PartnerCosts) => number) => rows.reduce((total, row) => total + pick(row), 0);
+    const total = {
+        categories,
+        direct: sum(r => r.direct),
+        indirect: sum(r => r.indirect),
+        total: sum(r => r.total),
+        euContribution: sum(r => r.euContribution),
+    };
+    return { rows, total };
+}
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { test, vi } from 'vitest';
+import type { FullProposal } from '../types/proposal';
+import { exportBudgetWorkbook, readBudgetWorkbook } from './budget-workbook';
+
+vi.mock('file-saver', () => ({ saveAs: vi.fn() }));
+
+const proposal = {
+    title: 'GreenSkills Lab',
+    partners: [{ id: 'p1', name: 'Uni A' }, { id: 'p2', name: 'NGO B' }],
+    workPackages: [],
+    budget: [
+        {
+            item: 'Staff',
+            description: 'Trainers',
+            cost: 3000,
+            breakdown: [{ subItem: 'Trainer days', quantity: 10, unitCost: 300, total: 3000 }],
+            partnerAllocations: [{ partner: 'Uni A', amount: 2000 }, { partner: 'NGO B', amount: 1000 }],
+        },
+        { item: 'Travel', description: 'Meetings', cost: 1500, partnerAllocations: [{ partner: 'NGO B', amount: 1500 }] },
+    ],
+} as unknown as FullProposal;
+
+const exported = async (source: FullProposal) => {
+    vi.mocked(saveAs).mockClear();
+    await exportBudgetWorkbook(source);
+    return (vi.mocked(saveAs).mock.calls[0][0] as Blob).arrayBuffer();
+};
+
+// A workbook as another spreadsheet program would save it: cells by sheet, strings as inline text
+async function workbook(sheets: Record<string, (string | number | null)[][]>): Promise<ArrayBuffer> {
+    const zip = new JSZip();
+    const names = Object.keys(sheets);
+    zip.file('xl/workbook.xml', `<workbook><sheets>${names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`);
+    zip.file('xl/_rels/workbook.xml.rels', `<Relationships>${names.map((_, i) => `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`);
+    names.forEach((name, i) => {
+        const rows = sheets[name].map((row, r) => `<row r="${r + 1}">${row.map((value, c) => {
+            const ref = `${String.fromCharCode(65 + c)}${r + 1}`;
+            if (value === null) return '';
+            return typeof value === 'number' ? `<c r="${ref}"><v>${value}</v></c>` : `<c r="${ref}" t="inlineStr"><is><t>${value}</t></is></c>`;
+        }).join('')}</row>`).join('');
+        zip.file(`xl/worksheets/sheet${i + 1}.xml`, `<worksheet><sheetData>${rows}</sheetData></worksheet>`);
+    });
+    return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+const HEADER = ['Item', 'Description', 'Sub-item', 'Quantity', 'Unit cost', 'Total'];
+
+test('an exported workbook reads back to the same budget', async () => {
+    const result = await readBudgetWorkbook(await exported(proposal), proposal);
+    assert.deepEqual(result, { budget: proposal.budget, errors: [], warnings: [] });
+});
+
+test('item costs are recomputed from the sub-items rather than read from the total column', async () => {
+    const data = await workbook({
+        Budget: [
+            HEADER,
+            ['Staff', 'Trainers', null, null, null, 99999],
+            [null, null, 'Trainer days', '12', '€ 1.250,50', 1],
+            [null, null, 'Coordinator', 2, 500, 1],
+            ['Total', null, null, null, null, 99999],
+        ],
+    });
+    const { budget, errors } = await readBudgetWorkbook(data, proposal);
+    assert.deepEqual(errors, []);
+    assert.equal(budget[0].cost, 16006);
+    assert.deepEqual(budget[0].breakdown?.map(sub => sub.total), [15006, 1000]);
+});
+
+test('a workbook that is not a budget export is rejected', async () => {
+    await assert.rejects(readBudgetWorkbook(new TextEncoder().encode('not a zip').buffer, proposal), /Not an Excel workbook/);
+
+    const noSheet = await readBudgetWorkbook(await workbook({ Sheet1: [HEADER] }), proposal);
+    assert.deepEqual(noSheet.errors, ['The workbook has no "Budget" sheet']);
+
+    const wrongColumns = await readBudgetWorkbook(await workbook({ Budget: [['Item', 'Cost']] }), proposal);
+    assert.match(wrongColumns.errors[0], /must start with the columns/);
+
+    const empty = await readBudgetWorkbook(await workbook({ Budget: [HEADER, ['Total']] }), proposal);
+    assert.deepEqual(empty.errors, ['The "Budget" sheet has no budget items']);
+});
+
+test('invalid rows are reported with their row numbers', async () => {
+    const { errors } = await readBudgetWorkbook(await workbook({
+        Budget: [
+            HEADER,
+            [null, null, 'Orphan', 1, 100, 100],
+            ['Staff', null, null, null, null, 'lots'],
+            [null, null, 'Days', -1, 'abc', 0],
+            ['Staff', null, null, null, null, 10],
+        ],
+    }), proposal);
+    assert.deepEqual(errors, [
+        'Budget row 2: sub-item "Orphan" comes before any budget item',
+        'Budget row 3: the total of "Staff" is not a number',
+        'Budget row 4: the quantity of "Days" must be a number of at least 0',
+        'Budget row 4: the unit cost of "Days" must be a number of at least 0',
+        'Budget row 5: "Staff" is listed twice; item names must be unique',
+    ]);
+});
+
+test('partner sheets replace the allocations of their partner only', async () => {
+    const { budget, errors, warnings } = await readBudgetWorkbook(await workbook({
+        Budget: [HEADER, ['Staff', 'Trainers', null, null, null, 3000], ['Travel', 'Meetings', null, null, null, 1500]],
+        'Uni A': [['Partner', 'Uni A'], [], ['Budget item', 'Item cost', 'Allocation'], ['Staff', 3000, 500], ['Travel', 1500, 1000]],
+        Stranger: [['Partner', 'Someone else']],
+    }), proposal);
+    assert.deepEqual(errors, ['Sheet "Stranger": "Someone else" is not a partner of this proposal']);
+    assert.deepEqual(budget.map(item => item.partnerAllocations), [
+        [{ partner: 'NGO B', amount: 1000 }, { partner: 'Uni A', amount: 500 }],
+        [{ partner: 'NGO B', amount: 1500 }, { partner: 'Uni A', amount: 1000 }],
+    ]);
+    assert.deepEqual(warnings, [
+        '"Travel": 2500 allocated to partners, more than its cost of 1500',
+        'No sheet for NGO B: its allocations are kept as they are',
+    ]);
+});
@@ -0,0 +1,414 @@
+// Budget workbook for financial officers: the free-form budget as an XLSX file with live formulas, and the
+// matching import. Sheets: "Budget" (items with their breakdown sub-items), "Partners" (totals per partner),
+// one sheet per partner (its allocation to each item) and "Work packages" (activity budgets, for reference).
+// Written and read as SpreadsheetML with JSZip; import recomputes every total rather than trusting cached values.
+
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { BudgetBreakdown, BudgetItem, FullProposal, PartnerAllocation } from '../types/proposal';
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const BUDGET_SHEET = 'Budget';
+const PARTNERS_SHEET = 'Partners';
+const WP_SHEET = 'Work packages';
+const RESERVED_SHEETS = [BUDGET_SHEET, PARTNERS_SHEET, WP_SHEET];
+const BUDGET_HEADER = ['Item', 'Description', 'Sub-item', 'Quantity', 'Unit cost', 'Total'];
+
+// Cell styles, indexes into cellXfs of STYLES_XML
+const STYLE = { text: 0, bold: 1, number: 2, boldNumber: 3, percent: 4 };
+
+export interface BudgetWorkbookImport {
+    budget: BudgetItem[];
+    errors: string[]; // The workbook cannot be applied
+    warnings: string[];
+}
+
+type CellValue = string | number | { formula: string; value: number; percent?: boolean };
+
+interface Sheet {
+    name: string;
+    columns: number[]; // Widths
+    rows: { cells: (CellValue | null)[]; style?: 'header' | 'total' }[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const decodeXml = (text: string) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&');
+
+const columnName = (index: number): string =>
+    (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const columnIndex = (name: string) => name.split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+// Excel sheet names: at most 31 characters, none of []:*?/\, unique ignoring case
+function sheetName(wanted: string, used: Set<string>): string {
+    const base = wanted.replace(/[[\]:*?/\\]/g, ' ').replace(/^'+|'+$/g, '').trim().slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+}
+
+const sheetRef = (name: string) => `'${name.replace(/'/g, "''")}'`;
+
+function cellXml(value: CellValue | null, ref: string, style: 'header' | 'total' | undefined): string {
+    if (value === null || value === '') return '';
+    const bold = style === 'header' || style === 'total';
+    if (typeof value === 'string') {
+        return `<c r="${ref}" t="inlineStr"${bold ? ` s="${STYLE.bold}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }
+    const s = bold ? STYLE.boldNumber : STYLE.number;
+    if (typeof value === 'number') return `<c r="${ref}" s="${s}"><v>${value}</v></c>`;
+    // Cached values let viewers that do not recalculate show the totals
+    return `<c r="${ref}" s="${value.percent ? STYLE.percent : s}"><f>${escapeXml(value.formula)}</f><v>${value.value}</v></c>`;
+}
+
+function sheetXml(sheet: Sheet): string {
+    const cols = sheet.columns.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('');
+    const rows = sheet.rows.map((row, r) =>
+        `<row r="${r + 1}">${row.cells.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, row.style)).join('')}</row>`).join('');
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<cols>${cols}</cols><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+// Number format 4 is the built-in "#,##0.00", 10 is "0.00%"
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="5">'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>'
+    + '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '</cellXfs></styleSheet>';
+
+async function writeWorkbook(sheets: Sheet[]): Promise<Blob> {
+    const zip = new JSZip();
+    const overrides = sheets.map((_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('');
+    zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + `${overrides}</Types>`);
+    zip.file('_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>');
+    zip.file('xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets>${sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>`
+        + '<calcPr calcId="0" fullCalcOnLoad="1"/></workbook>');
+    zip.file('xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+        + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + '</Relationships>');
+    zip.file('xl/styles.xml', STYLES_XML);
+    sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet)));
+    return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME });
+}
+
+const itemCost = (item: BudgetItem) =>
+    item.breakdown?.length ? item.breakdown.reduce((sum, sub) => sum + (sub.total || 0), 0) : item.cost || 0;
+
+function buildBudgetSheets(proposal: FullProposal): Sheet[] {
+    const budget = proposal.budget || [];
+    const partners = (proposal.partners || []).map(p => p.name).filter(Boolean);
+    const used = new Set(RESERVED_SHEETS.map(name => name.toLowerCase()));
+
+    // Budget: an item row sums its sub-item rows below it; the total sums the item rows (column A filled)
+    const budgetSheet: Sheet = { name: BUDGET_SHEET, columns: [32, 48, 32, 10, 14, 16], rows: [{ cells: BUDGET_HEADER, style: 'header' }] };
+    const itemRows: number[] = [];
+    budget.forEach(item => {
+        const row = budgetSheet.rows.length + 1;
+        const subs = item.breakdown || [];
+        itemRows.push(row);
+        budgetSheet.rows.push({
+            cells: [
+                item.item || '', item.description || '', null, null, null,
+                subs.length ? { formula: `SUM(F${row + 1}:F${row + subs.length})`, value: itemCost(item) } : item.cost || 0,
+            ],
+        });
+        subs.forEach((sub, i) => {
+            const r = row + 1 + i;
+            budgetSheet.rows.push({
+                cells: [null, null, sub.subItem || '', sub.quantity || 0, sub.unitCost || 0, { formula: `D${r}*E${r}`, value: (sub.quantity || 0) * (sub.unitCost || 0) }],
+            });
+        });
+    });
+    const lastRow = budgetSheet.rows.length;
+    const grandTotal = budget.reduce((sum, item) => sum + itemCost(item), 0);
+    const totalRef = `${sheetRef(BUDGET_SHEET)}!$F$${lastRow + 1}`;
+    budgetSheet.rows.push({
+        cells: ['Total', null, null, null, null, { formula: lastRow > 1 ? `SUMIF(A2:A${lastRow},"<>",F2:F${lastRow})` : '0', value: grandTotal }],
+        style: 'total',
+    });
+
+    // One sheet per partner: the full partner name in B1, so truncated sheet names still match on import
+    const partnerSheets: Sheet[] = partners.map(partner => {
+        const rows: Sheet['rows'] = [
+            { cells: ['Partner', partner], style: 'header' },
+            { cells: [] },
+            { cells: ['Budget item', 'Item cost', 'Allocation'], style: 'header' },
+        ];
+        budget.forEach((item, i) => {
+            const amount = (item.partnerAllocations || []).filter(a => a.partner === partner).reduce((sum, a) => sum + (a.amount || 0), 0);
+            rows.push({ cells: [item.item || '', { formula: `${sheetRef(BUDGET_SHEET)}!F${itemRows[i]}`, value: itemCost(item) }, amount] });
+        });
+        const allocated = budget.reduce((sum, item) =>
+            sum + (item.partnerAllocations || []).filter(a => a.partner === partner).reduce((s, a) => s + (a.amount || 0), 0), 0);
+        rows.push({ cells: ['Total', null, { formula: budget.length ? `SUM(C4:C${rows.length})` : '0', value: allocated }], style: 'total' });
+        return { name: sheetName(partner, used), columns: [40, 16, 16], rows };
+    });
+
+    // Partners: totals per partner from their sheets, and the part of the budget not allocated to anyone
+    const partnersSheet: Sheet = {
+        name: PARTNERS_SHEET,
+        columns: [40, 16, 12],
+        rows: [{ cells: ['Partner', 'Allocated', 'Share'], style: 'header' }],
+    };
+    partnerSheets.forEach((sheet, i) => {
+        const r = i + 2;
+        const allocated = (sheet.rows[sheet.rows.length - 1].cells[2] as { value: number }).value;
+        partnersSheet.rows.push({
+            cells: [
+                partners[i],
+                { formula: `${sheetRef(sheet.name)}!C${sheet.rows.length}`, value: allocated },
+                { formula: `IF(${totalRef}=0,0,B${r}/${totalRef})`, value: grandTotal ? allocated / grandTotal : 0, percent: true },
+            ],
+        });
+    });
+    const allocatedTotal = partnerSheets.reduce((sum, sheet) => sum + (sheet.rows[sheet.rows.length - 1].cells[2] as { value: number }).value, 0);
+    const lastPartnerRow = partnersSheet.rows.length;
+    partnersSheet.rows.push(
+        { cells: ['Not allocated', { formula: lastPartnerRow > 1 ? `${totalRef}-SUM(B2:B${lastPartnerRow})` : totalRef, value: grandTotal - allocatedTotal }] },
+        { cells: ['Budget total', { formula: totalRef, value: grandTotal }], style: 'total' },
+    );
+
+    // Work packages: activity budgets with a subtotal per work package
+    const wpSheet: Sheet = {
+        name: WP_SHEET,
+        columns: [40, 40, 28, 16],
+        rows: [{ cells: ['Work package', 'Activity', 'Lead partner', 'Budget'], style: 'header' }],
+    };
+    const subtotalRows: number[] = [];
+    let wpTotal = 0;
+    (proposal.workPackages || []).forEach((wp, i) => {
+        const activities = wp.activities || [];
+        const first = wpSheet.rows.length + 1;
+        activities.forEach(activity => {
+            wpSheet.rows.push({ cells: [`WP${i + 1}: ${wp.name || ''}`, activity.name || '', activity.leadPartner || '', activity.estimatedBudget || 0] });
+        });
+        const subtotal = activities.reduce((sum, a) => sum + (a.estimatedBudget || 0), 0);
+        wpTotal += subtotal;
+        subtotalRows.push(wpSheet.rows.length + 1);
+        wpSheet.rows.push({
+            cells: [`WP${i + 1} total`, null, null, { formula: activities.length ? `SUM(D${first}:D${first + activities.length - 1})` : '0', value: subtotal }],
+            style: 'total',
+        });
+    });
+    wpSheet.rows.push({
+        cells: ['Total', null, null, { formula: subtotalRows.length ? subtotalRows.map(r => `D${r}`).join('+') : '0', value: wpTotal }],
+        style: 'total',
+    });
+
+    return [budgetSheet, partnersSheet, ...partnerSheets, wpSheet];
+}
+
+export async function exportBudgetWorkbook(proposal: FullProposal): Promise<void> {
+    const blob = await writeWorkbook(buildBudgetSheets(proposal));
+    saveAs(blob, `${(proposal.title || 'proposal').replace(/[^a-z0-9]/gi, '_')}_Budget.xlsx`);
+}
+
+// --- Import ---
+
+type Grid = (string | number | null)[][];
+
+const textOfXml = (xml: string) =>
+    decodeXml(Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(m => m[1]).join(''));
+
+async function readSheets(data: Blob | ArrayBuffer): Promise<Map<string, Grid>> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        throw new Error('Not an Excel workbook (.xlsx)');
+    }
+    const workbook = await zip.file('xl/workbook.xml')?.async('string');
+    if (!workbook) throw new Error('Not an Excel workbook (xl/workbook.xml is missing)');
+    const rels = await zip.file('xl/_rels/workbook.xml.rels')?.async('string') || '';
+    const targets = new Map(Array.from(rels.matchAll(/<Relationship\b[^>]*>/g)).map(m => [
+        /\bId="([^"]+)"/.exec(m[0])?.[1], /\bTarget="([^"]+)"/.exec(m[0])?.[1] || '',
+    ]));
+    const sharedXml = await zip.file('xl/sharedStrings.xml')?.async('string') || '';
+    const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => textOfXml(m[1]));
+
+    const sheets = new Map<string, Grid>();
+    for (const match of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+        const name = decodeXml(/\bname="([^"]*)"/.exec(match[0])?.[1] || '');
+        const target = targets.get(/\br:id="([^"]+)"/.exec(match[0])?.[1]);
+        if (!target) continue;
+        const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        const xml = await zip.file(path)?.async('string');
+        if (!xml) continue;
+
+        const grid: Grid = [];
+        for (const cell of xml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const ref = /\br="([A-Z]+)(\d+)"/.exec(cell[1]);
+            if (!ref) continue;
+            const type = /\bt="([^"]+)"/.exec(cell[1])?.[1];
+            const inner = cell[2] || '';
+            const raw = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+            let value: string | number | null = null;
+            if (type === 'inlineStr') value = textOfXml(inner);
+            else if (type === 's') value = raw !== undefined ? shared[parseInt(raw)] ?? null : null;
+            else if (type === 'str' || type === 'e') value = raw !== undefined ? decodeXml(raw) : null;
+            else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+            else if (raw !== undefined) value = parseFloat(raw);
+            const r = parseInt(ref[2]) - 1;
+            (grid[r] ||= [])[columnIndex(ref[1])] = value;
+        }
+        sheets.set(name, grid);
+    }
+    return sheets;
+}
+
+const cellText = (value: string | number | null | undefined) => (value === null || value === undefined ? '' : String(value).trim());
+
+// Numbers typed as text ("1.200,50", "€ 300") are accepted; anything else is an error
+function cellNumber(value: string | number | null | undefined): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    const text = cellText(value);
+    if (!text) return 0;
+    const cleaned = text.replace(/[\s€$£]|EUR|USD|GBP/gi, '');
+    const normalized = /,\d{1,2}$/.test(cleaned) ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+    return /^-?\d+(\.\d+)?$/.test(normalized) ? parseFloat(normalized) : null;
+}
+
+/**
+ * Reads a workbook exported by exportBudgetWorkbook (possibly edited) into a new budget. Items keep the fields
+ * the workbook does not carry (matched by name); partner allocations are replaced for the partners that have a sheet.
+ */
+export async function readBudgetWorkbook(data: Blob | ArrayBuffer, proposal: FullProposal): Promise<BudgetWorkbookImport> {
+    const sheets = await readSheets(data);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const grid = sheets.get(BUDGET_SHEET);
+    if (!grid) return { budget: [], errors: [`The workbook has no "${BUDGET_SHEET}" sheet`], warnings };
+    const header = (grid[0] || []).map(cellText);
+    if (BUDGET_HEADER.some((title, i) => header[i]?.toLowerCase() !== title.toLowerCase())) {
+        return { budget: [], errors: [`The "${BUDGET_SHEET}" sheet must start with the columns ${BUDGET_HEADER.join(', ')}`], warnings };
+    }
+
+    const existing = new Map((proposal.budget || []).map(item => [item.item, item]));
+    const budget: BudgetItem[] = [];
+    // Parsed apart from the items, which start as copies of the existing ones so their key order (and JSON) is unchanged
+    const breakdowns = new Map<BudgetItem, BudgetBreakdown[]>();
+    for (let r = 1; r < grid.length; r++) {
+        const row = grid[r] || [];
+        const [item, description, subItem] = [cellText(row[0]), cellText(row[1]), cellText(row[2])];
+        if (/^total$/i.test(item)) break;
+        if (!item && !subItem && !cellText(row[3]) && !cellText(row[4])) continue;
+
+        if (item) {
+            const cost = cellNumber(row[5]);
+            if (cost === null) errors.push(`${BUDGET_SHEET} row ${r + 1}: the total of "${item}" is not a number`);
+            if (budget.some(b => b.item === item)) errors.push(`${BUDGET_SHEET} row ${r + 1}: "${item}" is listed twice; item names must be unique`);
+            const parsed: BudgetItem = { ...existing.get(item), item, description, cost: round2(cost || 0) };
+            budget.push(parsed);
+            breakdowns.set(parsed, []);
+            continue;
+        }
+
+        const parent = budget[budget.length - 1];
+        if (!parent) {
+            errors.push(`${BUDGET_SHEET} row ${r + 1}: sub-item "${subItem}" comes before any budget item`);
+            continue;
+        }
+        const quantity = cellNumber(row[3]);
+        const unitCost = cellNumber(row[4]);
+        if (quantity === null || quantity < 0) errors.push(`${BUDGET_SHEET} row ${r + 1}: the quantity of "${subItem}" must be a number of at least 0`);
+        if (unitCost === null || unitCost < 0) errors.push(`${BUDGET_SHEET} row ${r + 1}: the unit cost of "${subItem}" must be a number of at least 0`);
+        breakdowns.get(parent)!.push({
+            subItem: subItem || 'Sub-item',
+            quantity: quantity || 0,
+            unitCost: unitCost || 0,
+            total: round2((quantity || 0) * (unitCost || 0)),
+        });
+    }
+    breakdowns.forEach((subs, item) => {
+        if (subs.length === 0) {
+            delete item.breakdown;
+            return;
+        }
+        item.breakdown = subs;
+        // As in the viewer, an item with sub-items costs what its sub-items add up to
+        item.cost = round2(subs.reduce((sum, s) => sum + s.total, 0));
+    });
+    if (budget.length === 0 && errors.length === 0) errors.push(`The "${BUDGET_SHEET}" sheet has no budget items`);
+
+    // Partner sheets are the other sheets with "Partner" in A1; the name in B1 must be a partner of the proposal
+    const partners = new Set((proposal.partners || []).map(p => p.name).filter(Boolean));
+    const allocations = new Map<string, PartnerAllocation[]>(budget.map(item => [item.item, []]));
+    const imported = new Set<string>();
+    sheets.forEach((sheet, name) => {
+        if (RESERVED_SHEETS.includes(name) || cellText(sheet[0]?.[0]).toLowerCase() !== 'partner') return;
+        const partner = cellText(sheet[0]?.[1]);
+        if (!partners.has(partner)) {
+            errors.push(`Sheet "${name}": "${partner}" is not a partner of this proposal`);
+            return;
+        }
+        imported.add(partner);
+        for (let r = 3; r < sheet.length; r++) {
+            const row = sheet[r] || [];
+            const item = cellText(row[0]);
+            if (!item || /^total$/i.test(item)) continue;
+            const amount = cellNumber(row[2]);
+            if (amount === null || amount < 0) {
+                errors.push(`Sheet "${name}" row ${r + 1}: the allocation to "${item}" must be a number of at least 0`);
+            } else if (!allocations.has(item)) {
+                errors.push(`Sheet "${name}" row ${r + 1}: "${item}" is not an item of the "${BUDGET_SHEET}" sheet`);
+            } else if (amount > 0) {
+                allocations.get(item)!.push({ partner, amount: round2(amount) });
+            }
+        }
+    });
+
+    for (const item of budget) {
+        const previous = item.partnerAllocations || [];
+        const merged = [...previous.filter(a => !imported.has(a.partner)), ...(allocations.get(item.item) || [])];
+        // Same allocations in another order, or with zero amounts dropped, are not a change
+        const sameAs = (a: PartnerAllocation[], b: PartnerAllocation[]) => {
+            const key = (list: PartnerAllocation[]) => JSON.stringify(list.filter(x => x.amount).map(x => [x.partner, x.amount]).sort());
+            return key(a) === key(b);
+        };
+        if (!sameAs(previous, merged)) {
+            if (merged.length) item.partnerAllocations = merged;
+            else delete item.partnerAllocations;
+        }
+        const allocated = merged.reduce((sum, a) => sum + a.amount, 0);
+        if (allocated > item.cost + 0.005) warnings.push(`"${item.item}": ${round2(allocated)} allocated to partners, more than its cost of ${item.cost}`);
+    }
+    partners.forEach(partner => {
+        if (!imported.has(partner)) warnings.push(`No sheet for ${partner}: its allocations are kept as they are`);
+    });
+
+    return { budget, errors, warnings };
+}
@@ -0,0 +1,96 @@
+// Completeness report run before export: mandatory template sections that are empty or still hold
+// placeholder text, and structured data the evaluators expect (partners and their PICs, work packages,
+// deliverables, budget, risks). Errors block the export, warnings only need confirming.
+
+import type { FullProposal } from '../types/proposal';
+import { assembleDocument } from './proposal-assembly';
+import { stripHtml } from './compliance';
+import { getDeliverables } from './deliverables';
+import { getBudgetModel } from './lump-sum';
+
+export interface CompletenessIssue {
+    level: 'error' | 'warning';
+    message: string;
+    anchor: string; // Element id in the proposal viewer
+    tab: 'narrative' | 'structured';
+}
+
+// Sections shorter than this (after stripping HTML) are treated as not written
+const MIN_SECTION_CHARS = 50;
+
+// Text that is certainly a placeholder; the section does not count as written
+const PLACEHOLDER = /lorem ipsum|\[(?:insert|add|placeholder|to be)[^\]]*\]|no content generated|content (?:will be|to be) (?:generated|added)/i;
+
+// Markers that are usually left to fill in, but can be real text ("the venue is TBC", "XXX Foundation")
+const POSSIBLE_PLACEHOLDER = /\bTBD\b|\bTBC\b|\bTODO\b|\bXXX\b|to be (?:completed|defined|added|written|confirmed)/i;
+
+// Section types whose content is structured data, checked separately below
+const STRUCTURED_TYPES = ['wp_list', 'partners', 'partner_profiles', 'budget', 'risk'];
+
+/** Why a section's text does not count as written, or null when it does */
+export function sectionGap(html?: string | null): string | null {
+    const text = stripHtml(html);
+    if (!text) return 'is empty';
+    if (PLACEHOLDER.test(text)) return 'still contains placeholder text';
+    if (text.length < MIN_SECTION_CHARS) return 'has almost no content';
+    return null;
+}
+
+export function checkCompleteness(proposal: FullProposal): CompletenessIssue[] {
+    const issues: CompletenessIssue[] = [];
+
+    assembleDocument(proposal)
+        .filter(s => s.mandatory && !STRUCTURED_TYPES.includes(s.type || ''))
+        .forEach(section => {
+            const gap = sectionGap(section.content);
+            const marker = gap ? null : stripHtml(section.content).match(POSSIBLE_PLACEHOLDER)?.[0];
+            if (gap) issues.push({ level: 'error', message: `Mandatory section "${section.title}" ${gap}`, anchor: section.id, tab: 'narrative' });
+            else if (marker) issues.push({ level: 'warning', message: `Mandatory section "${section.title}" contains "${marker}"`, anchor: section.id, tab: 'narrative' });
+        });
+
+    const partners = proposal.partners || [];
+    if (partners.length === 0) {
+        issues.push({ level: 'error', message: 'No partners in the consortium', anchor: 'partners', tab: 'structured' });
+    } else {
+        const withoutPic = partners.filter(p => !(p.pic || p.organisationId || '').trim());
+        if (withoutPic.length > 0) {
+            issues.push({
+                level: 'warning',
+                message: `No PIC/OID for ${withoutPic.map(p => p.acronym || p.name).join(', ')}`,
+                anchor: 'partners',
+                tab: 'structured',
+            });
+        }
+    }
+
+    const workPackages = proposal.workPackages || [];
+    if (workPackages.length === 0) {
+        issues.push({ level: 'warning', message: 'No work packages', anchor: 'work-packages', tab: 'structured' });
+    } else {
+        const undescribed = workPackages.filter(wp => sectionGap(wp.description));
+        if (undescribed.length > 0) {
+            issues.push({
+                level: 'warning',
+                message: `No description for ${undescribed.map(wp => wp.name || 'unnamed work package').join(', ')}`,
+                anchor: 'work-packages',
+                tab: 'structured',
+            });
+        }
+        if (getDeliverables(proposal).length === 0) {
+            issues.push({ level: 'warning', message: 'No deliverables', anchor: 'work-packages', tab: 'structured' });
+        }
+    }
+
+    const hasBudget = getBudgetModel(proposal) === 'lump-sum' ? !!proposal.lumpSum?.amount : (proposal.budget || []).length > 0;
+    if (!hasBudget) {
+        issues.push({ level: 'warning', message: 'No budget', anchor: 'budget', tab: 'structured' });
+    }
+
+    if ((proposal.risks || []).length === 0) {
+        issues.push({ level: 'warning', message: 'No risks in the risk management table', anchor: 'risks', tab: 'structured' });
+    }
+
+    return issues;
+}
+
+export const hasBlockingIssues = (issues: CompletenessIssue[]) => issues.some(issue => issue.level === 'error');
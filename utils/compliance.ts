@@ -0,0 +1,154 @@
+// Length compliance: counts every assembled section the way the submission portal does (HTML stripped,
+// spaces and line breaks counted as characters), compares the counts with the template's char/word/page
+// limits and estimates how many pages the text takes in the exported DOCX.
+
+import type { FullProposal } from '../types/proposal';
+import { assembleDocument, type DisplaySection } from './proposal-assembly';
+import { getFundingScheme } from './lump-sum';
+
+export type LimitStatus = 'ok' | 'near' | 'over';
+export type LimitKind = 'chars' | 'words' | 'pages';
+
+export interface LimitCheck {
+    kind: LimitKind;
+    count: number;
+    limit: number;
+    status: LimitStatus;
+}
+
+export interface SectionCompliance {
+    id: string;
+    title: string;
+    sourceKeys?: string[];
+    content: string;
+    chars: number;
+    words: number;
+    pages: number;
+    checks: LimitCheck[];
+    status: LimitStatus | null; // null when the section has no limits
+}
+
+export interface ComplianceReport {
+    sections: SectionCompliance[];
+    chars: number;
+    words: number;
+    pages: number;
+    totals: LimitCheck[];
+}
+
+// Counts from this share of a limit upwards are flagged as close to it
+export const NEAR_LIMIT_SHARE = 0.9;
+
+// Page geometry of export-docx.ts: A4 with the docx default 1" margins, Arial 11pt body text with 6pt
+// before and after each paragraph, section headings at 14pt with 20pt + 10pt spacing
+const PAGE_HEIGHT_PT = (16838 - 2 * 1440) / 20;
+const LINE_WIDTH_CHARS = 85;
+const LINE_HEIGHT_PT = 12.65;
+const PARAGRAPH_SPACING_PT = 12;
+const HEADING_HEIGHT_PT = 16 + 30;
+
+/** Characters of body text that fill one exported page, used to turn page limits into character targets */
+export const CHARS_PER_PAGE = Math.floor(PAGE_HEIGHT_PT / (LINE_HEIGHT_PT + PARAGRAPH_SPACING_PT / 4)) * LINE_WIDTH_CHARS;
+
+const ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Plain text of section HTML: one line per paragraph, list item or heading, whitespace collapsed */
+export function stripHtml(html?: string | null): string {
+    return (html || '')
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr|blockquote)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, name: string) => {
+            if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        })
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+export const countChars = (text: string) => Array.from(text).length;
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** Pages the text takes in the exported DOCX, heading included */
+export function estimatePages(text: string, withHeading = true): number {
+    const paragraphs = text ? text.split('\n') : [];
+    const height = paragraphs.reduce(
+        (sum, paragraph) => sum + Math.max(1, Math.ceil(countChars(paragraph) / LINE_WIDTH_CHARS)) * LINE_HEIGHT_PT + PARAGRAPH_SPACING_PT,
+        withHeading ? HEADING_HEIGHT_PT : 0,
+    );
+    return height / PAGE_HEIGHT_PT;
+}
+
+export function checkLimit(kind: LimitKind, count: number, limit: number): LimitCheck {
+    const status: LimitStatus = count > limit ? 'over' : count >= limit * NEAR_LIMIT_SHARE ? 'near' : 'ok';
+    return { kind, count, limit, status };
+}
+
+const worstStatus = (checks: LimitCheck[]): LimitStatus | null =>
+    checks.some(c => c.status === 'over') ? 'over' : checks.some(c => c.status === 'near') ? 'near' : checks.length > 0 ? 'ok' : null;
+
+export function sectionCompliance(section: DisplaySection): SectionCompliance {
+    const text = stripHtml(section.content);
+    const chars = countChars(text);
+    const words = countWords(text);
+    const pages = estimatePages(text);
+    const checks: LimitCheck[] = [];
+    if (section.charLimit) checks.push(checkLimit('chars', chars, section.charLimit));
+    if (section.wordLimit) checks.push(checkLimit('words', words, section.wordLimit));
+    if (section.pageLimit) checks.push(checkLimit('pages', pages, section.pageLimit));
+
+    return {
+        id: section.id,
+        title: section.title,
+        sourceKeys: section.sourceKeys,
+        content: section.content || '',
+        chars, words, pages, checks,
+        status: worstStatus(checks),
+    };
+}
+
+/** Counts for every narrative section plus the proposal-wide limits of the template metadata */
+export function checkCompliance(proposal: FullProposal): ComplianceReport {
+    const sections = assembleDocument(proposal)
+        .filter(s => !s.isDivider && s.content)
+        .map(sectionCompliance);
+    const chars = sections.reduce((sum, s) => sum + s.chars, 0);
+    const words = sections.reduce((sum, s) => sum + s.words, 0);
+    const pages = sections.reduce((sum, s) => sum + s.pages, 0);
+
+    const metadata = getFundingScheme(proposal)?.template_json?.metadata;
+    const totals: LimitCheck[] = [];
+    if (metadata?.totalCharLimit) totals.push(checkLimit('chars', chars, metadata.totalCharLimit));
+    if (metadata?.totalWordLimit) totals.push(checkLimit('words', words, metadata.totalWordLimit));
+
+    return { sections, chars, words, pages, totals };
+}
+
+const UNITS: Record<LimitKind, string> = { chars: 'characters', words: 'words', pages: 'pages' };
+
+export const formatCount = (kind: LimitKind, count: number) =>
+    kind === 'pages' ? count.toFixed(1) : count.toLocaleString('en-US');
+
+export const formatLimitCheck = (check: LimitCheck) =>
+    `${formatCount(check.kind, check.count)} / ${check.limit.toLocaleString('en-US')} ${UNITS[check.kind]}`;
+
+/**
+ * Instruction for the AI editor that brings a section under its limits. Targets sit 5% below each limit
+ * because the model's own count is approximate; page limits become a character target.
+ */
+export function shortenInstruction(section: SectionCompliance): string {
+    const targets = section.checks.flatMap(check => {
+        if (check.kind === 'words') {
+            const target = Math.floor(check.limit * 0.95);
+            return section.words > target ? [`at most ${target} words (currently ${section.words})`] : [];
+        }
+        const target = Math.floor((check.kind === 'pages' ? check.limit * CHARS_PER_PAGE : check.limit) * 0.95);
+        return section.chars > target ? [`at most ${target} characters including spaces, not counting HTML tags (currently ${section.chars})`] : [];
+    });
+    return `Shorten this section to ${targets.join(' and ')}. Keep every key point, figure and commitment, `
+        + `merge or condense sentences rather than dropping content, and keep the HTML structure.`;
+}
@@ -0,0 +1,199 @@
+// Cross-section consistency: reads the narrative of every section and reports statements that contradict
+// the structured data - organisations that are not partners, work packages that do not exist, a budget,
+// duration or consortium size different from the tables, and acronyms defined in two ways.
+
+import type { FullProposal } from '../types/proposal';
+import { assembleDocument } from './proposal-assembly';
+import { stripHtml } from './compliance';
+import { countryCode } from './eligibility';
+import { parseMonthRange, projectDuration } from './gantt';
+import { getCoFinancingRate, partnerBudgetMatrix } from './partner-budget';
+import { getBudgetModel } from './lump-sum';
+
+export type ConsistencyKind = 'partner' | 'work-package' | 'budget' | 'duration' | 'consortium' | 'acronym';
+
+export interface ConsistencyOccurrence {
+    sectionId: string;
+    sectionTitle: string;
+    excerpt: string;
+}
+
+export interface ConsistencyIssue {
+    kind: ConsistencyKind;
+    message: string;
+    occurrences: ConsistencyOccurrence[];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, eighteen: 18, twenty: 20,
+    'twenty-four': 24, 'thirty-six': 36, 'forty-eight': 48,
+};
+const NUMBER = `\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')}`;
+
+const toNumber = (text: string) => NUMBER_WORDS[text.toLowerCase()] ?? parseInt(text, 10);
+
+const normalize = (text: string) => (text || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+
+// Words that make a capitalised phrase an organisation name
+const ORGANISATION_WORDS = /^(?:Universit(?:y|ät|at|é|à|ad|ade|eit|etet|atea)|Institute|Institut|Instituto|Istituto|Foundation|Fundación|Fundação|Fondazione|Fondation|Stiftung|Association|Asociación|Associazione|Associação|Verein|Agency|Centre|Center|Centro|Chamber|College|Academy|Akademie|Ministry|Municipality|Hochschule|GmbH|Ltd|Limited|SRL|S\.?L\.?|S\.?A\.?|SpA|BV|AB|Oy|NGO)$/;
+const CONNECTORS = /^(?:of|for|de|di|del|della|der|des|du|für|and|&|la|le|el|y|e|the)$/;
+const isCapitalised = (word: string) => /^[A-ZÀ-Ý][\w'’.&-]*$/.test(word);
+
+// Amounts such as "€250,000", "EUR 1.2 million", "400 000 euros", "€60k"
+const AMOUNT = /(?:€|\bEUR\b|\beuros?\b)\s?(\d[\d.,\s]*\d|\d)(?:\s?(k|million|m)\b)?|(\d[\d.,\s]*\d|\d)(?:\s?(k|million|m)\b)?\s?(?:€|\bEUR\b|\beuros?\b)/gi;
+const TOTAL_CONTEXT = /\b(?:total|overall|requested|grant|lump sum|EU contribution)\b/i;
+const PARTIAL_CONTEXT = /\b(?:WP\s*\d|work package\s*\d|per partner|each partner|per (?:month|year|participant|day)|of which)\b/i;
+
+const WP_REFERENCE = /\b(?:WP|Work\s*Package)\s*(\d{1,2})\b/gi;
+const CONSORTIUM_CONTEXT = /\b(?:consortium|partnership|brings together|composed of|consists of|consisting of|comprises|comprising|made up of)\b/i;
+const PARTNER_COUNT = new RegExp(`\\b(${NUMBER})\\s+(?:\\w+\\s+)?(?:partners|partner organisations|organisations|organizations|institutions)\\b`, 'gi');
+const COUNTRY_COUNT = new RegExp(`\\b(${NUMBER})\\s+(?:different\\s+|European\\s+|EU\\s+|partner\\s+|programme\\s+)?countries\\b`, 'gi');
+const DURATION = new RegExp(`\\b(${NUMBER})[\\s-]+(months?|years?)\\b`, 'gi');
+const DURATION_CONTEXT = /\b(?:project|duration|lifetime|lifespan)\b/i;
+const DURATION_EXCLUDED = /\b(?:WP\s*\d|work package|activit(?:y|ies)|task|first|last|after|within|every|each|by month|months? after|follow-up)\b/i;
+const ACRONYM_DEFINITION = /((?:[A-ZÀ-Ý][\w'’&-]*\s+(?:(?:of|for|and|the|de|di|der|für|&)\s+)?){1,8})\(([A-Z][A-Za-z0-9&-]{1,11})\)/g;
+
+export function parseAmount(digits: string, scale?: string): number {
+    const clean = digits.replace(/\s/g, '');
+    const multiplier = !scale ? 1 : scale.toLowerCase() === 'k' ? 1_000 : 1_000_000;
+    if (scale) return parseFloat(clean.replace(',', '.')) * multiplier;
+    // Thousands separators: 250,000 / 250.000 / 1,250,000.50
+    if (/^\d{1,3}([.,])\d{3}(\1\d{3})*$/.test(clean)) return parseInt(clean.replace(/[.,]/g, ''), 10);
+    if (/^\d{1,3}(,\d{3})*\.\d+$/.test(clean)) return parseFloat(clean.replace(/,/g, ''));
+    if (/^\d{1,3}(\.\d{3})*,\d+$/.test(clean)) return parseFloat(clean.replace(/\./g, '').replace(',', '.'));
+    return parseFloat(clean.replace(',', '.'));
+}
+
+const sentencesOf = (text: string) => text.split(/\n|(?<=[.!?])\s+(?=[A-Z0-9"“(])/).map(s => s.trim()).filter(Boolean);
+
+const excerptOf = (sentence: string, index = 0) => {
+    if (sentence.length <= 200) return sentence;
+    const start = Math.max(0, index - 80);
+    return `${start > 0 ? '…' : ''}${sentence.slice(start, start + 200)}…`;
+};
+
+/** Capitalised phrases around an organisation word, e.g. "University of Ljubljana", "Fundación Tecnalia" */
+export function organisationNames(sentence: string): string[] {
+    const words = sentence.split(/\s+/).map(w => w.replace(/^[("“'‘]+|[)"”'’,;:.!?]+$/g, ''));
+    const names = new Set<string>();
+    words.forEach((word, i) => {
+        if (!ORGANISATION_WORDS.test(word)) return;
+        let start = i;
+        while (start > 0 && (isCapitalised(words[start - 1]) || (CONNECTORS.test(words[start - 1]) && start > 1 && isCapitalised(words[start - 2])))) start--;
+        let end = i;
+        while (end < words.length - 1 && (isCapitalised(words[end + 1]) || (CONNECTORS.test(words[end + 1]) && end < words.length - 2 && isCapitalised(words[end + 2])))) end++;
+        const phrase = words.slice(start, end + 1).filter((w, j, list) => !(j === 0 && CONNECTORS.test(w.toLowerCase())) && !(j === list.length - 1 && CONNECTORS.test(w)));
+        // "the University" alone is generic; a proper name needs one more capitalised word
+        const proper = phrase.filter(w => isCapitalised(w) && !ORGANISATION_WORDS.test(w) && w !== 'The');
+        if (proper.length > 0) names.add(phrase.join(' '));
+    });
+    return Array.from(names);
+}
+
+export function checkConsistency(proposal: FullProposal): ConsistencyIssue[] {
+    const issues = new Map<string, ConsistencyIssue>();
+    const report = (key: string, kind: ConsistencyKind, message: string, occurrence: ConsistencyOccurrence) => {
+        const issue = issues.get(key) || { kind, message, occurrences: [] };
+        if (!issue.occurrences.some(o => o.sectionId === occurrence.sectionId && o.excerpt === occurrence.excerpt)) issue.occurrences.push(occurrence);
+        issues.set(key, issue);
+    };
+
+    const partners = proposal.partners || [];
+    const partnerKeys = partners.flatMap(p => [p.name, p.acronym, p.legalNameNational].map(normalize).filter(key => key.length > 2));
+    const isPartner = (name: string) => {
+        const key = normalize(name);
+        return partnerKeys.some(partner => partner.includes(key) || key.includes(partner));
+    };
+    const workPackageCount = (proposal.workPackages || []).length;
+    const countries = new Set(partners.map(p => countryCode(p.country) || normalize(p.country || '')).filter(Boolean));
+
+    const model = getBudgetModel(proposal);
+    const budgetTotal = partnerBudgetMatrix(proposal).total;
+    const budgetAmounts = [budgetTotal, (budgetTotal * getCoFinancingRate(proposal)) / 100, proposal.lumpSum?.amount || 0].filter(a => a > 0);
+    const currency = proposal.settings?.currency || 'EUR';
+    const money = (amount: number) => `${currency} ${Math.round(amount).toLocaleString('en-US')}`;
+
+    // The duration is only compared when it is actually set, not the Gantt chart's default
+    const hasDuration = !!proposal.settings?.customParams?.some(p => p.key.toLowerCase().includes('duration') && /\d/.test(p.value))
+        || (proposal.workPackages || []).some(wp => parseMonthRange(wp.duration));
+    const duration = projectDuration(proposal);
+
+    const acronyms = new Map<string, { expansion: string; occurrence: ConsistencyOccurrence }>();
+
+    assembleDocument(proposal).filter(s => s.content).forEach(section => {
+        sentencesOf(stripHtml(section.content)).forEach(sentence => {
+            const at = (index = 0): ConsistencyOccurrence => ({ sectionId: section.id, sectionTitle: section.title, excerpt: excerptOf(sentence, index) });
+
+            for (const match of sentence.matchAll(WP_REFERENCE)) {
+                const number = parseInt(match[1], 10);
+                if (number > workPackageCount) {
+                    report(`wp:${number}`, 'work-package', `WP${number} is referenced, but the proposal has ${workPackageCount} work package${workPackageCount === 1 ? '' : 's'}`, at(match.index));
+                }
+            }
+
+            if (partners.length > 0) {
+                organisationNames(sentence).filter(name => !isPartner(name)).forEach(name => {
+                    report(`org:${normalize(name)}`, 'partner', `"${name}" is mentioned but is not a partner of the consortium`, at(sentence.indexOf(name)));
+                });
+            }
+
+            if (CONSORTIUM_CONTEXT.test(sentence) && partners.length > 0) {
+                for (const match of sentence.matchAll(PARTNER_COUNT)) {
+                    const count = toNumber(match[1]);
+                    if (count !== partners.length) {
+                        report(`partners:${count}`, 'consortium', `The consortium is described with ${count} partners, but ${partners.length} are listed`, at(match.index));
+                    }
+                }
+                for (const match of sentence.matchAll(COUNTRY_COUNT)) {
+                    const count = toNumber(match[1]);
+                    if (countries.size > 0 && count !== countries.size) {
+                        report(`countries:${count}`, 'consortium', `Partners from ${count} countries are mentioned, but the partners come from ${countries.size}`, at(match.index));
+                    }
+                }
+            }
+
+            if (hasDuration && DURATION_CONTEXT.test(sentence) && !DURATION_EXCLUDED.test(sentence)) {
+                for (const match of sentence.matchAll(DURATION)) {
+                    const months = toNumber(match[1]) * (match[2].toLowerCase().startsWith('year') ? 12 : 1);
+                    if (months !== duration) {
+                        report(`duration:${months}`, 'duration', `A duration of ${months} months is stated, but the project lasts ${duration} months`, at(match.index));
+                    }
+                }
+            }
+
+            if (budgetAmounts.length > 0 && TOTAL_CONTEXT.test(sentence) && !PARTIAL_CONTEXT.test(sentence)) {
+                for (const match of sentence.matchAll(AMOUNT)) {
+                    const amount = parseAmount(match[1] || match[3], match[2] || match[4]);
+                    // Small figures next to a currency are rates or unit costs rather than the budget
+                    if (!Number.isFinite(amount) || amount < 1000) continue;
+                    if (!budgetAmounts.some(total => Math.abs(amount - total) <= total * 0.01)) {
+                        const expected = model === 'lump-sum' && proposal.lumpSum?.amount ? `the lump sum is ${money(proposal.lumpSum.amount)}` : `the budget table totals ${money(budgetTotal)}`;
+                        report(`budget:${Math.round(amount)}`, 'budget', `A budget of ${money(amount)} is stated, but ${expected}`, at(match.index));
+                    }
+                }
+            }
+
+            for (const match of sentence.matchAll(ACRONYM_DEFINITION)) {
+                const acronym = match[2];
+                const expansion = match[1].trim();
+                const known = acronyms.get(acronym);
+                if (!known) {
+                    acronyms.set(acronym, { expansion, occurrence: at(match.index) });
+                } else if (normalize(known.expansion) !== normalize(expansion) && !normalize(known.expansion).endsWith(normalize(expansion)) && !normalize(expansion).endsWith(normalize(known.expansion))) {
+                    const key = `acronym:${acronym}`;
+                    report(key, 'acronym', `${acronym} is defined as both "${known.expansion}" and "${expansion}"`, known.occurrence);
+                    report(key, 'acronym', `${acronym} is defined as both "${known.expansion}" and "${expansion}"`, at(match.index));
+                }
+
+                // A partner introduced under an acronym other than its own
+                const partner = partners.find(p => p.acronym && normalize(expansion).endsWith(normalize(p.name)) && normalize(p.name).length > 3);
+                if (partner && normalize(partner.acronym!) !== normalize(acronym)) {
+                    report(`partner-acronym:${acronym}`, 'acronym', `${partner.name} is called ${acronym}, but its acronym is ${partner.acronym}`, at(match.index));
+                }
+            }
+        });
+    });
+
+    return Array.from(issues.values());
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'vitest';
+import type { Deliverable, FullProposal, Milestone } from '../types/proposal';
+import { getDeliverables, moveWorkPackage, renumberDeliverables, renumberMilestones } from './deliverables';
+
+const deliverable = (title: string, workPackage: number, dueMonth: number): Deliverable =>
+    ({ id: '', title, workPackage, dueMonth, type: 'R', dissemination: 'PU', leadPartner: '' });
+
+test('renumberDeliverables numbers per work package by due month, keeping ties in order', () => {
+    const numbered = renumberDeliverables([
+        deliverable('Final report', 1, 24),
+        deliverable('Curriculum', 2, 12),
+        deliverable('Kick-off report', 1, 3),
+        deliverable('Handbook', 2, 12),
+    ]);
+    assert.deepEqual(numbered.map(d => `${d.id} ${d.title}`), ['D1.1 Kick-off report', 'D1.2 Final report', 'D2.1 Curriculum', 'D2.2 Handbook']);
+});
+
+test('renumberMilestones orders by due month and puts undated milestones last', () => {
+    const milestones: Milestone[] = [
+        { milestone: 'Undated', workPackage: 'WP1', dueDate: 'tbd' },
+        { milestone: 'Pilot', workPackage: 'WP2', dueDate: 'Month 18' },
+        { milestone: 'Kick-off', workPackage: 'WP1', dueDate: '', dueMonth: 1 },
+    ];
+    assert.deepEqual(renumberMilestones(milestones).map(m => [m.id, m.milestone, m.dueDate]), [
+        ['MS1', 'Kick-off', 'M1'],
+        ['MS2', 'Pilot', 'M18'],
+        ['MS3', 'Undated', 'tbd'],
+    ]);
+});
+
+test('getDeliverables derives the registry from the work package lists and keeps edited fields', () => {
+    const proposal = {
+        workPackages: [
+            { name: 'WP1: Management', activities: [], deliverables: ['D1.1: Kick-off report (M3)'] },
+            { name: 'WP2: Training', activities: [{ leadPartner: 'Uni A' }], deliverables: ['Curriculum (M12)'] },
+        ],
+        deliverables: [{ ...deliverable('Kick-off report', 1, 2), id: 'D1.1', type: 'DEC', leadPartner: 'NGO B' }],
+    } as unknown as FullProposal;
+    const registry = getDeliverables(proposal);
+    assert.deepEqual(registry.map(d => [d.id, d.title, d.dueMonth, d.type, d.leadPartner]), [
+        ['D1.1', 'Kick-off report', 3, 'DEC', 'NGO B'],
+        ['D2.1', 'Curriculum', 12, 'R', 'Uni A'],
+    ]);
+});
+
+test('moveWorkPackage renumbers the work packages with their deliverables, milestones and narratives', () => {
+    const proposal = {
+        workPackages: [
+            { name: 'WP1: Management', activities: [], deliverables: ['D1.1 Report (M6)'] },
+            { name: 'WP2: Training', activities: [], deliverables: ['D2.1 Curriculum (M12)'] },
+        ],
+        milestones: [{ milestone: 'Pilot', workPackage: 'WP2', dueDate: 'M18' }],
+        staffEffort: [{ 'Uni A': 2 }, { 'Uni A': 10 }],
+        dynamicSections: { work_package_1: 'Management text', work_package_2: 'Training text' },
+    } as unknown as FullProposal;
+    const moved = moveWorkPackage(proposal, 1, 0);
+    assert.deepEqual(moved.workPackages!.map(wp => [wp.name, wp.deliverables]), [
+        ['WP1: Training', ['D1.1 Curriculum (M12)']],
+        ['WP2: Management', ['D2.1 Report (M6)']],
+    ]);
+    assert.deepEqual(moved.milestones!.map(m => m.workPackage), ['WP1']);
+    assert.deepEqual(moved.staffEffort, [{ 'Uni A': 10 }, { 'Uni A': 2 }]);
+    assert.deepEqual(moved.dynamicSections, { work_package_2: 'Management text', work_package_1: 'Training text' });
+    assert.deepEqual(moveWorkPackage(proposal, 0, 5), {});
+});
@@ -0,0 +1,160 @@
+// Deliverable and milestone registry. Deliverables are numbered D<wp>.<n> within their work package,
+// milestones MS<n> across the project, both in order of due month. The free-text lists the rest of the
+// app reads (WorkPackage.deliverables, Milestone.workPackage/dueDate) are written from the registry.
+
+import type { Deliverable, DeliverableType, DisseminationLevel, FullProposal, Milestone } from '../types/proposal';
+import { parseMonth, projectDuration, workPackageIndexOf, workPackageRange } from './gantt';
+import { getBudgetModel, lumpSumToBudget } from './lump-sum';
+
+export const DELIVERABLE_TYPES: { key: DeliverableType; label: string }[] = [
+    { key: 'R', label: 'Document, report' },
+    { key: 'DEM', label: 'Demonstrator, pilot, prototype' },
+    { key: 'DEC', label: 'Websites, patent filings, videos, etc.' },
+    { key: 'DATA', label: 'Data sets, microdata, etc.' },
+    { key: 'OTHER', label: 'Other' },
+];
+
+export const DISSEMINATION_LEVELS: { key: DisseminationLevel; label: string }[] = [
+    { key: 'PU', label: 'Public' },
+    { key: 'SEN', label: 'Sensitive' },
+];
+
+// Sorts by the given keys without reordering entries that tie
+const stableSort = <T,>(list: T[], keys: (item: T) => number[]) =>
+    list
+        .map((item, index) => ({ item, index, keys: keys(item) }))
+        .sort((a, b) => {
+            for (let i = 0; i < a.keys.length; i++) {
+                if (a.keys[i] !== b.keys[i]) return a.keys[i] - b.keys[i];
+            }
+            return a.index - b.index;
+        })
+        .map(entry => entry.item);
+
+export const deliverableLabel = (deliverable: Deliverable) => `${deliverable.id} ${deliverable.title} (M${deliverable.dueMonth})`;
+
+export const milestoneDueMonth = (milestone: Milestone) => milestone.dueMonth || parseMonth(milestone.dueDate) || 0;
+
+// "D2.1: Report on needs (M6)" -> "Report on needs"
+const stripLabel = (text: string) =>
+    text.replace(/^\s*D\d+(?:\.\d+)?\s*[:.\-–]?\s*/i, '').replace(/\s*\((?:M|Month\s*)\d{1,3}\)\s*$/i, '').trim();
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * The registry, re-derived from the work packages' deliverable lists when those no longer match it: for
+ * proposals that have none yet, and after the lists were edited elsewhere (AI edits, the copilot, imports).
+ * Entries whose label or title is unchanged keep their type, dissemination level and lead partner.
+ */
+export function getDeliverables(proposal: FullProposal): Deliverable[] {
+    const workPackages = proposal.workPackages || [];
+    const registry = proposal.deliverables;
+    const inSync = registry && workPackages.every((wp, i) =>
+        sameList((wp.deliverables || []).filter(Boolean), registry.filter(d => d.workPackage === i + 1).map(deliverableLabel)));
+    if (inSync) return registry;
+
+    const duration = projectDuration(proposal);
+    const unmatched = [...(registry || [])];
+    const derived = workPackages.flatMap((wp, i) =>
+        (wp.deliverables || []).filter(Boolean).map((text): Deliverable => {
+            const title = stripLabel(text);
+            const index = unmatched.findIndex(d => d.workPackage === i + 1 && (deliverableLabel(d) === text || d.title === title));
+            if (index >= 0) {
+                const [previous] = unmatched.splice(index, 1);
+                return { ...previous, title, dueMonth: parseMonth(text) || previous.dueMonth };
+            }
+            return {
+                id: '',
+                title,
+                workPackage: i + 1,
+                type: 'R',
+                dissemination: 'PU',
+                leadPartner: wp.activities?.[0]?.leadPartner || '',
+                dueMonth: parseMonth(text) || workPackageRange(wp, duration).end,
+            };
+        }));
+    // Deliverables of work packages that do not exist have no list to compare with
+    const detached = unmatched.filter(d => d.workPackage < 1 || d.workPackage > workPackages.length);
+    return renumberDeliverables([...derived, ...detached]);
+}
+
+export const renumberDeliverables = (deliverables: Deliverable[]): Deliverable[] => {
+    const counters: Record<number, number> = {};
+    return stableSort(deliverables, d => [d.workPackage, d.dueMonth || 0]).map(d => {
+        counters[d.workPackage] = (counters[d.workPackage] || 0) + 1;
+        return { ...d, id: `D${d.workPackage}.${counters[d.workPackage]}` };
+    });
+};
+
+// Milestones without a due month keep their place after the dated ones
+export const renumberMilestones = (milestones: Milestone[]): Milestone[] =>
+    stableSort(milestones, m => [milestoneDueMonth(m) || Number.MAX_SAFE_INTEGER]).map((m, i) => {
+        const dueMonth = milestoneDueMonth(m);
+        return { ...m, id: `MS${i + 1}`, ...(dueMonth ? { dueMonth, dueDate: `M${dueMonth}` } : {}) };
+    });
+
+/** Renumbered registry plus the matching deliverable list on every work package */
+export function updateDeliverables(proposal: FullProposal, deliverables: Deliverable[]): Partial<FullProposal> {
+    const numbered = renumberDeliverables(deliverables);
+    return {
+        deliverables: numbered,
+        workPackages: (proposal.workPackages || []).map((wp, i) => ({
+            ...wp,
+            deliverables: numbered.filter(d => d.workPackage === i + 1).map(deliverableLabel),
+        })),
+    };
+}
+
+export const updateMilestones = (milestones: Milestone[]): Partial<FullProposal> => ({ milestones: renumberMilestones(milestones) });
+
+/**
+ * Moves a work package and everything indexed by work package along with it: staff effort, the lump-sum
+ * split (and the budget derived from it), the work_package_<n> narratives, and the work package numbers
+ * of deliverables and milestones, which are then renumbered.
+ */
+export function moveWorkPackage(proposal: FullProposal, from: number, to: number): Partial<FullProposal> {
+    const count = proposal.workPackages?.length || 0;
+    if (from === to || from < 0 || to < 0 || from >= count || to >= count) return {};
+
+    const move = <T,>(list: T[]) => {
+        const copy = [...list];
+        const [item] = copy.splice(from, 1);
+        copy.splice(to, 0, item);
+        return copy;
+    };
+    // Old index -> new index
+    const order = move(Array.from({ length: count }, (_, i) => i));
+    const newIndex = (oldIndex: number) => order.indexOf(oldIndex);
+
+    // Names generated as "WP1: Project Management" follow the new position
+    const workPackages = move(proposal.workPackages).map((wp, i) => ({ ...wp, name: (wp.name || '').replace(/^WP\s*\d+(\s*[:.\-–])/i, `WP${i + 1}$1`) }));
+    const fields: Partial<FullProposal> = { workPackages };
+    if (proposal.staffEffort) {
+        fields.staffEffort = move(Array.from({ length: count }, (_, i) => proposal.staffEffort![i] || {}));
+    }
+    if (proposal.lumpSum && proposal.lumpSum.workPackages.length === count) {
+        fields.lumpSum = { ...proposal.lumpSum, workPackages: move(proposal.lumpSum.workPackages) };
+        if (getBudgetModel(proposal) === 'lump-sum') fields.budget = lumpSumToBudget(fields.lumpSum, { ...proposal, ...fields });
+    }
+
+    const moved = { ...proposal, ...fields };
+    const deliverables = getDeliverables(proposal).map(d =>
+        d.workPackage >= 1 && d.workPackage <= count ? { ...d, workPackage: newIndex(d.workPackage - 1) + 1 } : d);
+    Object.assign(fields, updateDeliverables(moved, deliverables));
+    Object.assign(fields, updateMilestones((proposal.milestones || []).map(m => {
+        const index = workPackageIndexOf(proposal, m.workPackage);
+        return index >= 0 && index < count ? { ...m, workPackage: `WP${newIndex(index) + 1}` } : m;
+    })));
+    // Work package narratives are keyed by number too
+    const dynamic: Record<string, string> | undefined = proposal.dynamicSections || (proposal as any).dynamic_sections;
+    if (dynamic) {
+        const remapped = Object.fromEntries(Object.entries(dynamic).map(([key, value]) => {
+            const match = /^work_package_(\d+)$/.exec(key);
+            const index = match ? parseInt(match[1], 10) - 1 : -1;
+            return [index >= 0 && index < count ? `work_package_${newIndex(index) + 1}` : key, value];
+        }));
+        (fields as any).dynamic_sections = remapped;
+        if (proposal.dynamicSections) fields.dynamicSections = remapped;
+    }
+    return fields;
+}
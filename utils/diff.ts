@@ -0,0 +1,160 @@
+// Diffing for reviewing AI edits: word-level for narrative HTML, row-level for structured arrays
+// (budget, risks, workPackages). Every change is a hunk that can be accepted or rejected on its own;
+// the apply* helpers rebuild the value from the accepted hunks.
+
+export type TextHunk =
+    | { type: 'equal'; text: string }
+    | { type: 'change'; id: number; before: string; after: string };
+
+export type RowHunk<T = any> =
+    | { type: 'equal'; row: T }
+    | { type: 'added'; id: number; after: T }
+    | { type: 'removed'; id: number; before: T }
+    | { type: 'modified'; id: number; before: T; after: T };
+
+type Op<T> = { op: 'equal' | 'insert' | 'delete'; value: T };
+
+// Largest LCS table (cells) built for one diff; bigger inputs are compared by paragraph, then as a whole
+const MAX_CELLS = 4_000_000;
+
+// Longest common subsequence over the middle part, after trimming the common prefix and suffix.
+// A middle part too large for the table becomes one deletion and one insertion.
+const diffSequences = <T>(a: T[], b: T[], key: (item: T) => string): Op<T>[] => {
+    const ka = a.map(key);
+    const kb = b.map(key);
+
+    let start = 0;
+    while (start < a.length && start < b.length && ka[start] === kb[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && ka[endA - 1] === kb[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const n = endA - start;
+    const m = endB - start;
+    if ((n + 1) * (m + 1) > MAX_CELLS) {
+        return [
+            ...a.slice(0, start).map(value => ({ op: 'equal' as const, value })),
+            ...a.slice(start, endA).map(value => ({ op: 'delete' as const, value })),
+            ...b.slice(start, endB).map(value => ({ op: 'insert' as const, value })),
+            ...a.slice(endA).map(value => ({ op: 'equal' as const, value })),
+        ];
+    }
+    const table = new Int32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i * (m + 1) + j] = ka[start + i] === kb[start + j]
+                ? table[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const ops: Op<T>[] = a.slice(0, start).map(value => ({ op: 'equal', value }));
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && ka[start + i] === kb[start + j]) {
+            ops.push({ op: 'equal', value: a[start + i] });
+            i++;
+            j++;
+        } else if (i < n && (j === m || table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1])) {
+            ops.push({ op: 'delete', value: a[start + i] });
+            i++;
+        } else {
+            ops.push({ op: 'insert', value: b[start + j] });
+            j++;
+        }
+    }
+    return ops.concat(a.slice(endA).map(value => ({ op: 'equal' as const, value })));
+};
+
+// Tags, words and whitespace runs; tags are kept whole so accepted hunks still produce valid HTML
+const tokenize = (html: string) => html.match(/<[^>]+>|[^\s<]+|\s+/g) || [];
+
+// Block-level pieces (up to and including a closing block tag), for sections too long to diff word by word
+const paragraphs = (html: string) => html.split(/(?<=<\/(?:p|li|ul|ol|h[1-6]|tr|table|div)>)/i).filter(Boolean);
+
+export function diffWords(before: string, after: string): TextHunk[] {
+    const hunks: TextHunk[] = [];
+    let nextId = 0;
+
+    let a: string[] = tokenize(before || '');
+    let b: string[] = tokenize(after || '');
+    if (a.length * b.length > MAX_CELLS) {
+        a = paragraphs(before || '');
+        b = paragraphs(after || '');
+    }
+
+    for (const { op, value } of diffSequences(a, b, t => t)) {
+        let last = hunks[hunks.length - 1];
+        if (op === 'equal') {
+            if (last?.type === 'equal') last.text += value;
+            else hunks.push({ type: 'equal', text: value });
+            continue;
+        }
+
+        // Whitespace between two changes belongs to them, so "a b" -> "c d" is one hunk
+        const previous = hunks[hunks.length - 2];
+        if (last?.type === 'equal' && /^\s+$/.test(last.text) && previous?.type === 'change') {
+            hunks.pop();
+            previous.before += last.text;
+            previous.after += last.text;
+            last = previous;
+        }
+        if (last?.type !== 'change') {
+            last = { type: 'change', id: nextId++, before: '', after: '' };
+            hunks.push(last);
+        }
+        if (op === 'delete') last.before += value;
+        else last.after += value;
+    }
+    return hunks;
+}
+
+export const applyTextHunks = (hunks: TextHunk[], accepted: Set<number>) =>
+    hunks.map(h => (h.type === 'equal' ? h.text : accepted.has(h.id) ? h.after : h.before)).join('');
+
+export function diffRows<T = any>(before: T[], after: T[]): RowHunk<T>[] {
+    const hunks: RowHunk<T>[] = [];
+    let nextId = 0;
+    let removed: T[] = [];
+    let added: T[] = [];
+
+    // A run of deletions followed by insertions is paired up row by row as modifications
+    const flush = () => {
+        const paired = Math.min(removed.length, added.length);
+        for (let k = 0; k < paired; k++) hunks.push({ type: 'modified', id: nextId++, before: removed[k], after: added[k] });
+        for (const row of removed.slice(paired)) hunks.push({ type: 'removed', id: nextId++, before: row });
+        for (const row of added.slice(paired)) hunks.push({ type: 'added', id: nextId++, after: row });
+        removed = [];
+        added = [];
+    };
+
+    for (const { op, value } of diffSequences(before || [], after || [], row => JSON.stringify(row))) {
+        if (op === 'equal') {
+            flush();
+            hunks.push({ type: 'equal', row: value });
+        } else if (op === 'delete') {
+            removed.push(value);
+        } else {
+            added.push(value);
+        }
+    }
+    flush();
+    return hunks;
+}
+
+export const applyRowHunks = <T>(hunks: RowHunk<T>[], accepted: Set<number>): T[] =>
+    hunks.flatMap(h => {
+        switch (h.type) {
+            case 'equal': return [h.row];
+            case 'added': return accepted.has(h.id) ? [h.after] : [];
+            case 'removed': return accepted.has(h.id) ? [] : [h.before];
+            case 'modified': return [accepted.has(h.id) ? h.after : h.before];
+        }
+    });
+
+export const hunkIds = (hunks: (TextHunk | RowHunk)[]) =>
+    hunks.filter(h => h.type !== 'equal').map(h => (h as { id: number }).id);
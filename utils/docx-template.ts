@@ -0,0 +1,228 @@
+// Official DOCX templates: finding the headings and placeholders of an uploaded template, and injecting
+// generated content at the mapped anchors while the rest of the file (styles, headers, footers) stays as it is.
+// Works on the WordprocessingML of word/document.xml; only top-level body paragraphs can be anchors.
+
+import JSZip from 'jszip';
+import type { DocxTemplateAnchor, FundingSchemeSection, InstructionRules, OfficialDocxTemplate } from '../types/funding-scheme';
+
+const DOCUMENT_XML = 'word/document.xml';
+const STYLES_XML = 'word/styles.xml';
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Anchor targets besides the scheme's sections: the blocks the DOCX export builds from structured data
+export const STRUCTURED_TARGETS: { key: string; label: string }[] = [
+    { key: '@summary', label: 'Executive summary' },
+    { key: '@partners', label: 'Participating organisations table' },
+    { key: '@partner_profiles', label: 'Organisation profiles' },
+    { key: '@wp_list', label: 'Work package, staff effort, Gantt, deliverable and milestone tables' },
+    { key: '@work_packages', label: 'Work package descriptions' },
+    { key: '@budget', label: 'Budget tables' },
+    { key: '@risks', label: 'Risk table' },
+];
+
+interface BodyElement {
+    name: string; // "w:p", "w:tbl", "w:sectPr", ...
+    xml: string;
+}
+
+export interface FlatSection {
+    key: string;
+    label: string;
+    depth: number;
+    descendants: string[]; // Keys of all nested subsections
+}
+
+export function flattenSections(sections: FundingSchemeSection[] = [], depth = 0): FlatSection[] {
+    return sections.flatMap(section => {
+        const nested = flattenSections(section.subsections, depth + 1);
+        return [{ key: section.key, label: section.label, depth, descendants: nested.map(s => s.key) }, ...nested];
+    });
+}
+
+const decode = (text: string) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&');
+
+// Splits the children of <w:body> into top-level elements, matching nested elements of the same name
+function splitBody(xml: string): { head: string; elements: BodyElement[]; tail: string } {
+    const open = xml.search(/<w:body>/);
+    const close = xml.lastIndexOf('</w:body>');
+    if (open === -1 || close === -1) throw new Error('word/document.xml has no body');
+    const start = open + '<w:body>'.length;
+    const elements: BodyElement[] = [];
+
+    let i = start;
+    while (i < close) {
+        const lt = xml.indexOf('<', i);
+        if (lt === -1 || lt >= close) break;
+        const name = /^<([\w:]+)/.exec(xml.slice(lt, lt + 64))?.[1];
+        if (!name) break;
+        const tag = new RegExp(`<(/?)${name}(?=[\\s/>])[^>]*?(/?)>`, 'g');
+        tag.lastIndex = lt;
+        let depth = 0;
+        let end = close;
+        for (let m = tag.exec(xml); m; m = tag.exec(xml)) {
+            if (m[1]) depth--;
+            else if (!m[2]) depth++;
+            if (depth === 0) {
+                end = m.index + m[0].length;
+                break;
+            }
+        }
+        elements.push({ name, xml: xml.slice(lt, end) });
+        i = end;
+    }
+    return { head: xml.slice(0, start), elements, tail: xml.slice(close) };
+}
+
+const elementText = (xml: string) =>
+    decode(Array.from(xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>/g)).map(m => m[1] ?? ' ').join('')).trim();
+
+const paragraphStyle = (xml: string) => /<w:pStyle w:val="([^"]+)"/.exec(xml)?.[1];
+
+// Heading levels of the template's paragraph styles: built-in "heading n" names are English in every language version
+function headingStyles(stylesXml: string): Map<string, number> {
+    const levels = new Map<string, number>();
+    for (const match of stylesXml.matchAll(/<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g)) {
+        const [, id, body] = match;
+        const name = /<w:name w:val="([^"]+)"/.exec(body)?.[1] || '';
+        const heading = /^heading (\d)$/i.exec(name);
+        const outline = /<w:outlineLvl w:val="(\d)"/.exec(body);
+        if (heading) levels.set(id, parseInt(heading[1]));
+        else if (outline && parseInt(outline[1]) < 9) levels.set(id, parseInt(outline[1]) + 1);
+    }
+    return levels;
+}
+
+function headingLevel(xml: string, styles: Map<string, number>): number | undefined {
+    const outline = /<w:outlineLvl w:val="(\d)"/.exec(xml);
+    if (outline && parseInt(outline[1]) < 9) return parseInt(outline[1]) + 1;
+    const style = paragraphStyle(xml);
+    return style ? styles.get(style) : undefined;
+}
+
+// "[Insert text]", "<describe ...>", "{{objectives}}" or a line of underscores
+const PLACEHOLDER = /\[[^\]]{2,}\]|<[^<>]{2,}>|\{\{[^}]+\}\}|^_{5,}$/;
+
+function isInstruction(element: BodyElement, rules: InstructionRules, patterns: RegExp[]): boolean {
+    if (element.name !== 'w:p' && element.name !== 'w:tbl') return false;
+    const text = elementText(element.xml);
+    if (!text) return false;
+    if (element.name === 'w:p' && rules.styles?.includes(paragraphStyle(element.xml) || '')) return true;
+    if (patterns.some(pattern => pattern.test(text))) return true;
+    if (rules.italic) {
+        const runs = Array.from(element.xml.matchAll(/<w:r\b[^>]*>([\s\S]*?)<\/w:r>/g)).map(m => m[1]).filter(run => elementText(run));
+        return runs.length > 0 && runs.every(run => /<w:i(?: w:val="(?:1|true|on)")?\/>/.test(run));
+    }
+    return false;
+}
+
+const normalizeLabel = (text: string) => text.toLowerCase().replace(/^[\d.\s]+/, '').replace(/[^a-z0-9]/g, '');
+
+// The scheme section (or structured block) a template heading most likely stands for
+export function suggestSectionKey(text: string, sections: FlatSection[]): string | null {
+    const wanted = normalizeLabel(text);
+    if (!wanted) return null;
+    const exact = sections.find(s => normalizeLabel(s.label) === wanted);
+    if (exact) return exact.key;
+    const partial = sections.find(s => {
+        const label = normalizeLabel(s.label);
+        return label.length > 4 && wanted.length > 4 && (label.includes(wanted) || wanted.includes(label));
+    });
+    if (partial) return partial.key;
+    if (/summary|abstract/.test(wanted)) return '@summary';
+    if (/risk/.test(wanted)) return '@risks';
+    if (/budget|costs/.test(wanted)) return '@budget';
+    if (/listofworkpackages|workpackagesoverview/.test(wanted)) return '@wp_list';
+    return null;
+}
+
+/** Headings and placeholders of a DOCX template, each with a suggested scheme section */
+export async function extractTemplateAnchors(data: Blob | ArrayBuffer, sections: FundingSchemeSection[] = []): Promise<DocxTemplateAnchor[]> {
+    const zip = await JSZip.loadAsync(data);
+    const xml = await zip.file(DOCUMENT_XML)?.async('string');
+    if (!xml) throw new Error('Not a Word document (word/document.xml is missing)');
+    const styles = headingStyles(await zip.file(STYLES_XML)?.async('string') || '');
+    const flat = flattenSections(sections);
+
+    const anchors: DocxTemplateAnchor[] = [];
+    splitBody(xml).elements.filter(e => e.name === 'w:p').forEach((paragraph, index) => {
+        const text = elementText(paragraph.xml);
+        if (!text) return;
+        const level = headingLevel(paragraph.xml, styles);
+        if (level !== undefined) {
+            anchors.push({ index, text, kind: 'heading', level, sectionKey: suggestSectionKey(text, flat) });
+        } else if (text.length < 300 && PLACEHOLDER.test(text)) {
+            anchors.push({ index, text, kind: 'placeholder', sectionKey: null });
+        }
+    });
+    return anchors;
+}
+
+/** Marker paragraph that starts the content of an anchor in the generated content document */
+export const anchorMarker = (anchor: DocxTemplateAnchor) => `[[template-anchor:${anchor.index}]]`;
+
+// Generated content uses the template's fonts; bullets become plain "•" paragraphs because the
+// content document's numbering definitions do not exist in the template
+function adaptContent(xml: string): string {
+    return xml
+        .replace(/<w:rFonts\b[^>]*\/>/g, '')
+        .replace(/<w:p(\s[^>]*?)?(?<!\/)>([\s\S]*?)<\/w:p>/g, (paragraph, attributes, inner) => {
+            if (!inner.includes('<w:numPr>')) return paragraph;
+            const pPr = inner.replace(/<w:numPr>[\s\S]*?<\/w:numPr>/, inner.includes('<w:ind ') ? '' : '<w:ind w:left="720" w:hanging="360"/>');
+            return `<w:p${attributes || ''}>${pPr.replace(/(<\/w:pPr>)/, '$1<w:r><w:t xml:space="preserve">•\t</w:t></w:r>')}</w:p>`;
+        });
+}
+
+/**
+ * Fills the template with the content document: everything between two marker paragraphs of the
+ * content goes below the heading (or in place of the placeholder) the marker names. Instruction
+ * paragraphs and tables matching the template's rules are removed.
+ */
+export async function fillDocxTemplate(templateData: Blob | ArrayBuffer, contentData: Blob | ArrayBuffer, template: OfficialDocxTemplate): Promise<Blob> {
+    const zip = await JSZip.loadAsync(templateData);
+    const xml = await zip.file(DOCUMENT_XML)?.async('string');
+    const contentXml = await (await JSZip.loadAsync(contentData)).file(DOCUMENT_XML)?.async('string');
+    if (!xml || !contentXml) throw new Error('Not a Word document (word/document.xml is missing)');
+
+    const content = new Map<number, string>();
+    let current: number | null = null;
+    for (const element of splitBody(contentXml).elements) {
+        const marker = element.name === 'w:p' ? /^\[\[template-anchor:(\d+)\]\]$/.exec(elementText(element.xml)) : null;
+        if (marker) {
+            current = parseInt(marker[1]);
+            content.set(current, '');
+        } else if (current !== null && element.name !== 'w:sectPr') {
+            content.set(current, content.get(current) + adaptContent(element.xml));
+        }
+    }
+
+    const anchors = new Map(template.anchors.filter(a => a.sectionKey).map(a => [a.index, a]));
+    const rules = template.instructions || {};
+    const patterns = (rules.patterns || []).flatMap(source => {
+        try {
+            return [new RegExp(source, 'i')];
+        } catch {
+            return [];
+        }
+    });
+
+    const styles = headingStyles(await zip.file(STYLES_XML)?.async('string') || '');
+    const { head, elements, tail } = splitBody(xml);
+    let paragraphIndex = -1;
+    const body = elements.map(element => {
+        const index = element.name === 'w:p' ? ++paragraphIndex : -1;
+        const anchor = anchors.get(index);
+        if (anchor) {
+            const filled = content.get(anchor.index) || '';
+            return anchor.kind === 'placeholder' ? filled : element.xml + filled;
+        }
+        // Headings stay even when they look like guidance, so the template's structure is kept
+        const heading = element.name === 'w:p' && headingLevel(element.xml, styles) !== undefined;
+        return !heading && isInstruction(element, rules, patterns) ? '' : element.xml;
+    });
+
+    zip.file(DOCUMENT_XML, head + body.join('') + tail);
+    return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME });
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { test } from 'vitest';
+import type { Partner } from '../types/partner';
+import { checkEligibility, countryCode, ELIGIBILITY_PRESETS, isEligible } from './eligibility';
+
+const partner = (name: string, country: string, fields: Partial<Partner> = {}) => ({ id: name, name, country, ...fields }) as Partner;
+
+test('countryCode recognises codes, names and common aliases', () => {
+    assert.deepEqual(['de', 'Germany', ' UK ', 'Czech Republic', 'el', 'Atlantis', ''].map(countryCode), ['DE', 'DE', 'GB', 'CZ', 'GR', null, null]);
+});
+
+test('a consortium that meets every KA220 rule passes', () => {
+    const checks = checkEligibility([
+        partner('Uni A', 'Germany', { isCoordinator: true }),
+        partner('NGO B', 'FR'),
+        partner('SME C', 'Türkiye'),
+    ], ELIGIBILITY_PRESETS['Erasmus+ KA220']);
+    assert.ok(checks.length > 0);
+    assert.ok(checks.every(check => check.status === 'pass'));
+    assert.ok(isEligible(checks));
+});
+
+test('partners outside the eligible countries and duplicates do not count', () => {
+    const checks = checkEligibility([
+        partner('Uni A', 'Canada', { isCoordinator: true }),
+        partner('NGO B', 'FR', { pic: '999' }),
+        partner('NGO B (again)', 'France', { pic: '999' }),
+        partner('SME C', ''),
+    ], ELIGIBILITY_PRESETS['Erasmus+ KA220']);
+    assert.deepEqual(checks, [
+        { status: 'fail', message: 'Only 1 organisation from eligible countries: at least 3 are required' },
+        { status: 'warning', message: 'No country set for SME C' },
+        { status: 'warning', message: 'Uni A (Canada) is not established in an eligible country and does not count towards the consortium requirements' },
+        { status: 'fail', message: 'Partners from 1 different eligible country: at least 3 are required' },
+        { status: 'fail', message: 'The coordinator Uni A must be established in an eligible country (not Canada)' },
+    ]);
+    assert.equal(isEligible(checks), false);
+});
+
+test('organisation type rules name the partners that break them', () => {
+    const checks = checkEligibility([
+        partner('Uni A', 'DE', { organizationType: 'SME' }),
+        partner('NGO B', 'FR', { organizationType: 'NGO' }),
+        partner('Lab C', 'IT'),
+    ], { allowedOrganizationTypes: ['University', 'NGO'], coordinatorOrganizationTypes: ['University'] });
+    assert.deepEqual(checks, [
+        { status: 'fail', message: 'Organisation type not eligible: Uni A (SME)' },
+        { status: 'warning', message: 'No organisation type set for Lab C' },
+        { status: 'fail', message: 'The coordinator Uni A must be one of: University' },
+    ]);
+});
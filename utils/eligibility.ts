@@ -0,0 +1,136 @@
+// Consortium eligibility: evaluates a scheme's EligibilityRules against the partners of a proposal
+// (or the partners picked for generation) and explains every rule that passes or fails.
+
+import type { EligibilityRules, FundingScheme } from '../types/funding-scheme';
+import type { Partner } from '../types/partner';
+
+export type EligibilityStatus = 'pass' | 'fail' | 'warning';
+
+export interface EligibilityCheck {
+    status: EligibilityStatus;
+    message: string;
+}
+
+// Partners store the country as typed ("Germany", "DE"), so both names and codes are recognised
+export const COUNTRIES: Record<string, string> = {
+    AT: 'Austria', BE: 'Belgium', BG: 'Bulgaria', HR: 'Croatia', CY: 'Cyprus', CZ: 'Czechia', DK: 'Denmark',
+    EE: 'Estonia', FI: 'Finland', FR: 'France', DE: 'Germany', GR: 'Greece', HU: 'Hungary', IE: 'Ireland',
+    IT: 'Italy', LV: 'Latvia', LT: 'Lithuania', LU: 'Luxembourg', MT: 'Malta', NL: 'Netherlands', PL: 'Poland',
+    PT: 'Portugal', RO: 'Romania', SK: 'Slovakia', SI: 'Slovenia', ES: 'Spain', SE: 'Sweden',
+    IS: 'Iceland', LI: 'Liechtenstein', NO: 'Norway', MK: 'North Macedonia', RS: 'Serbia', TR: 'Türkiye',
+    AL: 'Albania', AM: 'Armenia', BA: 'Bosnia and Herzegovina', CA: 'Canada', CH: 'Switzerland', FO: 'Faroe Islands',
+    GE: 'Georgia', GB: 'United Kingdom', IL: 'Israel', KR: 'South Korea', MD: 'Moldova', ME: 'Montenegro',
+    NZ: 'New Zealand', TN: 'Tunisia', UA: 'Ukraine', XK: 'Kosovo',
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+    el: 'GR', uk: 'GB', 'czech republic': 'CZ', turkey: 'TR', 'great britain': 'GB', england: 'GB',
+    'republic of moldova': 'MD', 'republic of korea': 'KR', korea: 'KR', macedonia: 'MK', holland: 'NL',
+};
+
+const EU_MEMBER_STATES = ['AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'];
+
+export const COUNTRY_GROUPS: Record<string, string[]> = {
+    'EU member states': EU_MEMBER_STATES,
+    'Erasmus+ programme countries': [...EU_MEMBER_STATES, 'IS', 'LI', 'NO', 'MK', 'RS', 'TR'],
+    'Horizon Europe member and associated countries': [...EU_MEMBER_STATES, 'AL', 'AM', 'BA', 'CA', 'CH', 'FO', 'GE', 'GB', 'IL', 'IS', 'KR', 'MD', 'ME', 'MK', 'NO', 'NZ', 'RS', 'TN', 'TR', 'UA', 'XK'],
+};
+
+export const ELIGIBILITY_PRESETS: Record<string, EligibilityRules> = {
+    'Erasmus+ KA210': { minPartners: 2, minCountries: 2, eligibleCountries: COUNTRY_GROUPS['Erasmus+ programme countries'], coordinatorInEligibleCountry: true },
+    'Erasmus+ KA220': { minPartners: 3, minCountries: 3, eligibleCountries: COUNTRY_GROUPS['Erasmus+ programme countries'], coordinatorInEligibleCountry: true },
+    'Horizon Europe RIA/IA': { minPartners: 3, minCountries: 3, eligibleCountries: COUNTRY_GROUPS['Horizon Europe member and associated countries'] },
+};
+
+/** ISO code of a country given by name or code; null when it is not one we know */
+export const countryCode = (value?: string): string | null => {
+    const text = (value || '').trim();
+    if (!text) return null;
+    if (COUNTRIES[text.toUpperCase()]) return text.toUpperCase();
+    const lower = text.toLowerCase();
+    if (COUNTRY_ALIASES[lower]) return COUNTRY_ALIASES[lower];
+    return Object.keys(COUNTRIES).find(code => COUNTRIES[code].toLowerCase() === lower) || null;
+};
+
+export const getEligibilityRules = (scheme?: FundingScheme | null): EligibilityRules | null =>
+    scheme?.template_json?.eligibility || null;
+
+export const hasEligibilityRules = (rules?: EligibilityRules | null) =>
+    !!rules && !!(rules.minPartners || rules.minCountries || rules.eligibleCountries?.length
+        || rules.allowedOrganizationTypes?.length || rules.coordinatorOrganizationTypes?.length || rules.coordinatorInEligibleCountry);
+
+// The same organisation added twice (same PIC/OID or name) counts once
+const organisationKey = (partner: Partner) =>
+    (partner.pic || partner.organisationId || partner.name || '').trim().toLowerCase();
+
+const label = (partner: Partner) => partner.acronym || partner.name;
+
+export function checkEligibility(partners: Partner[], rules: EligibilityRules): EligibilityCheck[] {
+    const checks: EligibilityCheck[] = [];
+    const eligible = new Set(rules.eligibleCountries || []);
+    const isEligibleCountry = (partner: Partner) => {
+        const code = countryCode(partner.country);
+        return eligible.size === 0 ? !!(code || partner.country?.trim()) : !!code && eligible.has(code);
+    };
+    const coordinator = partners.find(p => p.isCoordinator) || partners[0];
+
+    if (rules.minPartners) {
+        // With a country list, only organisations established in an eligible country count
+        const counted = eligible.size > 0 ? partners.filter(isEligibleCountry) : partners;
+        const count = new Set(counted.map(organisationKey).filter(Boolean)).size;
+        const where = eligible.size > 0 ? ' from eligible countries' : '';
+        checks.push(count >= rules.minPartners
+            ? { status: 'pass', message: `${count} organisations${where} (at least ${rules.minPartners} required)` }
+            : { status: 'fail', message: `Only ${count} organisation${count === 1 ? '' : 's'}${where}: at least ${rules.minPartners} are required` });
+    }
+
+    if (rules.minCountries || eligible.size > 0) {
+        const missing = partners.filter(p => !p.country?.trim());
+        if (missing.length > 0) {
+            checks.push({ status: 'warning', message: `No country set for ${missing.map(label).join(', ')}` });
+        }
+        const outside = partners.filter(p => p.country?.trim() && !isEligibleCountry(p));
+        if (eligible.size > 0 && outside.length > 0) {
+            checks.push({
+                status: 'warning',
+                message: `${outside.map(p => `${label(p)} (${p.country})`).join(', ')} ${outside.length === 1 ? 'is' : 'are'} not established in an eligible country and ${outside.length === 1 ? 'does' : 'do'} not count towards the consortium requirements`,
+            });
+        }
+    }
+
+    if (rules.minCountries) {
+        const countries = new Set(partners.filter(isEligibleCountry).map(p => countryCode(p.country) || p.country!.trim().toLowerCase()));
+        const where = eligible.size > 0 ? ' eligible' : '';
+        checks.push(countries.size >= rules.minCountries
+            ? { status: 'pass', message: `Partners from ${countries.size} different${where} countries (at least ${rules.minCountries} required)` }
+            : { status: 'fail', message: `Partners from ${countries.size} different${where} countr${countries.size === 1 ? 'y' : 'ies'}: at least ${rules.minCountries} are required` });
+    }
+
+    if (rules.allowedOrganizationTypes?.length) {
+        const allowed = rules.allowedOrganizationTypes;
+        const untyped = partners.filter(p => !p.organizationType);
+        const excluded = partners.filter(p => p.organizationType && !allowed.includes(p.organizationType));
+        checks.push(excluded.length === 0
+            ? { status: 'pass', message: 'All organisation types are eligible' }
+            : { status: 'fail', message: `Organisation type not eligible: ${excluded.map(p => `${label(p)} (${p.organizationType})`).join(', ')}` });
+        if (untyped.length > 0) {
+            checks.push({ status: 'warning', message: `No organisation type set for ${untyped.map(label).join(', ')}` });
+        }
+    }
+
+    if (coordinator && rules.coordinatorOrganizationTypes?.length) {
+        checks.push(coordinator.organizationType && rules.coordinatorOrganizationTypes.includes(coordinator.organizationType)
+            ? { status: 'pass', message: `The coordinator's organisation type (${coordinator.organizationType}) may coordinate` }
+            : { status: 'fail', message: `The coordinator ${label(coordinator)} must be one of: ${rules.coordinatorOrganizationTypes.join(', ')}` });
+    }
+
+    if (coordinator && rules.coordinatorInEligibleCountry && eligible.size > 0) {
+        checks.push(isEligibleCountry(coordinator)
+            ? { status: 'pass', message: `The coordinator is established in an eligible country (${coordinator.country})` }
+            : { status: 'fail', message: `The coordinator ${label(coordinator)} must be established in an eligible country${coordinator.country ? ` (not ${coordinator.country})` : ''}` });
+    }
+
+    return checks;
+}
+
+export const isEligible = (checks: EligibilityCheck[]) => checks.every(check => check.status !== 'fail');
@@ -22,6 +22,15 @@ import { saveAs } from "file-saver";
 import { FullProposal, WorkPackage } from "../types/proposal";
 import { Partner } from "../types/partner";
 import { assembleDocument, DisplaySection } from "./proposal-assembly";
+import { getBudgetModel, lumpSumMatrix, syncLumpSum } from "./lump-sum";
+import { getCoFinancingRate, partnerBudgetMatrix, type PartnerBudgetRow } from "./partner-budget";
+import { COST_CATEGORIES, UNASSIGNED_PARTNER, actualCostSummary } from "./actual-cost";
+import { staffEffortMatrix } from "./staff-effort";
+import { ganttRows, projectDuration } from "./gantt";
+import { getDeliverables, renumberMilestones } from "./deliverables";
+import { anchorMarker, fillDocxTemplate, flattenSections } from "./docx-template";
+import { supabase } from "./supabase";
+import type { OfficialDocxTemplate } from "../types/funding-scheme";
 
 // ============================================================================
 // STYLING CONSTANTS (EU PROFESSIONAL STYLE)
@@ -38,7 +47,7 @@ const H2_SIZE = 28;   // 14pt
 // HELPERS
 // ============================================================================
 
-function getCurrencySymbol(currency: string = "EUR"): string {
+export function getCurrencySymbol(currency: string = "EUR"): string {
   if (currency === "EUR") return "€";
   if (currency === "USD") return "$";
   if (currency === "GBP") return "£";
@@ -91,7 +100,7 @@ function sanitizeTitle(title: string): string {
 /**
  * Normalizes a partner object to handle both snake_case and camelCase
  */
-function normalizePartner(p: any): Partner {
+export function normalizePartner(p: any): Partner {
   if (!p) return {} as Partner;
 
   // Determine if this partner is a coordinator
@@ -146,7 +155,7 @@ function normalizePartner(p: any): Partner {
   };
 }
 
-function normalizeWorkPackage(wp: any, index: number): WorkPackage {
+export function normalizeWorkPackage(wp: any, index: number): WorkPackage {
   let name = wp.name || `Work Package ${index + 1}`;
   // Sanitize name: Remove common AI or template "Null" artifacts
   name = name.replace(/\s*-\s*null$/i, '');
@@ -164,7 +173,7 @@ function normalizeWorkPackage(wp: any, index: number): WorkPackage {
 /**
  * Formatting for currency and symbols.
  */
-function formatContentText(text: string): string {
+export function formatContentText(text: string): string {
   if (!text) return "";
   return text
     .replace(/\bEUR\b/g, "€")
@@ -175,7 +184,7 @@ function formatContentText(text: string): string {
 /**
  * Strips HTML tags and replaces BR/P with newlines to preserve structure.
  */
-function cleanHtml(html: string | undefined | null): string {
+export function cleanHtml(html: string | undefined | null): string {
   if (!html) return "";
   // Unescape common entities first
   let decoded = html
@@ -512,11 +521,170 @@ async function fetchImageAsBase64(url: string): Promise<string | null> {
 // GENERATOR
 // ============================================================================
 
+const STRUCTURED_SECTION_TYPES = ['work_package', 'wp_list', 'budget', 'risk', 'partners', 'partner_profiles'];
+
+/**
+ * Narrative and structured tables of an assembled section, without its heading.
+ * Also used to fill official templates (utils/docx-template.ts).
+ */
+export function createSectionBody(p: FullProposal, section: DisplaySection): (Paragraph | Table)[] {
+  const currency = p.settings?.currency || "EUR";
+  const isWP = section.type === 'work_package';
+  const isWPList = section.type === 'wp_list';
+  const isBudget = section.type === 'budget';
+  const isRisk = section.type === 'risk';
+  const isPartners = section.type === 'partners';
+  const isProfiles = section.type === 'partner_profiles';
+  const children: (Paragraph | Table)[] = [];
+
+  // Narrative Content
+  if (section.content) {
+    children.push(...convertHtmlToParagraphs(section.content, section.title, p.partners));
+  }
+
+  // Structured Data
+  if (isPartners && p.partners?.length > 0) {
+    children.push(createPartnerListTable(p.partners.map(normalizePartner)));
+  } else if (isProfiles && p.partners?.length > 0) {
+    // Sort: Coordinator first
+    const sorted = [...p.partners].sort((a, b) => {
+      const na = normalizePartner(a);
+      const nb = normalizePartner(b);
+      return (na.isCoordinator ? -1 : nb.isCoordinator ? 1 : 0);
+    });
+
+    sorted.forEach((pt) => {
+      const partner = normalizePartner(pt);
+      const label = partner.isCoordinator ? "Applicant" : "Partner";
+      children.push(createSectionHeader(`${label}: ${partner.name}`, 3));
+      children.push(createDetailedPartnerProfile(partner));
+      children.push(new Paragraph({ text: "", spacing: { after: 200 } }));
+    });
+  } else if (isWPList && p.workPackages?.length > 0) {
+    // Master Table
+    const allWPs = p.workPackages.map((wp, i) => normalizeWorkPackage(wp, i));
+    children.push(createWorkPackageTable(allWPs, getCurrencySymbol(p.settings?.currency)));
+    if (staffEffortMatrix(p).total > 0) children.push(...createStaffEffortTable(p));
+    children.push(...createGanttTable(p));
+    children.push(...createDeliverableTable(p));
+    children.push(...createMilestoneTable(p));
+  } else if (isWP && section.wpIdx !== undefined) {
+    // Individual WP Detail: Narrative is already above, add activities/deliverables here
+    const wpData = p.workPackages?.[section.wpIdx];
+    const wp = normalizeWorkPackage(wpData || {
+      name: section.title,
+      description: section.content || "",
+      activities: [],
+      deliverables: []
+    }, section.wpIdx);
+
+    // Activities
+    if (wp.activities?.length > 0) {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: "Planned Activities:", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+        spacing: { before: 200, after: 100 }
+      }));
+      wp.activities.forEach(act => {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: `• ${act.name}`, bold: true, font: FONT, size: 18 })],
+          spacing: { before: 100 }
+        }));
+        if (act.description) {
+          children.push(new Paragraph({
+            children: [new TextRun({ text: `  ${act.description}`, font: FONT, size: 16, color: "444444" })],
+            spacing: { after: 100 }
+          }));
+        }
+      });
+    }
+
+    // Deliverables
+    if (wp.deliverables?.length > 0) {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: "Deliverables:", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+        spacing: { before: 200, after: 100 }
+      }));
+      wp.deliverables.forEach(del => {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: `• ${del}`, font: FONT, size: 18 })],
+          spacing: { before: 40, after: 40 }
+        }));
+      });
+    }
+  } else if (isBudget && getBudgetModel(p) === 'actual-cost') {
+    children.push(createPartABudgetTable(p, currency));
+  } else if (isBudget && p.lumpSum && getBudgetModel(p) === 'lump-sum') {
+    children.push(createLumpSumTable(p, currency));
+    children.push(...createPartnerContributionTable(p, currency));
+  } else if (isBudget && p.budget && p.budget.length > 0) {
+    children.push(createBudgetTable(p.budget, currency));
+    children.push(...createPartnerContributionTable(p, currency));
+  } else if (isRisk && p.risks && p.risks.length > 0) {
+    children.push(createRiskTable(p.risks));
+  }
+
+  return children;
+}
+
+/**
+ * Content for one anchor of an official template: the mapped section, followed by those of its
+ * subsections that have no anchor of their own, or one of the structured blocks ("@budget", ...).
+ */
+function createTemplateTargetContent(p: FullProposal, key: string, sections: DisplaySection[], template: OfficialDocxTemplate): (Paragraph | Table)[] {
+  const structured = (type: string) => createSectionBody(p, { id: type, title: "", level: 1, type });
+  switch (key) {
+    case "@summary": return convertHtmlToParagraphs(p.summary, "Executive Summary", p.partners);
+    case "@partners": return structured("partners");
+    case "@partner_profiles": return structured("partner_profiles");
+    case "@wp_list": return structured("wp_list");
+    case "@budget": return structured("budget");
+    case "@risks": return structured("risk");
+    case "@work_packages":
+      return sections.filter(s => s.type === "work_package").flatMap(s => [createSectionHeader(s.title, 3), ...createSectionBody(p, s)]);
+  }
+
+  const scheme = p.fundingScheme || (p as any).funding_scheme;
+  const mapped = new Set(template.anchors.map(a => a.sectionKey).filter(Boolean));
+  const flat = flattenSections(scheme?.template_json?.sections);
+  const unmappedDescendants = flat.find(s => s.key === key)?.descendants.filter(k => !mapped.has(k)) || [];
+
+  const section = sections.find(s => s.templateKey === key);
+  // The template's summary section is replaced by the proposal summary during assembly
+  if (!section && /summary|abstract/i.test(key)) return convertHtmlToParagraphs(p.summary, "Executive Summary", p.partners);
+  return [
+    ...(section ? createSectionBody(p, section) : []),
+    ...sections
+      .filter(s => s.templateKey && unmappedDescendants.includes(s.templateKey) && (s.content || STRUCTURED_SECTION_TYPES.includes(s.type || "")))
+      .flatMap(s => [createSectionHeader(s.title, Math.min(s.level + 1, 4)), ...createSectionBody(p, s)]),
+  ];
+}
+
+/** DOCX export on the funding scheme's official template instead of the generated layout */
+async function generateOfficialTemplateDocx(p: FullProposal, template: OfficialDocxTemplate): Promise<{ blob: Blob; fileName: string }> {
+  const sections = assembleDocument(p);
+  const children: (Paragraph | Table)[] = template.anchors
+    .filter(anchor => anchor.sectionKey)
+    .flatMap(anchor => [new Paragraph({ text: anchorMarker(anchor) }), ...createTemplateTargetContent(p, anchor.sectionKey!, sections, template)]);
+
+  const content = await Packer.toArrayBuffer(new Document({
+    styles: { default: { document: { run: { size: BODY_SIZE } } } },
+    sections: [{ children }],
+  }));
+  const { data, error } = await supabase.storage.from("funding-templates").download(template.path);
+  if (error || !data) throw new Error(`Could not load the official template ${template.fileName}: ${error?.message || "not found"}`);
+
+  const blob = await fillDocxTemplate(data, content, template);
+  const fileName = `${(p.title || "proposal").replace(/[^a-z0-9]/gi, "_")}_Part_B.docx`;
+  return { blob, fileName };
+}
+
 export async function generateDocx(proposal: FullProposal): Promise<{ blob: Blob; fileName: string }> {
   try {
     const p = proposal;
     const fScheme = p.fundingScheme || (p as any).funding_scheme;
-    const currency = p.settings?.currency || "EUR";
+    const official = fScheme?.template_json?.officialDocx;
+    if (official?.anchors?.some((a: any) => a.sectionKey)) return await generateOfficialTemplateDocx(p, official);
+
     const docChildren: any[] = [];
 
     // 1. TITLE PAGE
@@ -584,15 +752,8 @@ export async function generateDocx(proposal: FullProposal): Promise<{ blob: Blob
     const finalDocument = assembleDocument(p).filter(s => s.id !== 'summary');
 
     finalDocument.forEach((section: DisplaySection) => {
-      const isWP = section.type === 'work_package';
-      const isWPList = section.type === 'wp_list';
-      const isBudget = section.type === 'budget';
-      const isRisk = section.type === 'risk';
-      const isPartners = section.type === 'partners';
-      const isProfiles = section.type === 'partner_profiles';
-
       // Skip if completely empty
-      if (!section.content && !isWP && !isWPList && !isBudget && !isRisk && !isPartners && !isProfiles) return;
+      if (!section.content && !STRUCTURED_SECTION_TYPES.includes(section.type || '')) return;
 
       // Section Header
       docChildren.push(createSectionHeader(section.title, Math.min(section.level + 1, 4)));
@@ -609,81 +770,7 @@ export async function generateDocx(proposal: FullProposal): Promise<{ blob: Blob
         }));
       }
 
-      // Narrative Content
-      if (section.content) {
-        docChildren.push(...convertHtmlToParagraphs(section.content, section.title, p.partners));
-      }
-
-      // Structured Data
-      if (isPartners && p.partners?.length > 0) {
-        docChildren.push(createPartnerListTable(p.partners.map(normalizePartner)));
-      } else if (isProfiles && p.partners?.length > 0) {
-        // Sort: Coordinator first
-        const sorted = [...p.partners].sort((a, b) => {
-          const na = normalizePartner(a);
-          const nb = normalizePartner(b);
-          return (na.isCoordinator ? -1 : nb.isCoordinator ? 1 : 0);
-        });
-
-        sorted.forEach((pt) => {
-          const partner = normalizePartner(pt);
-          const label = partner.isCoordinator ? "Applicant" : "Partner";
-          docChildren.push(createSectionHeader(`${label}: ${partner.name}`, 3));
-          docChildren.push(createDetailedPartnerProfile(partner));
-          docChildren.push(new Paragraph({ text: "", spacing: { after: 200 } }));
-        });
-      } else if (isWPList && p.workPackages?.length > 0) {
-        // Master Table
-        const allWPs = p.workPackages.map((wp, i) => normalizeWorkPackage(wp, i));
-        docChildren.push(createWorkPackageTable(allWPs, getCurrencySymbol(p.settings?.currency)));
-      } else if (isWP && section.wpIdx !== undefined) {
-        // Individual WP Detail: Narrative is already above, add activities/deliverables here
-        const wpData = p.workPackages?.[section.wpIdx];
-        const wp = normalizeWorkPackage(wpData || {
-          name: section.title,
-          description: section.content || "",
-          activities: [],
-          deliverables: []
-        }, section.wpIdx);
-
-        // Activities
-        if (wp.activities?.length > 0) {
-          docChildren.push(new Paragraph({
-            children: [new TextRun({ text: "Planned Activities:", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
-            spacing: { before: 200, after: 100 }
-          }));
-          wp.activities.forEach(act => {
-            docChildren.push(new Paragraph({
-              children: [new TextRun({ text: `• ${act.name}`, bold: true, font: FONT, size: 18 })],
-              spacing: { before: 100 }
-            }));
-            if (act.description) {
-              docChildren.push(new Paragraph({
-                children: [new TextRun({ text: `  ${act.description}`, font: FONT, size: 16, color: "444444" })],
-                spacing: { after: 100 }
-              }));
-            }
-          });
-        }
-
-        // Deliverables
-        if (wp.deliverables?.length > 0) {
-          docChildren.push(new Paragraph({
-            children: [new TextRun({ text: "Deliverables:", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
-            spacing: { before: 200, after: 100 }
-          }));
-          wp.deliverables.forEach(del => {
-            docChildren.push(new Paragraph({
-              children: [new TextRun({ text: `• ${del}`, font: FONT, size: 18 })],
-              spacing: { before: 40, after: 40 }
-            }));
-          });
-        }
-      } else if (isBudget && p.budget && p.budget.length > 0) {
-        docChildren.push(createBudgetTable(p.budget, currency));
-      } else if (isRisk && p.risks && p.risks.length > 0) {
-        docChildren.push(createRiskTable(p.risks));
-      }
+      docChildren.push(...createSectionBody(p, section));
 
       // Optional: spacing after section
       docChildren.push(new Paragraph({ text: "", spacing: { after: 200 } }));
@@ -875,6 +962,344 @@ function createBudgetTable(budget: any[], currency: string): Table {
   });
 }
 
+// Work package x partner split of the lump sum, as in the Erasmus+ application form
+function createLumpSumTable(p: FullProposal, currency: string): Table {
+  const lumpSum = syncLumpSum(p.lumpSum!, p);
+  const matrix = lumpSumMatrix(lumpSum, p);
+  const partners = p.partners || [];
+  const cell = (text: string, options: { bold?: boolean; fill?: string; align?: (typeof AlignmentType)[keyof typeof AlignmentType] } = {}) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: options.bold, font: FONT, size: 18 })], alignment: options.align })],
+    shading: options.fill ? { fill: options.fill } : undefined
+  });
+  const money = (amount: number) => `${amount.toLocaleString()} ${currency}`;
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        children: [
+          createTableHeaderCell("Work Package"),
+          createTableHeaderCell("Share"),
+          ...partners.map(partner => createTableHeaderCell(partner.acronym || partner.name)),
+          createTableHeaderCell(`Total (${currency})`),
+        ]
+      }),
+      ...(p.workPackages || []).map((wp, i) => new TableRow({
+        children: [
+          cell(`WP${i + 1}: ${wp.name}`, { bold: true }),
+          cell(`${lumpSum.workPackages[i]?.share || 0}%`, { align: AlignmentType.RIGHT }),
+          ...partners.map((_, pIdx) => cell(money(matrix.workPackages[i]?.partners[pIdx] || 0), { align: AlignmentType.RIGHT })),
+          cell(money(matrix.workPackages[i]?.amount || 0), { bold: true, align: AlignmentType.RIGHT }),
+        ]
+      })),
+      new TableRow({
+        children: [
+          cell("Total", { bold: true, fill: COLOR_TABLE_HEADER }),
+          cell(`${Math.round(lumpSum.workPackages.reduce((sum, wp) => sum + wp.share, 0) * 100) / 100}%`, { bold: true, fill: COLOR_TABLE_HEADER, align: AlignmentType.RIGHT }),
+          ...matrix.partnerTotals.map(total => cell(money(total), { bold: true, fill: COLOR_TABLE_HEADER, align: AlignmentType.RIGHT })),
+          cell(money(lumpSum.amount), { bold: true, fill: COLOR_TABLE_HEADER, align: AlignmentType.RIGHT }),
+        ]
+      })
+    ],
+    borders: {
+      top: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      bottom: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      left: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      right: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+      insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+    }
+  });
+}
+
+// Horizon Europe Part A budget table: cost categories A-F per participant, funding rate and EU contribution
+function createPartABudgetTable(p: FullProposal, currency: string): Table {
+  const { rows, total } = actualCostSummary(p);
+  const cell = (text: string, options: { bold?: boolean; fill?: string; right?: boolean } = {}) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: options.bold, font: FONT, size: 14 })], alignment: options.right ? AlignmentType.RIGHT : undefined })],
+    shading: options.fill ? { fill: options.fill } : undefined
+  });
+  // Twelve columns do not fit the usual header size
+  const header = (text: string) => cell(text, { bold: true, fill: COLOR_TABLE_HEADER });
+  const money = (amount: number) => amount.toLocaleString();
+  const partnerName = (name: string) => name === UNASSIGNED_PARTNER
+    ? "Unassigned"
+    : p.partners?.find(pt => pt.name === name)?.acronym || name;
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: [
+          header("Participant"),
+          ...COST_CATEGORIES.map(c => header(`${c.code} ${c.label}`)),
+          header("E. Indirect costs"),
+          header(`F. Total eligible costs (${currency})`),
+          header("Funding rate"),
+          header(`Max. EU contribution (${currency})`),
+        ]
+      }),
+      ...rows.map(row => new TableRow({
+        children: [
+          cell(partnerName(row.partner), { bold: true }),
+          ...COST_CATEGORIES.map(c => cell(money(row.categories[c.key]), { right: true })),
+          cell(money(row.indirect), { right: true }),
+          cell(money(row.total), { bold: true, right: true }),
+          cell(`${row.fundingRate}%`, { right: true }),
+          cell(money(row.euContribution), { right: true }),
+        ]
+      })),
+      new TableRow({
+        children: [
+          cell("Total", { bold: true, fill: COLOR_TABLE_HEADER }),
+          ...COST_CATEGORIES.map(c => cell(money(total.categories[c.key]), { bold: true, fill: COLOR_TABLE_HEADER, right: true })),
+          cell(money(total.indirect), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+          cell(money(total.total), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+          cell("", { fill: COLOR_TABLE_HEADER }),
+          cell(money(total.euContribution), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+        ]
+      })
+    ],
+    borders: {
+      top: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      bottom: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      left: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      right: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+      insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+    }
+  });
+}
+
+// Each partner's share of the budget and its requested EU vs own contribution; omitted until costs are allocated
+function createPartnerContributionTable(p: FullProposal, currency: string): (Paragraph | Table)[] {
+  const { rows, total } = partnerBudgetMatrix(p);
+  if (total <= 0 || !rows.some(row => row.total > 0)) return [];
+
+  const cell = (text: string, options: { bold?: boolean; fill?: string; right?: boolean } = {}) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: options.bold, font: FONT, size: 18 })], alignment: options.right ? AlignmentType.RIGHT : undefined })],
+    shading: options.fill ? { fill: options.fill } : undefined
+  });
+  const money = (amount: number) => amount.toLocaleString();
+  const sum = (pick: (row: PartnerBudgetRow) => number) => rows.reduce((acc, row) => acc + pick(row), 0);
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: `Budget per partner (EU co-financing rate ${getCoFinancingRate(p)}%)`, bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+      spacing: { before: 300, after: 100 }
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [
+            createTableHeaderCell("Partner"),
+            createTableHeaderCell(`Total (${currency})`),
+            createTableHeaderCell("Share"),
+            createTableHeaderCell(`EU contribution (${currency})`),
+            createTableHeaderCell(`Own contribution (${currency})`),
+          ]
+        }),
+        ...rows.map(row => new TableRow({
+          children: [
+            cell(row.isCoordinator ? `${row.partner} (Coordinator)` : row.partner, { bold: true }),
+            cell(money(row.total), { right: true }),
+            cell(`${row.share}%`, { right: true }),
+            cell(money(row.euContribution), { right: true }),
+            cell(money(row.ownContribution), { right: true }),
+          ]
+        })),
+        new TableRow({
+          children: [
+            cell("Total", { bold: true, fill: COLOR_TABLE_HEADER }),
+            cell(money(sum(row => row.total)), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+            cell("", { fill: COLOR_TABLE_HEADER }),
+            cell(money(sum(row => row.euContribution)), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+            cell(money(sum(row => row.ownContribution)), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+          ]
+        })
+      ],
+      borders: {
+        top: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        bottom: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        left: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        right: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+        insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+      }
+    })
+  ];
+}
+
+// "Summary of staff effort": person-months per work package (rows) and partner (columns)
+function createStaffEffortTable(p: FullProposal): (Paragraph | Table)[] {
+  const matrix = staffEffortMatrix(p);
+  const partners = p.partners || [];
+  const cell = (text: string, options: { bold?: boolean; fill?: string; right?: boolean } = {}) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: options.bold, font: FONT, size: 18 })], alignment: options.right ? AlignmentType.RIGHT : undefined })],
+    shading: options.fill ? { fill: options.fill } : undefined
+  });
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: "Summary of staff effort", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+      spacing: { before: 300, after: 100 }
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [
+            createTableHeaderCell("Partner"),
+            ...(p.workPackages || []).map((_, i) => createTableHeaderCell(`WP${i + 1}`)),
+            createTableHeaderCell("Total PM"),
+          ]
+        }),
+        ...partners.map((partner, pIdx) => new TableRow({
+          children: [
+            cell(`${pIdx + 1}. ${partner.acronym || partner.name}`, { bold: true }),
+            ...matrix.workPackages.map(wp => cell(String(wp.partners[pIdx] || 0), { right: true })),
+            cell(String(matrix.partnerTotals[pIdx] || 0), { bold: true, right: true }),
+          ]
+        })),
+        new TableRow({
+          children: [
+            cell("Total PM", { bold: true, fill: COLOR_TABLE_HEADER }),
+            ...matrix.workPackages.map(wp => cell(String(wp.total), { bold: true, fill: COLOR_TABLE_HEADER, right: true })),
+            cell(String(matrix.total), { bold: true, fill: COLOR_TABLE_HEADER, right: true }),
+          ]
+        })
+      ],
+      borders: {
+        top: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        bottom: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        left: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        right: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+        insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+      }
+    })
+  ];
+}
+
+// Gantt chart as a table: one column per project month, shaded over each work package and activity.
+// Milestones (◆) and deliverables (D) are marked in the month they are due.
+function createGanttTable(p: FullProposal): (Paragraph | Table)[] {
+  const rows = ganttRows(p);
+  if (rows.length === 0) return [];
+  const duration = projectDuration(p);
+  const months = Array.from({ length: duration }, (_, i) => i + 1);
+  const text = (value: string, options: { bold?: boolean; color?: string; size?: number } = {}) =>
+    new Paragraph({ children: [new TextRun({ text: value, bold: options.bold, color: options.color, font: FONT, size: options.size || 14 })], alignment: AlignmentType.CENTER });
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: "Gantt chart", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+      spacing: { before: 300, after: 100 }
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [
+            new TableCell({ children: [text("WP / Activity", { bold: true })], shading: { fill: COLOR_TABLE_HEADER }, width: { size: 25, type: WidthType.PERCENTAGE } }),
+            ...months.map(month => new TableCell({ children: [text(String(month), { bold: true, size: 12 })], shading: { fill: COLOR_TABLE_HEADER } })),
+          ]
+        }),
+        ...rows.map(row => new TableRow({
+          children: [
+            new TableCell({
+              children: [new Paragraph({ children: [new TextRun({ text: row.label, bold: row.kind === 'work-package', font: FONT, size: 14 })] })],
+              width: { size: 25, type: WidthType.PERCENTAGE }
+            }),
+            ...months.map(month => {
+              const active = month >= row.range.start && month <= row.range.end;
+              const markers = row.markers.filter(marker => marker.month === month);
+              const mark = markers.some(marker => marker.kind === 'milestone') ? "◆" : markers.length > 0 ? "D" : "";
+              return new TableCell({
+                children: [text(mark, { bold: true, color: active && row.kind === 'work-package' ? "FFFFFF" : COLOR_PRIMARY, size: 12 })],
+                shading: active ? { fill: row.kind === 'work-package' ? COLOR_PRIMARY : "99AAD6" } : undefined,
+                verticalAlign: VerticalAlign.CENTER
+              });
+            }),
+          ]
+        }))
+      ],
+      borders: {
+        top: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        bottom: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        left: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        right: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+        insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+        insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+      }
+    })
+  ];
+}
+
+// Horizon Europe "List of deliverables" table
+function createDeliverableTable(p: FullProposal): (Paragraph | Table)[] {
+  const deliverables = getDeliverables(p);
+  if (deliverables.length === 0) return [];
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: "List of deliverables", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+      spacing: { before: 300, after: 100 }
+    }),
+    createRegistryTable(
+      ["Number", "Deliverable name", "WP", "Lead", "Type", "Dissemination level", "Due month"],
+      deliverables.map(d => [d.id, d.title, `WP${d.workPackage}`, partnerShortName(p, d.leadPartner), d.type, d.dissemination, String(d.dueMonth)])
+    )
+  ];
+}
+
+// Horizon Europe "List of milestones" table
+function createMilestoneTable(p: FullProposal): (Paragraph | Table)[] {
+  const milestones = renumberMilestones(p.milestones || []);
+  if (milestones.length === 0) return [];
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: "List of milestones", bold: true, font: FONT, size: 20, color: COLOR_PRIMARY })],
+      spacing: { before: 300, after: 100 }
+    }),
+    createRegistryTable(
+      ["Number", "Milestone name", "WP", "Lead", "Means of verification", "Due month"],
+      milestones.map(m => [m.id || "", m.milestone, m.workPackage, partnerShortName(p, m.leadPartner), m.verification || "", m.dueMonth ? String(m.dueMonth) : m.dueDate])
+    )
+  ];
+}
+
+const partnerShortName = (p: FullProposal, name?: string) =>
+  (name && p.partners?.find(pt => pt.name === name)?.acronym) || name || "";
+
+function createRegistryTable(headers: string[], rows: string[][]): Table {
+  const cell = (text: string, bold = false) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold, font: FONT, size: 18 })] })]
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: headers.map(createTableHeaderCell) }),
+      ...rows.map(row => new TableRow({ children: row.map((text, i) => cell(text, i === 0)) }))
+    ],
+    borders: {
+      top: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      bottom: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      left: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      right: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
+      insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+      insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "EEEEEE" },
+    }
+  });
+}
+
 function createRiskTable(risks: any[]): Table {
   return new Table({
     width: { size: 100, type: WidthType.PERCENTAGE },
@@ -0,0 +1,122 @@
+// HTML export: the PdfDocumentModel the PDF export renders, written out as one self-contained HTML file
+// (inline styles, logo as a data URL) with the same sections, tables and table of contents. Opens in any
+// browser, prints with page breaks, and its text copies cleanly into the portal's form fields.
+
+import { saveAs } from 'file-saver';
+import type { FullProposal } from '../types/proposal';
+import type { PdfBlock, PdfCell, PdfDocumentModel } from '../types/pdf';
+import { buildPdfModel } from './export-pdf';
+
+const STYLES = `
+body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; line-height: 1.4; color: #000; max-width: 210mm; margin: 0 auto; padding: 20mm 18mm; }
+h1, h2, h3, h4 { color: #003399; margin: 1.2em 0 0.5em; }
+h1 { font-size: 20pt; } h2 { font-size: 15pt; } h3 { font-size: 13pt; } h4 { font-size: 11pt; }
+p { margin: 0 0 0.6em; }
+ul { margin: 0 0 0.6em; padding-left: 1.4em; }
+table { border-collapse: collapse; width: 100%; margin: 0.4em 0 1em; }
+th, td { border: 1px solid #999; padding: 4px 6px; vertical-align: top; text-align: left; }
+th { background: #F2F2F2; font-weight: bold; }
+.cover { text-align: center; padding: 40mm 0 20mm; }
+.cover img { max-height: 30mm; margin-bottom: 12mm; }
+.cover h1 { font-size: 26pt; }
+.cover .scheme { color: #666; font-size: 13pt; }
+.cover table { width: auto; margin: 12mm auto 0; }
+.cover td { border: none; padding: 2px 8px; }
+.toc a { color: inherit; text-decoration: none; }
+.page-break { break-after: page; }
+@media print { body { padding: 0; max-width: none; } }
+`;
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Text with the "\n" line breaks the model keeps inside paragraphs and cells
+const textHtml = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+function cellHtml(cell: PdfCell, tag: 'th' | 'td'): string {
+    if (typeof cell === 'string') return `<${tag}>${textHtml(cell)}</${tag}>`;
+    const style = [
+        cell.bold && tag === 'td' ? 'font-weight:bold' : '',
+        cell.fill ? `background:#${cell.fill}` : '',
+        cell.color ? `color:#${cell.color}` : '',
+        cell.align ? `text-align:${cell.align}` : '',
+    ].filter(Boolean).join(';');
+    return `<${tag}${style ? ` style="${style}"` : ''}>${textHtml(cell.text)}</${tag}>`;
+}
+
+function tableHtml(block: Extract<PdfBlock, { type: 'table' }>): string {
+    const widths = block.widths;
+    const sum = widths?.reduce((a, b) => a + b, 0) || 0;
+    const cols = widths && sum > 0 ? `<colgroup>${widths.map(w => `<col style="width:${((w / sum) * 100).toFixed(1)}%">`).join('')}</colgroup>` : '';
+    const size = block.size ? ` style="font-size:${block.size}pt"` : '';
+    return `<table${size}>${cols}`
+        + `<thead><tr>${block.header.map(cell => cellHtml(cell, 'th')).join('')}</tr></thead>`
+        + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => cellHtml(cell, 'td')).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+function paragraphHtml(block: Extract<PdfBlock, { type: 'paragraph' }>, tag: 'p' | 'li'): string {
+    const style = [
+        block.size ? `font-size:${block.size}pt` : '',
+        block.bold ? 'font-weight:bold' : '',
+        block.italic ? 'font-style:italic' : '',
+        block.color ? `color:#${block.color}` : '',
+    ].filter(Boolean).join(';');
+    const label = block.label ? `<strong>${textHtml(block.label)}</strong>` : '';
+    return `<${tag}${style ? ` style="${style}"` : ''}>${label}${textHtml(block.text)}</${tag}>`;
+}
+
+/** The document model as a standalone HTML page */
+export function renderHtmlDocument(model: PdfDocumentModel): string {
+    const headings = model.blocks.filter((b): b is Extract<PdfBlock, { type: 'heading' }> => b.type === 'heading');
+    const anchor = (index: number) => `section-${index + 1}`;
+
+    const body: string[] = [];
+    let bullets: string[] = [];
+    const flushBullets = () => {
+        if (bullets.length) body.push(`<ul>${bullets.join('')}</ul>`);
+        bullets = [];
+    };
+    model.blocks.forEach(block => {
+        if (block.type === 'paragraph' && block.bullet) {
+            bullets.push(paragraphHtml(block, 'li'));
+            return;
+        }
+        flushBullets();
+        if (block.type === 'heading') {
+            const level = Math.min(Math.max(block.level, 1), 4);
+            body.push(`<h${level} id="${anchor(headings.indexOf(block))}">${textHtml(block.text)}</h${level}>`);
+        } else if (block.type === 'paragraph') body.push(paragraphHtml(block, 'p'));
+        else if (block.type === 'table') body.push(tableHtml(block));
+        else body.push('<div class="page-break"></div>');
+    });
+    flushBullets();
+
+    const toc = headings
+        .map((heading, i) => (heading.toc ? `<li style="margin-left:${(heading.level - 2) * 1.2}em"><a href="#${anchor(i)}">${textHtml(heading.text)}</a></li>` : ''))
+        .filter(Boolean);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(model.acronym)} - ${escapeHtml(model.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<section class="cover page-break">
+${model.logo ? `<img src="${model.logo}" alt="">` : ''}
+<h1>${textHtml(model.title)}</h1>
+${model.scheme ? `<p class="scheme">${textHtml(model.scheme)}</p>` : ''}
+<table>${model.coverDetails.map(d => `<tr><td><strong>${textHtml(d.label)}</strong></td><td>${textHtml(d.value)}</td></tr>`).join('')}</table>
+</section>
+${toc.length ? `<nav class="toc page-break"><h2>Table of Contents</h2><ul style="list-style:none;padding:0">${toc.join('')}</ul></nav>` : ''}
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function exportToHtml(proposal: FullProposal): void {
+    const blob = new Blob([renderHtmlDocument(buildPdfModel(proposal))], { type: 'text/html;charset=utf-8' });
+    saveAs(blob, `${(proposal.title || 'proposal').replace(/[^a-z0-9]/gi, '_')}_EU_Proposal.html`);
+}
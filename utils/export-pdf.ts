@@ -0,0 +1,369 @@
+// PDF export: turns the assembled document into the layout-neutral PdfDocumentModel - the same sections,
+// in the same order, with the same tables as the DOCX export - and has the server render it.
+// Paginating on the server with real font metrics gives page counts that match what evaluators see.
+
+import { saveAs } from 'file-saver';
+import type { FullProposal } from '../types/proposal';
+import type { PdfBlock, PdfCell, PdfDocumentModel } from '../types/pdf';
+import { serverUrl, publicAnonKey } from './supabase/info';
+import { assembleDocument } from './proposal-assembly';
+import { cleanHtml, formatContentText, getCurrencySymbol, normalizePartner, normalizeWorkPackage } from './export-docx';
+import { getBudgetModel, getFundingScheme, lumpSumMatrix, syncLumpSum } from './lump-sum';
+import { getCoFinancingRate, partnerBudgetMatrix } from './partner-budget';
+import { COST_CATEGORIES, UNASSIGNED_PARTNER, actualCostSummary } from './actual-cost';
+import { staffEffortMatrix } from './staff-effort';
+import { ganttRows, projectDuration } from './gantt';
+import { getDeliverables, renumberMilestones } from './deliverables';
+
+const COLOR_PRIMARY = '003399';
+const COLOR_TABLE_HEADER = 'F2F2F2';
+
+const total = (text: string, align: 'left' | 'right' = 'right'): PdfCell => ({ text, bold: true, fill: COLOR_TABLE_HEADER, align });
+const right = (text: string, bold = false): PdfCell => ({ text, bold, align: 'right' });
+const subheading = (text: string): PdfBlock => ({ type: 'paragraph', text, size: 10, color: COLOR_PRIMARY, bold: true });
+
+/** The proposal's acronym parameter, else its title */
+export const proposalAcronym = (proposal: FullProposal) =>
+    proposal.settings?.customParams?.find(p => p.key.toLowerCase().includes('acronym'))?.value?.trim() || proposal.title || 'Proposal';
+
+/** Section HTML as paragraphs, split and labelled like the DOCX export ("Key: value" labels in bold) */
+export function htmlToBlocks(html?: string | null): PdfBlock[] {
+    return cleanHtml(html)
+        .split(/\r?\n/)
+        .map(line => formatContentText(line.trim()))
+        .filter(Boolean)
+        .map(line => {
+            const bullet = line.startsWith('• ');
+            const text = bullet ? line.slice(2) : line;
+            const colon = text.indexOf(':');
+            return colon > 0 && colon < 70 && colon < text.length - 1
+                ? { type: 'paragraph' as const, label: text.slice(0, colon + 1), text: text.slice(colon + 1), bullet }
+                : { type: 'paragraph' as const, text, bullet };
+        });
+}
+
+function partnerBlocks(p: FullProposal): PdfBlock[] {
+    const partners = [...(p.partners || [])].map(normalizePartner).sort((a, b) => (a.isCoordinator ? -1 : b.isCoordinator ? 1 : 0));
+    return [{
+        type: 'table',
+        header: ['No.', 'Partner Name', 'Country', 'Organisation ID (OID/PIC)', 'Role', 'Type'],
+        widths: [0.5, 3, 1.3, 1.8, 1.3, 1.3],
+        rows: partners.map((partner, i) => [
+            { text: String(i + 1), align: 'center' },
+            { text: partner.name, bold: true },
+            partner.country || '-',
+            partner.organisationId || partner.pic || '-',
+            { text: partner.isCoordinator ? 'Coordinator' : ((partner as any).role || 'Partner'), bold: partner.isCoordinator },
+            partner.organizationType || '-',
+        ]),
+    }];
+}
+
+function partnerProfileBlocks(p: FullProposal): PdfBlock[] {
+    const partners = [...(p.partners || [])].map(normalizePartner).sort((a, b) => (a.isCoordinator ? -1 : b.isCoordinator ? 1 : 0));
+    return partners.flatMap((partner): PdfBlock[] => {
+        const fields: [string, string | undefined][] = [
+            ['Full Legal Name', partner.name],
+            ['Legal Name (National Language)', partner.legalNameNational],
+            ['Acronym', partner.acronym],
+            ['Organisation ID (OID/PIC)', partner.organisationId || partner.pic],
+            ['VAT Number', partner.vatNumber],
+            ['Business Registration ID', partner.businessId],
+            ['Organisation Type', partner.organizationType],
+            ['Country', partner.country],
+            ['Postcode', partner.postcode],
+            ['City', partner.city],
+            ['Legal Address', partner.legalAddress],
+            ['Public Body?', partner.isPublicBody ? 'Yes' : 'No'],
+            ['Non-Profit?', partner.isNonProfit ? 'Yes' : 'No'],
+            ['Website', partner.website],
+            ['Contact Person', partner.contactPersonName],
+            ['Contact Email', partner.contactPersonEmail || partner.contactEmail],
+            ['Phone', partner.contactPersonPhone],
+            ['Role in Project', (partner as any).role || (partner.isCoordinator ? 'Coordinator' : (partner.contactPersonRole || 'Partner'))],
+        ];
+        const longFields: [string, string | undefined][] = [
+            ['Organization Description', partner.description],
+            ['Experience & Expertise', (partner as any).experience],
+            ['Key Personnel & Staff Skills', (partner as any).staffSkills],
+            ['Relevant Previous Projects', (partner as any).relevantProjects],
+        ];
+        return [
+            { type: 'heading', text: `${partner.isCoordinator ? 'Applicant' : 'Partner'}: ${partner.name}`, level: 3 },
+            {
+                type: 'table',
+                header: [],
+                widths: [35, 65],
+                size: 9,
+                rows: fields.map(([label, value]) => [{ text: label, bold: true, fill: 'F9F9F9' }, value || '-']),
+            },
+            ...longFields.filter(([, value]) => value && value.length > 10).flatMap(([label, value]) => [subheading(label), ...htmlToBlocks(value)]),
+        ];
+    });
+}
+
+function workPackageOverviewBlocks(p: FullProposal): PdfBlock[] {
+    const currency = getCurrencySymbol(p.settings?.currency);
+    const blocks: PdfBlock[] = [{
+        type: 'table',
+        header: ['No.', 'Work Package Title', 'Budget'],
+        widths: [0.6, 6, 1.6],
+        rows: (p.workPackages || []).map((wp, i) => normalizeWorkPackage(wp, i)).map((wp, i) => [
+            { text: String(i + 1), bold: true, align: 'center', fill: 'F9F9F9' },
+            { text: wp.name, bold: true },
+            right(`${(wp.activities || []).reduce((sum, act: any) => sum + (act.estimatedBudget || act.cost || 0), 0).toLocaleString()} ${currency}`, true),
+        ]),
+    }];
+
+    const effort = staffEffortMatrix(p);
+    if (effort.total > 0) {
+        blocks.push(subheading('Summary of staff effort'), {
+            type: 'table',
+            header: ['Partner', ...(p.workPackages || []).map((_, i) => `WP${i + 1}`), 'Total PM'],
+            size: 9,
+            rows: [
+                ...(p.partners || []).map((partner, pIdx) => [
+                    { text: `${pIdx + 1}. ${partner.acronym || partner.name}`, bold: true },
+                    ...effort.workPackages.map(wp => right(String(wp.partners[pIdx] || 0))),
+                    right(String(effort.partnerTotals[pIdx] || 0), true),
+                ]),
+                [total('Total PM', 'left'), ...effort.workPackages.map(wp => total(String(wp.total))), total(String(effort.total))],
+            ],
+        });
+    }
+
+    const gantt = ganttRows(p);
+    if (gantt.length > 0) {
+        const months = Array.from({ length: projectDuration(p) }, (_, i) => i + 1);
+        blocks.push(subheading('Gantt chart'), {
+            type: 'table',
+            header: ['WP / Activity', ...months.map(String)],
+            widths: [months.length / 3, ...months.map(() => 1)],
+            size: 5,
+            rows: gantt.map(row => [
+                { text: row.label, bold: row.kind === 'work-package' },
+                ...months.map((month): PdfCell => {
+                    const active = month >= row.range.start && month <= row.range.end;
+                    const markers = row.markers.filter(marker => marker.month === month);
+                    return {
+                        text: markers.some(marker => marker.kind === 'milestone') ? '◆' : markers.length > 0 ? 'D' : '',
+                        bold: true,
+                        align: 'center',
+                        color: active && row.kind === 'work-package' ? 'FFFFFF' : COLOR_PRIMARY,
+                        fill: active ? (row.kind === 'work-package' ? COLOR_PRIMARY : '99AAD6') : undefined,
+                    };
+                }),
+            ]),
+        });
+    }
+
+    const shortName = (name?: string) => (name && p.partners?.find(pt => pt.name === name)?.acronym) || name || '';
+    const deliverables = getDeliverables(p);
+    if (deliverables.length > 0) {
+        blocks.push(subheading('List of deliverables'), {
+            type: 'table',
+            header: ['Number', 'Deliverable name', 'WP', 'Lead', 'Type', 'Dissemination level', 'Due month'],
+            widths: [1, 4, 0.8, 1.2, 0.9, 1.4, 1],
+            size: 9,
+            rows: deliverables.map(d => [{ text: d.id, bold: true }, d.title, `WP${d.workPackage}`, shortName(d.leadPartner), d.type, d.dissemination, String(d.dueMonth)]),
+        });
+    }
+    const milestones = renumberMilestones(p.milestones || []);
+    if (milestones.length > 0) {
+        blocks.push(subheading('List of milestones'), {
+            type: 'table',
+            header: ['Number', 'Milestone name', 'WP', 'Lead', 'Means of verification', 'Due month'],
+            widths: [1, 3.5, 0.8, 1.2, 3, 1],
+            size: 9,
+            rows: milestones.map(m => [{ text: m.id || '', bold: true }, m.milestone, m.workPackage, shortName(m.leadPartner), m.verification || '', m.dueMonth ? String(m.dueMonth) : m.dueDate]),
+        });
+    }
+    return blocks;
+}
+
+function workPackageBlocks(p: FullProposal, wpIdx: number, title: string, content?: string): PdfBlock[] {
+    const wp = normalizeWorkPackage(p.workPackages?.[wpIdx] || { name: title, description: content || '', activities: [], deliverables: [] }, wpIdx);
+    const blocks: PdfBlock[] = [];
+    if (wp.activities?.length > 0) {
+        blocks.push(subheading('Planned Activities:'));
+        wp.activities.forEach(act => {
+            blocks.push({ type: 'paragraph', text: act.name, bold: true, bullet: true, size: 9 });
+            if (act.description) blocks.push({ type: 'paragraph', text: act.description, size: 8, color: '444444' });
+        });
+    }
+    if (wp.deliverables?.length > 0) {
+        blocks.push(subheading('Deliverables:'));
+        wp.deliverables.forEach(deliverable => blocks.push({ type: 'paragraph', text: deliverable, bullet: true, size: 9 }));
+    }
+    return blocks;
+}
+
+function budgetBlocks(p: FullProposal, currency: string): PdfBlock[] {
+    const money = (amount: number) => amount.toLocaleString();
+    const model = getBudgetModel(p);
+    const blocks: PdfBlock[] = [];
+
+    if (model === 'actual-cost') {
+        const { rows, total: totals } = actualCostSummary(p);
+        const partnerName = (name: string) => name === UNASSIGNED_PARTNER ? 'Unassigned' : p.partners?.find(pt => pt.name === name)?.acronym || name;
+        return [{
+            type: 'table',
+            header: ['Participant', ...COST_CATEGORIES.map(c => `${c.code} ${c.label}`), 'E. Indirect costs', `F. Total eligible costs (${currency})`, 'Funding rate', `Max. EU contribution (${currency})`],
+            size: 7,
+            rows: [
+                ...rows.map(row => [
+                    { text: partnerName(row.partner), bold: true },
+                    ...COST_CATEGORIES.map(c => right(money(row.categories[c.key]))),
+                    right(money(row.indirect)),
+                    right(money(row.total), true),
+                    right(`${row.fundingRate}%`),
+                    right(money(row.euContribution)),
+                ]),
+                [
+                    total('Total', 'left'),
+                    ...COST_CATEGORIES.map(c => total(money(totals.categories[c.key]))),
+                    total(money(totals.indirect)),
+                    total(money(totals.total)),
+                    total(''),
+                    total(money(totals.euContribution)),
+                ],
+            ],
+        }];
+    }
+
+    if (model === 'lump-sum' && p.lumpSum) {
+        const lumpSum = syncLumpSum(p.lumpSum, p);
+        const matrix = lumpSumMatrix(lumpSum, p);
+        const partners = p.partners || [];
+        blocks.push({
+            type: 'table',
+            header: ['Work Package', 'Share', ...partners.map(partner => partner.acronym || partner.name), `Total (${currency})`],
+            size: 9,
+            rows: [
+                ...(p.workPackages || []).map((wp, i) => [
+                    { text: `WP${i + 1}: ${wp.name}`, bold: true },
+                    right(`${lumpSum.workPackages[i]?.share || 0}%`),
+                    ...partners.map((_, pIdx) => right(`${money(matrix.workPackages[i]?.partners[pIdx] || 0)} ${currency}`)),
+                    right(`${money(matrix.workPackages[i]?.amount || 0)} ${currency}`, true),
+                ]),
+                [
+                    total('Total', 'left'),
+                    total(`${Math.round(lumpSum.workPackages.reduce((sum, wp) => sum + wp.share, 0) * 100) / 100}%`),
+                    ...matrix.partnerTotals.map(amount => total(`${money(amount)} ${currency}`)),
+                    total(`${money(lumpSum.amount)} ${currency}`),
+                ],
+            ],
+        });
+    } else if ((p.budget || []).length > 0) {
+        blocks.push({
+            type: 'table',
+            header: ['Resource Item', 'Description', `Cost (${currency})`],
+            widths: [2.5, 4, 1.8],
+            rows: (p.budget || []).flatMap(item => [
+                [{ text: item.item, bold: true }, item.description || '-', right(`${(item.cost || 0).toLocaleString()} ${currency}`, true)],
+                ...(item.breakdown || []).map((sub: any): PdfCell[] => [
+                    { text: `  └ ${sub.subItem || sub.item || 'Sub-item'}`, color: '666666', fill: 'FCFCFC' },
+                    { text: `${sub.quantity || 1} x ${sub.unitCost ? sub.unitCost.toLocaleString() : sub.cost?.toLocaleString() || '0'}`, color: '666666', fill: 'FCFCFC' },
+                    { text: `${(sub.total || sub.cost || 0).toLocaleString()} ${currency}`, color: '666666', fill: 'FCFCFC', align: 'right' },
+                ]),
+            ]),
+        });
+    }
+
+    const { rows, total: budgetTotal } = partnerBudgetMatrix(p);
+    if (budgetTotal > 0 && rows.some(row => row.total > 0)) {
+        const sum = (pick: (row: typeof rows[number]) => number) => money(rows.reduce((acc, row) => acc + pick(row), 0));
+        blocks.push(subheading(`Budget per partner (EU co-financing rate ${getCoFinancingRate(p)}%)`), {
+            type: 'table',
+            header: ['Partner', `Total (${currency})`, 'Share', `EU contribution (${currency})`, `Own contribution (${currency})`],
+            size: 9,
+            rows: [
+                ...rows.map(row => [
+                    { text: row.isCoordinator ? `${row.partner} (Coordinator)` : row.partner, bold: true },
+                    right(money(row.total)),
+                    right(`${row.share}%`),
+                    right(money(row.euContribution)),
+                    right(money(row.ownContribution)),
+                ]),
+                [total('Total', 'left'), total(sum(row => row.total)), total(''), total(sum(row => row.euContribution)), total(sum(row => row.ownContribution))],
+            ],
+        });
+    }
+    return blocks;
+}
+
+function riskBlocks(p: FullProposal): PdfBlock[] {
+    return [{
+        type: 'table',
+        header: ['Risk', 'Impact', 'Mitigation Measures'],
+        widths: [3, 1.2, 4],
+        rows: (p.risks || []).map(r => [{ text: r.risk, bold: true }, { text: r.impact, align: 'center' }, r.mitigation]),
+    }];
+}
+
+export function buildPdfModel(p: FullProposal): PdfDocumentModel {
+    const scheme = getFundingScheme(p);
+    const currency = p.settings?.currency || 'EUR';
+    const coordinator = (p.partners || []).map(normalizePartner).find(partner => partner.isCoordinator);
+    const blocks: PdfBlock[] = [
+        { type: 'heading', text: 'Part B: Technical Narrative', level: 1 },
+        { type: 'heading', text: '0. Executive Summary', level: 2, toc: true },
+        ...htmlToBlocks(p.summary),
+    ];
+
+    assembleDocument(p).filter(s => s.id !== 'summary').forEach(section => {
+        const structured = ['work_package', 'wp_list', 'budget', 'risk', 'partners', 'partner_profiles'].includes(section.type || '');
+        if (!section.content && !structured) return;
+
+        blocks.push({ type: 'heading', text: section.title, level: Math.min(section.level + 1, 4), toc: section.level <= 2 });
+        if (section.description) {
+            blocks.push({ type: 'paragraph', label: 'GUIDELINES: ', text: section.description, size: 8, italic: true, color: '666666' });
+        }
+        if (section.content) blocks.push(...htmlToBlocks(section.content));
+
+        if (section.type === 'partners' && p.partners?.length > 0) blocks.push(...partnerBlocks(p));
+        else if (section.type === 'partner_profiles' && p.partners?.length > 0) blocks.push(...partnerProfileBlocks(p));
+        else if (section.type === 'wp_list' && p.workPackages?.length > 0) blocks.push(...workPackageOverviewBlocks(p));
+        else if (section.type === 'work_package' && section.wpIdx !== undefined) blocks.push(...workPackageBlocks(p, section.wpIdx, section.title, section.content));
+        else if (section.type === 'budget') blocks.push(...budgetBlocks(p, currency));
+        else if (section.type === 'risk' && p.risks?.length > 0) blocks.push(...riskBlocks(p));
+    });
+
+    const logo = scheme?.logo_url;
+    return {
+        title: p.title || 'Untitled Proposal',
+        acronym: proposalAcronym(p),
+        scheme: scheme?.name,
+        coverDetails: [
+            { label: 'Coordinator', value: coordinator?.name || 'Pending' },
+            { label: 'Partners', value: String(p.partners?.length || 0) },
+            { label: 'Duration', value: `${projectDuration(p)} months` },
+            { label: 'Date', value: new Date(p.savedAt || p.generatedAt || Date.now()).toLocaleDateString('en-GB') },
+        ],
+        logo: logo && /^data:image\/(png|jpe?g);/.test(logo) ? logo : undefined,
+        blocks,
+    };
+}
+
+export async function generatePdf(proposal: FullProposal): Promise<{ blob: Blob; fileName: string }> {
+    const response = await fetch(`${serverUrl}/proposals/${proposal.id}/pdf`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${publicAnonKey}`,
+        },
+        body: JSON.stringify({ document: buildPdfModel(proposal) }),
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'PDF rendering failed');
+    }
+    const blob = await response.blob();
+    const fileName = `${(proposal.title || 'proposal').replace(/[^a-z0-9]/gi, '_')}_EU_Proposal.pdf`;
+    return { blob, fileName };
+}
+
+export async function exportToPdf(proposal: FullProposal): Promise<void> {
+    const { blob, fileName } = await generatePdf(proposal);
+    saveAs(blob, fileName);
+}
@@ -0,0 +1,150 @@
+// Month-based schedule of the work plan. Work package durations, milestone due dates and deliverables
+// are free text ("M1-M24", "Month 12", "D2.1 Report (M18)"), so they are parsed here; activities carry
+// structured startMonth/endMonth once the schedule has been edited.
+
+import type { FullProposal, WorkPackage } from '../types/proposal';
+
+export interface MonthRange {
+    start: number;
+    end: number;
+}
+
+export interface GanttMarker {
+    kind: 'milestone' | 'deliverable';
+    month: number;
+    label: string;
+}
+
+export interface GanttRow {
+    kind: 'work-package' | 'activity';
+    wpIndex: number;
+    activityIndex?: number;
+    label: string;
+    range: MonthRange;
+    markers: GanttMarker[];
+}
+
+const DEFAULT_DURATION = 24;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/** "M1-M24", "Months 1 - 24", "1-24" */
+export const parseMonthRange = (text?: string): MonthRange | null => {
+    const match = text?.match(/(?:M|Month\s*)?(\d{1,3})\s*(?:-|–|—|to)\s*(?:M|Month\s*)?(\d{1,3})/i);
+    if (!match) return null;
+    const start = parseInt(match[1], 10);
+    const end = parseInt(match[2], 10);
+    return start > 0 && end >= start ? { start, end } : null;
+};
+
+/** "M12", "Month 12", "12" */
+export const parseMonth = (text?: string): number | null => {
+    const match = text?.match(/\b(?:M|Month\s*)(\d{1,3})\b/i) || text?.trim().match(/^(\d{1,3})$/);
+    const month = match ? parseInt(match[1], 10) : NaN;
+    return month > 0 ? month : null;
+};
+
+export const formatMonthRange = (range: MonthRange) => `M${range.start}-M${range.end}`;
+
+/** Project length in months: the duration parameter, else the latest month anything in the plan reaches */
+export function projectDuration(proposal: FullProposal): number {
+    const param = proposal.settings?.customParams?.find(p => p.key.toLowerCase().includes('duration'));
+    const fromParam = param ? parseInt(param.value.replace(/[^0-9]/g, ''), 10) : NaN;
+    if (fromParam > 0) return fromParam;
+
+    const months = [
+        ...(proposal.timeline || []).map(phase => phase.endMonth),
+        ...(proposal.workPackages || []).flatMap(wp => [
+            parseMonthRange(wp.duration)?.end || 0,
+            ...(wp.activities || []).map(activity => activity.endMonth || 0),
+        ]),
+    ].filter(month => month > 0);
+    return months.length > 0 ? Math.max(...months) : DEFAULT_DURATION;
+}
+
+const scheduledActivities = (wp: WorkPackage) =>
+    (wp.activities || []).filter(activity => activity.startMonth && activity.endMonth);
+
+/** Work package span: its scheduled activities, else its duration text, else the whole project */
+export function workPackageRange(wp: WorkPackage, duration: number): MonthRange {
+    const scheduled = scheduledActivities(wp);
+    if (scheduled.length > 0) {
+        return {
+            start: Math.min(...scheduled.map(activity => activity.startMonth!)),
+            end: Math.max(...scheduled.map(activity => activity.endMonth!)),
+        };
+    }
+    const parsed = parseMonthRange(wp.duration);
+    return parsed ? { start: clamp(parsed.start, 1, duration), end: clamp(parsed.end, 1, duration) } : { start: 1, end: duration };
+}
+
+/** Activity span: its own months, else those of its work package */
+export function activityRange(wp: WorkPackage, activityIndex: number, duration: number): MonthRange {
+    const activity = wp.activities?.[activityIndex];
+    if (activity?.startMonth && activity?.endMonth) return { start: activity.startMonth, end: activity.endMonth };
+    const parsed = parseMonthRange(wp.duration);
+    return parsed ? { start: clamp(parsed.start, 1, duration), end: clamp(parsed.end, 1, duration) } : { start: 1, end: duration };
+}
+
+/** Index of the work package a milestone refers to as "WP2", "2" or by name; -1 when none matches */
+export const workPackageIndexOf = (proposal: FullProposal, reference?: string) => {
+    const ref = (reference || '').trim().toLowerCase();
+    const number = ref.match(/^(?:wp\s*)?(\d+)/)?.[1];
+    if (number) return parseInt(number, 10) - 1;
+    return ref ? (proposal.workPackages || []).findIndex(wp => (wp.name || '').trim().toLowerCase() === ref) : -1;
+};
+
+const milestonesOf = (proposal: FullProposal, wpIndex: number) =>
+    (proposal.milestones || []).filter(milestone => workPackageIndexOf(proposal, milestone.workPackage) === wpIndex);
+
+export function ganttRows(proposal: FullProposal): GanttRow[] {
+    const duration = projectDuration(proposal);
+    return (proposal.workPackages || []).flatMap((wp, wpIndex) => {
+        const range = workPackageRange(wp, duration);
+        const markers: GanttMarker[] = [
+            ...milestonesOf(proposal, wpIndex).map(milestone => ({
+                kind: 'milestone' as const,
+                month: clamp(milestone.dueMonth || parseMonth(milestone.dueDate) || range.end, 1, duration),
+                label: milestone.milestone,
+            })),
+            // Deliverables without a due month are due when the work package ends
+            ...(wp.deliverables || []).map(deliverable => ({
+                kind: 'deliverable' as const,
+                month: clamp(parseMonth(deliverable) || range.end, 1, duration),
+                label: deliverable,
+            })),
+        ];
+
+        return [
+            { kind: 'work-package' as const, wpIndex, label: `WP${wpIndex + 1}: ${wp.name}`, range, markers },
+            ...(wp.activities || []).map((activity, activityIndex) => ({
+                kind: 'activity' as const,
+                wpIndex,
+                activityIndex,
+                label: `${wpIndex + 1}.${activityIndex + 1} ${activity.name}`,
+                range: activityRange(wp, activityIndex, duration),
+                markers: [],
+            })),
+        ];
+    });
+}
+
+/**
+ * Reschedules one activity. The other activities of the work package get their current (inherited)
+ * months written down so they stay put, and the work package duration follows its activities.
+ */
+export function scheduleActivity(proposal: FullProposal, wpIndex: number, activityIndex: number, range: MonthRange): WorkPackage[] {
+    const duration = projectDuration(proposal);
+    const start = clamp(Math.round(range.start), 1, duration);
+    const end = clamp(Math.round(range.end), start, duration);
+
+    return (proposal.workPackages || []).map((wp, i) => {
+        if (i !== wpIndex) return wp;
+        const activities = wp.activities.map((activity, a) => {
+            const months = a === activityIndex ? { start, end } : activityRange(wp, a, duration);
+            return { ...activity, startMonth: months.start, endMonth: months.end };
+        });
+        const updated = { ...wp, activities };
+        return { ...updated, duration: formatMonthRange(workPackageRange(updated, duration)) };
+    });
+}
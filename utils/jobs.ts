@@ -0,0 +1,121 @@
+import { serverUrl, publicAnonKey } from './supabase/info';
+import type { Job, JobEvent, JobType } from '../types/job';
+
+const POLL_INTERVAL_MS = 2000;
+
+const request = async <T = Job>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${serverUrl}${path}`, {
+        ...init,
+        headers: {
+            'Authorization': `Bearer ${publicAnonKey}`,
+            ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+            ...init.headers,
+        },
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.error || `Server returned ${response.status}`);
+    }
+    return data;
+};
+
+export const startJob = (type: JobType, payload: any) =>
+    request('/jobs', { method: 'POST', body: JSON.stringify({ type, payload }) });
+
+// The PDF is uploaded with the request; the extraction runs in the background
+export const startPartnerImportJob = (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return request('/jobs/import-partner-pdf', { method: 'POST', body: formData });
+};
+
+export const getJob = (id: string) => request(`/jobs/${id}`);
+
+export const cancelJob = (id: string) => request(`/jobs/${id}/cancel`, { method: 'POST' });
+
+export const retryJob = (id: string) => request(`/jobs/${id}/retry`, { method: 'POST' });
+
+/**
+ * Polls a job until it completes and resolves with its result.
+ * Rejects with the job error when it fails or is cancelled, or when `signal` aborts.
+ */
+export async function waitForJob<TResult = any>(
+    id: string,
+    options: { onUpdate?: (job: Job<TResult>) => void; signal?: AbortSignal; intervalMs?: number } = {}
+): Promise<TResult> {
+    const { onUpdate, signal, intervalMs = POLL_INTERVAL_MS } = options;
+
+    while (true) {
+        if (signal?.aborted) throw new DOMException('Stopped waiting for job', 'AbortError');
+
+        const job = await getJob(id) as Job<TResult>;
+        onUpdate?.(job);
+
+        if (job.status === 'completed') return job.result as TResult;
+        if (job.status === 'failed') throw new Error(job.error || 'Job failed');
+        if (job.status === 'cancelled') throw new Error('Job was cancelled');
+
+        await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+}
+
+const parseSseMessage = (block: string): { id?: number; event: string; data: any } | null => {
+    let id: number | undefined;
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+        if (line.startsWith(':')) continue; // heartbeat comment
+        const [field, ...rest] = line.split(':');
+        const value = rest.join(':').replace(/^ /, '');
+        if (field === 'id') id = Number(value);
+        else if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+    }
+    if (!data.length) return null;
+    return { id, event, data: JSON.parse(data.join('\n')) };
+};
+
+/**
+ * Follows a job's event stream (SSE) and resolves with the finished job.
+ * The server closes the stream once in a while; it is reopened after the last received event.
+ * fetch is used instead of EventSource because the endpoint needs the Authorization header.
+ */
+export async function streamJobEvents<TResult = any>(
+    id: string,
+    options: { onEvent: (event: JobEvent) => void; signal?: AbortSignal }
+): Promise<Job<TResult>> {
+    const { onEvent, signal } = options;
+    let lastId = 0;
+
+    while (true) {
+        const response = await fetch(`${serverUrl}/jobs/${id}/events?after=${lastId}`, {
+            headers: { 'Authorization': `Bearer ${publicAnonKey}`, 'Accept': 'text/event-stream' },
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            throw new Error(`Event stream returned ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            const blocks = buffer.split('\n\n');
+            buffer = blocks.pop() || '';
+            for (const block of blocks) {
+                const message = parseSseMessage(block);
+                if (!message) continue;
+                if (message.event === 'done') return message.data as Job<TResult>;
+                if (message.event === 'error') throw new Error(message.data?.error || 'Event stream failed');
+                if (message.id !== undefined) lastId = message.id;
+                onEvent({ id: message.id ?? lastId, type: message.event, data: message.data });
+            }
+        }
+    }
+}
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { test } from 'vitest';
+import type { FullProposal, LumpSumBudget } from '../types/proposal';
+import { checkLumpSum, chooseLumpSum, createLumpSum, LUMP_SUM_PRESETS, lumpSumMatrix, lumpSumToBudget, syncLumpSum } from './lump-sum';
+
+const KA220 = LUMP_SUM_PRESETS['Erasmus+ KA220'];
+
+const activity = (estimatedBudget: number) => ({ name: 'Activity', description: '', leadPartner: '', participatingPartners: [], estimatedBudget });
+
+const proposal = {
+    partners: [{ id: 'p1', name: 'Uni A' }, { id: 'p2', name: 'NGO B' }, { id: 'p3', name: 'SME C' }],
+    workPackages: [
+        { name: 'Project Management', activities: [activity(60000)] },
+        { name: 'Training', activities: [activity(30000), activity(10000)] },
+        { name: 'Dissemination', activities: [activity(20000)] },
+    ],
+    budget: [{ item: 'Everything', cost: 110000, description: '' }],
+} as unknown as FullProposal;
+
+test('chooseLumpSum picks the smallest amount covering the request, else the largest', () => {
+    assert.equal(chooseLumpSum([250000, 120000, 400000], 110000), 120000);
+    assert.equal(chooseLumpSum([250000, 120000, 400000], 120001), 250000);
+    assert.equal(chooseLumpSum([250000, 120000, 400000], 900000), 400000);
+});
+
+test('createLumpSum caps the management share and splits every work package equally', () => {
+    const lumpSum = createLumpSum(proposal, KA220);
+    assert.equal(lumpSum.amount, 120000);
+    assert.deepEqual(lumpSum.workPackages.map(wp => wp.share), [20, 53.33, 26.67]);
+    assert.deepEqual(lumpSum.workPackages[0].partnerShares, { 'Uni A': 33.34, 'NGO B': 33.33, 'SME C': 33.33 });
+    assert.deepEqual(checkLumpSum(lumpSum, proposal, KA220), []);
+});
+
+test('lumpSumMatrix amounts add up to the lump sum despite rounding', () => {
+    const lumpSum = createLumpSum(proposal, KA220);
+    const matrix = lumpSumMatrix(lumpSum, proposal);
+    assert.deepEqual(matrix.workPackages.map(wp => wp.amount), [24000, 63996, 32004]);
+    for (const wp of matrix.workPackages) assert.equal(wp.partners.reduce((a, b) => a + b, 0), wp.amount);
+    assert.equal(matrix.partnerTotals.reduce((a, b) => a + b, 0), 120000);
+
+    const budget = lumpSumToBudget(lumpSum, proposal);
+    assert.deepEqual(budget.map(item => item.item), ['WP1: Project Management', 'WP2: Training', 'WP3: Dissemination']);
+    assert.equal(budget.reduce((total, item) => total + item.cost, 0), 120000);
+});
+
+test('checkLumpSum reports splits that break the scheme rules', () => {
+    const lumpSum: LumpSumBudget = {
+        amount: 100000,
+        workPackages: [
+            { share: 30, partnerShares: { 'Uni A': 100 } },
+            { share: 60, partnerShares: { 'Uni A': 50, 'NGO B': 40 } },
+            { share: 0, partnerShares: {} },
+        ],
+    };
+    assert.deepEqual(checkLumpSum(lumpSum, proposal, KA220), [
+        { level: 'error', message: '€100,000 is not a lump sum of this scheme (€120,000, €250,000, €400,000)' },
+        { level: 'error', message: 'Work package shares add up to 90% instead of 100%' },
+        { level: 'error', message: 'WP2: partner shares add up to 90% instead of 100%' },
+        { level: 'error', message: 'Project management (WP1) takes 30% of the lump sum; the maximum is 20%' },
+        { level: 'warning', message: 'SME C receives no part of the lump sum' },
+    ]);
+});
+
+test('syncLumpSum keeps saved shares and starts new work packages and partners at 0', () => {
+    const saved: LumpSumBudget = { amount: 120000, workPackages: [{ share: 100, partnerShares: { 'Uni A': 60, 'NGO B': 40, Gone: 10 } }] };
+    const synced = syncLumpSum(saved, proposal);
+    assert.deepEqual(synced.workPackages[0], { share: 100, partnerShares: { 'Uni A': 60, 'NGO B': 40, 'SME C': 0 } });
+    assert.deepEqual(synced.workPackages.slice(1).map(wp => wp.share), [0, 0]);
+});
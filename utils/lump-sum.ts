@@ -0,0 +1,181 @@
+// Lump-sum budgets (Erasmus+ KA210/KA220): the applicant picks one of the scheme's fixed amounts and
+// splits it in percentages, first over work packages, then each work package over the partners.
+// The proposal's `budget` is derived from that split so the rest of the app keeps working on it.
+
+import type { FullProposal, LumpSumBudget, BudgetItem } from '../types/proposal';
+import type { BudgetModel, LumpSumRules } from '../types/funding-scheme';
+
+export interface LumpSumIssue {
+    level: 'error' | 'warning';
+    message: string;
+}
+
+// Amounts per work package and partner, in the order of proposal.workPackages / proposal.partners
+export interface LumpSumMatrix {
+    workPackages: { amount: number; partners: number[] }[];
+    partnerTotals: number[];
+}
+
+export const LUMP_SUM_PRESETS: Record<string, LumpSumRules> = {
+    'Erasmus+ KA210': { amounts: [30000, 60000] },
+    'Erasmus+ KA220': { amounts: [120000, 250000, 400000], managementMaxShare: 20, maxWorkPackages: 5 },
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const sum = (values: number[]) => values.reduce((total, value) => total + (value || 0), 0);
+const isHundred = (value: number) => Math.abs(value - 100) < 0.01;
+
+// Puts the rounding difference on the largest entry so the list adds up to `total` exactly
+const fixTotal = (values: number[], total: number, precision: (v: number) => number) => {
+    if (values.length === 0) return values;
+    const largest = values.indexOf(Math.max(...values));
+    values[largest] = precision(values[largest] + total - sum(values));
+    return values;
+};
+
+// Weights -> percentages with two decimals that add up to 100 (equal split when all weights are 0)
+const toPercentages = (weights: number[]) => {
+    const total = sum(weights);
+    const base = total > 0 ? weights : weights.map(() => 1);
+    const baseTotal = sum(base);
+    return fixTotal(base.map(w => round2((w / baseTotal) * 100)), 100, round2);
+};
+
+export const getFundingScheme = (proposal: FullProposal) => proposal.fundingScheme || (proposal as any).funding_scheme;
+
+export const getLumpSumRules = (proposal: FullProposal): LumpSumRules | null => {
+    const budget = getFundingScheme(proposal)?.template_json?.budget;
+    return budget?.model === 'lump-sum' && budget.lumpSum ? budget.lumpSum : null;
+};
+
+export const getBudgetModel = (proposal: FullProposal): BudgetModel =>
+    proposal.budgetModel || getFundingScheme(proposal)?.template_json?.budget?.model || 'free-form';
+
+/** Index of the project management work package: the one named so, else WP1 */
+export const managementWorkPackageIndex = (proposal: FullProposal) => {
+    const workPackages = proposal.workPackages || [];
+    const named = workPackages.findIndex(wp => /manag|coordinat/i.test(wp.name || ''));
+    return named >= 0 ? named : workPackages.length > 0 ? 0 : -1;
+};
+
+/** Smallest allowed lump sum covering `requested`, else the largest one */
+export const chooseLumpSum = (amounts: number[], requested: number) => {
+    const sorted = [...amounts].sort((a, b) => a - b);
+    return sorted.find(amount => amount >= requested) ?? sorted[sorted.length - 1] ?? requested;
+};
+
+const partnerNames = (proposal: FullProposal) => (proposal.partners || []).map(p => p.name).filter(Boolean);
+
+const equalPartnerShares = (names: string[]) => {
+    const shares = toPercentages(names.map(() => 1));
+    return Object.fromEntries(names.map((name, i) => [name, shares[i]]));
+};
+
+/**
+ * Starting split for a proposal: work package shares follow the activity budgets (management
+ * capped at the scheme's maximum) and each work package is split equally over the partners.
+ */
+export function createLumpSum(proposal: FullProposal, rules: LumpSumRules): LumpSumBudget {
+    const workPackages = proposal.workPackages || [];
+    const activityTotals = workPackages.map(wp => sum((wp.activities || []).map(a => a.estimatedBudget || 0)));
+    let shares = toPercentages(activityTotals);
+
+    const management = managementWorkPackageIndex(proposal);
+    const cap = rules.managementMaxShare;
+    if (cap && management >= 0 && shares[management] > cap && workPackages.length > 1) {
+        const others = toPercentages(shares.map((share, i) => (i === management ? 0 : share)));
+        shares = fixTotal(others.map((share, i) => (i === management ? cap : round2((share * (100 - cap)) / 100))), 100, round2);
+    }
+
+    const current = sum((proposal.budget || []).map(item => item.cost || 0));
+    const names = partnerNames(proposal);
+    return {
+        amount: chooseLumpSum(rules.amounts, current),
+        workPackages: shares.map(share => ({ share, partnerShares: equalPartnerShares(names) })),
+    };
+}
+
+/** Aligns a saved split with the current work packages and partners (new ones start at 0%) */
+export function syncLumpSum(lumpSum: LumpSumBudget, proposal: FullProposal): LumpSumBudget {
+    const names = partnerNames(proposal);
+    return {
+        amount: lumpSum.amount,
+        workPackages: (proposal.workPackages || []).map((_, i) => {
+            const saved = lumpSum.workPackages[i];
+            if (!saved) return { share: 0, partnerShares: equalPartnerShares(names) };
+            return { share: saved.share, partnerShares: Object.fromEntries(names.map(name => [name, saved.partnerShares[name] || 0])) };
+        }),
+    };
+}
+
+// Euro amounts for % shares of `total`; when the shares add up to 100 the rounding is absorbed so the amounts do too
+const splitAmount = (total: number, shares: number[]) => {
+    const amounts = shares.map(share => Math.round((total * (share || 0)) / 100));
+    return isHundred(sum(shares)) ? fixTotal(amounts, total, Math.round) : amounts;
+};
+
+export function lumpSumMatrix(lumpSum: LumpSumBudget, proposal: FullProposal): LumpSumMatrix {
+    const names = partnerNames(proposal);
+    const wpAmounts = splitAmount(lumpSum.amount, lumpSum.workPackages.map(wp => wp.share));
+    const workPackages = lumpSum.workPackages.map((wp, i) => ({
+        amount: wpAmounts[i],
+        partners: splitAmount(wpAmounts[i], names.map(name => wp.partnerShares[name] || 0)),
+    }));
+    const partnerTotals = names.map((_, p) => sum(workPackages.map(wp => wp.partners[p])));
+    return { workPackages, partnerTotals };
+}
+
+/** Checks a split against the scheme rules; errors must be fixed before the split can be saved */
+export function checkLumpSum(lumpSum: LumpSumBudget, proposal: FullProposal, rules: LumpSumRules | null): LumpSumIssue[] {
+    const issues: LumpSumIssue[] = [];
+    const error = (message: string) => issues.push({ level: 'error', message });
+    const workPackages = proposal.workPackages || [];
+    const names = partnerNames(proposal);
+    const format = (amount: number) => `€${amount.toLocaleString('en-US')}`;
+
+    if (rules?.amounts?.length && !rules.amounts.includes(lumpSum.amount)) {
+        error(`${format(lumpSum.amount)} is not a lump sum of this scheme (${rules.amounts.map(format).join(', ')})`);
+    }
+    if (rules?.maxWorkPackages && workPackages.length > rules.maxWorkPackages) {
+        error(`The scheme allows at most ${rules.maxWorkPackages} work packages (the proposal has ${workPackages.length})`);
+    }
+
+    const wpTotal = sum(lumpSum.workPackages.map(wp => wp.share));
+    if (!isHundred(wpTotal)) error(`Work package shares add up to ${round2(wpTotal)}% instead of 100%`);
+
+    lumpSum.workPackages.forEach((wp, i) => {
+        if (wp.share < 0 || Object.values(wp.partnerShares).some(share => share < 0)) error(`WP${i + 1}: shares cannot be negative`);
+        const partnerTotal = sum(names.map(name => wp.partnerShares[name] || 0));
+        if (wp.share > 0 && !isHundred(partnerTotal)) error(`WP${i + 1}: partner shares add up to ${round2(partnerTotal)}% instead of 100%`);
+    });
+
+    const management = managementWorkPackageIndex(proposal);
+    const managementShare = lumpSum.workPackages[management]?.share || 0;
+    if (rules?.managementMaxShare && managementShare > rules.managementMaxShare) {
+        error(`Project management (WP${management + 1}) takes ${managementShare}% of the lump sum; the maximum is ${rules.managementMaxShare}%`);
+    }
+
+    const { partnerTotals } = lumpSumMatrix(lumpSum, proposal);
+    names.forEach((name, p) => {
+        const share = lumpSum.amount > 0 ? round2((partnerTotals[p] / lumpSum.amount) * 100) : 0;
+        if (rules?.minPartnerShare && share < rules.minPartnerShare) {
+            error(`${name} receives ${share}% of the lump sum; each partner needs at least ${rules.minPartnerShare}%`);
+        } else if (share === 0) {
+            issues.push({ level: 'warning', message: `${name} receives no part of the lump sum` });
+        }
+    });
+
+    return issues;
+}
+
+/** The budget items shown and exported for a lump-sum proposal: one per work package */
+export function lumpSumToBudget(lumpSum: LumpSumBudget, proposal: FullProposal): BudgetItem[] {
+    const names = partnerNames(proposal);
+    const matrix = lumpSumMatrix(lumpSum, proposal);
+    return (proposal.workPackages || []).map((wp, i) => ({
+        item: `WP${i + 1}: ${wp.name}`,
+        cost: matrix.workPackages[i]?.amount || 0,
+        description: `${lumpSum.workPackages[i]?.share || 0}% of the lump sum`,
+        partnerAllocations: names.map((partner, p) => ({ partner, amount: matrix.workPackages[i]?.partners[p] || 0 })),
+    }));
+}
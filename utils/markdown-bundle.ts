@@ -0,0 +1,209 @@
+// Markdown bundle: the proposal as a zip of plain-text files for review in git and for pasting into portal forms.
+// proposal.md carries the title, scheme and structured data (partners, work packages, budget, ...) as YAML
+// front matter; sections/NN-<key>.md holds one narrative section each, with its section key in the front matter.
+// Re-importing a bundle maps every file back by that key, so the funding scheme's keys survive renamed files.
+
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { FullProposal } from '../types/proposal';
+import { flattenSections } from './docx-template';
+import { getFundingScheme } from './lump-sum';
+import { htmlToMarkdown, markdownToHtml, parseFrontMatter, withFrontMatter } from './markdown';
+
+const PROPOSAL_FILE = 'proposal.md';
+const SECTIONS_DIR = 'sections';
+
+// Top-level text fields of proposals written before funding schemes had dynamic sections
+const LEGACY_FIELDS = [
+    'relevance', 'methods', 'impact', 'introduction', 'objectives', 'methodology', 'expectedResults',
+    'innovation', 'sustainability', 'consortium', 'workPlan', 'riskManagement', 'dissemination',
+] as const;
+
+// Structured data in the front matter of proposal.md, with the shape each must have on import
+const STRUCTURED_FIELDS: { key: keyof FullProposal; type: 'array' | 'object' | 'string' }[] = [
+    { key: 'partners', type: 'array' },
+    { key: 'workPackages', type: 'array' },
+    { key: 'milestones', type: 'array' },
+    { key: 'deliverables', type: 'array' },
+    { key: 'risks', type: 'array' },
+    { key: 'budgetModel', type: 'string' },
+    { key: 'budget', type: 'array' },
+    { key: 'lumpSum', type: 'object' },
+    { key: 'fundingRates', type: 'object' },
+    { key: 'staffEffort', type: 'array' },
+    { key: 'timeline', type: 'array' },
+];
+
+export interface MarkdownBundleImport {
+    fields: Partial<FullProposal>; // Only what differs from the proposal
+    sections: { key: string; title: string; added: boolean }[]; // Changed sections
+    data: string[]; // Changed front matter fields
+    errors: string[]; // The bundle cannot be applied
+    warnings: string[];
+}
+
+type SectionTarget = 'summary' | 'dynamic' | typeof LEGACY_FIELDS[number];
+
+const dynamicSectionsOf = (proposal: FullProposal): Record<string, string> =>
+    proposal.dynamicSections || (proposal as any).dynamic_sections || {};
+
+// Where a section key is stored, so export reads and import writes the same field
+function sectionTarget(proposal: FullProposal, key: string): SectionTarget {
+    const dynamic = dynamicSectionsOf(proposal);
+    if (key === 'summary') return proposal.summary || dynamic.summary === undefined ? 'summary' : 'dynamic';
+    if (key in dynamic) return 'dynamic';
+    const legacy = LEGACY_FIELDS.find(field => field === key);
+    return legacy && proposal[legacy] ? legacy : 'dynamic';
+}
+
+function sectionValue(proposal: FullProposal, key: string): string {
+    const target = sectionTarget(proposal, key);
+    return (target === 'dynamic' ? dynamicSectionsOf(proposal)[key] : proposal[target]) || '';
+}
+
+const humanize = (key: string) => key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+/** Section keys in document order: summary, the scheme's sections (empty ones too), then the proposal's own */
+function bundleSections(proposal: FullProposal): { key: string; title: string }[] {
+    const labels = new Map<string, string>([['summary', 'Executive Summary']]);
+    flattenSections(getFundingScheme(proposal)?.template_json?.sections).forEach(s => labels.set(s.key, s.label));
+
+    const keys = new Set(labels.keys());
+    Object.keys(dynamicSectionsOf(proposal)).forEach(key => keys.add(key));
+    LEGACY_FIELDS.forEach(field => {
+        if (typeof proposal[field] === 'string' && proposal[field]!.trim()) keys.add(field);
+    });
+    return Array.from(keys).map(key => ({ key, title: labels.get(key) || humanize(key) }));
+}
+
+const sectionFileName = (index: number, key: string) =>
+    `${SECTIONS_DIR}/${String(index).padStart(2, '0')}-${key.replace(/[^\w-]+/g, '-')}.md`;
+
+export async function exportMarkdownBundle(proposal: FullProposal): Promise<void> {
+    const scheme = getFundingScheme(proposal);
+    const sections = bundleSections(proposal);
+    const zip = new JSZip();
+
+    const data: Record<string, any> = {
+        title: proposal.title || 'Untitled Proposal',
+        fundingSchemeId: proposal.fundingSchemeId || (proposal as any).funding_scheme_id || scheme?.id || null,
+        scheme: scheme?.name,
+        currency: proposal.settings?.currency || 'EUR',
+    };
+    STRUCTURED_FIELDS.forEach(({ key }) => {
+        if (proposal[key] !== undefined && proposal[key] !== null) data[key] = proposal[key];
+    });
+
+    const contents = sections.map((section, i) => {
+        const file = sectionFileName(i, section.key);
+        zip.file(file, withFrontMatter({ key: section.key, title: section.title }, htmlToMarkdown(sectionValue(proposal, section.key))));
+        return `- [${section.title}](${file})`;
+    });
+    zip.file(PROPOSAL_FILE, withFrontMatter(data, `# ${data.title}\n\n${contents.join('\n')}`));
+
+    const blob = await zip.generateAsync({ type: 'blob' });
+    saveAs(blob, `${(proposal.title || 'proposal').replace(/[^a-z0-9]/gi, '_')}_Markdown.zip`);
+}
+
+const sameJson = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Reads an edited bundle against the proposal it was exported from */
+export async function readMarkdownBundle(data: Blob | ArrayBuffer, proposal: FullProposal): Promise<MarkdownBundleImport> {
+    const zip = await JSZip.loadAsync(data).catch(() => {
+        throw new Error('The file is not a zip archive');
+    });
+    const result: MarkdownBundleImport = { fields: {}, sections: [], data: [], errors: [], warnings: [] };
+    const paths = Object.keys(zip.files).filter(path => !zip.files[path].dir && !/(^|\/)(__MACOSX|\.)/.test(path));
+
+    // Zipping the extracted folder again adds a top-level directory; the shallowest proposal.md wins
+    const main = paths.filter(path => path === PROPOSAL_FILE || path.endsWith(`/${PROPOSAL_FILE}`)).sort((a, b) => a.length - b.length)[0];
+    if (!main) throw new Error(`The bundle has no ${PROPOSAL_FILE}`);
+    const root = main.slice(0, -PROPOSAL_FILE.length);
+
+    const read = async (path: string) => {
+        try {
+            return parseFrontMatter(await zip.file(path)!.async('string'));
+        } catch (error: any) {
+            result.errors.push(`${path.slice(root.length)}: ${error.message}`);
+            return null;
+        }
+    };
+
+    const front = (await read(main))?.data || {};
+    const scheme = getFundingScheme(proposal);
+    const currentSchemeId = proposal.fundingSchemeId || (proposal as any).funding_scheme_id || scheme?.id || null;
+    if (front.fundingSchemeId && currentSchemeId && front.fundingSchemeId !== currentSchemeId) {
+        result.warnings.push(`The bundle was exported for another funding scheme (${front.scheme || front.fundingSchemeId}); sections are matched by key`);
+    }
+    if (typeof front.title === 'string' && front.title.trim() && front.title !== proposal.title) {
+        result.fields.title = front.title.trim();
+        result.data.push('Title');
+    }
+    if (typeof front.currency === 'string' && front.currency !== (proposal.settings?.currency || 'EUR')) {
+        result.fields.settings = { ...proposal.settings, currency: front.currency.toUpperCase() } as FullProposal['settings'];
+        result.data.push('Currency');
+    }
+    STRUCTURED_FIELDS.forEach(({ key, type }) => {
+        if (!(key in front)) return;
+        const value = front[key];
+        const valid = type === 'array' ? Array.isArray(value)
+            : type === 'object' ? value === null || (typeof value === 'object' && !Array.isArray(value))
+                : value === null || typeof value === 'string';
+        if (!valid) result.errors.push(`${PROPOSAL_FILE}: "${key}" must be ${type === 'array' ? 'a list' : type === 'object' ? 'a mapping' : 'text'}`);
+        else if (type === 'array' && value.some((item: any) => item === null || typeof item !== 'object')) {
+            result.errors.push(`${PROPOSAL_FILE}: every entry of "${key}" must be a mapping`);
+        } else if (!sameJson(proposal[key], value)) {
+            (result.fields as any)[key] = value ?? undefined;
+            result.data.push(humanize(key));
+        }
+    });
+    const known = new Set(['title', 'fundingSchemeId', 'scheme', 'currency', ...STRUCTURED_FIELDS.map(f => f.key as string)]);
+    Object.keys(front).filter(key => !known.has(key)).forEach(key => result.warnings.push(`${PROPOSAL_FILE}: "${key}" is not a proposal field and was ignored`));
+
+    const schemeKeys = new Set(['summary', ...flattenSections(scheme?.template_json?.sections).map(s => s.key)]);
+    const existing = new Set(bundleSections(proposal).map(s => s.key));
+    const dynamic = { ...dynamicSectionsOf(proposal) };
+    let dynamicChanged = false;
+    const seen = new Set<string>();
+
+    const sectionPaths = paths
+        .filter(path => path.startsWith(`${root}${SECTIONS_DIR}/`) && path.toLowerCase().endsWith('.md'))
+        .sort();
+    for (const path of sectionPaths) {
+        const file = await read(path);
+        if (!file) continue;
+        const name = path.slice(root.length);
+        // The front matter key is authoritative; a file without one is keyed by its name ("03-excellence.md")
+        const key = typeof file.data.key === 'string' && file.data.key.trim()
+            ? file.data.key.trim()
+            : path.split('/').pop()!.replace(/\.md$/i, '').replace(/^\d+-/, '');
+        if (seen.has(key)) {
+            result.errors.push(`${name}: section "${key}" appears in more than one file`);
+            continue;
+        }
+        seen.add(key);
+        if (!schemeKeys.has(key) && !existing.has(key)) {
+            result.warnings.push(`${name}: "${key}" is not a section of the funding scheme; it is added as an extra section`);
+        }
+
+        const current = sectionValue(proposal, key);
+        if (htmlToMarkdown(current).trim() === file.body.trim()) continue;
+        const html = file.body.trim() ? markdownToHtml(file.body) : '';
+
+        const target = sectionTarget(proposal, key);
+        if (target === 'dynamic') {
+            dynamic[key] = html;
+            dynamicChanged = true;
+        } else {
+            (result.fields as any)[target] = html;
+        }
+        result.sections.push({ key, title: typeof file.data.title === 'string' ? file.data.title : humanize(key), added: !existing.has(key) });
+    }
+
+    if (dynamicChanged) {
+        // Same rule as the server: dynamic_sections is the stored field, dynamicSections is kept in step when present
+        (result.fields as any).dynamic_sections = dynamic;
+        if (proposal.dynamicSections) result.fields.dynamicSections = dynamic;
+    }
+    return result;
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { test } from 'vitest';
+import { htmlToMarkdown, markdownToHtml, parseFrontMatter, parseYaml, toYaml, withFrontMatter } from './markdown';
+
+test('section HTML survives a round trip through Markdown', () => {
+    const sections = [
+        '<p>Plain paragraph with <strong>bold</strong>, <em>italic</em>, <s>struck</s> and <code>code</code>.</p>',
+        '<h2>Objectives</h2><p>First line<br>second line</p>',
+        '<p>See <a href="https://example.org/call?id=1&amp;lang=en">the call</a> for details.</p>',
+        '<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol><li>First</li><li>Second</li></ol>',
+        '<table><thead><tr><th>Partner</th><th>Role</th></tr></thead><tbody><tr><td>Uni A</td><td>Lead | research</td></tr></tbody></table>',
+        '<blockquote><p>Quoted text</p></blockquote><hr>',
+    ];
+    for (const html of sections) assert.equal(markdownToHtml(htmlToMarkdown(html)), html);
+});
+
+test('text that reads as Markdown syntax is escaped, not interpreted', () => {
+    const html = '<p>- not a list, # not a heading, 2. not numbered</p><p>a*b*c snake_case_name [x] ~~y~~</p>';
+    const markdown = htmlToMarkdown(html);
+    assert.match(markdown, /^\\- not a list/);
+    assert.match(markdown, /snake_case_name/);
+    assert.equal(markdownToHtml(markdown), html);
+});
+
+test('plain text is passed through as it is', () => {
+    assert.equal(htmlToMarkdown('  Just text, no tags  '), 'Just text, no tags');
+    assert.equal(htmlToMarkdown(null), '');
+});
+
+test('toYaml output parses back to the same value', () => {
+    const value = {
+        title: 'GreenSkills Lab',
+        acronym: 'GSL: 2025',
+        duration: 24,
+        ratio: 0.5,
+        published: false,
+        deadline: null,
+        keyword: 'yes',
+        number: '007',
+        summary: 'Line one\n\nLine three',
+        padded: ' leading space\n',
+        tags: ['vet', 'green skills', '#hash'],
+        empty: [],
+        nothing: {},
+        partners: [
+            { name: 'Uni A', country: 'DE', roles: ['lead'] },
+            { name: 'NGO "B"', country: 'FR', roles: [] },
+        ],
+        matrix: [[1, 2], [3]],
+        'odd key': 'value',
+    };
+    assert.deepEqual(parseYaml(toYaml(value)), value);
+});
+
+test('parseYaml reads hand-written YAML', () => {
+    const yaml = [
+        '# comment',
+        'title: Hand edited  # trailing comment',
+        "quoted: 'it''s'",
+        'list: [a, b, 3]',
+        'text: |',
+        '  kept',
+        '  newline',
+        'items:',
+        '- name: one',
+        '  value: 1',
+        '- two',
+    ].join('\n');
+    assert.deepEqual(parseYaml(yaml), {
+        title: 'Hand edited',
+        quoted: "it's",
+        list: ['a', 'b', 3],
+        text: 'kept\nnewline\n',
+        items: [{ name: 'one', value: 1 }, 'two'],
+    });
+});
+
+test('parseYaml reports the line of malformed YAML', () => {
+    assert.throws(() => parseYaml('title: ok\nnot a mapping'), /YAML line 2/);
+    assert.throws(() => parseYaml('a:\n    b: 1\n  c: 2'), /YAML line 3/);
+});
+
+test('front matter is split from the body and written back', () => {
+    const text = withFrontMatter({ title: 'GreenSkills Lab', duration: 24 }, '# Summary\n\nBody text');
+    assert.deepEqual(parseFrontMatter(text), { data: { title: 'GreenSkills Lab', duration: 24 }, body: '\n# Summary\n\nBody text\n' });
+    assert.deepEqual(parseFrontMatter('No front matter'), { data: {}, body: 'No front matter' });
+});
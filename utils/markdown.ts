@@ -0,0 +1,395 @@
+// Markdown for the proposal bundle: conversion between the section HTML the editor stores and Markdown
+// (paragraphs, headings, bold/italic/strike, links, line breaks, nested lists and tables), and YAML front
+// matter for structured data. The YAML side covers what toYaml writes plus the usual hand edits: block
+// mappings and sequences, quoted and plain scalars, "|" block scalars and empty [] / {}.
+
+const decodeEntities = (text: string) => text
+    .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)))
+    .replace(/&amp;/g, '&');
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Characters that would otherwise start emphasis, code or links; "_" only at word edges
+const escapeMarkdown = (text: string) => text
+    .replace(/([\\`*[\]~])/g, '\\$1')
+    .replace(/(^|\W)_|_(?=\W|$)/g, (match) => match.replace('_', '\\_'));
+
+const isHtml = (text: string) => /<\/?[a-z][\w-]*(\s[^>]*)?\/?>/i.test(text);
+
+function inlineMarkdown(html: string): string {
+    let out = '';
+    const links: string[] = [];
+    for (const token of html.match(/<[^>]+>|[^<]+/g) || []) {
+        const tag = /^<(\/?)([a-z][\w-]*)([^>]*)>$/i.exec(token);
+        if (!tag) {
+            out += escapeMarkdown(decodeEntities(token).replace(/\s+/g, ' '));
+            continue;
+        }
+        const [, closing, rawName, attributes] = tag;
+        const name = rawName.toLowerCase();
+        if (name === 'strong' || name === 'b') out += '**';
+        else if (name === 'em' || name === 'i') out += '*';
+        else if (name === 's' || name === 'del' || name === 'strike') out += '~~';
+        else if (name === 'code') out += '`';
+        else if (name === 'br') out += '  \n';
+        else if (name === 'a') {
+            if (closing) out += `](${links.pop() || ''})`;
+            else {
+                links.push(decodeEntities(/href="([^"]*)"/i.exec(attributes)?.[1] || ''));
+                out += '[';
+            }
+        }
+    }
+    // Emphasis markers must touch the text they wrap
+    return out.replace(/(\*\*|~~|\*)(\s+)/g, (match, marker, space, offset, all) =>
+        /\S/.test(all[offset - 1] || '') ? match : space + marker);
+}
+
+function tableMarkdown(table: string): string {
+    const rows = Array.from(table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)).map(row =>
+        Array.from(row[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)).map(cell =>
+            inlineMarkdown(cell[1].replace(/<\/p>\s*<p[^>]*>/gi, '<br>').replace(/<\/?p[^>]*>/gi, ''))
+                .replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|').trim()));
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/** Section HTML as Markdown; plain text (no tags) is returned as it is */
+export function htmlToMarkdown(html?: string | null): string {
+    const source = (html || '').replace(/\r/g, '');
+    if (!isHtml(source)) return source.trim();
+
+    const blocks: string[] = [];
+    const lists: { ordered: boolean; count: number }[] = [];
+    // Blocks that open a new top-level list, so two lists in a row stay apart
+    const listStarts = new Set<number>();
+    let inline = '';
+    let prefix = '';
+    // The prefix (heading marks, list bullet) stays until text is written, so "<li><p>text</p></li>" keeps its bullet
+    const flush = () => {
+        // Text that would read back as a heading, quote or list item is escaped
+        const text = inlineMarkdown(inline).replace(/^\s+|\s+$/g, '')
+            .replace(/^([#>+-])(?=[\s#])/, '\\$1').replace(/^(\d+)([.)])(?=\s)/, '$1\\$2');
+        if (text) {
+            blocks.push(prefix + text.replace(/\n/g, `\n${' '.repeat(prefix.length)}`));
+            prefix = '';
+        }
+        inline = '';
+    };
+
+    const parts = source.split(/(<table[\s\S]*?<\/table>)/i);
+    parts.forEach((part, index) => {
+        if (index % 2 === 1) {
+            flush();
+            blocks.push(tableMarkdown(part));
+            return;
+        }
+        for (const token of part.match(/<[^>]+>|[^<]+/g) || []) {
+            const tag = /^<(\/?)([a-z][\w-]*)[^>]*>$/i.exec(token);
+            const name = tag?.[2].toLowerCase();
+            const closing = !!tag?.[1];
+            if (name && /^(p|div|h[1-6]|blockquote|section|article)$/.test(name)) {
+                flush();
+                if (name[0] === 'h') prefix = closing ? '' : `${'#'.repeat(parseInt(name[1]))} `;
+                if (name === 'blockquote') prefix = closing ? '' : '> ';
+            } else if (name === 'ul' || name === 'ol') {
+                flush();
+                if (closing) lists.pop();
+                else {
+                    if (lists.length === 0) listStarts.add(blocks.length);
+                    lists.push({ ordered: name === 'ol', count: 0 });
+                }
+            } else if (name === 'li') {
+                flush();
+                const list = lists[lists.length - 1];
+                prefix = '';
+                if (!closing && list) {
+                    list.count++;
+                    prefix = `${'   '.repeat(lists.length - 1)}${list.ordered ? `${list.count}.` : '-'} `;
+                }
+            } else if (name === 'hr') {
+                flush();
+                blocks.push('---');
+            } else {
+                inline += token;
+            }
+        }
+    });
+    flush();
+
+    // List items are kept together; other blocks are separated by a blank line
+    return blocks.reduce((out, block, i) => {
+        if (i === 0) return block;
+        const listItem = (b: string) => /^\s*(-|\d+\.) /.test(b);
+        return out + (listItem(block) && listItem(blocks[i - 1]) && !listStarts.has(i) ? '\n' : '\n\n') + block;
+    }, '');
+}
+
+function inlineHtml(markdown: string): string {
+    const escapes: string[] = [];
+    const code: string[] = [];
+    let text = markdown
+        .replace(/\\([\\`*_[\]~|#>+\-.!])/g, (_, c) => `\u0000${escapes.push(c) - 1}\u0000`)
+        .replace(/`([^`]+)`/g, (_, c) => `\u0001${code.push(c) - 1}\u0001`);
+    text = escapeHtml(text)
+        .replace(/\[([^\]]*)\]\(([^)\s]*)\)/g, (_, label, href) => `<a href="${href}">${label}</a>`)
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|\W)__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+        .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+        // "_" only emphasises at word edges, so snake_case stays as it is
+        .replace(/(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+        .replace(/( {2,}|\\)\n/g, '<br>')
+        .replace(/\n/g, ' ');
+    return text
+        .replace(/\u0001(\d+)\u0001/g, (_, i) => `<code>${escapeHtml(code[parseInt(i)])}</code>`)
+        .replace(/\u0000(\d+)\u0000/g, (_, i) => escapeHtml(escapes[parseInt(i)]));
+}
+
+const tableCells = (line: string) =>
+    line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+/** Markdown as the HTML the editor stores */
+export function markdownToHtml(markdown?: string | null): string {
+    const lines = (markdown || '').replace(/\r/g, '').split('\n');
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    const flush = () => {
+        if (paragraph.length) html.push(`<p>${inlineHtml(paragraph.join('\n'))}</p>`);
+        paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim()) {
+            flush();
+            continue;
+        }
+        const heading = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+        if (heading) {
+            flush();
+            html.push(`<h${heading[1].length}>${inlineHtml(heading[2])}</h${heading[1].length}>`);
+            continue;
+        }
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) && !paragraph.length) {
+            html.push('<hr>');
+            continue;
+        }
+        if (line.trim().startsWith('|') && /^\s*\|?\s*:?-{3,}/.test(lines[i + 1] || '')) {
+            flush();
+            const header = tableCells(line);
+            const rows: string[][] = [];
+            for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) rows.push(tableCells(lines[i]));
+            i--;
+            html.push(`<table><thead><tr>${header.map(cell => `<th>${inlineHtml(cell)}</th>`).join('')}</tr></thead>`
+                + `<tbody>${rows.map(row => `<tr>${header.map((_, c) => `<td>${inlineHtml(row[c] || '')}</td>`).join('')}</tr>`).join('')}</tbody></table>`);
+            continue;
+        }
+        if (LIST_ITEM.test(line)) {
+            flush();
+            // Items and their continuation lines, nested by indentation
+            const stack: { indent: number; tag: string }[] = [];
+            let out = '';
+            let open = false;
+            for (; i < lines.length; i++) {
+                const item = LIST_ITEM.exec(lines[i]);
+                if (!item) {
+                    if (!lines[i].trim() || !open) break;
+                    out = out.replace(/<\/li>$/, '') + ` ${inlineHtml(lines[i].trim())}</li>`;
+                    continue;
+                }
+                const indent = item[1].length;
+                const tag = /\d/.test(item[2]) ? 'ol' : 'ul';
+                while (stack.length && indent < stack[stack.length - 1].indent) out += `</${stack.pop()!.tag}></li>`;
+                if (!stack.length || indent > stack[stack.length - 1].indent) {
+                    if (stack.length) out = out.replace(/<\/li>$/, '');
+                    stack.push({ indent, tag });
+                    out += `<${tag}>`;
+                }
+                out += `<li>${inlineHtml(item[3])}</li>`;
+                open = true;
+            }
+            while (stack.length) out += `</${stack.pop()!.tag}>${stack.length ? '</li>' : ''}`;
+            html.push(out);
+            i--;
+            continue;
+        }
+        const quote = /^>\s?(.*)$/.exec(line);
+        if (quote && !paragraph.length) {
+            html.push(`<blockquote><p>${inlineHtml(quote[1])}</p></blockquote>`);
+            continue;
+        }
+        paragraph.push(line);
+    }
+    flush();
+    return html.join('');
+}
+
+// --- YAML front matter ---
+
+const PLAIN_KEY = /^[A-Za-z_][\w-]*$/;
+// Plain scalars that read back as the same string: no leading indicator, no ": " or " #", not a number or keyword
+const isPlain = (text: string) =>
+    /^[A-Za-z][^\n]*$/.test(text) && !/:\s|:$|\s#|\s$/.test(text) && !/^(true|false|null|yes|no|on|off|~)$/i.test(text);
+
+function scalar(value: any): string {
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    const text = String(value);
+    return isPlain(text) ? text : JSON.stringify(text);
+}
+
+// Multi-line text as a "|-" block, unless the block could not give back the exact string
+const isBlockText = (value: any) =>
+    typeof value === 'string' && value.includes('\n') && !/^\s|\s$|\r|\t/.test(value) && !/ \n/.test(value);
+
+function yamlLines(value: any, indent: string): string[] {
+    if (Array.isArray(value)) {
+        if (value.length === 0) return [`${indent}[]`];
+        return value.flatMap(item => {
+            if (item && typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length > 0) {
+                const nested = yamlLines(item, `${indent}  `);
+                return [`${indent}- ${nested[0].trimStart()}`, ...nested.slice(1)];
+            }
+            if (Array.isArray(item) && item.length > 0) return [`${indent}-`, ...yamlLines(item, `${indent}  `)];
+            if (isBlockText(item)) return [`${indent}- |-`, ...item.split('\n').map((line: string) => (line ? `${indent}  ${line}` : ''))];
+            return [`${indent}- ${typeof item === 'object' && item ? (Array.isArray(item) ? '[]' : '{}') : scalar(item)}`];
+        });
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+        if (entries.length === 0) return [`${indent}{}`];
+        return entries.flatMap(([key, v]) => {
+            const name = PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+            if (isBlockText(v)) return [`${indent}${name}: |-`, ...(v as string).split('\n').map(line => (line ? `${indent}  ${line}` : ''))];
+            if (v && typeof v === 'object' && Object.keys(v).length > 0) return [`${indent}${name}:`, ...yamlLines(v, `${indent}  `)];
+            if (v && typeof v === 'object') return [`${indent}${name}: ${Array.isArray(v) ? '[]' : '{}'}`];
+            return [`${indent}${name}: ${scalar(v)}`];
+        });
+    }
+    return [`${indent}${scalar(value)}`];
+}
+
+export const toYaml = (value: Record<string, any>) => yamlLines(value, '').join('\n');
+
+function parseScalar(raw: string): any {
+    const text = raw.trim();
+    if (text.startsWith('"')) return JSON.parse(text);
+    if (text.startsWith("'")) return text.slice(1, text.lastIndexOf("'")).replace(/''/g, "'");
+    const value = text.replace(/\s+#.*$/, '');
+    if (value === '' || value === '~' || value === 'null') return null;
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value === '[]') return [];
+    if (value === '{}') return {};
+    if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)) return parseFloat(value);
+    if (value.startsWith('[') && value.endsWith(']')) {
+        return value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== null);
+    }
+    return value;
+}
+
+interface YamlLine {
+    indent: number;
+    text: string;
+    number: number;
+}
+
+class YamlParser {
+    private lines: YamlLine[];
+    private raw: string[];
+    private pos = 0;
+
+    constructor(text: string) {
+        this.raw = text.replace(/\r/g, '').split('\n');
+        this.lines = this.raw
+            .map((line, number) => ({ indent: line.length - line.trimStart().length, text: line.trim(), number }))
+            .filter(line => line.text && !line.text.startsWith('#'));
+    }
+
+    parse(): any {
+        if (this.lines.length === 0) return {};
+        const value = this.block(this.lines[0].indent);
+        if (this.pos < this.lines.length) throw new Error(`YAML line ${this.lines[this.pos].number + 1}: unexpected indentation`);
+        return value;
+    }
+
+    private block(indent: number): any {
+        const first = this.lines[this.pos];
+        return first.text === '-' || first.text.startsWith('- ') ? this.sequence(indent) : this.mapping(indent);
+    }
+
+    // A "|" block scalar: the raw lines after `line` that are blank or indented deeper
+    private blockText(line: YamlLine, keep: boolean): string {
+        const collected: string[] = [];
+        let r = line.number + 1;
+        for (; r < this.raw.length; r++) {
+            const text = this.raw[r];
+            if (text.trim() && text.length - text.trimStart().length <= line.indent) break;
+            collected.push(text);
+        }
+        while (collected.length && !collected[collected.length - 1].trim()) collected.pop();
+        const depth = Math.min(...collected.filter(t => t.trim()).map(t => t.length - t.trimStart().length));
+        while (this.pos < this.lines.length && this.lines[this.pos].number < r) this.pos++;
+        return collected.map(t => t.slice(depth)).join('\n') + (keep ? '\n' : '');
+    }
+
+    private value(line: YamlLine, rest: string, childIndent: number): any {
+        if (rest === '|' || rest === '|-' || rest === '|+') return this.blockText(line, rest === '|');
+        if (rest) return parseScalar(rest);
+        const next = this.lines[this.pos];
+        if (next && (next.indent > line.indent || (next.indent === line.indent && next.text.startsWith('-') && childIndent > line.indent))) {
+            return this.block(next.indent);
+        }
+        return null;
+    }
+
+    private sequence(indent: number): any[] {
+        const items: any[] = [];
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent !== indent || !(line.text === '-' || line.text.startsWith('- '))) break;
+            const rest = line.text.slice(1).trim();
+            const itemIndent = indent + line.text.indexOf(rest.charAt(0) || ' ', 1);
+            if (rest && /^("[^"]*"|[^\s"'[{][^:]*):(\s|$)/.test(rest) && !rest.startsWith('|')) {
+                // "- key: value" starts a mapping whose keys are aligned with "key"
+                this.lines[this.pos] = { ...line, indent: itemIndent, text: rest };
+                items.push(this.mapping(itemIndent));
+            } else {
+                this.pos++;
+                items.push(this.value(line, rest, -1));
+            }
+        }
+        return items;
+    }
+
+    private mapping(indent: number): Record<string, any> {
+        const result: Record<string, any> = {};
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent !== indent || line.text.startsWith('- ') || line.text === '-') break;
+            const match = /^("(?:[^"\\]|\\.)*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/.exec(line.text);
+            if (!match) throw new Error(`YAML line ${line.number + 1}: expected "key: value"`);
+            const key = match[1].startsWith('"') ? JSON.parse(match[1]) : match[1].replace(/^'|'$/g, '');
+            this.pos++;
+            result[key] = this.value(line, (match[2] || '').trim(), indent + 1);
+        }
+        return result;
+    }
+}
+
+export const parseYaml = (text: string): any => new YamlParser(text).parse();
+
+/** Splits "---\nyaml\n---\nbody"; a file without front matter has empty data */
+export function parseFrontMatter(text: string): { data: Record<string, any>; body: string } {
+    const match = /^\uFEFF?---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)([\s\S]*)$/.exec(text.replace(/\r/g, ''));
+    if (!match) return { data: {}, body: text };
+    const data = parseYaml(match[1]);
+    return { data: data && typeof data === 'object' && !Array.isArray(data) ? data : {}, body: match[2] };
+}
+
+export const withFrontMatter = (data: Record<string, any>, body: string) => `---\n${toYaml(data)}\n---\n\n${body.trim()}\n`;
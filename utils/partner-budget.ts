@@ -0,0 +1,132 @@
+// Per-partner view of the budget: partners x cost categories, the partner's share of the total,
+// and how its costs split into requested EU contribution and own contribution (co-financing).
+// Free-form and lump-sum budgets are split over partners by `partnerAllocations`; actual-cost
+// budgets by the partner each line is declared by.
+
+import type { FullProposal } from '../types/proposal';
+import type { ShareBounds } from '../types/funding-scheme';
+import { getBudgetModel, getFundingScheme } from './lump-sum';
+import { COST_CATEGORIES, UNASSIGNED_PARTNER, actualCostSummary, getActualCostRules } from './actual-cost';
+
+export interface PartnerBudgetRow {
+    partner: string;
+    isCoordinator: boolean;
+    amounts: number[]; // Per category, in the order of PartnerBudgetMatrix.categories
+    total: number;
+    share: number; // % of the budget total
+    euContribution: number;
+    ownContribution: number;
+}
+
+export interface PartnerBudgetMatrix {
+    categories: string[];
+    rows: PartnerBudgetRow[];
+    unallocated: number[]; // Per category: cost not assigned to any partner
+    total: number;
+    editable: boolean; // Only free-form allocations are typed in; the other models derive them
+}
+
+export interface PartnerShareWarning {
+    partner: string;
+    message: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getCoFinancingRate = (proposal: FullProposal) => {
+    const rate = getFundingScheme(proposal)?.template_json?.budget?.coFinancingRate;
+    return typeof rate === 'number' ? rate : 100;
+};
+
+// The coordinator is the partner flagged as such, else the first one
+const coordinatorName = (proposal: FullProposal) => {
+    const partners = proposal.partners || [];
+    return (partners.find(p => p.isCoordinator) || partners[0])?.name;
+};
+
+export function partnerBudgetMatrix(proposal: FullProposal): PartnerBudgetMatrix {
+    const names = (proposal.partners || []).map(p => p.name).filter(Boolean);
+    const coordinator = coordinatorName(proposal);
+    const model = getBudgetModel(proposal);
+
+    if (model === 'actual-cost') {
+        // Indirect costs are a column of their own here, as in Part A
+        const { rows, total } = actualCostSummary(proposal, getActualCostRules(proposal));
+        const byPartner = new Map(rows.map(row => [row.partner, row]));
+        const unassigned = byPartner.get(UNASSIGNED_PARTNER);
+        return {
+            categories: [...COST_CATEGORIES.map(c => `${c.code} ${c.label}`), 'E Indirect costs'],
+            rows: names.map(name => {
+                const row = byPartner.get(name);
+                const amounts = row ? [...COST_CATEGORIES.map(c => row.categories[c.key]), row.indirect] : COST_CATEGORIES.map(() => 0).concat(0);
+                const partnerTotal = row?.total || 0;
+                return {
+                    partner: name,
+                    isCoordinator: name === coordinator,
+                    amounts,
+                    total: partnerTotal,
+                    share: total.total > 0 ? round2((partnerTotal / total.total) * 100) : 0,
+                    euContribution: row?.euContribution || 0,
+                    ownContribution: partnerTotal - (row?.euContribution || 0),
+                };
+            }),
+            unallocated: unassigned ? [...COST_CATEGORIES.map(c => unassigned.categories[c.key]), unassigned.indirect] : COST_CATEGORIES.map(() => 0).concat(0),
+            total: total.total,
+            editable: false,
+        };
+    }
+
+    const budget = proposal.budget || [];
+    const rate = getCoFinancingRate(proposal);
+    const allocated = (partner: string) => budget.map(item =>
+        (item.partnerAllocations || []).filter(a => a.partner === partner).reduce((sum, a) => sum + (a.amount || 0), 0));
+    const total = budget.reduce((sum, item) => sum + (item.cost || 0), 0);
+
+    const rows = names.map(name => {
+        const amounts = allocated(name);
+        const partnerTotal = amounts.reduce((sum, amount) => sum + amount, 0);
+        const euContribution = Math.round((partnerTotal * rate) / 100);
+        return {
+            partner: name,
+            isCoordinator: name === coordinator,
+            amounts,
+            total: partnerTotal,
+            share: total > 0 ? round2((partnerTotal / total) * 100) : 0,
+            euContribution,
+            ownContribution: partnerTotal - euContribution,
+        };
+    });
+
+    return {
+        categories: budget.map(item => item.item),
+        rows,
+        unallocated: budget.map((item, i) => (item.cost || 0) - rows.reduce((sum, row) => sum + row.amounts[i], 0)),
+        total,
+        editable: model === 'free-form',
+    };
+}
+
+const outside = (share: number, bounds?: ShareBounds) => {
+    if (!bounds) return null;
+    if (typeof bounds.min === 'number' && share < bounds.min) return `below the minimum of ${bounds.min}%`;
+    if (typeof bounds.max === 'number' && share > bounds.max) return `above the maximum of ${bounds.max}%`;
+    return null;
+};
+
+/** Partners whose share of the budget falls outside the scheme's bounds */
+export function checkPartnerShares(proposal: FullProposal, matrix: PartnerBudgetMatrix = partnerBudgetMatrix(proposal)): PartnerShareWarning[] {
+    const rules = getFundingScheme(proposal)?.template_json?.budget;
+    if (!rules || matrix.total <= 0) return [];
+
+    const warnings: PartnerShareWarning[] = [];
+    for (const row of matrix.rows) {
+        const coordinatorIssue = row.isCoordinator ? outside(row.share, rules.coordinatorShare) : null;
+        if (coordinatorIssue) {
+            warnings.push({ partner: row.partner, message: `The coordinator's share (${row.share}%) is ${coordinatorIssue}` });
+            continue;
+        }
+        const partnerIssue = outside(row.share, rules.partnerShare);
+        if (partnerIssue) warnings.push({ partner: row.partner, message: `${row.partner}'s share (${row.share}%) is ${partnerIssue}` });
+    }
+    return warnings;
+}
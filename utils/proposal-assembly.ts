@@ -11,6 +11,11 @@ export interface DisplaySection {
     isCustom?: boolean;
     isDivider?: boolean;
     charLimit?: number;
+    wordLimit?: number;
+    pageLimit?: number;
+    mandatory?: boolean;
+    sourceKeys?: string[]; // Proposal fields or dynamic sections the content was taken from, in order
+    templateKey?: string; // FundingSchemeSection.key of template sections
     order?: number;
 }
 
@@ -136,6 +141,11 @@ export function assembleDocument(proposal: FullProposal): DisplaySection[] {
                     level: (isWPHeader || MASTER_ORDER[nl]) ? 1 : level,
                     wpIdx: wpIdx,
                     type: isWPHeader ? 'work_package' : (wpIdx !== undefined ? 'wp_item' : s.type),
+                    charLimit: s.charLimit || undefined,
+                    wordLimit: s.wordLimit || undefined,
+                    pageLimit: s.pageLimit || undefined,
+                    mandatory: !!s.mandatory,
+                    templateKey: s.key,
                     order: getPriority(bk, s.label) + (sIdx * 0.001)
                 });
 
@@ -205,8 +215,10 @@ export function assembleDocument(proposal: FullProposal): DisplaySection[] {
             // Only update if current content is shorter or empty
             if (!s.content || val.length > s.content.length) {
                 s.content = val;
+                s.sourceKeys = [key];
             } else if (!s.content.toLowerCase().includes(val.substring(0, 20).toLowerCase())) {
                 s.content += "\n\n" + val;
+                s.sourceKeys = [...(s.sourceKeys || []), key];
             }
         } else {
             // Only if it doesn't look like internal data
@@ -214,7 +226,7 @@ export function assembleDocument(proposal: FullProposal): DisplaySection[] {
                 sectionPool.set(`custom_${key}`, {
                     id: `custom_${key}`,
                     title: wpIdx !== undefined ? formatWPTitle(wpIdx, key) : (cleanTitle(key) || key),
-                    content: val, level: 1, wpIdx: wpIdx, order: getPriority(key)
+                    content: val, sourceKeys: [key], level: 1, wpIdx: wpIdx, order: getPriority(key)
                 });
             }
         }
@@ -235,6 +247,7 @@ export function assembleDocument(proposal: FullProposal): DisplaySection[] {
 
                 if (bgParts.length > 0) {
                     s.content = bgParts.join("\n\n");
+                    s.sourceKeys = undefined;
                     console.log(`Populated empty background section "${s.title}" from Coordinator data`);
                 }
             }
@@ -279,7 +292,16 @@ export function assembleDocument(proposal: FullProposal): DisplaySection[] {
     if ((proposal.risks || []).length > 0) ensureHeader('rm', 'Risk Management', 'risk');
 
     const sumVal = proposal.summary || (proposal as any).abstract || dynamicSections['summary'];
-    if (sumVal) sectionPool.set('summary', { id: 'summary', title: 'Executive Summary', content: sumVal, level: 1, order: 0 });
+    if (sumVal) {
+        // The summary is rendered on its own, but takes over the limits of the template's (empty) summary section
+        const templateSummary = Array.from(sectionPool.values()).find(s => ['summary', 'abstract', 'projectsummary'].includes(normalize(s.title)));
+        if (templateSummary && !templateSummary.content) sectionPool.delete(templateSummary.id);
+        sectionPool.set('summary', {
+            id: 'summary', title: 'Executive Summary', content: sumVal, sourceKeys: ['summary'], level: 1, order: 0,
+            charLimit: templateSummary?.charLimit, wordLimit: templateSummary?.wordLimit, pageLimit: templateSummary?.pageLimit,
+            mandatory: templateSummary?.mandatory,
+        });
+    }
 
     // 6. Injection
     let items = Array.from(sectionPool.values()).sort((a, b) => (a.order ?? 5000) - (b.order ?? 5000));
@@ -298,8 +320,8 @@ export function assembleDocument(proposal: FullProposal): DisplaySection[] {
         // Always show structured data sections
         if (['wp_list', 'partners', 'budget', 'risk', 'work_package', 'partner_profiles'].includes(type)) return true;
 
-        // Show all level 1 and level 2 sections (headers) even if empty
-        if (s.level <= 2) return true;
+        // Show all level 1 and level 2 sections (headers) even if empty, and mandatory ones at any depth
+        if (s.level <= 2 || s.mandatory) return true;
 
         // For others, only show if they have real content
         return !!(s.content && s.content.trim().length > 10);
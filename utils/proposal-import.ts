@@ -0,0 +1,90 @@
+// Importing existing Word proposals: the server reads the DOCX (POST /proposals/import-docx), the user
+// reviews which scheme section each heading goes to, and the confirmed mapping becomes a new proposal.
+
+import type { FullProposal } from '../types/proposal';
+import type { FundingScheme } from '../types/funding-scheme';
+import type { ImportedProposal, ImportedSection } from '../types/proposal-import';
+import { serverUrl, publicAnonKey } from './supabase/info';
+import { cleanHtml } from './export-docx';
+
+export async function readProposalDocx(file: File, fundingSchemeId?: string): Promise<ImportedProposal> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (fundingSchemeId) formData.append('fundingSchemeId', fundingSchemeId);
+
+    const response = await fetch(`${serverUrl}/proposals/import-docx`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${publicAnonKey}` },
+        body: formData,
+    });
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || 'Could not read the document');
+    }
+    return response.json();
+}
+
+// "2.1 Our Approach" -> "our_approach", made unique among the keys already used
+function customSectionKey(heading: string, used: Record<string, string>): string {
+    const base = heading.toLowerCase().replace(/^[\d.\s]+/, '').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'imported_section';
+    let key = base;
+    for (let n = 2; used[key] !== undefined; n++) key = `${base}_${n}`;
+    return key;
+}
+
+/** The new proposal for a reviewed import; sections without a target are left out */
+export function buildImportedProposal(imported: ImportedProposal, sections: ImportedSection[], title: string, scheme?: FundingScheme | null): FullProposal {
+    const dynamicSections: Record<string, string> = {};
+    const workPackages = imported.workPackages.map(wp => ({ ...wp }));
+    let summary = '';
+
+    for (const section of sections) {
+        const target = section.target;
+        if (!target || !section.content.trim()) continue;
+
+        if (target === '@summary') {
+            summary = [summary, section.content].filter(Boolean).join('\n');
+        } else if (target.startsWith('@wp:')) {
+            // Work package descriptions are plain text; sub-headings inside a WP are kept as paragraphs
+            const wp = workPackages[parseInt(target.slice(4))];
+            if (wp) wp.description = [wp.description, cleanHtml(section.content)].filter(Boolean).join('\n\n');
+        } else if (target === '@custom') {
+            dynamicSections[customSectionKey(section.heading, dynamicSections)] = section.content;
+        } else {
+            dynamicSections[target] = [dynamicSections[target], section.content].filter(Boolean).join('\n');
+        }
+    }
+
+    const now = new Date().toISOString();
+    return {
+        title: title.trim() || imported.title,
+        summary,
+        relevance: '',
+        methods: '',
+        impact: '',
+        partners: [],
+        workPackages,
+        milestones: [],
+        risks: imported.risks,
+        budget: imported.budget,
+        timeline: [],
+        dynamicSections,
+        ...(scheme ? { fundingSchemeId: scheme.id, funding_scheme_id: scheme.id } : {}),
+        settings: { currency: 'EUR' },
+        generatedAt: now,
+        savedAt: now,
+    } as FullProposal;
+}
+
+export async function createImportedProposal(proposal: FullProposal): Promise<FullProposal> {
+    const response = await fetch(`${serverUrl}/proposals`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${publicAnonKey}`,
+        },
+        body: JSON.stringify(proposal),
+    });
+    if (!response.ok) throw new Error('Failed to save the imported proposal');
+    return response.json();
+}
@@ -0,0 +1,96 @@
+// Staff effort: person-months per work package and partner, as in the "Summary of staff effort" table.
+// Stored on the proposal as one partner name -> person-months record per work package.
+
+import type { FullProposal, BudgetItem } from '../types/proposal';
+import { getBudgetModel } from './lump-sum';
+import { itemCost } from './actual-cost';
+
+export interface StaffEffortIssue {
+    level: 'error' | 'warning';
+    message: string;
+}
+
+// Person-months per work package and partner, in the order of proposal.workPackages / proposal.partners
+export interface StaffEffortMatrix {
+    workPackages: { partners: number[]; total: number }[];
+    partnerTotals: number[];
+    total: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const sum = (values: number[]) => values.reduce((total, value) => total + (value || 0), 0);
+
+// Free-form and lump-sum budgets have no cost categories, so personnel lines are recognised by name
+const isPersonnelItem = (item: BudgetItem) =>
+    item.category ? item.category === 'personnel' : /staff|personnel|salar|researcher/i.test(item.item || '');
+
+/** One record per current work package; work packages added since the last save start empty */
+export const syncStaffEffort = (proposal: FullProposal): Record<string, number>[] =>
+    (proposal.workPackages || []).map((_, i) => ({ ...proposal.staffEffort?.[i] }));
+
+export function staffEffortMatrix(proposal: FullProposal): StaffEffortMatrix {
+    const names = (proposal.partners || []).map(p => p.name);
+    const effort = syncStaffEffort(proposal);
+    const workPackages = effort.map(record => {
+        const partners = names.map(name => record[name] || 0);
+        return { partners, total: round1(sum(partners)) };
+    });
+    const partnerTotals = names.map((_, p) => round1(sum(workPackages.map(wp => wp.partners[p]))));
+    return { workPackages, partnerTotals, total: round1(sum(partnerTotals)) };
+}
+
+/** Personnel cost and declared person-months per partner, from the budget lines */
+const personnelBudget = (proposal: FullProposal, partner: string) => {
+    const budget = proposal.budget || [];
+    if (getBudgetModel(proposal) === 'actual-cost') {
+        const lines = budget.filter(item => item.partner === partner && item.category === 'personnel');
+        return {
+            cost: sum(lines.map(itemCost)),
+            personMonths: lines.some(item => item.personMonths !== undefined) ? round1(sum(lines.map(item => item.personMonths || 0))) : null,
+        };
+    }
+    const cost = sum(budget.filter(isPersonnelItem).map(item =>
+        sum((item.partnerAllocations || []).filter(a => a.partner === partner).map(a => a.amount))));
+    return { cost, personMonths: null };
+};
+
+const involves = (activity: { leadPartner: string; participatingPartners: string[] }, names: string[]) =>
+    [activity.leadPartner, ...(activity.participatingPartners || [])]
+        .some(entry => names.some(name => entry?.trim().toLowerCase() === name.toLowerCase()));
+
+/**
+ * Effort that does not match the rest of the proposal: partners with person-months in a work package
+ * whose activities they take no part in, and person-months without personnel costs (or the reverse).
+ * For actual-cost budgets the person-months of the personnel lines must add up to the matrix.
+ */
+export function checkStaffEffort(proposal: FullProposal, matrix: StaffEffortMatrix = staffEffortMatrix(proposal)): StaffEffortIssue[] {
+    const issues: StaffEffortIssue[] = [];
+    const partners = proposal.partners || [];
+
+    (proposal.workPackages || []).forEach((wp, i) => {
+        if (!wp.activities?.length) return;
+        partners.forEach((partner, p) => {
+            const aliases = [partner.name, partner.acronym].filter(Boolean) as string[];
+            if (matrix.workPackages[i]?.partners[p] > 0 && !wp.activities.some(activity => involves(activity, aliases))) {
+                issues.push({ level: 'warning', message: `${partner.acronym || partner.name} has effort in WP${i + 1} but takes part in none of its activities` });
+            }
+        });
+    });
+
+    if (matrix.total === 0) return issues;
+
+    partners.forEach((partner, p) => {
+        const label = partner.acronym || partner.name;
+        const effort = matrix.partnerTotals[p];
+        const personnel = personnelBudget(proposal, partner.name);
+        if (personnel.personMonths !== null && Math.abs(personnel.personMonths - effort) >= 0.1) {
+            issues.push({ level: 'error', message: `${label}: ${effort} PM in the effort table but ${personnel.personMonths} PM in the personnel costs` });
+        } else if (effort > 0 && personnel.cost === 0) {
+            issues.push({ level: 'warning', message: `${label} has ${effort} PM of effort but no personnel costs in the budget` });
+        } else if (effort === 0 && personnel.cost > 0) {
+            issues.push({ level: 'warning', message: `${label} has personnel costs in the budget but no effort` });
+        }
+    });
+
+    return issues;
+}